@@ -1,17 +1,102 @@
-import React, { useState, useCallback, useEffect, useRef } from 'react';
-import { extractNamesFromText, analyzeScholarPublications, extractProfessorEmailFromScholarHomepage } from './services/geminiService';
-import { fetchScholarPublications } from './services/serpApiService';
-import { Researcher, AnalysisStatus } from './types';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import {
+  extractResearchersFromText,
+  fetchDocumentText,
+  analyzeScholarPublications,
+  extractProfessorEmailFromScholarHomepage,
+  rescoreScholarPublications
+} from './services/geminiService';
+import {
+  applyScholarFetchSettings,
+  fetchScholarPublications,
+  loadScholarFetchSettings,
+  saveScholarFetchSettings,
+  ScholarAuthorData
+} from './services/serpApiService';
+import {
+  loadCampaigns,
+  loadResearchers,
+  persistCampaignChanges,
+  persistResearcherChanges,
+  appendResearchersToCampaign,
+  replaceWorkspace
+} from './services/storageService';
+import {
+  createCampaign,
+  duplicateCampaign,
+  cloneResearchersForCampaign,
+  sortCampaigns,
+  createId,
+  DEFAULT_CAMPAIGN_NAME
+} from './services/campaignService';
+import { loadLetterAiSettings, saveLetterAiSettings } from './services/letterSettingsService';
+import { loadLlmSettings, saveLlmSettings } from './services/llmSettingsService';
+import { applyLlmSettings } from './services/llmService';
+import {
+  ResponseCacheOptions,
+  applyResponseCacheSettings,
+  loadResponseCacheSettings,
+  saveResponseCacheSettings
+} from './services/responseCacheService';
+import {
+  BundleImportMode,
+  CampaignBundlePreview,
+  ProjectBundle,
+  buildProjectBundle,
+  findMergeTarget,
+  mergeCampaignFields,
+  mergeResearcherLists,
+  parseProjectBundle,
+  previewProjectBundle
+} from './services/bundleService';
+import { downloadFile, getFileDateStamp, readFileAsBase64, readFileAsText } from './services/fileService';
+import { getDocumentKind, htmlToText, MAX_PDF_UPLOAD_BYTES, splitTextIntoChunks } from './services/documentText';
+import { ResearcherExportFormat, buildResearcherExport } from './services/exportService';
+import { parseDelimited } from './services/csvService';
+import { RosterRowPreview, buildResearchersFromRoster } from './services/rosterImportService';
+import { applyInterestScoring, isResearcherScoreStale } from './services/matchScoring';
+import { loadRecencySettings, saveRecencySettings } from './services/recencyScoring';
+import { CITATION_SORT_OPTIONS, parseCitationMetrics } from './services/citationMetrics';
+import { toResearcherPublications, toScholarArticles } from './services/publicationList';
+import { buildResearchersFromSuggestions, ResearcherSuggestion } from './services/researcherSuggestions';
+import { ACADEMIC_RANK_OPTIONS, buildResearchersFromExtraction } from './services/researcherExtraction';
+import { findDuplicateCandidates, mergeResearchers } from './services/researcherDedupe';
+import {
+  Researcher,
+  AcademicRank,
+  AnalysisStatus,
+  Campaign,
+  InterestPreferences,
+  InterestScoringOptions,
+  LetterAiSettings,
+  LlmSettings,
+  RecencySettings,
+  ResponseCacheSettings,
+  ScholarFetchSettings
+} from './types';
 import { InputSection } from './components/InputSection'; // Keeping for reference until fully replaced
 import { NavBar } from './components/NavBar';
 import { ProfileSection } from './components/ProfileSection';
 import { ProfessorSearchSection } from './components/ProfessorSearchSection';
 import { CustomizeLetterSection } from './components/CustomizeLetterSection';
-import { ResultsGrid } from './components/ResultsGrid';
-import { FlaskConical, AlertCircle, Loader2, Play, Search, Star, LayoutGrid, RotateCw, Sparkles, X } from 'lucide-react';
+import { ResultsGrid, ResultsSortKey } from './components/ResultsGrid';
+import { ImportProjectModal } from './components/ImportProjectModal';
+import { ImportRosterModal } from './components/ImportRosterModal';
+import { CoauthorNetworkModal } from './components/CoauthorNetworkModal';
+import { SuggestedResearchersModal } from './components/SuggestedResearchersModal';
+import { DuplicateReviewModal } from './components/DuplicateReviewModal';
+import { FlaskConical, AlertCircle, Loader2, Play, Search, Star, LayoutGrid, RotateCw, Sparkles, X, FileSpreadsheet, Network, UserPlus, Copy, Globe, FileUp } from 'lucide-react';
+
+interface PendingProjectImport {
+  fileName: string;
+  bundle: ProjectBundle;
+  preview: CampaignBundlePreview[];
+  mode: BundleImportMode;
+}
 
 const AUTO_RETRY_MAX_RETRIES = 2;
 const AUTO_RETRY_BASE_DELAY_MS = 1000;
+const RESCORE_CONCURRENCY = 4;
 
 const runWithConcurrency = async <T,>(
   items: T[],
@@ -52,25 +137,109 @@ const isRetriableError = (error: unknown): boolean => {
   );
 };
 
+/** Runs `task`, retrying transient failures (rate limits, 5xx, network) with exponential backoff. */
+const runWithAutoRetry = async <T,>(label: string, task: () => Promise<T>): Promise<T> => {
+  const maxAttempts = AUTO_RETRY_MAX_RETRIES + 1;
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await task();
+    } catch (attemptError) {
+      if (attempt === maxAttempts || !isRetriableError(attemptError)) {
+        throw attemptError;
+      }
+
+      const backoffMs = AUTO_RETRY_BASE_DELAY_MS * Math.pow(2, attempt - 1);
+      console.warn(
+        `[Web App] Retrying ${label} (${attempt + 1}/${maxAttempts}) after ${backoffMs}ms due to transient error:`,
+        attemptError
+      );
+      await sleep(backoffMs);
+    }
+  }
+};
+
 export default function App() {
-  const [userInterests, setUserInterests] = useState('');
-  const [letterTemplate, setLetterTemplate] = useState('');
-  const [emailTitle, setEmailTitle] = useState('');
-  const [university, setUniversity] = useState('');
+  const [campaigns, setCampaigns] = useState<Campaign[]>([]);
+  const [activeCampaignId, setActiveCampaignId] = useState<string | null>(null);
   const [rawText, setRawText] = useState('');
   
   const [researchers, setResearchers] = useState<Researcher[]>([]);
   const [isExtracting, setIsExtracting] = useState(false);
+  const [extractionProgress, setExtractionProgress] = useState<{ completed: number; total: number } | null>(null);
+  const [sourceUrl, setSourceUrl] = useState('');
+  const [isLoadingSource, setIsLoadingSource] = useState(false);
+  const [sourceError, setSourceError] = useState<string | null>(null);
   const [currentAnalyzingName, setCurrentAnalyzingName] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [showClearConfirm, setShowClearConfirm] = useState(false);
   const [viewMode, setViewMode] = useState<'all' | 'favorites' | 'analyzed'>('all');
+  const [isNetworkOpen, setIsNetworkOpen] = useState(false);
+  const [isSuggestionsOpen, setIsSuggestionsOpen] = useState(false);
+  const [isDuplicatesOpen, setIsDuplicatesOpen] = useState(false);
+  const [departmentFilter, setDepartmentFilter] = useState('');
+  const [rankFilter, setRankFilter] = useState<AcademicRank | ''>('');
+  const [sortKey, setSortKey] = useState<ResultsSortKey>('match');
   const [activeTab, setActiveTab] = useState<'profile' | 'find' | 'customize'>('find'); // Default to 'find' tab
   const [isExtractModalOpen, setIsExtractModalOpen] = useState(false);
-
-  // LocalStorage persistence
+  const [letterAiSettings, setLetterAiSettings] = useState<LetterAiSettings>(loadLetterAiSettings);
+  const [llmSettings, setLlmSettings] = useState<LlmSettings>(loadLlmSettings);
+  const [cacheSettings, setCacheSettings] = useState<ResponseCacheSettings>(loadResponseCacheSettings);
+  const [scholarFetchSettings, setScholarFetchSettings] = useState<ScholarFetchSettings>(loadScholarFetchSettings);
+  const [recencySettings, setRecencySettings] = useState<RecencySettings>(loadRecencySettings);
+  const [pendingImport, setPendingImport] = useState<PendingProjectImport | null>(null);
+  const [isImportingProject, setIsImportingProject] = useState(false);
+  const projectFileInputRef = useRef<HTMLInputElement>(null);
+  const [isRescoring, setIsRescoring] = useState(false);
+  const [pendingRoster, setPendingRoster] = useState<{ fileName: string; rows: string[][] } | null>(null);
+  const rosterFileInputRef = useRef<HTMLInputElement>(null);
+  const documentFileInputRef = useRef<HTMLInputElement>(null);
+
+  // Persistence: campaigns and their researchers live in IndexedDB, drafts in LocalStorage
   const [isInitialized, setIsInitialized] = useState(false);
   const hasInitialized = useRef(false);
+  const persistedCampaignsRef = useRef<Campaign[]>([]);
+  const persistedResearchersRef = useRef<Researcher[]>([]);
+  // Campaign the in-memory `researchers` list belongs to
+  const researchersCampaignIdRef = useRef<string | null>(null);
+
+  const activeCampaign = campaigns.find(c => c.id === activeCampaignId);
+  const userInterests = activeCampaign?.userInterests || '';
+  const interestPreferences = activeCampaign?.interestPreferences;
+  const scoringOptions = useMemo<InterestScoringOptions>(() => ({
+    preferences: interestPreferences,
+    recencyHalfLifeYears: recencySettings.halfLifeYears
+  }), [interestPreferences, recencySettings.halfLifeYears]);
+  const letterTemplate = activeCampaign?.letterTemplate || '';
+  const emailTitle = activeCampaign?.emailTitle || '';
+  const university = activeCampaign?.university || '';
+
+  const updateCampaign = useCallback((campaignId: string, updates: Partial<Campaign>) => {
+    setCampaigns(prev => prev.map(c =>
+      c.id === campaignId ? { ...c, ...updates, updatedAt: Date.now() } : c
+    ));
+  }, []);
+
+  const updateActiveCampaign = useCallback((updates: Partial<Campaign>) => {
+    if (activeCampaignId) updateCampaign(activeCampaignId, updates);
+  }, [activeCampaignId, updateCampaign]);
+
+  const setUserInterests = useCallback((value: string) => updateActiveCampaign({ userInterests: value }), [updateActiveCampaign]);
+  // Weights, flags and the recency half-life only change how the model's per-interest
+  // verdicts are tiered, so current results are re-tiered in place without a model call.
+  const setInterestPreferences = useCallback((value: InterestPreferences) => {
+    updateActiveCampaign({ interestPreferences: value });
+    setResearchers(prev => prev.map(r => applyInterestScoring(r, userInterests, { ...scoringOptions, preferences: value })));
+  }, [updateActiveCampaign, userInterests, scoringOptions]);
+
+  const handleRecencySettingsChange = useCallback((value: RecencySettings) => {
+    setRecencySettings(value);
+    setResearchers(prev => prev.map(r =>
+      applyInterestScoring(r, userInterests, { ...scoringOptions, recencyHalfLifeYears: value.halfLifeYears })
+    ));
+  }, [userInterests, scoringOptions]);
+  const setLetterTemplate = useCallback((value: string) => updateActiveCampaign({ letterTemplate: value }), [updateActiveCampaign]);
+  const setEmailTitle = useCallback((value: string) => updateActiveCampaign({ emailTitle: value }), [updateActiveCampaign]);
+  const setUniversity = useCallback((value: string) => updateActiveCampaign({ university: value }), [updateActiveCampaign]);
 
   useEffect(() => {
     // Prevent double execution in React StrictMode
@@ -81,96 +250,321 @@ export default function App() {
     hasInitialized.current = true;
     
     // Load saved data on mount
-    console.log('[Web App] Loading saved data from LocalStorage...');
-    const savedResearchers = localStorage.getItem('researchers');
-    const savedUserInterests = localStorage.getItem('userInterests');
-    const savedLetterTemplate = localStorage.getItem('letterTemplate');
-    const savedEmailTitle = localStorage.getItem('emailTitle');
-    const savedUniversity = localStorage.getItem('university');
+    console.log('[Web App] Loading saved data...');
     const savedRawText = localStorage.getItem('rawText');
-    
-    if (savedResearchers) {
+    if (savedRawText) setRawText(savedRawText);
+
+    const restoreWorkspace = async () => {
       try {
-        const parsed = JSON.parse(savedResearchers);
-        console.log('[Web App] Restored researchers:', parsed.length);
-        setResearchers(parsed);
+        const savedCampaigns = await loadCampaigns();
+        const savedActiveId = localStorage.getItem('activeCampaignId');
+        const initialCampaign = savedCampaigns.find(c => c.id === savedActiveId)
+          || sortCampaigns(savedCampaigns).find(c => !c.isArchived)
+          || savedCampaigns[0];
+        const saved = await loadResearchers(initialCampaign.id);
+        console.log(`[Web App] Restored campaign "${initialCampaign.name}" with researchers:`, saved.length);
+
+        persistedCampaignsRef.current = savedCampaigns;
+        setCampaigns(savedCampaigns);
+        researchersCampaignIdRef.current = initialCampaign.id;
+        setActiveCampaignId(initialCampaign.id);
+        persistedResearchersRef.current = saved;
+        setResearchers(saved);
       } catch (e) {
-        console.error('Failed to parse saved researchers:', e);
+        console.error('Failed to load saved workspace:', e);
+        setError('Failed to load saved data from browser storage.');
+        const fallbackCampaign = createCampaign(DEFAULT_CAMPAIGN_NAME);
+        setCampaigns([fallbackCampaign]);
+        researchersCampaignIdRef.current = fallbackCampaign.id;
+        setActiveCampaignId(fallbackCampaign.id);
       }
-    }
-    
-    if (savedUserInterests) setUserInterests(savedUserInterests);
-    if (savedLetterTemplate) setLetterTemplate(savedLetterTemplate);
-    if (savedEmailTitle) setEmailTitle(savedEmailTitle);
-    if (savedUniversity) setUniversity(savedUniversity);
-    if (savedRawText) setRawText(savedRawText);
-    
-    // AFTER loading from LocalStorage, check URL parameters
-    const params = new URLSearchParams(window.location.search);
-    const researcherId = params.get('researcher_id');
-    const authorId = params.get('author_id');
-    const authorName = params.get('author_name');
-    
-    if (researcherId && authorId) {
-      console.log('[Web App] ✅ Received author ID from URL:', {
-        researcherId,
-        authorId,
-        authorName
-      });
-      
-      // Update the just-loaded researchers with the author ID
-      setResearchers(prev => {
-        const updated = prev.map(r => 
-          r.id === researcherId ? {
-            ...r,
-            scholarAuthorId: authorId,
-            status: AnalysisStatus.PENDING
-          } : r
-        );
-        console.log('[Web App] Updated researchers with URL data:', updated);
-        return updated;
-      });
+
+      // AFTER loading saved researchers, check URL parameters
+      const params = new URLSearchParams(window.location.search);
+      const researcherId = params.get('researcher_id');
+      const authorId = params.get('author_id');
+      const authorName = params.get('author_name');
       
-      // Clean URL (remove parameters)
-      window.history.replaceState({}, '', window.location.pathname);
+      if (researcherId && authorId) {
+        console.log('[Web App] ✅ Received author ID from URL:', {
+          researcherId,
+          authorId,
+          authorName
+        });
+        
+        // Update the just-loaded researchers with the author ID
+        setResearchers(prev => {
+          const updated = prev.map(r => 
+            r.id === researcherId ? {
+              ...r,
+              scholarAuthorId: authorId,
+              status: AnalysisStatus.PENDING
+            } : r
+          );
+          console.log('[Web App] Updated researchers with URL data:', updated);
+          return updated;
+        });
+        
+        // Clean URL (remove parameters)
+        window.history.replaceState({}, '', window.location.pathname);
+        
+        console.log(`[Web App] ✓ Author ID received for ${authorName}: ${authorId}`);
+      }
       
-      console.log(`[Web App] ✓ Author ID received for ${authorName}: ${authorId}`);
-    }
-    
-    setIsInitialized(true);
+      setIsInitialized(true);
+    };
+
+    restoreWorkspace();
   }, []);
 
-  // Save to LocalStorage whenever data changes
+  // Save changed campaigns to IndexedDB whenever they change
   useEffect(() => {
-    // Only save after data has been loaded to prevent overwriting with initial empty state
     if (!isInitialized) return;
+
+    const previous = persistedCampaignsRef.current;
+    persistedCampaignsRef.current = campaigns;
+    persistCampaignChanges(previous, campaigns).catch((e) => {
+      console.error('Failed to save campaigns:', e);
+    });
+  }, [campaigns, isInitialized]);
+
+  // Save changed researchers to IndexedDB whenever data changes
+  useEffect(() => {
+    // Only save after data has been loaded to prevent overwriting with initial empty state
+    if (!isInitialized || !researchersCampaignIdRef.current) return;
     
-    console.log('[Web App] Saving researchers to LocalStorage:', researchers.length);
-    localStorage.setItem('researchers', JSON.stringify(researchers));
+    const previous = persistedResearchersRef.current;
+    persistedResearchersRef.current = researchers;
+    persistResearcherChanges(researchersCampaignIdRef.current, previous, researchers).catch((e) => {
+      console.error('Failed to save researchers:', e);
+    });
   }, [researchers, isInitialized]);
 
   useEffect(() => {
-    localStorage.setItem('userInterests', userInterests);
-  }, [userInterests]);
+    if (activeCampaignId) localStorage.setItem('activeCampaignId', activeCampaignId);
+  }, [activeCampaignId]);
 
   useEffect(() => {
-    localStorage.setItem('letterTemplate', letterTemplate);
-  }, [letterTemplate]);
+    // A long PDF's text can exceed the storage quota; keep it in memory only then.
+    try {
+      localStorage.setItem('rawText', rawText);
+    } catch (error) {
+      console.warn('Pasted text is too large to keep across reloads:', error);
+      localStorage.removeItem('rawText');
+    }
+  }, [rawText]);
 
   useEffect(() => {
-    localStorage.setItem('emailTitle', emailTitle);
-  }, [emailTitle]);
+    saveLetterAiSettings(letterAiSettings);
+  }, [letterAiSettings]);
 
   useEffect(() => {
-    localStorage.setItem('university', university);
-  }, [university]);
+    saveLlmSettings(llmSettings);
+    applyLlmSettings(llmSettings);
+  }, [llmSettings]);
 
+  useEffect(() => {
+    saveResponseCacheSettings(cacheSettings);
+    applyResponseCacheSettings(cacheSettings);
+  }, [cacheSettings]);
 
   useEffect(() => {
-    localStorage.setItem('rawText', rawText);
-  }, [rawText]);
+    saveRecencySettings(recencySettings);
+  }, [recencySettings]);
 
+  useEffect(() => {
+    saveScholarFetchSettings(scholarFetchSettings);
+    applyScholarFetchSettings(scholarFetchSettings);
+  }, [scholarFetchSettings]);
 
+  const switchToCampaign = useCallback(async (campaignId: string) => {
+    try {
+      const loaded = await loadResearchers(campaignId);
+      // Swap the persistence baseline together with the list so the switch itself writes nothing
+      researchersCampaignIdRef.current = campaignId;
+      persistedResearchersRef.current = loaded;
+      setResearchers(loaded);
+      setActiveCampaignId(campaignId);
+      setError(null);
+    } catch (e) {
+      console.error('Failed to load campaign:', e);
+      setError('Failed to load campaign from browser storage.');
+    }
+  }, []);
+
+  const handleCreateCampaign = useCallback(async (name: string) => {
+    const campaign = createCampaign(name);
+    setCampaigns(prev => [...prev, campaign]);
+    await switchToCampaign(campaign.id);
+  }, [switchToCampaign]);
+
+  const handleRenameCampaign = useCallback((campaignId: string, name: string) => {
+    if (!name.trim()) return;
+    updateCampaign(campaignId, { name: name.trim() });
+  }, [updateCampaign]);
+
+  const handleDuplicateCampaign = useCallback(async (campaignId: string) => {
+    const source = campaigns.find(c => c.id === campaignId);
+    if (!source) return;
+
+    try {
+      const sourceResearchers = campaignId === activeCampaignId ? researchers : await loadResearchers(campaignId);
+      const copy = duplicateCampaign(source);
+      setCampaigns(prev => [...prev, copy]);
+      await appendResearchersToCampaign(copy.id, cloneResearchersForCampaign(sourceResearchers));
+    } catch (e) {
+      console.error('Failed to duplicate campaign:', e);
+      setError('Failed to duplicate campaign.');
+    }
+  }, [campaigns, activeCampaignId, researchers]);
+
+  const handleToggleArchiveCampaign = useCallback(async (campaignId: string) => {
+    const campaign = campaigns.find(c => c.id === campaignId);
+    if (!campaign) return;
+
+    if (!campaign.isArchived && campaignId === activeCampaignId) {
+      const nextActive = sortCampaigns(campaigns).find(c => c.id !== campaignId && !c.isArchived);
+      if (nextActive) await switchToCampaign(nextActive.id);
+    }
+    updateCampaign(campaignId, { isArchived: !campaign.isArchived });
+  }, [campaigns, activeCampaignId, switchToCampaign, updateCampaign]);
+
+  const handleDeleteCampaign = useCallback(async (campaignId: string) => {
+    const campaign = campaigns.find(c => c.id === campaignId);
+    if (!campaign || campaigns.length <= 1) return;
+    if (!window.confirm(`Delete campaign "${campaign.name}" and all of its researchers? This action cannot be undone.`)) return;
+
+    if (campaignId === activeCampaignId) {
+      const others = sortCampaigns(campaigns).filter(c => c.id !== campaignId);
+      await switchToCampaign((others.find(c => !c.isArchived) || others[0]).id);
+    }
+    setCampaigns(prev => prev.filter(c => c.id !== campaignId));
+  }, [campaigns, activeCampaignId, switchToCampaign]);
+
+  const handleTransferResearcher = useCallback(async (
+    researcherId: string,
+    targetCampaignId: string,
+    mode: 'move' | 'copy'
+  ) => {
+    const researcher = researchers.find(r => r.id === researcherId);
+    if (!researcher || targetCampaignId === activeCampaignId) return;
+
+    try {
+      if (mode === 'copy') {
+        await appendResearchersToCampaign(targetCampaignId, cloneResearchersForCampaign([researcher]));
+      } else {
+        // Drop it from the persistence baseline too, so the record is re-assigned rather than deleted
+        persistedResearchersRef.current = persistedResearchersRef.current.filter(r => r.id !== researcherId);
+        setResearchers(prev => prev.filter(r => r.id !== researcherId));
+        await appendResearchersToCampaign(targetCampaignId, [researcher]);
+      }
+      updateCampaign(targetCampaignId, {});
+    } catch (e) {
+      console.error(`Failed to ${mode} researcher:`, e);
+      setError(`Failed to ${mode} ${researcher.name} to the selected campaign.`);
+    }
+  }, [researchers, activeCampaignId, updateCampaign]);
+
+  const loadAllCampaignResearchers = useCallback(async (): Promise<Map<string, Researcher[]>> => {
+    const byCampaign = new Map<string, Researcher[]>();
+    for (const campaign of campaigns) {
+      byCampaign.set(
+        campaign.id,
+        campaign.id === activeCampaignId ? researchers : await loadResearchers(campaign.id)
+      );
+    }
+    return byCampaign;
+  }, [campaigns, activeCampaignId, researchers]);
+
+  const handleExportProject = useCallback(async () => {
+    try {
+      const byCampaign = await loadAllCampaignResearchers();
+      const bundle = buildProjectBundle(
+        sortCampaigns(campaigns).map(campaign => ({ campaign, researchers: byCampaign.get(campaign.id) || [] })),
+        letterAiSettings
+      );
+      downloadFile(
+        `outreach-project-${getFileDateStamp()}.json`,
+        JSON.stringify(bundle, null, 2),
+        'application/json'
+      );
+    } catch (e) {
+      console.error('Project export failed:', e);
+      setError('Failed to export project.');
+    }
+  }, [campaigns, letterAiSettings, loadAllCampaignResearchers]);
+
+  const handleProjectFileSelected = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const bundle = parseProjectBundle(await readFileAsText(file));
+      const byCampaign = await loadAllCampaignResearchers();
+      setPendingImport({
+        fileName: file.name,
+        bundle,
+        preview: previewProjectBundle(bundle, campaigns, byCampaign),
+        mode: 'merge'
+      });
+      setError(null);
+    } catch (e: any) {
+      console.error('Project import failed:', e);
+      setError(e.message || 'Failed to read project file.');
+    }
+  }, [campaigns, loadAllCampaignResearchers]);
+
+  const handleConfirmProjectImport = useCallback(async () => {
+    if (!pendingImport) return;
+    const { bundle, mode } = pendingImport;
+    setIsImportingProject(true);
+
+    try {
+      if (mode === 'replace') {
+        await replaceWorkspace(bundle.campaigns);
+        const importedCampaigns = bundle.campaigns.map(entry => entry.campaign);
+        persistedCampaignsRef.current = importedCampaigns;
+        setCampaigns(importedCampaigns);
+        const nextActive = sortCampaigns(importedCampaigns).find(c => !c.isArchived) || importedCampaigns[0];
+        await switchToCampaign(nextActive.id);
+        setLetterAiSettings(bundle.letterAiSettings);
+      } else {
+        let nextCampaigns = [...campaigns];
+        let nextActiveResearchers: Researcher[] | null = null;
+
+        for (const entry of bundle.campaigns) {
+          const target = findMergeTarget(nextCampaigns, entry.campaign);
+          if (target) {
+            const isActive = target.id === activeCampaignId;
+            const existing = isActive ? (nextActiveResearchers || researchers) : await loadResearchers(target.id);
+            const merged = mergeResearcherLists(existing, entry.researchers);
+            if (isActive) {
+              nextActiveResearchers = merged;
+            } else {
+              await persistResearcherChanges(target.id, existing, merged);
+            }
+            nextCampaigns = nextCampaigns.map(c => (c.id === target.id ? mergeCampaignFields(c, entry.campaign) : c));
+          } else {
+            const campaign: Campaign = { ...entry.campaign, id: createId(), updatedAt: Date.now() };
+            nextCampaigns = [...nextCampaigns, campaign];
+            await appendResearchersToCampaign(campaign.id, cloneResearchersForCampaign(entry.researchers));
+          }
+        }
+
+        setCampaigns(nextCampaigns);
+        if (nextActiveResearchers) setResearchers(nextActiveResearchers);
+      }
+
+      console.log(`[Web App] ✓ Imported project (${mode}) from ${pendingImport.fileName}`);
+      setPendingImport(null);
+    } catch (e: any) {
+      console.error('Project import failed:', e);
+      setError(e.message || 'Failed to import project.');
+    } finally {
+      setIsImportingProject(false);
+    }
+  }, [pendingImport, campaigns, activeCampaignId, researchers, switchToCampaign]);
 
   const handleExtractNames = useCallback(async () => {
     if (!rawText.trim()) return;
@@ -178,41 +572,110 @@ export default function App() {
     setIsExtracting(true);
     setError(null);
     try {
-      const names = await extractNamesFromText(rawText);
-      
-      const normalizeName = (s: string) => {
-        return s.trim().toLowerCase().split(' ').map(word => {
-          return word.charAt(0).toUpperCase() + word.slice(1);
-        }).join(' ');
-      };
-
-      setResearchers(prev => {
-        const existingNames = new Set(prev.map(r => r.name.toLowerCase()));
-        
-        const newResearchers: Researcher[] = names
-          .map(name => normalizeName(name))
-          .filter(name => name.length > 0 && !existingNames.has(name.toLowerCase()))
-          .map(name => ({
-            id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-            name,
-            status: AnalysisStatus.AWAITING_SCHOLAR_ID,
-            interests: '',
-            tags: []
-          }));
-        
-        return [...prev, ...newResearchers];
-      });
+      const { entries, chunkCount, failedChunks } = await extractResearchersFromText(
+        rawText,
+        (completed, total) => setExtractionProgress({ completed, total })
+      );
+      setResearchers(prev => [...prev, ...buildResearchersFromExtraction(entries, prev)]);
       setIsExtractModalOpen(false);
-      setRawText('');
+      // Keep the text after a partial failure so the missing parts can be retried; known names are skipped.
+      if (failedChunks.length > 0) {
+        setError(`Part(s) ${failedChunks.join(', ')} of ${chunkCount} could not be extracted. The other names were added; run Extract again to retry.`);
+      } else {
+        setRawText('');
+      }
     } catch (err: any) {
       setError(err.message || 'Failed to extract names.');
     } finally {
       setIsExtracting(false);
+      setExtractionProgress(null);
     }
   }, [rawText]);
 
+  const handleFetchSourceUrl = useCallback(async () => {
+    const url = sourceUrl.trim();
+    if (!url) return;
+
+    setIsLoadingSource(true);
+    setSourceError(null);
+    try {
+      setRawText(await fetchDocumentText({ url: /^https?:\/\//i.test(url) ? url : `https://${url}` }));
+      setSourceUrl('');
+    } catch (err: any) {
+      console.error('Page fetch failed:', err);
+      setSourceError(err.message || 'Failed to fetch the page.');
+    } finally {
+      setIsLoadingSource(false);
+    }
+  }, [sourceUrl]);
+
+  const handleDocumentFileSelected = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setIsLoadingSource(true);
+    setSourceError(null);
+    try {
+      const kind = getDocumentKind(file.name, file.type);
+      if (kind === 'pdf') {
+        if (file.size > MAX_PDF_UPLOAD_BYTES) {
+          throw new Error(`${file.name} is larger than ${MAX_PDF_UPLOAD_BYTES / (1024 * 1024)} MB. Split the PDF or paste its text instead.`);
+        }
+        setRawText(await fetchDocumentText({ pdf: await readFileAsBase64(file) }));
+      } else {
+        const text = await readFileAsText(file);
+        setRawText(kind === 'html' ? htmlToText(text) : text);
+      }
+    } catch (err: any) {
+      console.error('Document upload failed:', err);
+      setSourceError(err.message || `Failed to read ${file.name}.`);
+    } finally {
+      setIsLoadingSource(false);
+    }
+  }, []);
+
+  const handleRosterFileSelected = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const text = await readFileAsText(file);
+      const rows = parseDelimited(text, /\.tsv$/i.test(file.name) ? '\t' : undefined);
+      if (rows.length === 0) {
+        setError(`${file.name} does not contain any rows.`);
+        return;
+      }
+      setPendingRoster({ fileName: file.name, rows });
+      setIsExtractModalOpen(false);
+      setError(null);
+    } catch (e: any) {
+      console.error('Roster import failed:', e);
+      setError(e.message || 'Failed to read the professor list.');
+    }
+  }, []);
+
+  const handleConfirmRosterImport = useCallback((previews: RosterRowPreview[]) => {
+    const imported = buildResearchersFromRoster(previews);
+    setResearchers(prev => [...prev, ...imported]);
+    setPendingRoster(null);
+    console.log(`[Web App] ✓ Imported ${imported.length} professors from roster`);
+  }, []);
 
-  const handleScholarIdSubmit = useCallback(async (researcherId: string, scholarId: string) => {
+  const handleAddSuggestedResearchers = useCallback((suggestions: ResearcherSuggestion[]) => {
+    const added = buildResearchersFromSuggestions(suggestions);
+    setResearchers(prev => [...prev, ...added]);
+    setIsSuggestionsOpen(false);
+    console.log(`[Web App] ✓ Added ${added.length} suggested professors`);
+  }, []);
+
+  // Re-analysis reuses cached Scholar/homepage responses; `forceRefresh` fetches them again.
+  const handleScholarIdSubmit = useCallback(async (
+    researcherId: string,
+    scholarId: string,
+    cacheOptions: ResponseCacheOptions = {}
+  ) => {
     // Update researcher with Scholar ID and set to loading
     setResearchers(prev => prev.map(r => 
       r.id === researcherId ? { ...r, scholarAuthorId: scholarId, status: AnalysisStatus.LOADING } : r
@@ -225,82 +688,78 @@ export default function App() {
     setError(null);
 
     try {
-      const maxAttempts = AUTO_RETRY_MAX_RETRIES + 1;
-      for (let attempt = 1; attempt <= maxAttempts; attempt++) {
-        try {
-          // Step 1: Fetch publications from SerpAPI
-          const scholarData = await fetchScholarPublications(scholarId);
-
-          // Validation: If no articles found, SerpAPI might have returned an empty profile or invalid ID
-          if (!scholarData.articles || scholarData.articles.length === 0) {
-            throw new Error("No publications found for this Scholar ID. Please verify the ID correctly matches the professor.");
-          }
-
-          const emailPromise = scholarData.website
-            ? extractProfessorEmailFromScholarHomepage(
-                scholarData.website,
-                researcher.name,
-                scholarData.verifiedEmailHint
-              ).catch((emailError) => {
-                console.warn(`Failed to extract homepage email for ${researcher.name}:`, emailError);
-                return {};
-              })
-            : Promise.resolve({});
-
-          // Step 2: Analyze publications with Gemini while extracting homepage email in parallel
-          const [result, homepageEmailResult] = await Promise.all([
-            analyzeScholarPublications(
-              researcher.name,
-              scholarData,
-              userInterests
-            ),
-            emailPromise
-          ]);
-
-          // Step 3: Update researcher with results
-          setResearchers(prev => prev.map(r => 
-            r.id === researcherId ? {
-              ...r,
-              status: AnalysisStatus.COMPLETED,
-              interests: result.summary,
-              tags: result.keywords,
-              profileUrl: `https://scholar.google.com/citations?user=${scholarId}`,
-              homepageUrl: homepageEmailResult.resolvedHomepageUrl || scholarData.website || r.homepageUrl,
-              contactEmail: homepageEmailResult.email || r.contactEmail,
-              avatarUrl: scholarData.thumbnail,
-              isMatch: result.isMatch,
-              matchType: result.matchType,
-              matchReason: result.matchReason,
-              matchedInterests: result.matchedInterests
-            } : r
-          ));
-
-          return;
-        } catch (attemptError) {
-          const isLastAttempt = attempt === maxAttempts;
-          if (isLastAttempt || !isRetriableError(attemptError)) {
-            throw attemptError;
-          }
+      await runWithAutoRetry(researcher.name, async () => {
+        // Step 1: Fetch publications from SerpAPI
+        const scholarData = await fetchScholarPublications(scholarId, cacheOptions);
 
-          const backoffMs = AUTO_RETRY_BASE_DELAY_MS * Math.pow(2, attempt - 1);
-          console.warn(
-            `[Web App] Retrying ${researcher.name} (${attempt + 1}/${maxAttempts}) after ${backoffMs}ms due to transient error:`,
-            attemptError
-          );
-          await sleep(backoffMs);
+        // Validation: If no articles found, SerpAPI might have returned an empty profile or invalid ID
+        if (!scholarData.articles || scholarData.articles.length === 0) {
+          throw new Error("No publications found for this Scholar ID. Please verify the ID correctly matches the professor.");
         }
-      }
 
+        // An email from the pasted text or roster is kept; no need to look one up.
+        const emailPromise = scholarData.website && !researcher.rosterEmail
+          ? extractProfessorEmailFromScholarHomepage(
+              scholarData.website,
+              researcher.name,
+              scholarData.verifiedEmailHint,
+              cacheOptions
+            ).catch((emailError) => {
+              console.warn(`Failed to extract homepage email for ${researcher.name}:`, emailError);
+              return {};
+            })
+          : Promise.resolve({});
+
+        // Step 2: Analyze publications with Gemini while extracting homepage email in parallel
+        const [result, homepageEmailResult] = await Promise.all([
+          analyzeScholarPublications(
+            researcher.name,
+            scholarData,
+            userInterests,
+            scoringOptions
+          ),
+          emailPromise
+        ]);
+
+        // Step 3: Update researcher with results
+        setResearchers(prev => prev.map(r => 
+          r.id === researcherId ? {
+            ...r,
+            status: AnalysisStatus.COMPLETED,
+            interests: result.summary,
+            tags: result.keywords,
+            profileUrl: `https://scholar.google.com/citations?user=${scholarId}`,
+            homepageUrl: r.rosterHomepageUrl || homepageEmailResult.resolvedHomepageUrl || scholarData.website || r.homepageUrl,
+            contactEmail: homepageEmailResult.email || r.contactEmail,
+            avatarUrl: scholarData.thumbnail,
+            publicationsFetchedAt: scholarData.fetchedAt,
+            citationMetrics: parseCitationMetrics(scholarData.cited_by),
+            publications: toResearcherPublications(scholarData.articles),
+            isMatch: result.isMatch,
+            matchType: result.matchType,
+            matchReason: result.matchReason,
+            matchedInterests: result.matchedInterests,
+            excludedInterests: result.excludedInterests,
+            matchScore: result.matchScore,
+            interestVerdicts: result.interestVerdicts,
+            embeddingAlignment: result.embeddingAlignment,
+            scoredInterests: userInterests,
+            analysisError: undefined
+          } : r
+        ));
+      });
     } catch (err: any) {
       console.error('Scholar analysis error:', err);
       setError(err.message || 'Failed to analyze publications.');
       setResearchers(prev => prev.map(r => 
-        r.id === researcherId ? { ...r, status: AnalysisStatus.ERROR } : r
+        r.id === researcherId
+          ? { ...r, status: AnalysisStatus.ERROR, analysisError: err.message || 'Failed to analyze publications.' }
+          : r
       ));
     } finally {
       setCurrentAnalyzingName(null);
     }
-  }, [researchers, userInterests]);
+  }, [researchers, userInterests, scoringOptions]);
 
   const handleScholarIdLink = useCallback((researcherId: string, scholarId: string) => {
     setResearchers(prev => prev.map(r =>
@@ -311,13 +770,22 @@ export default function App() {
         interests: '',
         tags: [],
         profileUrl: undefined,
-        homepageUrl: undefined,
-        contactEmail: undefined,
+        homepageUrl: r.rosterHomepageUrl,
+        contactEmail: r.rosterEmail,
         avatarUrl: undefined,
+        publicationsFetchedAt: undefined,
+        scoredInterests: undefined,
+        citationMetrics: undefined,
+        publications: undefined,
+        analysisError: undefined,
         isMatch: undefined,
         matchType: undefined,
         matchReason: undefined,
-        matchedInterests: []
+        matchedInterests: [],
+        excludedInterests: undefined,
+        matchScore: undefined,
+        interestVerdicts: undefined,
+        embeddingAlignment: undefined
       } : r
     ));
     setError(null);
@@ -333,6 +801,23 @@ export default function App() {
     setResearchers(prev => prev.filter(r => r.id !== id));
   }, []);
 
+  const handleMergeDuplicates = useCallback((keepId: string, mergeId: string) => {
+    setResearchers(prev => {
+      const keep = prev.find(r => r.id === keepId);
+      const merge = prev.find(r => r.id === mergeId);
+      if (!keep || !merge) return prev;
+      const merged = mergeResearchers(keep, merge);
+      return prev.filter(r => r.id !== mergeId).map(r => (r.id === keepId ? merged : r));
+    });
+    console.log(`[Web App] ✓ Merged duplicate researcher ${mergeId} into ${keepId}`);
+  }, []);
+
+  const handleKeepBothDuplicates = useCallback((firstId: string, secondId: string) => {
+    setResearchers(prev => prev.map(r =>
+      r.id === firstId ? { ...r, notDuplicateOf: [...(r.notDuplicateOf || []), secondId] } : r
+    ));
+  }, []);
+
   // Batch analyze all researchers who have author IDs
   const handleAnalyzeAll = useCallback(async () => {
     const toAnalyze = researchers.filter(r => 
@@ -380,6 +865,56 @@ export default function App() {
     );
   }, [researchers, handleScholarIdSubmit]);
 
+  // Re-runs only the matching step for results scored against older interests.
+  // Publications come from the response cache, so this normally costs no SerpAPI credits.
+  const handleRescoreStale = useCallback(async () => {
+    const staleResearchers = researchers.filter(r => r.scholarAuthorId && isResearcherScoreStale(r, userInterests));
+    if (staleResearchers.length === 0) return;
+
+    console.log(`[Web App] Re-scoring ${staleResearchers.length} researchers against current interests`);
+    setIsRescoring(true);
+    setError(null);
+    const failedNames: string[] = [];
+
+    // Only the interests changed, so the stored publications are enough. Scholar is fetched
+    // (spending SerpAPI credits) only for cards analyzed before publications were kept.
+    const loadScholarData = async (researcher: Researcher): Promise<ScholarAuthorData> => {
+      if (researcher.publications?.length) {
+        return { name: researcher.name, articles: toScholarArticles(researcher.publications) };
+      }
+      if (!researcher.scholarAuthorId) throw new Error('No Scholar ID to fetch publications from');
+      return fetchScholarPublications(researcher.scholarAuthorId);
+    };
+
+    await runWithConcurrency(staleResearchers, RESCORE_CONCURRENCY, async (researcher: Researcher) => {
+      try {
+        const match = await runWithAutoRetry(researcher.name, async () => {
+          const scholarData = await loadScholarData(researcher);
+          return rescoreScholarPublications(
+            researcher.name,
+            scholarData,
+            userInterests,
+            researcher.interests,
+            scoringOptions
+          );
+        });
+        setResearchers(prev => prev.map(r =>
+          r.id === researcher.id
+            ? { ...r, ...match, embeddingAlignment: match.embeddingAlignment, scoredInterests: userInterests }
+            : r
+        ));
+      } catch (err) {
+        console.error(`Re-scoring error for ${researcher.name}:`, err);
+        failedNames.push(researcher.name);
+      }
+    });
+
+    if (failedNames.length > 0) {
+      setError(`Re-scoring failed for ${failedNames.length} professor(s): ${failedNames.join(', ')}`);
+    }
+    setIsRescoring(false);
+  }, [researchers, userInterests, scoringOptions]);
+
   // Clear all data
   const handleClearAll = useCallback(() => {
     setShowClearConfirm(true);
@@ -398,20 +933,55 @@ export default function App() {
     setCurrentAnalyzingName(null);
     setShowClearConfirm(false);
     
-    // Do NOT reset isInitialized, otherwise saving to localStorage will be blocked by our new guard
+    // Do NOT reset isInitialized, otherwise saving to IndexedDB will be blocked by our new guard
     // setIsInitialized(false);
     hasInitialized.current = true; // Actually we want to keep running, so true is fine, or false if we want full re-init?
     // If we set researchers (even empty or filtered), we trigger the save effect immediately.
-    // So we don't need to manually clear localStorage, the effect will update it.
+    // So we don't need to manually clear storage, the effect will update it.
     
     console.log('[Web App] ✓ Cleared non-favorites');
   }, []);
 
-  const displayedResearchers = viewMode === 'all'
+  const staleScoreCount = researchers.filter(r => r.scholarAuthorId && isResearcherScoreStale(r, userInterests)).length;
+  const duplicateCount = useMemo(() => findDuplicateCandidates(researchers).length, [researchers]);
+  const duplicateCandidates = useMemo(
+    () => (isDuplicatesOpen ? findDuplicateCandidates(researchers) : []),
+    [isDuplicatesOpen, researchers]
+  );
+  const extractionChunkCount = useMemo(
+    () => (isExtractModalOpen ? splitTextIntoChunks(rawText).length : 0),
+    [isExtractModalOpen, rawText]
+  );
+
+  const departmentOptions = [...new Set<string>(researchers.map(r => r.department).filter((d): d is string => Boolean(d)))]
+    .sort((a, b) => a.localeCompare(b));
+  const rankOptions = ACADEMIC_RANK_OPTIONS.filter(option => researchers.some(r => r.rank === option.rank));
+  // A filter left over from another campaign would hide everything; ignore it.
+  const activeDepartmentFilter = departmentOptions.includes(departmentFilter) ? departmentFilter : '';
+  const activeRankFilter = rankOptions.some(option => option.rank === rankFilter) ? rankFilter : '';
+
+  const displayedResearchers = (viewMode === 'all'
     ? researchers
     : viewMode === 'favorites'
       ? researchers.filter(r => r.isFavorite)
-      : researchers.filter(r => r.status === AnalysisStatus.COMPLETED || r.status === AnalysisStatus.ERROR);
+      : researchers.filter(r => r.status === AnalysisStatus.COMPLETED || r.status === AnalysisStatus.ERROR)
+  ).filter(r =>
+    (!activeDepartmentFilter || r.department === activeDepartmentFilter)
+    && (!activeRankFilter || r.rank === activeRankFilter)
+  );
+
+  // Exports exactly what the current view mode shows.
+  const handleExportResearchers = (format: ResearcherExportFormat) => {
+    const campaignName = activeCampaign?.name || DEFAULT_CAMPAIGN_NAME;
+    const slug = campaignName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'campaign';
+    try {
+      const { content, mimeType, extension } = buildResearcherExport(displayedResearchers, format, campaignName);
+      downloadFile(`${slug}-${viewMode}-${getFileDateStamp()}.${extension}`, content, mimeType);
+    } catch (e) {
+      console.error('Researcher export failed:', e);
+      setError('Failed to export the professor list.');
+    }
+  };
     
 
 
@@ -461,6 +1031,73 @@ export default function App() {
         </div>
       )}
 
+      {/* Project Import Preview */}
+      {pendingImport && (
+        <ImportProjectModal
+          fileName={pendingImport.fileName}
+          exportedAt={pendingImport.bundle.exportedAt}
+          preview={pendingImport.preview}
+          mode={pendingImport.mode}
+          onModeChange={(mode) => setPendingImport(prev => (prev ? { ...prev, mode } : prev))}
+          isImporting={isImportingProject}
+          onConfirm={handleConfirmProjectImport}
+          onCancel={() => setPendingImport(null)}
+        />
+      )}
+      <input
+        ref={projectFileInputRef}
+        type="file"
+        accept="application/json,.json"
+        onChange={handleProjectFileSelected}
+        className="hidden"
+      />
+
+      {isNetworkOpen && (
+        <CoauthorNetworkModal researchers={researchers} onClose={() => setIsNetworkOpen(false)} />
+      )}
+
+      {isSuggestionsOpen && (
+        <SuggestedResearchersModal
+          researchers={researchers}
+          userInterests={userInterests}
+          onConfirm={handleAddSuggestedResearchers}
+          onCancel={() => setIsSuggestionsOpen(false)}
+        />
+      )}
+
+      {isDuplicatesOpen && (
+        <DuplicateReviewModal
+          candidates={duplicateCandidates}
+          onMerge={handleMergeDuplicates}
+          onKeepBoth={handleKeepBothDuplicates}
+          onClose={() => setIsDuplicatesOpen(false)}
+        />
+      )}
+
+      {pendingRoster && (
+        <ImportRosterModal
+          fileName={pendingRoster.fileName}
+          rows={pendingRoster.rows}
+          existingResearchers={researchers}
+          onConfirm={handleConfirmRosterImport}
+          onCancel={() => setPendingRoster(null)}
+        />
+      )}
+      <input
+        ref={documentFileInputRef}
+        type="file"
+        accept=".pdf,.html,.htm,.txt,application/pdf,text/html,text/plain"
+        onChange={handleDocumentFileSelected}
+        className="hidden"
+      />
+      <input
+        ref={rosterFileInputRef}
+        type="file"
+        accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values"
+        onChange={handleRosterFileSelected}
+        className="hidden"
+      />
+
       {/* Extract Names Modal */}
       {isExtractModalOpen && (
         <div className="fixed inset-0 bg-black/40 backdrop-blur-sm flex items-center justify-center z-[100] p-4 animate-fade-in">
@@ -491,18 +1128,88 @@ export default function App() {
 
               <div className="space-y-2">
                 <label className="text-sm font-semibold text-slate-700">
-                  Paste your list of professors to extract professor names
+                  Paste your list of professors, or load it from a department page or a PDF/HTML staff list
                 </label>
-                <textarea
-                  value={rawText}
-                  onChange={(e) => setRawText(e.target.value)}
-                  placeholder="Paste text containing professor names here..."
-                  className="w-full h-64 p-4 bg-white/50 border border-black/5 rounded-xl focus:ring-2 focus:ring-imperial-blue focus:border-transparent transition-all resize-none text-slate-800"
-                />
+                <div className="flex gap-2">
+                  <input
+                    type="url"
+                    value={sourceUrl}
+                    onChange={(e) => setSourceUrl(e.target.value)}
+                    onKeyDown={(e) => { if (e.key === 'Enter') handleFetchSourceUrl(); }}
+                    placeholder="https://department.example.edu/people"
+                    disabled={isLoadingSource || isExtracting}
+                    className="flex-1 min-w-0 px-3 py-2 bg-white/50 border border-black/5 rounded-xl focus:ring-2 focus:ring-imperial-blue focus:border-transparent transition-all text-sm text-slate-800"
+                  />
+                  <button
+                    type="button"
+                    onClick={handleFetchSourceUrl}
+                    disabled={isLoadingSource || isExtracting || !sourceUrl.trim()}
+                    className="flex items-center gap-1.5 px-4 py-2 bg-white border border-slate-200 hover:bg-slate-50 text-slate-700 rounded-full text-sm font-semibold transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                    title="Fetch the page text through the reader"
+                  >
+                    <Globe className="w-4 h-4" />
+                    Fetch
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => documentFileInputRef.current?.click()}
+                    disabled={isLoadingSource || isExtracting}
+                    className="flex items-center gap-1.5 px-4 py-2 bg-white border border-slate-200 hover:bg-slate-50 text-slate-700 rounded-full text-sm font-semibold transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                    title="Load the text of a PDF or saved HTML staff list"
+                  >
+                    <FileUp className="w-4 h-4" />
+                    PDF/HTML
+                  </button>
+                </div>
+                <div className="relative">
+                  <textarea
+                    value={rawText}
+                    onChange={(e) => setRawText(e.target.value)}
+                    placeholder="Paste text containing professor names here..."
+                    disabled={isLoadingSource}
+                    className="w-full h-64 p-4 bg-white/50 border border-black/5 rounded-xl focus:ring-2 focus:ring-imperial-blue focus:border-transparent transition-all resize-none text-slate-800"
+                  />
+                  {isLoadingSource && (
+                    <div className="absolute inset-0 flex items-center justify-center gap-2 rounded-xl bg-white/70 text-sm font-semibold text-slate-600">
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                      Reading document...
+                    </div>
+                  )}
+                </div>
+                {extractionProgress && extractionProgress.total > 1 ? (
+                  <div className="space-y-1">
+                    <div className="h-1.5 bg-black/5 rounded-full overflow-hidden">
+                      <div
+                        className="h-full bg-[#0071E3] transition-all"
+                        style={{ width: `${(extractionProgress.completed / extractionProgress.total) * 100}%` }}
+                      />
+                    </div>
+                    <p className="text-[11px] text-[#86868B]">
+                      Extracted part {extractionProgress.completed} of {extractionProgress.total}
+                    </p>
+                  </div>
+                ) : extractionChunkCount > 1 && (
+                  <p className="text-[11px] text-[#86868B]">
+                    {rawText.length.toLocaleString()} characters, extracted in {extractionChunkCount} parts
+                  </p>
+                )}
+                {sourceError && (
+                  <p className="text-xs font-medium text-red-600">{sourceError}</p>
+                )}
               </div>
             </div>
             
             <div className="p-6 flex gap-3 justify-end">
+              <button
+                type="button"
+                onClick={() => rosterFileInputRef.current?.click()}
+                disabled={isExtracting}
+                className="mr-auto flex items-center gap-2 px-5 py-2.5 bg-white border border-slate-200 hover:bg-slate-50 text-slate-700 rounded-full font-semibold transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                title="Import names, emails, homepages and Scholar IDs from a CSV or TSV file"
+              >
+                <FileSpreadsheet className="w-4 h-4" />
+                Import CSV/TSV
+              </button>
               <button
                 type="button"
                 onClick={() => setIsExtractModalOpen(false)}
@@ -513,13 +1220,15 @@ export default function App() {
               <button
                 type="button"
                 onClick={handleExtractNames}
-                disabled={isExtracting || !rawText.trim()}
+                disabled={isExtracting || isLoadingSource || !rawText.trim()}
                 className="px-8 py-2.5 bg-[#0071E3] hover:bg-[#0077ED] text-white rounded-full font-semibold transition-all shadow-apple hover:shadow-apple-hover active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
               >
                 {isExtracting ? (
                   <>
                     <Loader2 className="w-4 h-4 animate-spin" />
-                    Extracting...
+                    {extractionProgress && extractionProgress.total > 1
+                      ? `Extracting ${extractionProgress.completed}/${extractionProgress.total}...`
+                      : 'Extracting...'}
                   </>
                 ) : (
                   'Confirm'
@@ -532,7 +1241,21 @@ export default function App() {
 
         {/* Unified Sticky Header & Nav Wrapper */}
         <div className="sticky top-0 z-50 w-full bg-[#FAFAFA]/30 backdrop-blur-md transition-all duration-300">
-          <NavBar activeTab={activeTab} onTabChange={setActiveTab} />
+          <NavBar
+            activeTab={activeTab}
+            onTabChange={setActiveTab}
+            campaigns={campaigns}
+            activeCampaignId={activeCampaignId}
+            isCampaignSwitchDisabled={Boolean(currentAnalyzingName) || researchers.some(r => r.status === AnalysisStatus.LOADING)}
+            onSelectCampaign={switchToCampaign}
+            onCreateCampaign={handleCreateCampaign}
+            onRenameCampaign={handleRenameCampaign}
+            onDuplicateCampaign={handleDuplicateCampaign}
+            onToggleArchiveCampaign={handleToggleArchiveCampaign}
+            onDeleteCampaign={handleDeleteCampaign}
+            onExportProject={handleExportProject}
+            onImportProject={() => projectFileInputRef.current?.click()}
+          />
         </div>
       
       {/* Content Area */}
@@ -543,10 +1266,20 @@ export default function App() {
           <ProfileSection 
             userInterests={userInterests}
             setUserInterests={setUserInterests}
+            interestPreferences={interestPreferences || {}}
+            setInterestPreferences={setInterestPreferences}
+            recencySettings={recencySettings}
+            setRecencySettings={handleRecencySettingsChange}
             letterTemplate={letterTemplate}
             setLetterTemplate={setLetterTemplate}
             emailTitle={emailTitle}
             setEmailTitle={setEmailTitle}
+            llmSettings={llmSettings}
+            setLlmSettings={setLlmSettings}
+            cacheSettings={cacheSettings}
+            setCacheSettings={setCacheSettings}
+            scholarFetchSettings={scholarFetchSettings}
+            setScholarFetchSettings={setScholarFetchSettings}
           />
         )}
 
@@ -603,13 +1336,18 @@ export default function App() {
                     <ResultsGrid 
                       researchers={displayedResearchers} 
                       university={university}
+                      userInterests={userInterests}
+                      sortKey={sortKey}
                       onScholarIdLink={handleScholarIdLink}
                       onScholarIdSubmit={handleScholarIdSubmit}
+                      onRefreshFromSource={(id, scholarId) => handleScholarIdSubmit(id, scholarId, { forceRefresh: true })}
                       onUpdateResearcher={(id, updates) => {
                         setResearchers(prev => prev.map(r => (r.id === id ? { ...r, ...updates } : r)));
                       }}
                       onToggleFavorite={handleToggleFavorite}
                       onDeleteResearcher={handleDeleteResearcher}
+                      transferTargets={campaigns.filter(c => c.id !== activeCampaignId)}
+                      onTransferResearcher={handleTransferResearcher}
                     />
                   )
                 )}
@@ -652,6 +1390,18 @@ export default function App() {
                             <span className="hidden sm:inline">Batch Analyze</span>
                             <span className="sm:hidden">Run</span>
                           </button>
+
+                          {staleScoreCount > 0 && (
+                            <button
+                              onClick={handleRescoreStale}
+                              disabled={isRescoring}
+                              className="flex items-center gap-2 px-4 py-2 bg-[#FF9500]/10 hover:bg-[#FF9500]/20 text-[#C93400] rounded-full text-xs font-semibold transition-all active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed"
+                              title="Your interests changed since these professors were scored. Re-run matching on their cached publications."
+                            >
+                              {isRescoring ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <RotateCw className="w-3.5 h-3.5" />}
+                              Re-score {staleScoreCount}
+                            </button>
+                          )}
                           
                           <div className="w-px h-6 bg-black/10"></div>
 
@@ -690,8 +1440,96 @@ export default function App() {
                             </button>
                           </div>
                           
+                          <select
+                            value={sortKey}
+                            onChange={(e) => setSortKey(e.target.value as ResultsSortKey)}
+                            className="h-8 pl-3 pr-2 bg-[#E8E8ED]/70 rounded-full text-[11px] font-semibold text-[#1D1D1F] border-none focus:ring-2 focus:ring-[#0071E3]/30 focus:outline-none"
+                            title="Sort analyzed professors"
+                          >
+                            <option value="match">Sort: Match</option>
+                            <option value="alignment">Sort: Similarity</option>
+                            {CITATION_SORT_OPTIONS.map(option => (
+                              <option key={option.key} value={option.key}>Sort: {option.label}</option>
+                            ))}
+                          </select>
+
+                          {departmentOptions.length > 0 && (
+                            <select
+                              value={activeDepartmentFilter}
+                              onChange={(e) => setDepartmentFilter(e.target.value)}
+                              className="h-8 max-w-[180px] pl-3 pr-2 bg-[#E8E8ED]/70 rounded-full text-[11px] font-semibold text-[#1D1D1F] border-none focus:ring-2 focus:ring-[#0071E3]/30 focus:outline-none"
+                              title="Filter by department"
+                            >
+                              <option value="">All departments</option>
+                              {departmentOptions.map(department => (
+                                <option key={department} value={department}>{department}</option>
+                              ))}
+                            </select>
+                          )}
+
+                          {rankOptions.length > 0 && (
+                            <select
+                              value={activeRankFilter}
+                              onChange={(e) => setRankFilter(e.target.value as AcademicRank | '')}
+                              className="h-8 pl-3 pr-2 bg-[#E8E8ED]/70 rounded-full text-[11px] font-semibold text-[#1D1D1F] border-none focus:ring-2 focus:ring-[#0071E3]/30 focus:outline-none"
+                              title="Filter by seniority"
+                            >
+                              <option value="">All ranks</option>
+                              {rankOptions.map(option => (
+                                <option key={option.rank} value={option.rank}>{option.label}</option>
+                              ))}
+                            </select>
+                          )}
+
+                          <button
+                            onClick={() => setIsNetworkOpen(true)}
+                            className="flex items-center gap-1.5 h-8 px-3 bg-[#E8E8ED]/70 hover:bg-[#E8E8ED] rounded-full text-[11px] font-semibold text-[#1D1D1F] transition-all"
+                            title="Show who publishes with whom across this professor list"
+                          >
+                            <Network className="w-3.5 h-3.5" />
+                            Network
+                          </button>
+                          <button
+                            onClick={() => setIsSuggestionsOpen(true)}
+                            className="flex items-center gap-1.5 h-8 px-3 bg-[#E8E8ED]/70 hover:bg-[#E8E8ED] rounded-full text-[11px] font-semibold text-[#1D1D1F] transition-all"
+                            title="Suggest frequent co-authors of your strongest matches"
+                          >
+                            <UserPlus className="w-3.5 h-3.5" />
+                            Suggestions
+                          </button>
+                          {duplicateCount > 0 && (
+                            <button
+                              onClick={() => setIsDuplicatesOpen(true)}
+                              className="flex items-center gap-1.5 h-8 px-3 bg-[#FF9500]/10 hover:bg-[#FF9500]/20 rounded-full text-[11px] font-semibold text-[#C93400] transition-all"
+                              title="Review professors that may be listed twice"
+                            >
+                              <Copy className="w-3.5 h-3.5" />
+                              {duplicateCount} Possible Duplicate(s)
+                            </button>
+                          )}
+
                           <div className="w-px h-6 bg-black/10 mx-1"></div>
 
+                          <div className="flex items-center bg-[#E8E8ED]/70 p-1 rounded-full">
+                            <FileSpreadsheet className="w-3.5 h-3.5 text-[#86868B] mx-2" />
+                            <button
+                              onClick={() => handleExportResearchers('csv')}
+                              disabled={displayedResearchers.length === 0}
+                              className="px-3 py-1.5 rounded-full text-[11px] font-semibold text-[#86868B] hover:text-[#1D1D1F] hover:bg-white transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                              title="Export the current view as CSV"
+                            >
+                              CSV
+                            </button>
+                            <button
+                              onClick={() => handleExportResearchers('xlsx')}
+                              disabled={displayedResearchers.length === 0}
+                              className="px-3 py-1.5 rounded-full text-[11px] font-semibold text-[#86868B] hover:text-[#1D1D1F] hover:bg-white transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                              title="Export the current view as an Excel workbook"
+                            >
+                              XLSX
+                            </button>
+                          </div>
+
                           <button
                             onClick={handleClearAll}
                             className="p-2 text-red-500 hover:text-red-600 hover:bg-red-50 rounded-full transition-colors"
@@ -715,6 +1553,8 @@ export default function App() {
              letterTemplate={letterTemplate}
              emailTitle={emailTitle}
              userInterests={userInterests}
+             letterAiSettings={letterAiSettings}
+             setLetterAiSettings={setLetterAiSettings}
              onUpdateResearcher={(id, updates) => {
                setResearchers(prev => prev.map(r => r.id === id ? { ...r, ...updates } : r));
              }}
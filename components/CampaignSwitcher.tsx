@@ -0,0 +1,202 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Campaign } from '../types';
+import { sortCampaigns } from '../services/campaignService';
+import { Archive, ArchiveRestore, Check, ChevronDown, Copy, FolderOpen, Pencil, Plus, Trash2, X } from 'lucide-react';
+
+interface CampaignSwitcherProps {
+  campaigns: Campaign[];
+  activeCampaignId: string | null;
+  isSwitchDisabled: boolean;
+  onSelect: (campaignId: string) => void;
+  onCreate: (name: string) => void;
+  onRename: (campaignId: string, name: string) => void;
+  onDuplicate: (campaignId: string) => void;
+  onToggleArchive: (campaignId: string) => void;
+  onDelete: (campaignId: string) => void;
+}
+
+export const CampaignSwitcher: React.FC<CampaignSwitcherProps> = ({
+  campaigns,
+  activeCampaignId,
+  isSwitchDisabled,
+  onSelect,
+  onCreate,
+  onRename,
+  onDuplicate,
+  onToggleArchive,
+  onDelete
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [newCampaignName, setNewCampaignName] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleMouseDown = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+        setEditingId(null);
+      }
+    };
+    document.addEventListener('mousedown', handleMouseDown);
+    return () => document.removeEventListener('mousedown', handleMouseDown);
+  }, [isOpen]);
+
+  const activeCampaign = campaigns.find(c => c.id === activeCampaignId);
+  const sorted = sortCampaigns(campaigns);
+  const activeList = sorted.filter(c => !c.isArchived);
+  const archivedList = sorted.filter(c => c.isArchived);
+
+  const handleCreate = () => {
+    if (!newCampaignName.trim()) return;
+    onCreate(newCampaignName.trim());
+    setNewCampaignName('');
+    setIsOpen(false);
+  };
+
+  const handleCommitRename = () => {
+    if (editingId && editingName.trim()) onRename(editingId, editingName.trim());
+    setEditingId(null);
+  };
+
+  const renderCampaignRow = (campaign: Campaign) => {
+    const isActive = campaign.id === activeCampaignId;
+    const isEditing = campaign.id === editingId;
+
+    return (
+      <div
+        key={campaign.id}
+        className={`group flex items-center gap-2 px-2 py-1.5 rounded-lg transition-colors ${isActive ? 'bg-[#0071E3]/10' : 'hover:bg-black/5'}`}
+      >
+        {isEditing ? (
+          <input
+            autoFocus
+            value={editingName}
+            onChange={(event) => setEditingName(event.target.value)}
+            onKeyDown={(event) => {
+              if (event.key === 'Enter') handleCommitRename();
+              if (event.key === 'Escape') setEditingId(null);
+            }}
+            onBlur={handleCommitRename}
+            className="flex-1 h-7 px-2 text-xs bg-white border border-black/10 rounded-md focus:outline-none focus:ring-2 focus:ring-[#0071E3]/30"
+          />
+        ) : (
+          <button
+            onClick={() => {
+              if (!isActive) onSelect(campaign.id);
+              setIsOpen(false);
+            }}
+            disabled={isSwitchDisabled && !isActive}
+            className={`flex-1 min-w-0 flex items-center gap-2 text-left text-xs disabled:opacity-50 disabled:cursor-not-allowed ${
+              isActive ? 'font-semibold text-[#0071E3]' : 'text-[#1D1D1F]'
+            } ${campaign.isArchived ? 'italic text-[#86868B]' : ''}`}
+          >
+            {isActive ? <Check className="w-3 h-3 shrink-0" /> : <span className="w-3 shrink-0" />}
+            <span className="truncate">{campaign.name}</span>
+          </button>
+        )}
+
+        {!isEditing && (
+          <div className="flex items-center gap-0.5 opacity-0 group-hover:opacity-100 transition-opacity">
+            <button
+              onClick={() => {
+                setEditingId(campaign.id);
+                setEditingName(campaign.name);
+              }}
+              className="p-1 rounded-md text-[#86868B] hover:text-[#1D1D1F] hover:bg-black/5"
+              title="Rename"
+            >
+              <Pencil className="w-3 h-3" />
+            </button>
+            <button
+              onClick={() => onDuplicate(campaign.id)}
+              className="p-1 rounded-md text-[#86868B] hover:text-[#1D1D1F] hover:bg-black/5"
+              title="Duplicate"
+            >
+              <Copy className="w-3 h-3" />
+            </button>
+            <button
+              onClick={() => onToggleArchive(campaign.id)}
+              disabled={isSwitchDisabled && isActive}
+              className="p-1 rounded-md text-[#86868B] hover:text-[#1D1D1F] hover:bg-black/5 disabled:opacity-30"
+              title={campaign.isArchived ? 'Unarchive' : 'Archive'}
+            >
+              {campaign.isArchived ? <ArchiveRestore className="w-3 h-3" /> : <Archive className="w-3 h-3" />}
+            </button>
+            <button
+              onClick={() => onDelete(campaign.id)}
+              disabled={campaigns.length <= 1 || (isSwitchDisabled && isActive)}
+              className="p-1 rounded-md text-[#86868B] hover:text-red-500 hover:bg-red-50 disabled:opacity-30 disabled:hover:text-[#86868B] disabled:hover:bg-transparent"
+              title="Delete"
+            >
+              <Trash2 className="w-3 h-3" />
+            </button>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        className="flex items-center gap-1.5 max-w-[180px] px-3 py-1 rounded-full bg-[#F5F5F7] border border-black/5 text-[11px] font-semibold text-[#1D1D1F] hover:bg-[#E8E8ED] transition-colors"
+        title="Switch campaign"
+      >
+        <FolderOpen className="w-3 h-3 text-[#0071E3] shrink-0" />
+        <span className="truncate">{activeCampaign?.name || 'Campaign'}</span>
+        <ChevronDown className={`w-3 h-3 text-[#86868B] shrink-0 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 top-full mt-2 z-[120] w-72 bg-white/90 backdrop-blur-2xl rounded-2xl border border-white/20 shadow-2xl ring-1 ring-black/5 animate-in fade-in zoom-in-95 duration-200">
+          <div className="px-4 py-3 flex items-center justify-between border-b border-black/5">
+            <h3 className="font-semibold text-[#1D1D1F] text-sm">Campaigns</h3>
+            <button
+              onClick={() => setIsOpen(false)}
+              className="p-1 rounded-full hover:bg-black/5 text-slate-500 transition-colors"
+            >
+              <X className="w-3.5 h-3.5" />
+            </button>
+          </div>
+
+          <div className="p-2 max-h-[50vh] overflow-y-auto space-y-0.5">
+            {activeList.map(renderCampaignRow)}
+
+            {archivedList.length > 0 && (
+              <>
+                <div className="px-2 pt-3 pb-1 text-[10px] font-bold text-[#86868B] uppercase tracking-wide">Archived</div>
+                {archivedList.map(renderCampaignRow)}
+              </>
+            )}
+          </div>
+
+          {isSwitchDisabled && (
+            <p className="px-4 pb-2 text-[10px] text-[#86868B]">Switching is paused while an analysis is running.</p>
+          )}
+
+          <div className="px-3 py-3 border-t border-black/5 flex gap-2">
+            <input
+              value={newCampaignName}
+              onChange={(event) => setNewCampaignName(event.target.value)}
+              onKeyDown={(event) => event.key === 'Enter' && handleCreate()}
+              placeholder="New campaign name"
+              className="flex-1 h-8 px-2.5 text-xs bg-[#F5F5F7] border border-black/10 rounded-lg focus:ring-2 focus:ring-[#0071E3]/30 focus:outline-none"
+            />
+            <button
+              onClick={handleCreate}
+              disabled={!newCampaignName.trim() || isSwitchDisabled}
+              className="flex items-center gap-1 px-2.5 h-8 bg-[#0071E3] hover:bg-[#0077ED] text-white rounded-lg text-[11px] font-semibold transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Plus className="w-3 h-3" />
+              Create
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
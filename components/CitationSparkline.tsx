@@ -0,0 +1,53 @@
+import React from 'react';
+import { CitationMetrics } from '../types';
+
+interface CitationSparklineProps {
+  metrics: CitationMetrics;
+  /** Number of most recent years drawn. */
+  years?: number;
+}
+
+const WIDTH = 88;
+const HEIGHT = 22;
+
+const formatCount = (value: number) =>
+  value >= 10000 ? `${(value / 1000).toFixed(value >= 100000 ? 0 : 1)}k` : value.toLocaleString();
+
+export const CitationSparkline: React.FC<CitationSparklineProps> = ({ metrics, years = 12 }) => {
+  const points = metrics.yearly.slice(-years);
+  const max = Math.max(1, ...points.map(p => p.citations));
+  const step = points.length > 1 ? WIDTH / (points.length - 1) : 0;
+  const toY = (citations: number) => HEIGHT - 2 - (citations / max) * (HEIGHT - 4);
+  const coordinates = points.map((p, i) => `${(i * step).toFixed(1)},${toY(p.citations).toFixed(1)}`);
+  const first = points[0];
+  const last = points[points.length - 1];
+  const sinceLabel = metrics.sinceYear ? ` (since ${metrics.sinceYear}: ${formatCount(metrics.citations.recent ?? 0)})` : '';
+
+  return (
+    <div className="flex items-center gap-3 text-[11px] text-[#86868B]">
+      <span title={`Total citations${sinceLabel}`}>
+        <span className="font-semibold text-[#1D1D1F]">{formatCount(metrics.citations.all)}</span> cites
+      </span>
+      <span title={metrics.hIndex.recent !== undefined ? `h-index since ${metrics.sinceYear}: ${metrics.hIndex.recent}` : undefined}>
+        h <span className="font-semibold text-[#1D1D1F]">{metrics.hIndex.all}</span>
+      </span>
+      <span title={metrics.i10Index.recent !== undefined ? `i10-index since ${metrics.sinceYear}: ${metrics.i10Index.recent}` : undefined}>
+        i10 <span className="font-semibold text-[#1D1D1F]">{metrics.i10Index.all}</span>
+      </span>
+      {points.length > 1 && (
+        <svg
+          width={WIDTH}
+          height={HEIGHT}
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          className="ml-auto shrink-0"
+          role="img"
+          aria-label={`Citations per year, ${first.year}–${last.year}`}
+        >
+          <title>{points.map(p => `${p.year}: ${p.citations}`).join('\n')}</title>
+          <polyline points={coordinates.join(' ')} fill="none" stroke="#0071E3" strokeWidth={1.5} strokeLinejoin="round" />
+          <circle cx={(points.length - 1) * step} cy={toY(last.citations)} r={2} fill="#0071E3" />
+        </svg>
+      )}
+    </div>
+  );
+};
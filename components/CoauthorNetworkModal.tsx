@@ -0,0 +1,268 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Researcher } from '../types';
+import { buildCoauthorGraph, CoauthorNode, getCoauthorNeighbours } from '../services/coauthorNetwork';
+import { computeForceLayout, LayoutPoint } from '../services/forceLayout';
+import { Mail, Network, X } from 'lucide-react';
+
+interface CoauthorNetworkModalProps {
+  researchers: Researcher[];
+  onClose: () => void;
+}
+
+const WIDTH = 760;
+const HEIGHT = 540;
+const CLUSTER_COLORS = ['#0071E3', '#34C759', '#FF9500', '#AF52DE', '#FF2D55', '#5AC8FA', '#FFCC00', '#8E8E93'];
+
+const getNodeRadius = (node: CoauthorNode) =>
+  node.kind === 'external' ? 4 + Math.min(node.paperCount, 10) * 0.5 : 7 + Math.min(Math.sqrt(node.paperCount), 8);
+
+const getNodeColor = (node: CoauthorNode) =>
+  node.cluster === undefined ? '#C7C7CC' : CLUSTER_COLORS[node.cluster % CLUSTER_COLORS.length];
+
+export const CoauthorNetworkModal: React.FC<CoauthorNetworkModalProps> = ({ researchers, onClose }) => {
+  const [showExternal, setShowExternal] = useState(true);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [hoveredId, setHoveredId] = useState<string | null>(null);
+  const [draggedPositions, setDraggedPositions] = useState<Record<string, LayoutPoint>>({});
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  const graph = useMemo(
+    () => buildCoauthorGraph(researchers, showExternal ? {} : { maxExternalNodes: 0 }),
+    [researchers, showExternal]
+  );
+
+  const layout = useMemo(
+    () => computeForceLayout(
+      graph.nodes.map(node => node.id),
+      graph.edges.map(edge => ({ source: edge.source, target: edge.target, weight: edge.sharedPapers })),
+      { width: WIDTH, height: HEIGHT }
+    ),
+    [graph]
+  );
+  const positions = { ...layout, ...draggedPositions };
+
+  const focusId = hoveredId || selectedId;
+  const focusNeighbours = useMemo(
+    () => new Set(focusId ? getCoauthorNeighbours(graph, focusId).map(({ node }) => node.id) : []),
+    [graph, focusId]
+  );
+  const selectedNode = graph.nodes.find(node => node.id === selectedId);
+  const selectedNeighbours = selectedNode ? getCoauthorNeighbours(graph, selectedNode.id) : [];
+  const nodesById = new Map<string, CoauthorNode>(graph.nodes.map(node => [node.id, node]));
+  const researcherCount = graph.nodes.filter(node => node.kind === 'researcher').length;
+  const linkCount = graph.edges.filter(edge => !edge.target.startsWith('external:')).length;
+
+  const toSvgPoint = (event: React.PointerEvent): LayoutPoint | null => {
+    const rect = svgRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return null;
+    return {
+      x: ((event.clientX - rect.left) / rect.width) * WIDTH,
+      y: ((event.clientY - rect.top) / rect.height) * HEIGHT
+    };
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    if (!draggingId) return;
+    const point = toSvgPoint(event);
+    if (point) setDraggedPositions(prev => ({ ...prev, [draggingId]: point }));
+  };
+
+  const isDimmed = (nodeId: string) => Boolean(focusId) && nodeId !== focusId && !focusNeighbours.has(nodeId);
+
+  return (
+    <div className="fixed inset-0 bg-black/40 backdrop-blur-sm flex items-center justify-center z-[100] p-4 animate-fade-in" onClick={onClose}>
+      <div
+        onClick={(event) => event.stopPropagation()}
+        className="bg-white/90 backdrop-blur-2xl rounded-2xl shadow-2xl w-full max-w-6xl max-h-[90vh] flex flex-col overflow-hidden animate-modal-in border border-white/20"
+      >
+        <div className="p-6 pb-4 flex items-start justify-between gap-4">
+          <div>
+            <h3 className="text-xl font-bold text-slate-900 flex items-center gap-2">
+              <Network className="w-5 h-5 text-[#0071E3]" />
+              Co-author Network
+            </h3>
+            <p className="text-[11px] text-[#86868B] mt-1">
+              {researcherCount} professors · {linkCount} direct collaborations · {graph.clusters.length} cluster(s), from the author lists of analyzed publications
+            </p>
+          </div>
+          <div className="flex items-center gap-3">
+            <label className="flex items-center gap-2 text-[11px] font-semibold text-[#424245]">
+              <input
+                type="checkbox"
+                checked={showExternal}
+                onChange={(event) => {
+                  setShowExternal(event.target.checked);
+                  setSelectedId(null);
+                  setDraggedPositions({});
+                }}
+                className="rounded border-[#D2D2D7] text-[#0071E3] focus:ring-[#0071E3]/30"
+              />
+              External collaborators
+            </label>
+            <button onClick={onClose} className="p-2 hover:bg-black/5 rounded-full transition-colors">
+              <X className="w-5 h-5 text-slate-400" />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 min-h-0 flex border-t border-black/5">
+          <div className="flex-1 min-w-0 bg-[#F5F5F7]/60">
+            {graph.nodes.length === 0 ? (
+              <p className="p-6 text-sm text-[#86868B]">
+                No publication lists yet. Analyze some professors to see who publishes with whom.
+              </p>
+            ) : (
+              <svg
+                ref={svgRef}
+                viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+                className="w-full h-full select-none touch-none"
+                onPointerMove={handlePointerMove}
+                onPointerUp={() => setDraggingId(null)}
+                onPointerLeave={() => setDraggingId(null)}
+                onClick={() => setSelectedId(null)}
+              >
+                {graph.edges.map(edge => {
+                  const source = positions[edge.source];
+                  const target = positions[edge.target];
+                  if (!source || !target) return null;
+                  const isFocused = focusId === edge.source || focusId === edge.target;
+                  const isExternal = edge.target.startsWith('external:');
+                  return (
+                    <line
+                      key={`${edge.source}|${edge.target}`}
+                      x1={source.x}
+                      y1={source.y}
+                      x2={target.x}
+                      y2={target.y}
+                      stroke={isFocused ? '#0071E3' : isExternal ? '#D2D2D7' : '#86868B'}
+                      strokeWidth={Math.min(1 + edge.sharedPapers * 0.6, 6)}
+                      strokeDasharray={isExternal ? '3 3' : undefined}
+                      opacity={focusId && !isFocused ? 0.15 : 0.8}
+                    >
+                      <title>{`${edge.sharedPapers} shared paper(s)\n${edge.titles.join('\n')}`}</title>
+                    </line>
+                  );
+                })}
+                {graph.nodes.map(node => {
+                  const position = positions[node.id];
+                  if (!position) return null;
+                  const radius = getNodeRadius(node);
+                  const showLabel = node.kind === 'researcher' || node.id === focusId || focusNeighbours.has(node.id);
+                  return (
+                    <g
+                      key={node.id}
+                      transform={`translate(${position.x} ${position.y})`}
+                      opacity={isDimmed(node.id) ? 0.25 : 1}
+                      className="cursor-pointer"
+                      onPointerDown={(event) => {
+                        event.stopPropagation();
+                        (event.target as Element).setPointerCapture?.(event.pointerId);
+                        setDraggingId(node.id);
+                      }}
+                      onPointerEnter={() => setHoveredId(node.id)}
+                      onPointerLeave={() => setHoveredId(null)}
+                      onClick={(event) => {
+                        event.stopPropagation();
+                        setSelectedId(node.id);
+                      }}
+                    >
+                      <circle
+                        r={radius}
+                        fill={node.kind === 'external' ? '#FFFFFF' : getNodeColor(node)}
+                        stroke={node.kind === 'external' ? getNodeColor(node) : node.id === selectedId ? '#1D1D1F' : '#FFFFFF'}
+                        strokeWidth={node.id === selectedId ? 3 : 2}
+                      />
+                      {node.isContacted && (
+                        <circle r={radius + 4} fill="none" stroke="#34C759" strokeWidth={1.5} strokeDasharray="2 2" />
+                      )}
+                      {showLabel && (
+                        <text
+                          y={radius + 11}
+                          textAnchor="middle"
+                          className={`text-[10px] ${node.kind === 'researcher' ? 'font-semibold fill-[#1D1D1F]' : 'fill-[#86868B]'}`}
+                        >
+                          {node.label}
+                        </text>
+                      )}
+                    </g>
+                  );
+                })}
+              </svg>
+            )}
+          </div>
+
+          <div className="w-72 shrink-0 border-l border-black/5 overflow-y-auto p-5 space-y-4">
+            {selectedNode ? (
+              <>
+                <div>
+                  <p className="text-[10px] font-bold uppercase tracking-wide text-[#86868B]">
+                    {selectedNode.kind === 'researcher' ? 'Professor in your list' : 'External collaborator'}
+                  </p>
+                  <p className="text-base font-bold text-[#1D1D1F] mt-0.5">{selectedNode.label}</p>
+                  <p className="text-[11px] text-[#86868B]">
+                    {selectedNode.kind === 'researcher'
+                      ? `${selectedNode.paperCount} publications fetched`
+                      : `${selectedNode.paperCount} paper(s) with professors in your list`}
+                    {selectedNode.isContacted ? ' · already emailed' : ''}
+                  </p>
+                </div>
+                <ul className="space-y-2">
+                  {selectedNeighbours.map(({ node, edge }) => (
+                    <li key={node.id}>
+                      <button
+                        onClick={() => setSelectedId(node.id)}
+                        className="w-full text-left p-2 rounded-lg hover:bg-black/[0.03] transition-colors"
+                        title={edge.titles.join('\n')}
+                      >
+                        <span className="flex items-center gap-1.5">
+                          <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: getNodeColor(node) }} />
+                          <span className={`text-xs font-semibold truncate ${node.kind === 'researcher' ? 'text-[#1D1D1F]' : 'text-[#424245]'}`}>
+                            {node.label}
+                          </span>
+                          <span className="ml-auto text-[10px] text-[#86868B] shrink-0">{edge.sharedPapers} shared</span>
+                        </span>
+                        {node.isContacted && !selectedNode.isContacted && (
+                          <span className="mt-1 inline-flex items-center gap-1 text-[10px] font-semibold text-[#248A3D]">
+                            <Mail className="w-3 h-3" />
+                            Already emailed, could introduce you
+                          </span>
+                        )}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </>
+            ) : (
+              <>
+                <p className="text-[11px] text-[#86868B] leading-relaxed">
+                  Click a node to see its collaborators. Drag nodes to untangle the view. Solid lines join professors in your
+                  list; dashed lines lead to outside collaborators. A dashed green ring marks professors you have already emailed.
+                </p>
+                {graph.clusters.map((members, index) => (
+                  <div key={index}>
+                    <p className="text-[10px] font-bold uppercase tracking-wide text-[#86868B] flex items-center gap-1.5">
+                      <span className="w-2 h-2 rounded-full" style={{ backgroundColor: CLUSTER_COLORS[index % CLUSTER_COLORS.length] }} />
+                      Cluster {index + 1}
+                    </p>
+                    <div className="flex flex-wrap gap-1 mt-1.5">
+                      {members.map(id => (
+                        <button
+                          key={id}
+                          onClick={() => setSelectedId(id)}
+                          className="px-2 py-0.5 rounded-md text-[11px] font-semibold bg-[#F5F5F7] text-[#1D1D1F] hover:bg-[#E8E8ED] transition-colors"
+                        >
+                          {nodesById.get(id)?.label}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
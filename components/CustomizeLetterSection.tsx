@@ -1,12 +1,16 @@
 import React, { useEffect, useRef, useState } from 'react';
-import { Researcher, MatchType, EmailStatus } from '../types';
+import { Researcher, MatchType, EmailStatus, LetterAiSettings } from '../types';
 import {
   generateCustomizedLetter,
-  reviseCustomizedLetterWithAnnotation,
-  DEFAULT_LETTER_MODEL,
-  DEFAULT_LETTER_GENERATION_PROMPT_TEMPLATE,
-  DEFAULT_LETTER_REVISION_PROMPT_TEMPLATE
+  reviseCustomizedLetterWithAnnotation
 } from '../services/geminiService';
+import { DEFAULT_LETTER_AI_SETTINGS, coerceClampedNumber } from '../services/letterSettingsService';
+import {
+  RevisionPreview,
+  buildRevisionPreview,
+  buildRichTextHtml,
+  stripFormattingMarkers
+} from '../services/letterFormatting';
 import { Sparkles, Wand2, Eye, FileText, Check, X, Copy, Mail, SlidersHorizontal, ChevronDown, ChevronUp, RotateCcw } from 'lucide-react';
 
 interface CustomizeLetterSectionProps {
@@ -14,6 +18,8 @@ interface CustomizeLetterSectionProps {
   letterTemplate: string;
   emailTitle: string;
   userInterests: string;
+  letterAiSettings: LetterAiSettings;
+  setLetterAiSettings: React.Dispatch<React.SetStateAction<LetterAiSettings>>;
   onUpdateResearcher: (id: string, updates: Partial<Researcher>) => void;
 }
 
@@ -26,87 +32,12 @@ interface AnnotationPopoverState {
   hasMouseEntered: boolean;
 }
 
-interface RevisionPreviewState {
-  researcherId: string;
-  revisedLetter: string;
-  start: number;
-  end: number;
-  beforeText: string;
-  afterText: string;
-}
-
 interface AnnotationStatusState {
   tone: 'info' | 'success' | 'error';
   message: string;
 }
 
-interface LetterAiSettings {
-  model: string;
-  temperature: number | '';
-  topP: number | '';
-  topK: number | '';
-  maxOutputTokens: number | '';
-  generationPromptTemplate: string;
-  revisionPromptTemplate: string;
-}
-
 const ANNOTATION_POPOVER_HIDE_MS = 160;
-const LETTER_AI_SETTINGS_STORAGE_KEY = 'customizeLetterAiSettings';
-const DEFAULT_LETTER_AI_SETTINGS: LetterAiSettings = {
-  model: DEFAULT_LETTER_MODEL,
-  temperature: '',
-  topP: '',
-  topK: '',
-  maxOutputTokens: '',
-  generationPromptTemplate: DEFAULT_LETTER_GENERATION_PROMPT_TEMPLATE,
-  revisionPromptTemplate: DEFAULT_LETTER_REVISION_PROMPT_TEMPLATE
-};
-
-const coerceClampedNumber = (
-  value: unknown,
-  min: number,
-  max: number,
-  integer = false
-): number | '' => {
-  if (value === '' || value === null || value === undefined) return '';
-  const numericValue = typeof value === 'number' ? value : Number(value);
-  if (!Number.isFinite(numericValue)) return '';
-  const clamped = Math.min(max, Math.max(min, numericValue));
-  return integer ? Math.round(clamped) : clamped;
-};
-
-const escapeHtml = (value: string): string =>
-  value
-    .replace(/&/g, '&amp;')
-    .replace(/</g, '&lt;')
-    .replace(/>/g, '&gt;')
-    .replace(/"/g, '&quot;')
-    .replace(/'/g, '&#39;');
-
-const stripFormattingMarkers = (value: string): string =>
-  value
-    .replace(/\[\[B\]\]([\s\S]*?)\[\[\/B\]\]/g, '$1')
-    .replace(/\*\*\*\*([\s\S]*?)\*\*\*\*/g, '$1')
-    .replace(/\*\*([\s\S]*?)\*\*/g, '$1');
-
-const buildRichTextHtml = (value: string): string => {
-  const normalized = value.replace(/\r\n/g, '\n');
-  const markerPattern = /\[\[B\]\]([\s\S]*?)\[\[\/B\]\]|\*\*\*\*([\s\S]*?)\*\*\*\*|\*\*([\s\S]*?)\*\*/g;
-  let html = '';
-  let lastIndex = 0;
-  let match: RegExpExecArray | null;
-
-  while ((match = markerPattern.exec(normalized)) !== null) {
-    html += escapeHtml(normalized.slice(lastIndex, match.index));
-    const boldContent = match[1] ?? match[2] ?? match[3] ?? '';
-    html += `<strong style="font-weight: 700;">${escapeHtml(boldContent)}</strong>`;
-    lastIndex = markerPattern.lastIndex;
-  }
-
-  html += escapeHtml(normalized.slice(lastIndex));
-  const bodyHtml = html.replace(/\n/g, '<br>');
-  return `<div style="font-family: Helvetica, Arial, sans-serif; font-size: 14px; line-height: 1.6; color: #000000;">${bodyHtml}</div>`;
-};
 
 const getAdaptivePopoverWidth = (selectedText: string): number => {
   const minWidth = 320;
@@ -119,73 +50,23 @@ const getAdaptivePopoverWidth = (selectedText: string): number => {
   return Math.max(minWidth, Math.min(maxWidth, estimated));
 };
 
-const buildRevisionPreview = (
-  currentLetter: string,
-  revisedLetter: string,
-  selectedText: string,
-  researcherId: string
-): RevisionPreviewState => {
-  const selectedStart = selectedText ? currentLetter.indexOf(selectedText) : -1;
-
-  if (selectedStart >= 0) {
-    const prefix = currentLetter.slice(0, selectedStart);
-    const suffix = currentLetter.slice(selectedStart + selectedText.length);
-
-    if (revisedLetter.startsWith(prefix) && revisedLetter.endsWith(suffix)) {
-      return {
-        researcherId,
-        revisedLetter,
-        start: selectedStart,
-        end: selectedStart + selectedText.length,
-        beforeText: selectedText,
-        afterText: revisedLetter.slice(prefix.length, revisedLetter.length - suffix.length)
-      };
-    }
-  }
-
-  let prefixLen = 0;
-  const maxPrefix = Math.min(currentLetter.length, revisedLetter.length);
-  while (prefixLen < maxPrefix && currentLetter[prefixLen] === revisedLetter[prefixLen]) {
-    prefixLen += 1;
-  }
-
-  let suffixLen = 0;
-  const maxSuffix = Math.min(
-    currentLetter.length - prefixLen,
-    revisedLetter.length - prefixLen
-  );
-  while (
-    suffixLen < maxSuffix &&
-    currentLetter[currentLetter.length - 1 - suffixLen] === revisedLetter[revisedLetter.length - 1 - suffixLen]
-  ) {
-    suffixLen += 1;
-  }
-
-  return {
-    researcherId,
-    revisedLetter,
-    start: prefixLen,
-    end: currentLetter.length - suffixLen,
-    beforeText: currentLetter.slice(prefixLen, currentLetter.length - suffixLen),
-    afterText: revisedLetter.slice(prefixLen, revisedLetter.length - suffixLen)
-  };
-};
 
 export const CustomizeLetterSection: React.FC<CustomizeLetterSectionProps> = ({
   favoriteResearchers,
   letterTemplate,
   emailTitle,
   userInterests,
+  letterAiSettings,
+  setLetterAiSettings,
   onUpdateResearcher
 }) => {
   const [isAiSettingsOpen, setIsAiSettingsOpen] = useState(false);
-  const [letterAiSettings, setLetterAiSettings] = useState<LetterAiSettings>(DEFAULT_LETTER_AI_SETTINGS);
   const [pendingGenerationIds, setPendingGenerationIds] = useState<Set<string>>(new Set());
   const [copyButtonState, setCopyButtonState] = useState<'idle' | 'success' | 'failed'>('idle');
   const [viewLetterId, setViewLetterId] = useState<string | null>(null);
   const [annotationPopover, setAnnotationPopover] = useState<AnnotationPopoverState | null>(null);
   const [isAnnotationPopoverVisible, setIsAnnotationPopoverVisible] = useState(false);
-  const [revisionPreview, setRevisionPreview] = useState<RevisionPreviewState | null>(null);
+  const [revisionPreview, setRevisionPreview] = useState<RevisionPreview | null>(null);
   const [annotationStatus, setAnnotationStatus] = useState<AnnotationStatusState | null>(null);
 
   const pendingGenerationIdsRef = useRef<Set<string>>(new Set());
@@ -194,35 +75,6 @@ export const CustomizeLetterSection: React.FC<CustomizeLetterSectionProps> = ({
   const annotationPopoverRef = useRef<HTMLDivElement | null>(null);
   const annotationHideTimerRef = useRef<number | null>(null);
 
-  useEffect(() => {
-    if (typeof window === 'undefined') return;
-    try {
-      const raw = window.localStorage.getItem(LETTER_AI_SETTINGS_STORAGE_KEY);
-      if (!raw) return;
-      const parsed = JSON.parse(raw) as Partial<LetterAiSettings>;
-      setLetterAiSettings({
-        model: typeof parsed.model === 'string' && parsed.model.trim() ? parsed.model : DEFAULT_LETTER_MODEL,
-        temperature: coerceClampedNumber(parsed.temperature, 0, 2),
-        topP: coerceClampedNumber(parsed.topP, 0, 1),
-        topK: coerceClampedNumber(parsed.topK, 1, 200, true),
-        maxOutputTokens: coerceClampedNumber(parsed.maxOutputTokens, 1, 8192, true),
-        generationPromptTemplate: typeof parsed.generationPromptTemplate === 'string' && parsed.generationPromptTemplate.trim()
-          ? parsed.generationPromptTemplate
-          : DEFAULT_LETTER_GENERATION_PROMPT_TEMPLATE,
-        revisionPromptTemplate: typeof parsed.revisionPromptTemplate === 'string' && parsed.revisionPromptTemplate.trim()
-          ? parsed.revisionPromptTemplate
-          : DEFAULT_LETTER_REVISION_PROMPT_TEMPLATE
-      });
-    } catch (error) {
-      console.error('Failed to load letter AI settings:', error);
-    }
-  }, []);
-
-  useEffect(() => {
-    if (typeof window === 'undefined') return;
-    window.localStorage.setItem(LETTER_AI_SETTINGS_STORAGE_KEY, JSON.stringify(letterAiSettings));
-  }, [letterAiSettings]);
-
   const handleModelSettingChange = (value: string) => {
     setLetterAiSettings(prev => ({
       ...prev,
@@ -270,7 +122,7 @@ export const CustomizeLetterSection: React.FC<CustomizeLetterSectionProps> = ({
   };
 
   const buildLetterModelOptions = () => ({
-    model: letterAiSettings.model.trim() || DEFAULT_LETTER_MODEL,
+    model: letterAiSettings.model.trim() || undefined,
     temperature: typeof letterAiSettings.temperature === 'number' ? letterAiSettings.temperature : undefined,
     topP: typeof letterAiSettings.topP === 'number' ? letterAiSettings.topP : undefined,
     topK: typeof letterAiSettings.topK === 'number' ? letterAiSettings.topK : undefined,
@@ -694,12 +546,12 @@ export const CustomizeLetterSection: React.FC<CustomizeLetterSectionProps> = ({
           <div className="mt-4 pt-4 border-t border-black/5 space-y-4">
             <div className="grid grid-cols-1 md:grid-cols-5 gap-3">
               <label className="flex flex-col gap-1">
-                <span className="text-[11px] font-semibold text-[#86868B] uppercase tracking-wide">Model</span>
+                <span className="text-[11px] font-semibold text-[#86868B] uppercase tracking-wide">Model Override</span>
                 <input
                   type="text"
                   value={letterAiSettings.model}
                   onChange={(event) => handleModelSettingChange(event.target.value)}
-                  placeholder="gemini-3-pro-preview"
+                  placeholder="Letter task default"
                   className="h-9 rounded-lg border border-black/10 px-3 text-sm text-[#1D1D1F] focus:outline-none focus:ring-2 focus:ring-[#0071E3]/30"
                 />
               </label>
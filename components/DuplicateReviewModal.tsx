@@ -0,0 +1,89 @@
+import React from 'react';
+import { AnalysisStatus, EmailStatus, Researcher } from '../types';
+import { DuplicateCandidate } from '../services/researcherDedupe';
+import { Copy, X } from 'lucide-react';
+
+interface DuplicateReviewModalProps {
+  candidates: DuplicateCandidate[];
+  onMerge: (keepId: string, mergeId: string) => void;
+  onKeepBoth: (firstId: string, secondId: string) => void;
+  onClose: () => void;
+}
+
+const STATUS_LABELS: Record<AnalysisStatus, string> = {
+  [AnalysisStatus.AWAITING_SCHOLAR_ID]: 'Needs Scholar ID',
+  [AnalysisStatus.PENDING]: 'Ready to analyze',
+  [AnalysisStatus.LOADING]: 'Analyzing',
+  [AnalysisStatus.COMPLETED]: 'Analyzed',
+  [AnalysisStatus.ERROR]: 'Analysis failed'
+};
+
+const ResearcherSummary: React.FC<{ researcher: Researcher; onKeep: () => void }> = ({ researcher, onKeep }) => {
+  const details = [
+    STATUS_LABELS[researcher.status],
+    researcher.scholarAuthorId ? `Scholar ${researcher.scholarAuthorId}` : undefined,
+    researcher.contactEmail,
+    researcher.department,
+    researcher.tags?.length ? `${researcher.tags.length} tag(s)` : undefined,
+    researcher.customizedLetter ? 'Has a letter' : undefined,
+    researcher.emailStatus === EmailStatus.SENT ? 'Emailed' : undefined
+  ].filter(Boolean);
+
+  return (
+    <div className="flex-1 min-w-0 p-3 rounded-xl bg-[#F5F5F7]">
+      <p className="text-sm font-semibold text-[#1D1D1F] truncate">{researcher.name}</p>
+      <p className="text-[11px] text-[#86868B] mt-0.5 break-words">{details.join(' · ')}</p>
+      <button
+        onClick={onKeep}
+        className="mt-2 px-3 py-1 rounded-full text-[11px] font-semibold bg-white text-[#0071E3] hover:bg-[#0071E3] hover:text-white transition-colors"
+      >
+        Keep this one
+      </button>
+    </div>
+  );
+};
+
+export const DuplicateReviewModal: React.FC<DuplicateReviewModalProps> = ({ candidates, onMerge, onKeepBoth, onClose }) => (
+  <div className="fixed inset-0 bg-black/40 backdrop-blur-sm flex items-center justify-center z-[100] p-4 animate-fade-in">
+    <div className="bg-white/90 backdrop-blur-2xl rounded-2xl shadow-2xl w-full max-w-2xl max-h-[85vh] flex flex-col overflow-hidden animate-modal-in border border-white/20">
+      <div className="p-6 flex items-center justify-between">
+        <div>
+          <h3 className="text-xl font-bold text-slate-900 flex items-center gap-2">
+            <Copy className="w-5 h-5 text-[#0071E3]" />
+            Possible Duplicates
+          </h3>
+          <p className="text-[11px] text-[#86868B] mt-1">
+            Merging keeps the chosen name and fills in the Scholar ID, tags, letter and email status from the other entry
+          </p>
+        </div>
+        <button onClick={onClose} className="p-2 hover:bg-black/5 rounded-full transition-colors">
+          <X className="w-5 h-5 text-slate-400" />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-6 pb-6 space-y-3">
+        {candidates.length === 0 ? (
+          <p className="text-sm text-[#86868B]">No possible duplicates left.</p>
+        ) : (
+          candidates.map(({ first, second, reason }) => (
+            <div key={`${first.id}|${second.id}`} className="border border-black/5 rounded-xl p-3">
+              <div className="flex items-center justify-between mb-2">
+                <span className="text-[10px] font-bold uppercase tracking-wide text-[#86868B]">{reason}</span>
+                <button
+                  onClick={() => onKeepBoth(first.id, second.id)}
+                  className="px-3 py-1 rounded-full text-[11px] font-semibold text-[#86868B] hover:bg-black/5 transition-colors"
+                >
+                  Different people
+                </button>
+              </div>
+              <div className="flex gap-2">
+                <ResearcherSummary researcher={first} onKeep={() => onMerge(first.id, second.id)} />
+                <ResearcherSummary researcher={second} onKeep={() => onMerge(second.id, first.id)} />
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  </div>
+);
@@ -0,0 +1,150 @@
+import React from 'react';
+import { BundleImportMode, CampaignBundlePreview } from '../services/bundleService';
+import { AlertCircle, FileJson, Loader2, X } from 'lucide-react';
+
+interface ImportProjectModalProps {
+  fileName: string;
+  exportedAt: string;
+  preview: CampaignBundlePreview[];
+  mode: BundleImportMode;
+  onModeChange: (mode: BundleImportMode) => void;
+  isImporting: boolean;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+export const ImportProjectModal: React.FC<ImportProjectModalProps> = ({
+  fileName,
+  exportedAt,
+  preview,
+  mode,
+  onModeChange,
+  isImporting,
+  onConfirm,
+  onCancel
+}) => {
+  const totalResearchers = preview.reduce((sum, c) => sum + c.researcherCount, 0);
+  const totalDuplicates = preview.reduce((sum, c) => sum + c.duplicateCount, 0);
+  const exportedDate = exportedAt ? new Date(exportedAt) : null;
+
+  return (
+    <div className="fixed inset-0 bg-black/40 backdrop-blur-sm flex items-center justify-center z-[100] p-4 animate-fade-in">
+      <div className="bg-white/90 backdrop-blur-2xl rounded-2xl shadow-2xl w-full max-w-2xl max-h-[85vh] flex flex-col overflow-hidden animate-modal-in border border-white/20">
+        <div className="p-6 flex items-center justify-between">
+          <div>
+            <h3 className="text-xl font-bold text-slate-900 flex items-center gap-2">
+              <FileJson className="w-5 h-5 text-[#0071E3]" />
+              Import Project
+            </h3>
+            <p className="text-[11px] text-[#86868B] mt-1">
+              {fileName}
+              {exportedDate && !Number.isNaN(exportedDate.getTime()) ? ` · exported ${exportedDate.toLocaleString()}` : ''}
+            </p>
+          </div>
+          <button
+            onClick={onCancel}
+            className="p-2 hover:bg-black/5 rounded-full transition-colors"
+          >
+            <X className="w-5 h-5 text-slate-400" />
+          </button>
+        </div>
+
+        <div className="px-6 pb-4 overflow-y-auto flex-1 space-y-4">
+          <div className="rounded-xl border border-black/5 overflow-hidden">
+            <table className="w-full text-xs">
+              <thead className="bg-[#F5F5F7] text-[#86868B] uppercase tracking-wide text-[10px]">
+                <tr>
+                  <th className="text-left font-bold px-3 py-2">Campaign</th>
+                  <th className="text-right font-bold px-3 py-2">Professors</th>
+                  <th className="text-right font-bold px-3 py-2">Analyzed</th>
+                  <th className="text-right font-bold px-3 py-2">Letters</th>
+                  <th className="text-right font-bold px-3 py-2">Sent</th>
+                  {mode === 'merge' && <th className="text-left font-bold px-3 py-2">Merge</th>}
+                </tr>
+              </thead>
+              <tbody>
+                {preview.map((campaign, index) => (
+                  <tr key={index} className="border-t border-black/5 text-[#1D1D1F]">
+                    <td className="px-3 py-2 font-semibold">{campaign.name}</td>
+                    <td className="px-3 py-2 text-right">{campaign.researcherCount}</td>
+                    <td className="px-3 py-2 text-right">{campaign.analyzedCount}</td>
+                    <td className="px-3 py-2 text-right">{campaign.letterCount}</td>
+                    <td className="px-3 py-2 text-right">{campaign.sentCount}</td>
+                    {mode === 'merge' && (
+                      <td className="px-3 py-2 text-[#86868B]">
+                        {campaign.mergesInto
+                          ? `Into "${campaign.mergesInto}" (${campaign.duplicateCount} already present)`
+                          : 'New campaign'}
+                      </td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <button
+              onClick={() => onModeChange('merge')}
+              className={`text-left rounded-xl border p-3 transition-all ${
+                mode === 'merge' ? 'border-[#0071E3] bg-[#0071E3]/5 ring-2 ring-[#0071E3]/20' : 'border-black/10 hover:bg-[#F5F5F7]'
+              }`}
+            >
+              <p className="text-sm font-semibold text-[#1D1D1F]">Merge</p>
+              <p className="text-[11px] text-[#86868B] mt-1 leading-relaxed">
+                Add {totalResearchers - totalDuplicates} new professor(s). Duplicates (same name or Scholar ID) keep your current data.
+                Your letter AI settings are kept.
+              </p>
+            </button>
+            <button
+              onClick={() => onModeChange('replace')}
+              className={`text-left rounded-xl border p-3 transition-all ${
+                mode === 'replace' ? 'border-red-400 bg-red-50 ring-2 ring-red-200' : 'border-black/10 hover:bg-[#F5F5F7]'
+              }`}
+            >
+              <p className="text-sm font-semibold text-[#1D1D1F]">Replace</p>
+              <p className="text-[11px] text-[#86868B] mt-1 leading-relaxed">
+                Discard every current campaign and load {preview.length} campaign(s) with {totalResearchers} professor(s) and the
+                file's letter AI settings.
+              </p>
+            </button>
+          </div>
+
+          {mode === 'replace' && (
+            <p className="text-xs font-semibold text-red-600/80 flex items-center gap-1.5">
+              <AlertCircle className="w-3.5 h-3.5" />
+              Your current workspace will be overwritten. This action cannot be undone.
+            </p>
+          )}
+        </div>
+
+        <div className="p-6 flex gap-3 justify-end">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-6 py-2.5 bg-white border border-slate-200 hover:bg-slate-50 text-slate-700 rounded-full font-semibold transition-all"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={onConfirm}
+            disabled={isImporting}
+            className={`px-8 py-2.5 text-white rounded-full font-semibold transition-all shadow-apple active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2 ${
+              mode === 'replace' ? 'bg-red-600 hover:bg-red-700' : 'bg-[#0071E3] hover:bg-[#0077ED]'
+            }`}
+          >
+            {isImporting ? (
+              <>
+                <Loader2 className="w-4 h-4 animate-spin" />
+                Importing...
+              </>
+            ) : (
+              mode === 'replace' ? 'Replace Workspace' : 'Merge Into Workspace'
+            )}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,174 @@
+import React, { useMemo, useState } from 'react';
+import { Researcher } from '../types';
+import {
+  EMPTY_ROSTER_MAPPING,
+  ROSTER_FIELDS,
+  RosterColumnMapping,
+  RosterRowPreview,
+  RosterRowStatus,
+  guessColumnMapping,
+  looksLikeHeaderRow,
+  previewRosterRows
+} from '../services/rosterImportService';
+import { FileSpreadsheet, X } from 'lucide-react';
+
+interface ImportRosterModalProps {
+  fileName: string;
+  rows: string[][];
+  existingResearchers: Researcher[];
+  onConfirm: (previews: RosterRowPreview[]) => void;
+  onCancel: () => void;
+}
+
+const PREVIEW_ROW_LIMIT = 8;
+
+const ROW_STATUS_LABELS: Record<RosterRowStatus, { label: string; className: string }> = {
+  new: { label: 'New', className: 'bg-green-50 text-green-700' },
+  duplicate: { label: 'Already added', className: 'bg-[#F5F5F7] text-[#86868B]' },
+  'missing-name': { label: 'No name', className: 'bg-red-50 text-red-600' }
+};
+
+export const ImportRosterModal: React.FC<ImportRosterModalProps> = ({
+  fileName,
+  rows,
+  existingResearchers,
+  onConfirm,
+  onCancel
+}) => {
+  const [hasHeaderRow, setHasHeaderRow] = useState(() => looksLikeHeaderRow(rows[0] || []));
+  const columnCount = rows.reduce((max, row) => Math.max(max, row.length), 0);
+  const columnLabels = Array.from({ length: columnCount }, (_, index) =>
+    hasHeaderRow && rows[0][index] ? rows[0][index] : `Column ${index + 1}`
+  );
+  const [mapping, setMapping] = useState<RosterColumnMapping>(() =>
+    looksLikeHeaderRow(rows[0] || []) ? guessColumnMapping(rows[0]) : { ...EMPTY_ROSTER_MAPPING, name: 0 }
+  );
+
+  const dataRows = useMemo(() => (hasHeaderRow ? rows.slice(1) : rows), [hasHeaderRow, rows]);
+  const previews = useMemo(
+    () => previewRosterRows(dataRows, mapping, existingResearchers),
+    [dataRows, mapping, existingResearchers]
+  );
+  const newCount = previews.filter(p => p.status === 'new').length;
+  const withScholarIdCount = previews.filter(p => p.status === 'new' && p.scholarAuthorId).length;
+
+  const handleToggleHeader = (checked: boolean) => {
+    setHasHeaderRow(checked);
+    if (checked) setMapping(guessColumnMapping(rows[0] || []));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/40 backdrop-blur-sm flex items-center justify-center z-[100] p-4 animate-fade-in">
+      <div className="bg-white/90 backdrop-blur-2xl rounded-2xl shadow-2xl w-full max-w-3xl max-h-[85vh] flex flex-col overflow-hidden animate-modal-in border border-white/20">
+        <div className="p-6 flex items-center justify-between">
+          <div>
+            <h3 className="text-xl font-bold text-slate-900 flex items-center gap-2">
+              <FileSpreadsheet className="w-5 h-5 text-[#0071E3]" />
+              Import Professor List
+            </h3>
+            <p className="text-[11px] text-[#86868B] mt-1">
+              {fileName} · {dataRows.length} row(s)
+            </p>
+          </div>
+          <button
+            onClick={onCancel}
+            className="p-2 hover:bg-black/5 rounded-full transition-colors"
+          >
+            <X className="w-5 h-5 text-slate-400" />
+          </button>
+        </div>
+
+        <div className="px-6 pb-4 overflow-y-auto flex-1 space-y-4">
+          <label className="flex items-center gap-2 text-xs font-semibold text-[#1D1D1F]">
+            <input
+              type="checkbox"
+              checked={hasHeaderRow}
+              onChange={(event) => handleToggleHeader(event.target.checked)}
+              className="rounded border-black/20 text-[#0071E3] focus:ring-[#0071E3]/30"
+            />
+            First row contains column names
+          </label>
+
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+            {ROSTER_FIELDS.map(({ field, label, required }) => (
+              <div key={field} className="space-y-1">
+                <label className="text-[10px] font-bold text-[#86868B] uppercase tracking-wide">
+                  {label}{required ? ' *' : ''}
+                </label>
+                <select
+                  value={mapping[field] === null ? '' : String(mapping[field])}
+                  onChange={(event) => setMapping(prev => ({
+                    ...prev,
+                    [field]: event.target.value === '' ? null : Number(event.target.value)
+                  }))}
+                  className="w-full h-9 px-2 text-xs bg-[#F5F5F7] border border-black/10 rounded-lg focus:ring-2 focus:ring-[#0071E3]/30 focus:outline-none"
+                >
+                  <option value="">{required ? 'Select a column' : 'Not imported'}</option>
+                  {columnLabels.map((columnLabel, index) => (
+                    <option key={index} value={index}>{columnLabel}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+
+          <div className="rounded-xl border border-black/5 overflow-hidden">
+            <table className="w-full text-xs table-fixed">
+              <thead className="bg-[#F5F5F7] text-[#86868B] uppercase tracking-wide text-[10px]">
+                <tr>
+                  {ROSTER_FIELDS.map(({ field, label }) => (
+                    <th key={field} className="text-left font-bold px-3 py-2">{label}</th>
+                  ))}
+                  <th className="text-right font-bold px-3 py-2 w-28">Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {previews.slice(0, PREVIEW_ROW_LIMIT).map((preview, index) => (
+                  <tr key={index} className="border-t border-black/5 text-[#1D1D1F]">
+                    <td className="px-3 py-2 font-semibold truncate">{preview.name || '—'}</td>
+                    <td className="px-3 py-2 truncate text-[#86868B]">{preview.contactEmail || '—'}</td>
+                    <td className="px-3 py-2 truncate text-[#86868B]">{preview.homepageUrl || '—'}</td>
+                    <td className="px-3 py-2 truncate text-[#86868B] font-mono">{preview.scholarAuthorId || '—'}</td>
+                    <td className="px-3 py-2 text-right">
+                      <span className={`px-2 py-0.5 rounded-full text-[10px] font-semibold ${ROW_STATUS_LABELS[preview.status].className}`}>
+                        {ROW_STATUS_LABELS[preview.status].label}
+                      </span>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {previews.length > PREVIEW_ROW_LIMIT && (
+              <p className="px-3 py-2 border-t border-black/5 text-[11px] text-[#86868B]">
+                …and {previews.length - PREVIEW_ROW_LIMIT} more row(s)
+              </p>
+            )}
+          </div>
+
+          <p className="text-[11px] text-[#86868B] leading-relaxed">
+            {newCount} professor(s) will be added; {withScholarIdCount} with a Scholar ID are ready to analyze, the rest
+            will need an ID. No AI call is made during import.
+          </p>
+        </div>
+
+        <div className="p-6 flex gap-3 justify-end">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-6 py-2.5 bg-white border border-slate-200 hover:bg-slate-50 text-slate-700 rounded-full font-semibold transition-all"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={() => onConfirm(previews)}
+            disabled={mapping.name === null || newCount === 0}
+            className="px-8 py-2.5 bg-[#0071E3] hover:bg-[#0077ED] text-white rounded-full font-semibold transition-all shadow-apple active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Add {newCount} Professor(s)
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { InterestPreferences, InterestRequirement } from '../types';
+import { getInterestPreference, INTEREST_WEIGHT_OPTIONS, parseUserInterests } from '../services/matchScoring';
+import { Plus, X } from 'lucide-react';
+
+interface InterestEditorProps {
+  userInterests: string;
+  setUserInterests: (s: string) => void;
+  interestPreferences: InterestPreferences;
+  setInterestPreferences: (preferences: InterestPreferences) => void;
+}
+
+const REQUIREMENT_OPTIONS: Array<{ value: InterestRequirement | undefined; label: string; activeClass: string }> = [
+  { value: undefined, label: 'Normal', activeClass: 'bg-white text-[#1D1D1F] shadow-sm' },
+  { value: 'must-have', label: 'Must-have', activeClass: 'bg-[#0071E3] text-white shadow-sm' },
+  { value: 'exclude', label: 'Exclude', activeClass: 'bg-red-500 text-white shadow-sm' }
+];
+
+export const InterestEditor: React.FC<InterestEditorProps> = ({
+  userInterests,
+  setUserInterests,
+  interestPreferences,
+  setInterestPreferences
+}) => {
+  const [draft, setDraft] = useState('');
+  const interests = parseUserInterests(userInterests);
+
+  const addDraft = () => {
+    const known = new Set(interests.map(i => i.toLowerCase()));
+    const added = parseUserInterests(draft).filter(interest => {
+      const key = interest.toLowerCase();
+      if (known.has(key)) return false;
+      known.add(key);
+      return true;
+    });
+    if (added.length > 0) setUserInterests([...interests, ...added].join(', '));
+    setDraft('');
+  };
+
+  const removeInterest = (interest: string) => {
+    const key = interest.toLowerCase();
+    setUserInterests(interests.filter(i => i.toLowerCase() !== key).join(', '));
+    const { [key]: _removed, ...rest } = interestPreferences;
+    setInterestPreferences(rest);
+  };
+
+  const updatePreference = (interest: string, updates: { weight?: number; requirement?: InterestRequirement }) => {
+    const current = getInterestPreference(interestPreferences, interest);
+    const next = { ...current, ...updates };
+    if (!next.requirement) delete next.requirement;
+    setInterestPreferences({ ...interestPreferences, [interest.toLowerCase()]: next });
+  };
+
+  return (
+    <div className="space-y-3">
+      {interests.length > 0 && (
+        <ul className="divide-y divide-black/5 border border-[#D2D2D7] rounded-xl overflow-hidden">
+          {interests.map(interest => {
+            const preference = getInterestPreference(interestPreferences, interest);
+            const isExcluded = preference.requirement === 'exclude';
+            return (
+              <li key={interest.toLowerCase()} className="flex flex-wrap items-center gap-3 px-4 py-2.5 bg-[#F5F5F7]/50">
+                <span className={`flex-1 min-w-[160px] text-sm font-medium ${isExcluded ? 'text-red-500 line-through' : 'text-[#1D1D1F]'}`}>
+                  {interest}
+                </span>
+                <label className="flex items-center gap-1.5 text-[11px] text-[#86868B]">
+                  Weight
+                  <select
+                    value={preference.weight}
+                    disabled={isExcluded}
+                    onChange={(event) => updatePreference(interest, { weight: Number(event.target.value) })}
+                    className="h-7 px-1.5 text-xs bg-white border border-black/10 rounded-md focus:ring-2 focus:ring-[#0071E3]/30 focus:outline-none disabled:opacity-40"
+                  >
+                    {INTEREST_WEIGHT_OPTIONS.map(weight => (
+                      <option key={weight} value={weight}>×{weight}</option>
+                    ))}
+                  </select>
+                </label>
+                <div className="flex bg-black/5 rounded-lg p-0.5">
+                  {REQUIREMENT_OPTIONS.map(option => (
+                    <button
+                      key={option.label}
+                      onClick={() => updatePreference(interest, { requirement: option.value })}
+                      className={`px-2.5 py-1 rounded-md text-[11px] font-semibold transition-all ${
+                        preference.requirement === option.value ? option.activeClass : 'text-[#86868B] hover:text-[#1D1D1F]'
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+                <button
+                  onClick={() => removeInterest(interest)}
+                  className="p-1 rounded-full text-[#86868B] hover:text-red-500 hover:bg-red-50 transition-colors"
+                  title="Remove interest"
+                >
+                  <X className="w-3.5 h-3.5" />
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <div className="flex items-center gap-2">
+        <input
+          type="text"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && addDraft()}
+          placeholder={interests.length > 0 ? 'Add another interest' : 'e.g. Medical Imaging, Synthetic Biology, Machine Learning'}
+          className="flex-1 text-base p-4 border border-[#D2D2D7] bg-[#F5F5F7]/50 rounded-xl focus:ring-4 focus:ring-[#0071E3]/20 focus:border-[#0071E3] outline-none text-[#1D1D1F] placeholder:text-[#86868B] transition-all"
+        />
+        <button
+          onClick={addDraft}
+          disabled={!draft.trim()}
+          className="h-[58px] px-5 flex items-center gap-1.5 bg-[#0071E3] hover:bg-[#0077ED] text-white rounded-xl font-semibold text-sm transition-all disabled:opacity-40"
+        >
+          <Plus className="w-4 h-4" />
+          Add
+        </button>
+      </div>
+      <p className="text-[11px] text-[#86868B] flex justify-between px-1">
+        <span>Paste several topics separated by commas. A professor missing a must-have is at most a Low match; one working on an excluded topic is not a match.</span>
+        <span className={interests.length > 0 ? "text-[#0071E3] font-medium shrink-0 ml-3" : "shrink-0 ml-3"}>
+          {interests.length} topics
+        </span>
+      </p>
+    </div>
+  );
+};
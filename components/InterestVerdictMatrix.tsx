@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import { EmbeddingAlignment, InterestVerdict, VerdictConfidence } from '../types';
+import { Ban, Check, ChevronDown, Minus } from 'lucide-react';
+
+interface InterestVerdictMatrixProps {
+  verdicts: InterestVerdict[];
+  excludedInterests?: string[];
+  matchScore?: number;
+  alignment?: EmbeddingAlignment;
+}
+
+const CONFIDENCE_BARS: Record<VerdictConfidence, number> = { high: 3, medium: 2, low: 1 };
+
+const ConfidenceBars: React.FC<{ confidence: VerdictConfidence }> = ({ confidence }) => (
+  <span className="flex items-end gap-[2px] h-3" title={`${confidence} confidence`}>
+    {[1, 2, 3].map(level => (
+      <span
+        key={level}
+        className={`w-[3px] rounded-sm ${level <= CONFIDENCE_BARS[confidence] ? 'bg-[#1D1D1F]/60' : 'bg-black/10'}`}
+        style={{ height: `${level * 4}px` }}
+      />
+    ))}
+  </span>
+);
+
+/**
+ * Interest × evidence grid: one row per interest with the verdict, the
+ * newest evidence year, the model's confidence, its justification, the
+ * papers it cited and the closest title by embedding similarity.
+ */
+export const InterestVerdictMatrix: React.FC<InterestVerdictMatrixProps> = ({ verdicts, excludedInterests = [], matchScore, alignment }) => {
+  const [expandedInterest, setExpandedInterest] = useState<string | null>(null);
+  const excluded = new Set(excludedInterests.map(i => i.toLowerCase()));
+  const matchedCount = verdicts.filter(v => v.matched && !excluded.has(v.interest.toLowerCase())).length;
+
+  return (
+    <div className="mb-4 rounded-xl border border-black/5 overflow-hidden">
+      <div className="px-3 py-1.5 bg-[#F5F5F7] flex items-center justify-between text-[10px] font-bold uppercase tracking-wide text-[#86868B]">
+        <span>Interest</span>
+        <span>
+          {matchedCount} of {verdicts.length} matched{matchScore !== undefined ? ` · ${matchScore}%` : ''}
+        </span>
+      </div>
+      <ul className="divide-y divide-black/5">
+        {verdicts.map(verdict => {
+          const isExcluded = excluded.has(verdict.interest.toLowerCase());
+          const isExpanded = expandedInterest === verdict.interest;
+          const verifiedCount = verdict.supportingPapers.filter(paper => paper.verified).length;
+          const closest = alignment?.interests.find(entry => entry.interest.toLowerCase() === verdict.interest.toLowerCase());
+          return (
+            <li key={verdict.interest}>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setExpandedInterest(isExpanded ? null : verdict.interest);
+                }}
+                className="w-full px-3 py-2 flex items-center gap-2 text-left hover:bg-black/[0.02] transition-colors"
+              >
+                <span
+                  className={`w-4 h-4 shrink-0 rounded-full flex items-center justify-center ${
+                    isExcluded
+                      ? 'bg-red-50 text-red-500'
+                      : verdict.matched ? 'bg-[#34C759]/15 text-[#248A3D]' : 'bg-black/5 text-[#86868B]'
+                  }`}
+                >
+                  {isExcluded ? <Ban className="w-2.5 h-2.5" /> : verdict.matched ? <Check className="w-2.5 h-2.5" /> : <Minus className="w-2.5 h-2.5" />}
+                </span>
+                <span className="flex-1 min-w-0">
+                  <span className="flex items-center gap-1.5 min-w-0">
+                    <span className={`text-[11px] font-semibold truncate ${verdict.matched || isExcluded ? 'text-[#1D1D1F]' : 'text-[#86868B]'}`}>
+                      {verdict.interest}
+                    </span>
+                    {verdict.isHistorical && !isExcluded && (
+                      <span
+                        className="shrink-0 px-1 rounded text-[9px] font-bold uppercase tracking-wide bg-[#FF9500]/10 text-[#C93400]"
+                        title="Matched only on older papers, which count for less under the recency setting"
+                      >
+                        Historical
+                      </span>
+                    )}
+                  </span>
+                  {verdict.justification && (
+                    <span className={`block text-[10px] text-[#86868B] leading-snug ${isExpanded ? '' : 'truncate'}`}>
+                      {verdict.justification}
+                    </span>
+                  )}
+                </span>
+                <span
+                  className="w-8 text-right text-[10px] text-[#86868B]"
+                  title={verdict.latestYear ? 'Newest supporting paper' : 'No dated supporting paper'}
+                >
+                  {verdict.latestYear || '–'}
+                </span>
+                <ConfidenceBars confidence={verdict.confidence} />
+                <span
+                  className="w-8 text-right text-[10px] font-semibold text-[#86868B]"
+                  title={`${verdict.supportingPapers.length} papers cited, ${verifiedCount} found in the publication list`}
+                >
+                  {verdict.supportingPapers.length > 0 ? `${verifiedCount}/${verdict.supportingPapers.length}` : '–'}
+                </span>
+                <ChevronDown className={`w-3 h-3 text-[#86868B] transition-transform ${isExpanded ? 'rotate-180' : ''}`} />
+              </button>
+              {isExpanded && (verdict.supportingPapers.length > 0 || closest?.closestTitle) && (
+                <ul className="px-3 pb-2 pl-9 space-y-1">
+                  {verdict.supportingPapers.map((paper, index) => (
+                    <li
+                      key={index}
+                      className={`text-[10px] leading-snug pl-2 border-l-2 ${
+                        paper.verified === false ? 'border-dashed border-orange-300 text-[#86868B]' : 'border-[#0071E3]/50 text-[#424245]'
+                      }`}
+                    >
+                      <span className="font-semibold text-[#1D1D1F]">{paper.title}</span>
+                      {paper.verified === false
+                        ? ' · not found in the fetched publications'
+                        : ` · ${paper.year || 'N/A'} · ${paper.citations ?? 0} citations`}
+                    </li>
+                  ))}
+                  {closest?.closestTitle && (
+                    <li className="text-[10px] leading-snug pl-2 border-l-2 border-[#AF52DE]/40 text-[#86868B]">
+                      Closest by embedding ({closest.similarity.toFixed(2)}):{' '}
+                      <span className="text-[#424245]">{closest.closestTitle}</span>
+                    </li>
+                  )}
+                </ul>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,138 @@
+import React from 'react';
+import { LlmProviderId, LlmSettings, LlmTask } from '../types';
+import { DEFAULT_LLM_SETTINGS, LLM_PROVIDER_IDS, LLM_TASKS } from '../services/llmSettingsService';
+import { getLlmProvider } from '../services/llmService';
+import { API_BASE_URL, isBackendEnabled } from '../services/apiClient';
+import { AlertCircle, Cpu, RotateCcw } from 'lucide-react';
+
+interface LlmSettingsCardProps {
+  llmSettings: LlmSettings;
+  setLlmSettings: React.Dispatch<React.SetStateAction<LlmSettings>>;
+}
+
+export const LlmSettingsCard: React.FC<LlmSettingsCardProps> = ({ llmSettings, setLlmSettings }) => {
+  const updateTask = (task: LlmTask, updates: Partial<LlmSettings['tasks'][LlmTask]>) => {
+    setLlmSettings(prev => ({
+      ...prev,
+      tasks: { ...prev.tasks, [task]: { ...prev.tasks[task], ...updates } }
+    }));
+  };
+
+  const updateOpenAiCompatible = (updates: Partial<LlmSettings['openAiCompatible']>) => {
+    setLlmSettings(prev => ({ ...prev, openAiCompatible: { ...prev.openAiCompatible, ...updates } }));
+  };
+
+  const usesOpenAiCompatible = LLM_TASKS.some(({ task }) => llmSettings.tasks[task].provider === 'openai-compatible');
+  const unconfiguredProviders = Array.from(new Set(LLM_TASKS.map(({ task }) => llmSettings.tasks[task].provider)))
+    .map(providerId => getLlmProvider(providerId, llmSettings))
+    .filter(provider => !provider.isConfigured());
+
+  if (isBackendEnabled) {
+    return (
+      <div className="bg-white rounded-[24px] p-8 shadow-apple border border-black/5">
+        <div className="flex items-center gap-3 mb-6">
+          <div className="w-10 h-10 rounded-full bg-[#AF52DE]/10 flex items-center justify-center text-[#AF52DE]">
+            <Cpu className="w-5 h-5" />
+          </div>
+          <h3 className="text-xl font-semibold text-[#1D1D1F] tracking-tight">AI Models</h3>
+        </div>
+        <p className="text-sm text-[#86868B] leading-relaxed">
+          Model calls go through the API server at <span className="font-mono text-[#1D1D1F]">{API_BASE_URL}</span>.
+          Providers, models and keys are configured there (see <span className="font-mono">LLM_SETTINGS</span> in the README).
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-[24px] p-8 shadow-apple border border-black/5">
+      <div className="flex items-center justify-between gap-3 mb-6">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 rounded-full bg-[#AF52DE]/10 flex items-center justify-center text-[#AF52DE]">
+            <Cpu className="w-5 h-5" />
+          </div>
+          <h3 className="text-xl font-semibold text-[#1D1D1F] tracking-tight">AI Models</h3>
+        </div>
+        <button
+          onClick={() => setLlmSettings(DEFAULT_LLM_SETTINGS)}
+          className="flex items-center gap-1.5 px-3 py-1.5 rounded-full text-[11px] font-semibold text-[#86868B] hover:text-[#1D1D1F] hover:bg-black/5 transition-colors"
+        >
+          <RotateCcw className="w-3 h-3" />
+          Reset
+        </button>
+      </div>
+
+      <div className="space-y-4">
+        <p className="text-sm text-[#86868B] leading-relaxed">
+          Choose which provider and model handles each step. Point any step at a self-hosted server that speaks the
+          OpenAI chat completions API (vLLM, Ollama, llama.cpp, LM Studio).
+        </p>
+
+        <div className="rounded-xl border border-black/5 divide-y divide-black/5">
+          {LLM_TASKS.map(({ task, label, description }) => (
+            <div key={task} className="grid grid-cols-1 md:grid-cols-[1fr_180px_220px] gap-3 items-center p-3">
+              <div>
+                <p className="text-sm font-semibold text-[#1D1D1F]">{label}</p>
+                <p className="text-[11px] text-[#86868B]">{description}</p>
+              </div>
+              <select
+                value={llmSettings.tasks[task].provider}
+                onChange={(event) => updateTask(task, { provider: event.target.value as LlmProviderId })}
+                className="h-9 px-2 text-xs bg-[#F5F5F7] border border-black/10 rounded-lg focus:ring-2 focus:ring-[#0071E3]/30 focus:outline-none"
+              >
+                {LLM_PROVIDER_IDS.map(providerId => (
+                  <option key={providerId} value={providerId}>{getLlmProvider(providerId, llmSettings).label}</option>
+                ))}
+              </select>
+              <input
+                type="text"
+                value={llmSettings.tasks[task].model}
+                onChange={(event) => updateTask(task, { model: event.target.value })}
+                onBlur={(event) => {
+                  if (!event.target.value.trim()) updateTask(task, { model: DEFAULT_LLM_SETTINGS.tasks[task].model });
+                }}
+                placeholder={DEFAULT_LLM_SETTINGS.tasks[task].model}
+                className="h-9 px-3 text-xs font-mono bg-[#F5F5F7] border border-black/10 rounded-lg focus:ring-2 focus:ring-[#0071E3]/30 focus:outline-none"
+              />
+            </div>
+          ))}
+        </div>
+        <p className="text-[11px] text-[#86868B] px-1">
+          A model override set under Customize Letter takes precedence over the Letter Drafting model.
+        </p>
+
+        {usesOpenAiCompatible && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <label className="flex flex-col gap-1">
+              <span className="text-[11px] font-semibold text-[#86868B] uppercase tracking-wide">Base URL</span>
+              <input
+                type="url"
+                value={llmSettings.openAiCompatible.baseUrl}
+                onChange={(event) => updateOpenAiCompatible({ baseUrl: event.target.value })}
+                placeholder="http://localhost:8000/v1"
+                className="h-9 px-3 text-sm bg-[#F5F5F7] border border-black/10 rounded-lg focus:ring-2 focus:ring-[#0071E3]/30 focus:outline-none"
+              />
+            </label>
+            <label className="flex flex-col gap-1">
+              <span className="text-[11px] font-semibold text-[#86868B] uppercase tracking-wide">API Key (optional)</span>
+              <input
+                type="password"
+                value={llmSettings.openAiCompatible.apiKey}
+                onChange={(event) => updateOpenAiCompatible({ apiKey: event.target.value })}
+                placeholder="Stored in this browser only"
+                className="h-9 px-3 text-sm bg-[#F5F5F7] border border-black/10 rounded-lg focus:ring-2 focus:ring-[#0071E3]/30 focus:outline-none"
+              />
+            </label>
+          </div>
+        )}
+
+        {unconfiguredProviders.length > 0 && (
+          <p className="text-xs font-semibold text-amber-600 flex items-center gap-1.5">
+            <AlertCircle className="w-3.5 h-3.5" />
+            {unconfiguredProviders.map(provider => provider.label).join(' and ')} not configured yet.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,17 +1,45 @@
 import React from 'react';
-import { FlaskConical, Sparkles } from 'lucide-react';
+import { FlaskConical, Sparkles, Download, Upload, Database } from 'lucide-react';
+import { Campaign } from '../types';
+import { FIXTURE_MODE } from '../services/fixtureService';
+import { CampaignSwitcher } from './CampaignSwitcher';
 
 interface NavBarProps {
   activeTab: 'profile' | 'find' | 'customize';
   onTabChange: (tab: 'profile' | 'find' | 'customize') => void;
+  campaigns: Campaign[];
+  activeCampaignId: string | null;
+  isCampaignSwitchDisabled: boolean;
+  onSelectCampaign: (campaignId: string) => void;
+  onCreateCampaign: (name: string) => void;
+  onRenameCampaign: (campaignId: string, name: string) => void;
+  onDuplicateCampaign: (campaignId: string) => void;
+  onToggleArchiveCampaign: (campaignId: string) => void;
+  onDeleteCampaign: (campaignId: string) => void;
+  onExportProject: () => void;
+  onImportProject: () => void;
 }
 
-export const NavBar: React.FC<NavBarProps> = ({ activeTab, onTabChange }) => {
+export const NavBar: React.FC<NavBarProps> = ({
+  activeTab,
+  onTabChange,
+  campaigns,
+  activeCampaignId,
+  isCampaignSwitchDisabled,
+  onSelectCampaign,
+  onCreateCampaign,
+  onRenameCampaign,
+  onDuplicateCampaign,
+  onToggleArchiveCampaign,
+  onDeleteCampaign,
+  onExportProject,
+  onImportProject
+}) => {
   return (
     <div className="w-full bg-transparent">
       <div className="max-w-7xl mx-auto px-6 h-12 flex items-center justify-between relative">
         
-        {/* LEFT: Logo & Title */}
+        {/* LEFT: Logo, Title & Campaign */}
         <div className="flex items-center gap-3 z-10">
           <div className="bg-black text-white p-1.5 rounded-lg shadow-sm">
             <FlaskConical className="w-4 h-4" />
@@ -19,6 +47,17 @@ export const NavBar: React.FC<NavBarProps> = ({ activeTab, onTabChange }) => {
           <h1 className="text-sm font-semibold tracking-wide text-[#1D1D1F]">
             Professor Matcher
           </h1>
+          <CampaignSwitcher
+            campaigns={campaigns}
+            activeCampaignId={activeCampaignId}
+            isSwitchDisabled={isCampaignSwitchDisabled}
+            onSelect={onSelectCampaign}
+            onCreate={onCreateCampaign}
+            onRename={onRenameCampaign}
+            onDuplicate={onDuplicateCampaign}
+            onToggleArchive={onToggleArchiveCampaign}
+            onDelete={onDeleteCampaign}
+          />
         </div>
 
         {/* CENTER: Navigation Tabs */}
@@ -61,8 +100,34 @@ export const NavBar: React.FC<NavBarProps> = ({ activeTab, onTabChange }) => {
           </div>
         </div>
 
-        {/* RIGHT: AI Badge */}
+        {/* RIGHT: Project File & AI Badge */}
         <div className="flex items-center gap-4 z-10">
+          <div className="flex items-center gap-1">
+            <button
+              onClick={onImportProject}
+              disabled={isCampaignSwitchDisabled}
+              className="p-1.5 rounded-full text-[#86868B] hover:text-[#1D1D1F] hover:bg-black/5 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+              title="Import project file"
+            >
+              <Upload className="w-3.5 h-3.5" />
+            </button>
+            <button
+              onClick={onExportProject}
+              className="p-1.5 rounded-full text-[#86868B] hover:text-[#1D1D1F] hover:bg-black/5 transition-colors"
+              title="Export project file"
+            >
+              <Download className="w-3.5 h-3.5" />
+            </button>
+          </div>
+          {FIXTURE_MODE !== 'off' && (
+            <div
+              className="flex items-center gap-1.5 text-[11px] font-semibold text-amber-700 bg-amber-50 px-3 py-1 rounded-full border border-amber-200"
+              title={FIXTURE_MODE === 'replay' ? 'Responses are served from recorded fixtures' : 'Live responses are being recorded to fixtures/'}
+            >
+              <Database className="w-3 h-3" />
+              <span>{FIXTURE_MODE === 'replay' ? 'Fixture Replay' : 'Recording Fixtures'}</span>
+            </div>
+          )}
           <div className="hidden sm:flex items-center gap-2 text-[11px] font-medium text-[#86868B] bg-[#F5F5F7] px-3 py-1 rounded-full border border-black/5">
             <Sparkles className="w-3 h-3 text-[#0071E3]" />
             <span>AI-Powered by Gemini 3 Pro</span>
@@ -1,22 +1,47 @@
 import React from 'react';
 import { Sparkles, FileText, LayoutTemplate } from 'lucide-react';
+import { InterestPreferences, LlmSettings, RecencySettings, ResponseCacheSettings, ScholarFetchSettings } from '../types';
+import { RECENCY_HALF_LIFE_OPTIONS } from '../services/recencyScoring';
+import { InterestEditor } from './InterestEditor';
+import { LlmSettingsCard } from './LlmSettingsCard';
+import { ScholarDataSettingsCard } from './ScholarDataSettingsCard';
 
 interface ProfileSectionProps {
   userInterests: string;
   setUserInterests: (s: string) => void;
+  interestPreferences: InterestPreferences;
+  setInterestPreferences: (preferences: InterestPreferences) => void;
+  recencySettings: RecencySettings;
+  setRecencySettings: (settings: RecencySettings) => void;
   letterTemplate: string;
   setLetterTemplate: (s: string) => void;
   emailTitle: string;
   setEmailTitle: (s: string) => void;
+  llmSettings: LlmSettings;
+  setLlmSettings: React.Dispatch<React.SetStateAction<LlmSettings>>;
+  cacheSettings: ResponseCacheSettings;
+  setCacheSettings: React.Dispatch<React.SetStateAction<ResponseCacheSettings>>;
+  scholarFetchSettings: ScholarFetchSettings;
+  setScholarFetchSettings: React.Dispatch<React.SetStateAction<ScholarFetchSettings>>;
 }
 
 export const ProfileSection: React.FC<ProfileSectionProps> = ({ 
   userInterests,
   setUserInterests,
+  interestPreferences,
+  setInterestPreferences,
+  recencySettings,
+  setRecencySettings,
   letterTemplate,
   setLetterTemplate,
   emailTitle,
-  setEmailTitle
+  setEmailTitle,
+  llmSettings,
+  setLlmSettings,
+  cacheSettings,
+  setCacheSettings,
+  scholarFetchSettings,
+  setScholarFetchSettings
 }) => {
   return (
     <div className="w-full animate-in fade-in slide-in-from-bottom-4 duration-500">
@@ -33,21 +58,29 @@ export const ProfileSection: React.FC<ProfileSectionProps> = ({
           
           <div className="space-y-4">
             <p className="text-sm text-[#86868B] leading-relaxed">
-              Define your research focus here. The AI will use these keywords to evaluate how well each professor's work aligns with your goals (Perfect, High, Partial, or Low match).
+              Define your research focus here. The AI checks each professor's work against every interest, and the weights and flags below decide how well they align with your goals (Perfect, High, Partial, or Low match).
             </p>
-            <div className="space-y-2">
-              <input 
-                type="text" 
-                value={userInterests}
-                onChange={(e) => setUserInterests(e.target.value)}
-                placeholder="e.g. Medical Imaging, Synthetic Biology, Machine Learning"
-                className="w-full text-base p-4 border border-[#D2D2D7] bg-[#F5F5F7]/50 rounded-xl focus:ring-4 focus:ring-[#0071E3]/20 focus:border-[#0071E3] outline-none text-[#1D1D1F] placeholder:text-[#86868B] transition-all"
-              />
-              <p className="text-[11px] text-[#86868B] flex justify-between px-1">
-                <span>Separate topics with commas</span>
-                <span className={userInterests.length > 0 ? "text-[#0071E3] font-medium" : ""}>
-                  {userInterests.split(',').filter(s => s.trim()).length} topics detected
-                </span>
+            <InterestEditor
+              userInterests={userInterests}
+              setUserInterests={setUserInterests}
+              interestPreferences={interestPreferences}
+              setInterestPreferences={setInterestPreferences}
+            />
+            <div className="flex flex-wrap items-center gap-3 pt-4 border-t border-black/5">
+              <label className="flex items-center gap-2 text-sm text-[#1D1D1F]">
+                Favor recent work: evidence counts half after
+                <select
+                  value={recencySettings.halfLifeYears}
+                  onChange={(e) => setRecencySettings({ halfLifeYears: Number(e.target.value) })}
+                  className="h-9 px-2 text-sm bg-[#F5F5F7] border border-black/10 rounded-lg focus:ring-2 focus:ring-[#0071E3]/30 focus:outline-none"
+                >
+                  {RECENCY_HALF_LIFE_OPTIONS.map(option => (
+                    <option key={option.halfLifeYears} value={option.halfLifeYears}>{option.label}</option>
+                  ))}
+                </select>
+              </label>
+              <p className="text-[11px] text-[#86868B]">
+                Interests matched only on papers older than two half-lives are flagged as historical.
               </p>
             </div>
           </div>
@@ -94,6 +127,15 @@ export const ProfileSection: React.FC<ProfileSectionProps> = ({
           </div>
         </div>
 
+        <LlmSettingsCard llmSettings={llmSettings} setLlmSettings={setLlmSettings} />
+
+        <ScholarDataSettingsCard
+          cacheSettings={cacheSettings}
+          setCacheSettings={setCacheSettings}
+          scholarFetchSettings={scholarFetchSettings}
+          setScholarFetchSettings={setScholarFetchSettings}
+        />
+
       </div>
     </div>
   );
@@ -0,0 +1,145 @@
+import React, { useMemo, useState } from 'react';
+import { Researcher } from '../types';
+import {
+  filterAndSortPublications,
+  getSupportedInterests,
+  indexSupportingPapers,
+  PublicationSortKey
+} from '../services/publicationList';
+import { BookOpen, Search, X } from 'lucide-react';
+
+interface PublicationsDrawerProps {
+  researcher: Researcher;
+  onClose: () => void;
+}
+
+const SORT_OPTIONS: Array<{ key: PublicationSortKey; label: string }> = [
+  { key: 'year', label: 'Newest' },
+  { key: 'citations', label: 'Most cited' }
+];
+
+export const PublicationsDrawer: React.FC<PublicationsDrawerProps> = ({ researcher, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [sortKey, setSortKey] = useState<PublicationSortKey>('year');
+  const [activeInterest, setActiveInterest] = useState<string | null>(null);
+
+  const publications = researcher.publications || [];
+  const supportIndex = useMemo(() => indexSupportingPapers(researcher.tags), [researcher.tags]);
+  const visible = useMemo(
+    () => filterAndSortPublications(publications, query, sortKey),
+    [publications, query, sortKey]
+  );
+  const interests = (researcher.tags || []).map(tag => tag.keyword);
+
+  return (
+    <div className="fixed inset-0 z-[100] flex justify-end bg-black/30 backdrop-blur-sm animate-fade-in" onClick={onClose}>
+      <div
+        onClick={(event) => event.stopPropagation()}
+        className="h-full w-full max-w-xl bg-white/95 backdrop-blur-2xl shadow-2xl border-l border-white/20 flex flex-col"
+      >
+        <div className="p-6 pb-4 flex items-start justify-between gap-4">
+          <div>
+            <h3 className="text-xl font-bold text-slate-900 flex items-center gap-2">
+              <BookOpen className="w-5 h-5 text-[#0071E3]" />
+              Publications
+            </h3>
+            <p className="text-[11px] text-[#86868B] mt-1">
+              {researcher.name} · {publications.length} fetched from Google Scholar
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-black/5 rounded-full transition-colors">
+            <X className="w-5 h-5 text-slate-400" />
+          </button>
+        </div>
+
+        <div className="px-6 pb-4 space-y-3 border-b border-black/5">
+          <div className="flex items-center gap-2">
+            <div className="relative flex-1">
+              <Search className="w-4 h-4 text-[#86868B] absolute left-3 top-1/2 -translate-y-1/2" />
+              <input
+                value={query}
+                onChange={(event) => setQuery(event.target.value)}
+                placeholder="Search titles"
+                className="w-full h-9 pl-9 pr-3 text-sm bg-[#F5F5F7] border border-black/10 rounded-lg focus:ring-2 focus:ring-[#0071E3]/30 focus:outline-none"
+              />
+            </div>
+            <div className="flex bg-[#F5F5F7] rounded-lg p-0.5">
+              {SORT_OPTIONS.map(option => (
+                <button
+                  key={option.key}
+                  onClick={() => setSortKey(option.key)}
+                  className={`px-3 py-1.5 rounded-md text-xs font-semibold transition-all ${
+                    sortKey === option.key ? 'bg-white text-[#1D1D1F] shadow-sm' : 'text-[#86868B] hover:text-[#1D1D1F]'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {interests.length > 0 && (
+            <div className="flex flex-wrap gap-1.5">
+              {interests.map(interest => (
+                <button
+                  key={interest}
+                  onClick={() => setActiveInterest(prev => (prev === interest ? null : interest))}
+                  className={`px-2.5 py-1 rounded-md text-[11px] font-semibold border transition-all ${
+                    activeInterest === interest
+                      ? 'bg-[#0071E3] text-white border-[#0071E3]'
+                      : 'bg-[#F5F5F7] text-[#1D1D1F] border-transparent hover:border-[#D2D2D7]'
+                  }`}
+                  title="Highlight the papers cited as evidence for this interest"
+                >
+                  {interest}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 py-4">
+          {publications.length === 0 ? (
+            <p className="text-sm text-[#86868B]">
+              No publication list is stored for this researcher. Re-analyze to fetch it.
+            </p>
+          ) : visible.length === 0 ? (
+            <p className="text-sm text-[#86868B]">No titles match "{query}".</p>
+          ) : (
+            <ul className="space-y-2">
+              {visible.map((publication, index) => {
+                const supported = getSupportedInterests(supportIndex, publication);
+                const isHighlighted = activeInterest ? supported.includes(activeInterest) : supported.length > 0;
+                return (
+                  <li
+                    key={publication.citationId || `${publication.title}-${index}`}
+                    className={`p-3 rounded-xl border-l-2 transition-all ${
+                      isHighlighted ? 'border-[#0071E3] bg-[#0071E3]/5' : 'border-transparent'
+                    } ${activeInterest && !isHighlighted ? 'opacity-40' : ''}`}
+                  >
+                    <p className="text-sm font-semibold text-[#1D1D1F] leading-snug">{publication.title}</p>
+                    {publication.authors && (
+                      <p className="text-[11px] text-[#424245] mt-0.5 line-clamp-1">{publication.authors}</p>
+                    )}
+                    <p className="text-[11px] text-[#86868B] mt-0.5">
+                      {[publication.venue, publication.year, `${publication.citations || 0} citations`].filter(Boolean).join(' · ')}
+                    </p>
+                    {supported.length > 0 && (
+                      <div className="flex flex-wrap gap-1 mt-1.5">
+                        {supported.map(interest => (
+                          <span key={interest} className="px-1.5 py-0.5 rounded text-[10px] font-semibold bg-[#0071E3]/10 text-[#0071E3]">
+                            {interest}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,33 +1,55 @@
 import React, { useEffect, useState, useRef } from 'react';
-import { Researcher, AnalysisStatus } from '../types';
+import { Researcher, AnalysisStatus, Campaign, KeywordEvidence, SupportingPaper } from '../types';
+import { isResearcherScoreStale } from '../services/matchScoring';
+import { CitationSortKey, getCitationSortValue } from '../services/citationMetrics';
+import { CitationSparkline } from './CitationSparkline';
+import { PublicationsDrawer } from './PublicationsDrawer';
+import { InterestVerdictMatrix } from './InterestVerdictMatrix';
+import { countVerifiedPapers } from '../services/evidenceVerification';
+import { findSignalDisagreements, SignalDisagreement } from '../services/embeddingScoring';
 import { generateScholarSearchUrl, searchScholarAuthorCandidates, ScholarAuthorCandidate } from '../services/serpApiService';
-import { ExternalLink, User, BrainCircuit, Tag, Sparkles, Search, Clipboard, Star, RotateCw, X } from 'lucide-react';
+import { ExternalLink, User, BrainCircuit, Tag, Sparkles, Search, Clipboard, Star, RotateCw, X, FolderInput, CloudDownload, BookOpen, Users } from 'lucide-react';
+
+export type ResultsSortKey = 'match' | 'alignment' | CitationSortKey;
 
 interface ResultsGridProps {
   researchers: Researcher[];
   university: string;
+  userInterests: string;
+  sortKey: ResultsSortKey;
   onScholarIdLink: (researcherId: string, scholarId: string) => void;
   onScholarIdSubmit: (researcherId: string, scholarId: string) => void;
+  onRefreshFromSource: (researcherId: string, scholarId: string) => void;
   onUpdateResearcher: (id: string, updates: Partial<Researcher>) => void;
   onToggleFavorite: (id: string) => void;
   onDeleteResearcher: (id: string) => void;
+  transferTargets: Campaign[];
+  onTransferResearcher: (researcherId: string, targetCampaignId: string, mode: 'move' | 'copy') => void;
 }
 
 export const ResultsGrid: React.FC<ResultsGridProps> = ({ 
   researchers, 
   university,
+  userInterests,
+  sortKey,
   onScholarIdLink,
   onScholarIdSubmit, 
+  onRefreshFromSource,
   onUpdateResearcher,
   onToggleFavorite,
-  onDeleteResearcher
+  onDeleteResearcher,
+  transferTargets,
+  onTransferResearcher
 }) => {
   if (researchers.length === 0) return null;
 
   // Sort logic:
   // 1. Processing needed (No Scholar ID) -> TOP
   // 2. Processed (Has Scholar ID) -> BOTTOM
-  // 3. Within groups: Perfect > High > Partial > Low > None
+  // 3. Within groups: the selected citation metric or the embedding similarity, if any
+  // 4. Then: Perfect > High > Partial > Low > None
+  const citationSortKey: CitationSortKey | null = sortKey === 'match' || sortKey === 'alignment' ? null : sortKey;
+  const signalDisagreements = findSignalDisagreements(researchers);
   const sortedResearchers = [...researchers].sort((a, b) => {
     // Priority 1: In "All", items needing action must stay at the top:
     // - missing author id / awaiting link
@@ -42,7 +64,21 @@ export const ResultsGrid: React.FC<ResultsGridProps> = ({
     const actionB = getActionPriority(b);
     if (actionA !== actionB) return actionA - actionB;
 
-    // Priority 2: Matches (within same action group)
+    // Priority 2 (optional): the chosen citation metric, highest first
+    if (citationSortKey) {
+      const metricA = getCitationSortValue(a.citationMetrics, citationSortKey);
+      const metricB = getCitationSortValue(b.citationMetrics, citationSortKey);
+      if (metricA !== metricB) return metricB - metricA;
+    }
+
+    // Priority 2 (optional): embedding similarity, highest first
+    if (sortKey === 'alignment') {
+      const alignmentA = a.embeddingAlignment?.score ?? -1;
+      const alignmentB = b.embeddingAlignment?.score ?? -1;
+      if (alignmentA !== alignmentB) return alignmentB - alignmentA;
+    }
+
+    // Priority 3: Matches (within same action group)
     // Perfect (100%) > High (>80%) > Partial (3+) > Low (2) > None
     const getMatchScore = (r: Researcher) => {
       if (!r.isMatch) return 0;
@@ -57,6 +93,11 @@ export const ResultsGrid: React.FC<ResultsGridProps> = ({
     const scoreB = getMatchScore(b);
 
     if (scoreA !== scoreB) return scoreB - scoreA; // Descending score
+
+    // Within a tier, the higher weighted interest score first
+    const weightedA = a.matchScore ?? -1;
+    const weightedB = b.matchScore ?? -1;
+    if (weightedA !== weightedB) return weightedB - weightedA;
     
     return a.name.localeCompare(b.name);
   });
@@ -68,11 +109,16 @@ export const ResultsGrid: React.FC<ResultsGridProps> = ({
           key={researcher.id} 
           data={researcher} 
           university={university}
+          userInterests={userInterests}
+          signalDisagreement={signalDisagreements.get(researcher.id)}
           onScholarIdLink={onScholarIdLink}
           onScholarIdSubmit={onScholarIdSubmit}
+          onRefreshFromSource={onRefreshFromSource}
           onUpdateResearcher={onUpdateResearcher}
           onToggleFavorite={onToggleFavorite}
           onDeleteResearcher={onDeleteResearcher}
+          transferTargets={transferTargets}
+          onTransferResearcher={onTransferResearcher}
         />
       ))}
     </div>
@@ -80,8 +126,12 @@ export const ResultsGrid: React.FC<ResultsGridProps> = ({
 };
 
 // Keyword Tag Component with Smart Tooltip Positioning
-const KeywordTag: React.FC<{ tag: any }> = ({ tag }) => {
+const KeywordTag: React.FC<{ tag: KeywordEvidence }> = ({ tag }) => {
   const [showTooltip, setShowTooltip] = useState(false);
+  const papers: SupportingPaper[] = tag.supportingPapers || [];
+  // Analyses saved before verification existed carry no flags; show no count for them.
+  const isVerificationKnown = papers.some(paper => paper.verified !== undefined);
+  const verifiedCount = countVerifiedPapers(tag);
   const [position, setPosition] = useState<'top' | 'bottom'>('top');
   const tagRef = useRef<HTMLDivElement>(null);
 
@@ -108,6 +158,14 @@ const KeywordTag: React.FC<{ tag: any }> = ({ tag }) => {
       <span className="inline-flex items-center px-3 py-1.5 rounded-lg text-[11px] font-semibold bg-[#F5F5F7] text-[#1D1D1F] border border-transparent hover:border-[#D2D2D7] cursor-help transition-all">
         <Tag className="w-3 h-3 mr-1.5 text-[#86868B]" />
         {tag.keyword}
+        {isVerificationKnown && (
+          <span
+            className={`ml-1.5 px-1 rounded text-[10px] ${verifiedCount > 0 ? 'bg-[#34C759]/15 text-[#248A3D]' : 'bg-orange-100 text-orange-600'}`}
+            title={`${verifiedCount} of ${papers.length} supporting papers found in the publication list`}
+          >
+            {verifiedCount}/{papers.length}
+          </span>
+        )}
       </span>
       
       {showTooltip && (
@@ -121,14 +179,23 @@ const KeywordTag: React.FC<{ tag: any }> = ({ tag }) => {
               <div className="text-sm font-medium text-[#1D1D1F] leading-snug">{tag.reasoning}</div>
             </div>
             
-            {tag.supportingPapers && tag.supportingPapers.length > 0 && (
+            {papers.length > 0 && (
               <div>
-                <div className="text-[10px] font-bold text-[#86868B] uppercase tracking-wide mb-2 pt-2 border-t border-black/5">Evidence</div>
+                <div className="text-[10px] font-bold text-[#86868B] uppercase tracking-wide mb-2 pt-2 border-t border-black/5">
+                  Evidence{isVerificationKnown ? ` · ${verifiedCount} verified` : ''}
+                </div>
                 <ul className="space-y-2">
-                  {tag.supportingPapers.map((paper: any, pIdx: number) => (
-                    <li key={pIdx} className="text-[10px] text-[#424245] leading-snug pl-2 border-l-2 border-[#0071E3]/50">
+                  {papers.map((paper, pIdx) => (
+                    <li
+                      key={pIdx}
+                      className={`text-[10px] text-[#424245] leading-snug pl-2 border-l-2 ${
+                        paper.verified === false ? 'border-dashed border-orange-300 opacity-70' : 'border-[#0071E3]/50'
+                      }`}
+                    >
                       <span className="font-semibold text-[#1D1D1F] block mb-0.5">{paper.title}</span>
-                      {paper.year} · {paper.citations} citations
+                      {paper.verified === false
+                        ? 'Not found in the fetched publications'
+                        : `${paper.year || 'N/A'} · ${paper.citations ?? 0} citations`}
                     </li>
                   ))}
                 </ul>
@@ -144,12 +211,17 @@ const KeywordTag: React.FC<{ tag: any }> = ({ tag }) => {
 const ResearcherCard: React.FC<{ 
   data: Researcher;
   university: string;
+  userInterests: string;
+  signalDisagreement?: SignalDisagreement;
   onScholarIdLink: (researcherId: string, scholarId: string) => void;
   onScholarIdSubmit: (researcherId: string, scholarId: string) => void;
+  onRefreshFromSource: (researcherId: string, scholarId: string) => void;
   onUpdateResearcher: (id: string, updates: Partial<Researcher>) => void;
   onToggleFavorite: (id: string) => void;
   onDeleteResearcher: (id: string) => void;
-}> = ({ data, university, onScholarIdLink, onScholarIdSubmit, onUpdateResearcher, onToggleFavorite, onDeleteResearcher }) => {
+  transferTargets: Campaign[];
+  onTransferResearcher: (researcherId: string, targetCampaignId: string, mode: 'move' | 'copy') => void;
+}> = ({ data, university, userInterests, signalDisagreement, onScholarIdLink, onScholarIdSubmit, onRefreshFromSource, onUpdateResearcher, onToggleFavorite, onDeleteResearcher, transferTargets, onTransferResearcher }) => {
   const cardRef = useRef<HTMLDivElement>(null);
   const [scholarIdInput, setScholarIdInput] = useState('');
   const [isScholarPopoverOpen, setIsScholarPopoverOpen] = useState(false);
@@ -162,6 +234,8 @@ const ResearcherCard: React.FC<{
   const [manualEmailInput, setManualEmailInput] = useState('');
   const [manualEmailError, setManualEmailError] = useState<string | null>(null);
   const manualEmailHideTimerRef = useRef<number | null>(null);
+  const [isTransferPopoverOpen, setIsTransferPopoverOpen] = useState(false);
+  const [isPublicationsOpen, setIsPublicationsOpen] = useState(false);
 
   useEffect(() => {
     return () => {
@@ -177,6 +251,10 @@ const ResearcherCard: React.FC<{
   const isError = data.status === AnalysisStatus.ERROR;
   const isCompleted = data.status === AnalysisStatus.COMPLETED;
   const isMatch = isCompleted && data.isMatch;
+  const isScoreStale = isResearcherScoreStale(data, userInterests);
+  const historicalInterests = (data.interestVerdicts || [])
+    .filter(verdict => verdict.isHistorical && !(data.excludedInterests || []).includes(verdict.interest))
+    .map(verdict => verdict.interest);
 
   const isPerfectMatch = data.matchType === 'PERFECT';
   const isHighMatch = data.matchType === 'HIGH';
@@ -202,7 +280,7 @@ const ResearcherCard: React.FC<{
     }
   };
 
-  const handleOpenScholarPopover = async () => {
+  const handleOpenScholarPopover = async (forceRefresh = false) => {
     const cardRect = cardRef.current?.getBoundingClientRect();
     if (cardRect) {
       const popoverWidth = 380;
@@ -216,7 +294,7 @@ const ResearcherCard: React.FC<{
     setAuthorCandidates([]);
 
     try {
-      const candidates = await searchScholarAuthorCandidates(data.name, university);
+      const candidates = await searchScholarAuthorCandidates(data.name, university, { forceRefresh });
       setAuthorCandidates(candidates);
     } catch (error: any) {
       setCandidateError(error.message || 'Failed to search author candidates.');
@@ -298,6 +376,57 @@ const ResearcherCard: React.FC<{
         <Star className={`w-5 h-5 ${data.isFavorite ? 'fill-yellow-500' : ''}`} />
       </button>
 
+      {/* Move / Copy to Campaign - next to Favorite */}
+      {transferTargets.length > 0 && (
+        <div className="absolute bottom-5 left-16 z-20">
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              setIsTransferPopoverOpen(prev => !prev);
+            }}
+            disabled={isLoading}
+            className="p-2 rounded-full bg-[#F5F5F7] text-[#D2D2D7] hover:text-[#86868B] transition-all active:scale-95 disabled:opacity-40 disabled:cursor-not-allowed"
+            title="Move or copy to another campaign"
+          >
+            <FolderInput className="w-5 h-5" />
+          </button>
+
+          {isTransferPopoverOpen && (
+            <div
+              onMouseLeave={() => setIsTransferPopoverOpen(false)}
+              className="absolute left-0 bottom-full mb-2 w-64 max-h-64 overflow-y-auto rounded-xl border border-black/10 bg-white shadow-lg p-2 space-y-1 animate-in fade-in zoom-in-95 duration-150"
+            >
+              <p className="px-1.5 pb-1 text-[10px] font-bold text-[#86868B] uppercase tracking-wide">Send to campaign</p>
+              {transferTargets.map(campaign => (
+                <div key={campaign.id} className="flex items-center gap-2 px-1.5 py-1 rounded-lg hover:bg-[#F5F5F7]">
+                  <span className={`flex-1 truncate text-xs ${campaign.isArchived ? 'italic text-[#86868B]' : 'text-[#1D1D1F]'}`}>
+                    {campaign.name}
+                  </span>
+                  <button
+                    onClick={() => {
+                      onTransferResearcher(data.id, campaign.id, 'copy');
+                      setIsTransferPopoverOpen(false);
+                    }}
+                    className="px-2 py-0.5 text-[11px] rounded-md border border-black/10 text-[#424245] hover:bg-white"
+                  >
+                    Copy
+                  </button>
+                  <button
+                    onClick={() => {
+                      onTransferResearcher(data.id, campaign.id, 'move');
+                      setIsTransferPopoverOpen(false);
+                    }}
+                    className="px-2 py-0.5 text-[11px] rounded-md bg-[#0071E3] text-white hover:bg-[#0077ED]"
+                  >
+                    Move
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Match Badge - Apple Pill Style */}
       {isPerfectMatch && (
         <div className="absolute top-6 right-12 bg-[#FFD60A]/15 text-[#B8860B] px-3 py-1 rounded-full text-[10px] font-bold uppercase tracking-wide border border-[#FFD60A]/40 flex items-center gap-1 z-10 backdrop-blur-sm">
@@ -357,6 +486,58 @@ const ResearcherCard: React.FC<{
               <span className={`inline-flex items-center h-5 text-[10px] font-bold uppercase tracking-wider px-2.5 rounded-full ${getStatusColor(data.status)}`}>
                 {getStatusLabel(data.status)}
               </span>
+              {isScoreStale && (
+                <span
+                  className="inline-flex items-center h-5 text-[10px] font-bold uppercase tracking-wider px-2.5 rounded-full bg-[#FF9500]/10 text-[#C93400]"
+                  title={data.scoredInterests === undefined
+                    ? 'Scored before interest snapshots were recorded. Re-score to update the match.'
+                    : `Scored against: ${data.scoredInterests || '(no interests)'}`}
+                >
+                  Stale Score
+                </span>
+              )}
+              {isCompleted && data.matchScore !== undefined && (
+                <span
+                  className="inline-flex items-center h-5 text-[10px] font-bold tracking-wider px-2.5 rounded-full bg-[#F5F5F7] text-[#424245]"
+                  title="Weighted share of your wanted interests that this professor's publications address"
+                >
+                  {data.matchScore}%
+                </span>
+              )}
+              {isCompleted && data.embeddingAlignment && (
+                <span
+                  className="inline-flex items-center h-5 text-[10px] font-bold tracking-wider px-2.5 rounded-full bg-[#F5F5F7] text-[#86868B]"
+                  title={`Embedding similarity of your interests to the closest publication titles (${data.embeddingAlignment.model})`}
+                >
+                  ≈{data.embeddingAlignment.score}
+                </span>
+              )}
+              {isCompleted && signalDisagreement && (
+                <span
+                  className="inline-flex items-center h-5 text-[10px] font-bold uppercase tracking-wider px-2.5 rounded-full bg-[#AF52DE]/10 text-[#8944AB]"
+                  title={signalDisagreement === 'model-higher'
+                    ? 'Rated a strong match, but its titles are among the least similar to your interests. Check the evidence.'
+                    : 'Rated a weak match, but its titles are among the most similar to your interests. It may be worth a closer look.'}
+                >
+                  Signals Differ
+                </span>
+              )}
+              {isCompleted && historicalInterests.length > 0 && (
+                <span
+                  className="inline-flex items-center h-5 text-[10px] font-bold uppercase tracking-wider px-2.5 rounded-full bg-[#FF9500]/10 text-[#C93400]"
+                  title={`Matched only on older papers: ${historicalInterests.join(', ')}`}
+                >
+                  Historical
+                </span>
+              )}
+              {isCompleted && data.excludedInterests && data.excludedInterests.length > 0 && (
+                <span
+                  className="inline-flex items-center h-5 text-[10px] font-bold uppercase tracking-wider px-2.5 rounded-full bg-red-50 text-red-500"
+                  title={`Works on excluded interests: ${data.excludedInterests.join(', ')}`}
+                >
+                  Excluded Topic
+                </span>
+              )}
             </div>
             {data.homepageUrl ? (
               <a
@@ -371,6 +552,11 @@ const ResearcherCard: React.FC<{
             ) : (
               <h4 className="mt-1.5 font-bold text-[#1D1D1F] text-lg leading-tight line-clamp-2 tracking-tight">{data.name}</h4>
             )}
+            {(data.academicTitle || data.department) && (
+              <p className="mt-0.5 text-xs text-[#86868B] line-clamp-1">
+                {[data.academicTitle, data.department].filter(Boolean).join(' · ')}
+              </p>
+            )}
             {data.contactEmail ? (
               <a
                 href={`mailto:${data.contactEmail}`}
@@ -400,6 +586,12 @@ const ResearcherCard: React.FC<{
                 </div>
               )
             )}
+            {data.discoveredVia && (
+              <p className="mt-1 flex items-center gap-1 text-[11px] text-[#86868B]">
+                <Users className="w-3 h-3 shrink-0" />
+                Suggested as {data.discoveredVia}
+              </p>
+            )}
             {isManualEmailPopoverOpen && (
               <div
                 onClick={(event) => event.stopPropagation()}
@@ -473,7 +665,7 @@ const ResearcherCard: React.FC<{
         {isAwaitingScholarId && (
           <div className="flex flex-col gap-3">
              <button
-               onClick={handleOpenScholarPopover}
+               onClick={() => handleOpenScholarPopover()}
                className="w-full h-11 flex items-center justify-center gap-2 bg-[#0071E3] hover:bg-[#0077ED] text-white rounded-xl font-semibold text-sm transition-all shadow-sm hover:shadow-md active:scale-95"
              >
                <Search className="w-4 h-4" />
@@ -510,7 +702,7 @@ const ResearcherCard: React.FC<{
         {isError && (
           <div className="flex flex-col items-center justify-center p-6 bg-[#FFF2F2] rounded-2xl border border-red-100 text-center">
             <p className="text-red-500 font-semibold text-sm mb-1">Analysis Failed</p>
-            <p className="text-red-400 text-xs mb-3">Could not fetch publications</p>
+            <p className="text-red-400 text-xs mb-3 break-words">{data.analysisError || 'Could not fetch publications'}</p>
             <button
               onClick={(e) => {
                 e.stopPropagation();
@@ -529,6 +721,12 @@ const ResearcherCard: React.FC<{
         {/* COMPLETED: RESULTS */}
         {isCompleted && (
           <div className="flex flex-col h-full">
+            {data.citationMetrics && (
+              <div className="mb-4 pb-3 border-b border-black/5">
+                <CitationSparkline metrics={data.citationMetrics} />
+              </div>
+            )}
+
             {/* Match Reason Module - Minimal Style */}
             {data.matchReason && (
                <div className="text-sm leading-relaxed mb-4 text-[#1D1D1F] font-medium">
@@ -536,6 +734,15 @@ const ResearcherCard: React.FC<{
                </div>
             )}
 
+            {data.interestVerdicts && data.interestVerdicts.length > 0 && (
+              <InterestVerdictMatrix
+                verdicts={data.interestVerdicts}
+                excludedInterests={data.excludedInterests}
+                matchScore={data.matchScore}
+                alignment={data.embeddingAlignment}
+              />
+            )}
+
             {/* Keywords / Tags */}
             <div className="flex flex-wrap gap-2 content-start">
               {data.tags?.map((tag, idx) => (
@@ -544,8 +751,52 @@ const ResearcherCard: React.FC<{
             </div>
 
             {/* Bottom Actions */}
-            {data.profileUrl && (
-              <div className="mt-auto pt-6 flex justify-end">
+            <div className="mt-auto pt-6 flex flex-col items-end gap-2">
+              {data.publications && data.publications.length > 0 && (
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setIsPublicationsOpen(true);
+                  }}
+                  className="flex items-center gap-1 text-[11px] font-semibold text-[#86868B] hover:text-[#1D1D1F] transition-colors"
+                  title="Browse the fetched publications and the papers behind each matched interest"
+                >
+                  <BookOpen className="w-3 h-3" />
+                  Publications ({data.publications.length})
+                </button>
+              )}
+              {data.scholarAuthorId && (
+                <div className="flex items-center gap-3 text-[11px] text-[#86868B]">
+                  {data.publicationsFetchedAt && (
+                    <span title={new Date(data.publicationsFetchedAt).toLocaleString()}>
+                      Fetched {formatFetchedAt(data.publicationsFetchedAt)}
+                    </span>
+                  )}
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onScholarIdSubmit(data.id, data.scholarAuthorId!);
+                    }}
+                    className="flex items-center gap-1 font-semibold hover:text-[#1D1D1F] transition-colors"
+                    title="Re-run the analysis on the cached publications"
+                  >
+                    <RotateCw className="w-3 h-3" />
+                    Re-analyze
+                  </button>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onRefreshFromSource(data.id, data.scholarAuthorId!);
+                    }}
+                    className="flex items-center gap-1 font-semibold hover:text-[#1D1D1F] transition-colors"
+                    title="Fetch Scholar and homepage data again, then re-analyze"
+                  >
+                    <CloudDownload className="w-3 h-3" />
+                    Refresh from source
+                  </button>
+                </div>
+              )}
+              {data.profileUrl && (
                 <a 
                   href={data.profileUrl} 
                   target="_blank" 
@@ -555,12 +806,16 @@ const ResearcherCard: React.FC<{
                   View Scholar Profile 
                   <ExternalLink className="w-3 h-3 transition-transform group-hover:translate-x-0.5 group-hover:-translate-y-0.5" />
                 </a>
-              </div>
-            )}
+              )}
+            </div>
           </div>
         )}
       </div>
 
+      {isPublicationsOpen && (
+        <PublicationsDrawer researcher={data} onClose={() => setIsPublicationsOpen(false)} />
+      )}
+
       {isScholarPopoverOpen && (
         <div
           onMouseLeave={() => setIsScholarPopoverOpen(false)}
@@ -676,7 +931,7 @@ const ResearcherCard: React.FC<{
                 </button>
               </div>
               <button
-                onClick={handleOpenScholarPopover}
+                onClick={() => handleOpenScholarPopover(true)}
                 className="px-3 py-1.5 bg-black/5 border border-black/5 rounded-lg text-xs font-medium hover:bg-black/10 text-slate-700 transition-colors"
               >
                 Refresh
@@ -691,6 +946,14 @@ const ResearcherCard: React.FC<{
 
 // Helpers
 // Helpers
+function formatFetchedAt(timestamp: number) {
+  const days = Math.floor((Date.now() - timestamp) / (24 * 60 * 60 * 1000));
+  if (days <= 0) return 'today';
+  if (days === 1) return 'yesterday';
+  if (days < 30) return `${days} days ago`;
+  return `on ${new Date(timestamp).toLocaleDateString()}`;
+}
+
 function getStatusColor(status: AnalysisStatus) {
   switch (status) {
     case AnalysisStatus.PENDING: return 'bg-[#34C759]/10 text-[#34C759]';
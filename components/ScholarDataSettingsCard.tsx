@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import { ResponseCacheSettings, ScholarFetchSettings } from '../types';
+import { RESPONSE_CACHE_TTL_OPTIONS, clearResponseCache } from '../services/responseCacheService';
+import { MAX_SCHOLAR_ARTICLE_CAP, normalizeScholarFetchSettings } from '../services/serpApiService';
+import { Database, Trash2 } from 'lucide-react';
+
+interface ScholarDataSettingsCardProps {
+  cacheSettings: ResponseCacheSettings;
+  setCacheSettings: React.Dispatch<React.SetStateAction<ResponseCacheSettings>>;
+  scholarFetchSettings: ScholarFetchSettings;
+  setScholarFetchSettings: React.Dispatch<React.SetStateAction<ScholarFetchSettings>>;
+}
+
+export const ScholarDataSettingsCard: React.FC<ScholarDataSettingsCardProps> = ({
+  cacheSettings,
+  setCacheSettings,
+  scholarFetchSettings,
+  setScholarFetchSettings
+}) => {
+  const [clearState, setClearState] = useState<'idle' | 'clearing' | 'cleared'>('idle');
+  const [maxArticlesInput, setMaxArticlesInput] = useState(String(scholarFetchSettings.maxArticles));
+
+  const handleClear = async () => {
+    setClearState('clearing');
+    try {
+      await clearResponseCache();
+      setClearState('cleared');
+    } catch (error) {
+      console.error('Failed to clear response cache:', error);
+      setClearState('idle');
+    }
+  };
+
+  const commitMaxArticles = () => {
+    const next = normalizeScholarFetchSettings({ ...scholarFetchSettings, maxArticles: maxArticlesInput });
+    setScholarFetchSettings(next);
+    setMaxArticlesInput(String(next.maxArticles));
+  };
+
+  // SerpAPI bills one search per page of up to 100 articles.
+  const pagesPerSort = Math.ceil(scholarFetchSettings.maxArticles / 100);
+  const searchesPerProfessor = pagesPerSort * (scholarFetchSettings.includeMostCited ? 2 : 1);
+
+  return (
+    <div className="bg-white rounded-[24px] p-8 shadow-apple border border-black/5">
+      <div className="flex items-center gap-3 mb-6">
+        <div className="w-10 h-10 rounded-full bg-[#34C759]/10 flex items-center justify-center text-[#34C759]">
+          <Database className="w-5 h-5" />
+        </div>
+        <h3 className="text-xl font-semibold text-[#1D1D1F] tracking-tight">Scholar Data</h3>
+      </div>
+
+      <div className="space-y-6">
+        <div className="space-y-3">
+          <p className="text-sm text-[#86868B] leading-relaxed">
+            How many publications to pull from each Scholar profile. Recent papers show what a professor works on now;
+            most-cited papers add their landmark work.
+          </p>
+          <div className="flex flex-wrap items-center gap-4">
+            <label className="flex items-center gap-2 text-sm text-[#1D1D1F]">
+              Up to
+              <input
+                type="number"
+                min={1}
+                max={MAX_SCHOLAR_ARTICLE_CAP}
+                step={50}
+                value={maxArticlesInput}
+                onChange={(event) => setMaxArticlesInput(event.target.value)}
+                onBlur={commitMaxArticles}
+                onKeyDown={(event) => event.key === 'Enter' && commitMaxArticles()}
+                className="w-24 h-9 px-3 text-sm bg-[#F5F5F7] border border-black/10 rounded-lg focus:ring-2 focus:ring-[#0071E3]/30 focus:outline-none"
+              />
+              articles per list
+            </label>
+            <label className="flex items-center gap-2 text-sm text-[#1D1D1F] cursor-pointer">
+              <input
+                type="checkbox"
+                checked={scholarFetchSettings.includeMostCited}
+                onChange={(event) => setScholarFetchSettings(prev => ({ ...prev, includeMostCited: event.target.checked }))}
+                className="w-4 h-4 accent-[#0071E3]"
+              />
+              Also fetch most-cited papers (doubles SerpAPI searches)
+            </label>
+          </div>
+          <p className="text-[11px] text-[#86868B] px-1">
+            Uses up to {searchesPerProfessor} SerpAPI {searchesPerProfessor === 1 ? 'search' : 'searches'} per professor
+            when not cached.
+          </p>
+        </div>
+
+        <div className="space-y-3 pt-5 border-t border-black/5">
+          <p className="text-sm text-[#86868B] leading-relaxed">
+            Scholar profiles, author searches and homepage pages are kept in this browser, so re-analyzing a professor
+            only re-runs the AI step. Use <span className="font-semibold text-[#1D1D1F]">Refresh from source</span> on a
+            card to fetch it again.
+          </p>
+
+          <div className="flex flex-wrap items-center gap-3">
+            <label className="flex items-center gap-2 text-sm text-[#1D1D1F]">
+              Keep responses for
+              <select
+                value={cacheSettings.ttlDays}
+                onChange={(event) => setCacheSettings({ ttlDays: Number(event.target.value) })}
+                className="h-9 px-2 text-sm bg-[#F5F5F7] border border-black/10 rounded-lg focus:ring-2 focus:ring-[#0071E3]/30 focus:outline-none"
+              >
+                {RESPONSE_CACHE_TTL_OPTIONS.map(option => (
+                  <option key={option.ttlDays} value={option.ttlDays}>{option.label}</option>
+                ))}
+              </select>
+            </label>
+            <button
+              onClick={handleClear}
+              disabled={clearState === 'clearing'}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-full text-xs font-semibold text-[#86868B] hover:text-red-500 hover:bg-red-50 transition-colors disabled:opacity-40"
+            >
+              <Trash2 className="w-3.5 h-3.5" />
+              {clearState === 'cleared' ? 'Cache cleared' : 'Clear cache'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,116 @@
+import React, { useMemo, useState } from 'react';
+import { Researcher } from '../types';
+import { formatSuggestionProvenance, ResearcherSuggestion, suggestCoauthors } from '../services/researcherSuggestions';
+import { UserPlus, X } from 'lucide-react';
+
+interface SuggestedResearchersModalProps {
+  researchers: Researcher[];
+  userInterests: string;
+  onConfirm: (suggestions: ResearcherSuggestion[]) => void;
+  onCancel: () => void;
+}
+
+export const SuggestedResearchersModal: React.FC<SuggestedResearchersModalProps> = ({
+  researchers,
+  userInterests,
+  onConfirm,
+  onCancel
+}) => {
+  const suggestions = useMemo(() => suggestCoauthors(researchers, userInterests), [researchers, userInterests]);
+  const [selectedKeys, setSelectedKeys] = useState<Set<string>>(() => new Set());
+  const strongMatchCount = researchers.filter(r => r.isMatch && (r.matchType === 'PERFECT' || r.matchType === 'HIGH')).length;
+
+  const toggle = (key: string) => {
+    setSelectedKeys(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const selected = suggestions.filter(suggestion => selectedKeys.has(suggestion.key));
+
+  return (
+    <div className="fixed inset-0 bg-black/40 backdrop-blur-sm flex items-center justify-center z-[100] p-4 animate-fade-in">
+      <div className="bg-white/90 backdrop-blur-2xl rounded-2xl shadow-2xl w-full max-w-2xl max-h-[85vh] flex flex-col overflow-hidden animate-modal-in border border-white/20">
+        <div className="p-6 flex items-center justify-between">
+          <div>
+            <h3 className="text-xl font-bold text-slate-900 flex items-center gap-2">
+              <UserPlus className="w-5 h-5 text-[#0071E3]" />
+              Suggested Professors
+            </h3>
+            <p className="text-[11px] text-[#86868B] mt-1">
+              Frequent co-authors of your {strongMatchCount} Perfect/High match(es) who are not in this list yet
+            </p>
+          </div>
+          <button onClick={onCancel} className="p-2 hover:bg-black/5 rounded-full transition-colors">
+            <X className="w-5 h-5 text-slate-400" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 pb-4">
+          {suggestions.length === 0 ? (
+            <p className="text-sm text-[#86868B]">
+              {strongMatchCount === 0
+                ? 'No Perfect or High matches yet. Analyze more professors to get suggestions.'
+                : 'No collaborator shares at least two papers with your strong matches.'}
+            </p>
+          ) : (
+            <ul className="divide-y divide-black/5 border border-black/5 rounded-xl overflow-hidden">
+              {suggestions.map(suggestion => (
+                <li key={suggestion.key}>
+                  <label className="flex items-start gap-3 px-4 py-3 cursor-pointer hover:bg-black/[0.02] transition-colors">
+                    <input
+                      type="checkbox"
+                      checked={selectedKeys.has(suggestion.key)}
+                      onChange={() => toggle(suggestion.key)}
+                      className="mt-1 rounded border-[#D2D2D7] text-[#0071E3] focus:ring-[#0071E3]/30"
+                    />
+                    <span className="flex-1 min-w-0">
+                      <span className="flex items-center gap-2">
+                        <span className="text-sm font-semibold text-[#1D1D1F]">{suggestion.name}</span>
+                        <span className="text-[10px] font-bold text-[#86868B]">{suggestion.paperCount} shared papers</span>
+                      </span>
+                      <span className="block text-[11px] text-[#424245] mt-0.5">{formatSuggestionProvenance(suggestion)}</span>
+                      {suggestion.matchedInterests.length > 0 && (
+                        <span className="flex flex-wrap gap-1 mt-1.5">
+                          {suggestion.matchedInterests.map(interest => (
+                            <span key={interest} className="px-1.5 py-0.5 rounded text-[10px] font-semibold bg-[#0071E3]/10 text-[#0071E3]">
+                              {interest}
+                            </span>
+                          ))}
+                        </span>
+                      )}
+                    </span>
+                  </label>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="p-6 pt-4 flex items-center justify-between gap-3 border-t border-black/5">
+          <p className="text-[11px] text-[#86868B]">
+            Added professors wait for a Scholar ID link, like names from the extract modal.
+          </p>
+          <div className="flex gap-2 shrink-0">
+            <button
+              onClick={onCancel}
+              className="px-4 py-2 rounded-full text-sm font-semibold text-[#86868B] hover:bg-black/5 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => onConfirm(selected)}
+              disabled={selected.length === 0}
+              className="px-5 py-2 bg-[#0071E3] hover:bg-[#0077ED] text-white rounded-full text-sm font-semibold transition-all disabled:opacity-40"
+            >
+              Add {selected.length || ''}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
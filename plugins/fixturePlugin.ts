@@ -0,0 +1,67 @@
+import fs from 'fs/promises';
+import path from 'path';
+import type { IncomingMessage } from 'http';
+import type { Plugin } from 'vite';
+
+const FIXTURE_ROUTE = '/__fixtures';
+const SEGMENT_PATTERN = /^[a-z0-9][a-z0-9._-]*$/i;
+
+const readBody = (req: IncomingMessage): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf-8')));
+    req.on('error', reject);
+  });
+
+/**
+ * Dev server endpoint backing `services/fixtureService.ts`:
+ * `GET /__fixtures/:kind/:key` reads `<dir>/:kind/:key.json`,
+ * `POST` writes it (record mode only).
+ */
+export const fixturePlugin = (options: { dir: string; allowWrite: boolean }): Plugin => ({
+  name: 'academic-outreach-fixtures',
+  configureServer(server) {
+    server.middlewares.use(FIXTURE_ROUTE, async (req, res) => {
+      const [kind, rawKey] = (req.url || '').split('?')[0].split('/').filter(Boolean);
+      const key = rawKey ? decodeURIComponent(rawKey) : '';
+      // Both segments become path components, so reject anything that could escape the directory.
+      if (!kind || !key || !SEGMENT_PATTERN.test(kind) || !SEGMENT_PATTERN.test(key)) {
+        res.statusCode = 400;
+        res.end('Invalid fixture path');
+        return;
+      }
+
+      const filePath = path.join(options.dir, kind, `${key}.json`);
+      try {
+        if (req.method === 'GET') {
+          const content = await fs.readFile(filePath, 'utf-8');
+          res.setHeader('Content-Type', 'application/json');
+          res.end(content);
+          return;
+        }
+
+        if (req.method === 'POST' && options.allowWrite) {
+          const fixture = JSON.parse(await readBody(req));
+          await fs.mkdir(path.dirname(filePath), { recursive: true });
+          await fs.writeFile(filePath, `${JSON.stringify(fixture, null, 2)}\n`, 'utf-8');
+          res.statusCode = 204;
+          res.end();
+          return;
+        }
+
+        res.statusCode = 405;
+        res.end('Method not allowed');
+      } catch (error: any) {
+        if (error?.code === 'ENOENT') {
+          res.statusCode = 404;
+          res.end('Fixture not found');
+          return;
+        }
+        server.config.logger.error(`[fixtures] ${req.method} ${filePath} failed: ${error?.message || error}`);
+        res.statusCode = 500;
+        res.end('Fixture server error');
+      }
+    });
+  }
+});
@@ -0,0 +1,113 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { AddressInfo } from 'node:net';
+import { Server } from 'node:http';
+import { ApiServerOptions, badRequest, createApiServer, resolveAccessSettings, RouteHandler } from './app';
+
+describe('resolveAccessSettings', () => {
+  it.each<[string, Record<string, string | undefined>, ReturnType<typeof resolveAccessSettings>]>([
+    ['one origin', { CORS_ORIGIN: 'https://app.example/' }, { allowedOrigins: ['https://app.example'], apiToken: undefined }],
+    ['several origins and a token', { CORS_ORIGIN: 'https://a.example, https://b.example', API_TOKEN: ' t ' }, {
+      allowedOrigins: ['https://a.example', 'https://b.example'],
+      apiToken: 't'
+    }],
+    ['any origin with a token', { CORS_ORIGIN: '*', API_TOKEN: 't' }, { allowedOrigins: '*', apiToken: 't' }]
+  ])('%s', (_label, env, expected) => {
+    expect(resolveAccessSettings(env)).toEqual(expected);
+  });
+
+  it.each<[string, Record<string, string | undefined>, string]>([
+    ['missing origin', {}, 'CORS_ORIGIN is not set'],
+    ['any origin without a token', { CORS_ORIGIN: '*' }, 'set API_TOKEN']
+  ])('rejects %s', (_label, env, message) => {
+    expect(() => resolveAccessSettings(env)).toThrow(message);
+  });
+});
+
+describe('createApiServer', () => {
+  let server: Server | undefined;
+
+  afterEach(async () => {
+    await new Promise(resolve => server?.close(resolve));
+    server = undefined;
+    vi.restoreAllMocks();
+  });
+
+  const routes: Record<string, RouteHandler> = {
+    'POST /api/echo': async body => ({ received: body }),
+    'GET /api/query': async (_, query) => ({ name: query.get('name') }),
+    'POST /api/invalid': async () => { throw badRequest('"text" is required'); },
+    'POST /api/broken': async () => { throw new Error('upstream failed'); }
+  };
+
+  const start = async (options: Partial<ApiServerOptions> = {}): Promise<string> => {
+    server = createApiServer({ routes, allowedOrigins: ['https://app.example'], ...options });
+    await new Promise<void>(resolve => server!.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(server!.address() as AddressInfo).port}`;
+  };
+
+  const postJson = (url: string, body: string, headers: Record<string, string> = {}) =>
+    fetch(url, { method: 'POST', headers: { 'Content-Type': 'application/json', ...headers }, body });
+
+  it('routes GET and POST requests to their handlers', async () => {
+    const base = await start();
+    const echo = await postJson(`${base}/api/echo`, '{"text":"hi"}');
+    expect(echo.status).toBe(200);
+    expect(await echo.json()).toEqual({ received: { text: 'hi' } });
+
+    const query = await fetch(`${base}/api/query?name=Jane`);
+    expect(await query.json()).toEqual({ name: 'Jane' });
+  });
+
+  it('maps errors to status codes', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const base = await start();
+    const cases: Array<[Promise<Response>, number, string]> = [
+      [fetch(`${base}/api/missing`), 404, 'No route for GET /api/missing'],
+      [postJson(`${base}/api/echo`, 'not json'), 400, 'Request body must be JSON'],
+      [postJson(`${base}/api/invalid`, '{}'), 400, '"text" is required'],
+      [postJson(`${base}/api/broken`, '{}'), 500, 'upstream failed']
+    ];
+    for (const [request, status, error] of cases) {
+      const response = await request;
+      expect(response.status).toBe(status);
+      expect(await response.json()).toEqual({ error });
+    }
+  });
+
+  it('rejects bodies over the limit with 413', async () => {
+    const base = await start();
+    const response = await postJson(`${base}/api/echo`, JSON.stringify({ text: 'x'.repeat(2 * 1024 * 1024) }));
+    expect(response.status).toBe(413);
+    expect(await response.json()).toEqual({ error: 'Request body too large' });
+  });
+
+  it('gives routes with their own body limit more room', async () => {
+    const base = await start({ bodyLimits: { 'POST /api/echo': 4 * 1024 * 1024 } });
+    const body = JSON.stringify({ text: 'x'.repeat(3 * 1024 * 1024) });
+    expect((await postJson(`${base}/api/echo`, body)).status).toBe(200);
+    expect((await postJson(`${base}/api/invalid`, body)).status).toBe(413);
+    expect((await postJson(`${base}/api/echo`, JSON.stringify({ text: 'x'.repeat(5 * 1024 * 1024) }))).status).toBe(413);
+  });
+
+  it('only serves the allowed origins', async () => {
+    const base = await start();
+    const allowed = await fetch(`${base}/api/query?name=A`, { headers: { Origin: 'https://app.example' } });
+    expect(allowed.status).toBe(200);
+    expect(allowed.headers.get('access-control-allow-origin')).toBe('https://app.example');
+
+    const other = await fetch(`${base}/api/query?name=A`, { headers: { Origin: 'https://evil.example' } });
+    expect(other.status).toBe(403);
+    expect(other.headers.get('access-control-allow-origin')).toBe('https://app.example');
+  });
+
+  it('requires the API token when one is set, except for the health check', async () => {
+    const base = await start({ allowedOrigins: '*', apiToken: 'secret' });
+    expect((await fetch(`${base}/api/health`)).status).toBe(200);
+    expect((await fetch(`${base}/api/query?name=A`)).status).toBe(401);
+    expect((await fetch(`${base}/api/query?name=A`, { headers: { Authorization: 'Bearer wrong!' } })).status).toBe(401);
+
+    const authorized = await fetch(`${base}/api/query?name=A`, { headers: { Authorization: 'Bearer secret' } });
+    expect(authorized.status).toBe(200);
+    expect(authorized.headers.get('access-control-allow-origin')).toBe('*');
+  });
+});
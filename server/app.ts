@@ -0,0 +1,130 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { timingSafeEqual } from 'node:crypto';
+
+export const MAX_BODY_BYTES = 2 * 1024 * 1024;
+
+export type RequestError = Error & { status?: number };
+
+export const badRequest = (message: string): RequestError => Object.assign(new Error(message), { status: 400 });
+
+const requestError = (status: number, message: string): RequestError => Object.assign(new Error(message), { status });
+
+export type RouteHandler = (body: Record<string, unknown>, query: URLSearchParams) => Promise<unknown>;
+
+export interface ApiServerOptions {
+  routes: Record<string, RouteHandler>;
+  /** Origins allowed to call the API, or '*' for any (only accepted together with a token). */
+  allowedOrigins: string[] | '*';
+  /** When set, every route except the health check needs `Authorization: Bearer <token>`. */
+  apiToken?: string;
+  /** Body limits for routes that take more than MAX_BODY_BYTES, keyed like `routes`. */
+  bodyLimits?: Record<string, number>;
+}
+
+/**
+ * Reads CORS_ORIGIN (comma-separated) and API_TOKEN. The server holds paid
+ * API keys, so it refuses to start open to every web page: CORS_ORIGIN must
+ * be set, and '*' needs a token.
+ */
+export const resolveAccessSettings = (
+  env: Record<string, string | undefined>
+): Pick<ApiServerOptions, 'allowedOrigins' | 'apiToken'> => {
+  const apiToken = env.API_TOKEN?.trim() || undefined;
+  const origins = (env.CORS_ORIGIN || '').split(',').map(origin => origin.trim().replace(/\/+$/, '')).filter(Boolean);
+  if (origins.length === 0) {
+    throw new Error('CORS_ORIGIN is not set. Set it to the origin of the app, e.g. https://your-static-host.example.');
+  }
+  if (origins.includes('*')) {
+    if (!apiToken) throw new Error('CORS_ORIGIN=* lets any web page call the server; set API_TOKEN as well.');
+    return { allowedOrigins: '*', apiToken };
+  }
+  return { allowedOrigins: origins, apiToken };
+};
+
+export const readJsonBody = (req: IncomingMessage, maxBytes = MAX_BODY_BYTES): Promise<Record<string, unknown>> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    let isTooLarge = false;
+    req.on('data', (chunk: Buffer) => {
+      if (isTooLarge) return;
+      size += chunk.length;
+      if (size > maxBytes) {
+        // Keep draining so the 413 response reaches the client.
+        isTooLarge = true;
+        chunks.length = 0;
+        reject(requestError(413, 'Request body too large'));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      if (isTooLarge) return;
+      try {
+        const parsed = JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}');
+        resolve(parsed && typeof parsed === 'object' ? parsed : {});
+      } catch {
+        reject(badRequest('Request body must be JSON'));
+      }
+    });
+    req.on('error', reject);
+  });
+
+const sendJson = (res: ServerResponse, status: number, payload: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+  res.end(JSON.stringify(payload));
+};
+
+const hasValidToken = (req: IncomingMessage, apiToken: string): boolean => {
+  const given = Buffer.from((req.headers.authorization || '').replace(/^Bearer\s+/i, ''));
+  const expected = Buffer.from(apiToken);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+};
+
+export const createApiServer = ({ routes, allowedOrigins, apiToken, bodyLimits = {} }: ApiServerOptions): Server =>
+  createServer(async (req, res) => {
+    const origin = req.headers.origin?.replace(/\/+$/, '');
+    const isAllowedOrigin = !origin || allowedOrigins === '*' || allowedOrigins.includes(origin);
+    res.setHeader('Access-Control-Allow-Origin', allowedOrigins === '*' ? '*' : (isAllowedOrigin && origin) || allowedOrigins[0]);
+    res.setHeader('Vary', 'Origin');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+
+    const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+    if (req.method === 'GET' && url.pathname === '/api/health') {
+      sendJson(res, 200, { ok: true });
+      return;
+    }
+
+    // CORS only hides the response; a simple GET from another site would still run and spend credits.
+    if (!isAllowedOrigin) {
+      sendJson(res, 403, { error: `Origin ${origin} is not allowed` });
+      return;
+    }
+    if (apiToken && !hasValidToken(req, apiToken)) {
+      sendJson(res, 401, { error: 'Missing or invalid API token' });
+      return;
+    }
+
+    const routeKey = `${req.method} ${url.pathname}`;
+    const handler = routes[routeKey];
+    if (!handler) {
+      sendJson(res, 404, { error: `No route for ${req.method} ${url.pathname}` });
+      return;
+    }
+
+    try {
+      const body = req.method === 'POST' ? await readJsonBody(req, bodyLimits[routeKey]) : {};
+      sendJson(res, 200, await handler(body, url.searchParams));
+    } catch (error) {
+      const { status, message } = error as RequestError;
+      if (!status) console.error(`${req.method} ${url.pathname} failed:`, error);
+      sendJson(res, status || 500, { error: message || 'Internal server error' });
+    }
+  });
@@ -0,0 +1,45 @@
+import './loadEnv';
+import { applyLlmSettings } from '../services/llmService';
+import { normalizeLlmSettings } from '../services/llmSettingsService';
+import { createApiServer, resolveAccessSettings } from './app';
+import { apiBodyLimits, apiRoutes } from './routes';
+
+/**
+ * Standalone API server that owns the Gemini, SerpAPI and OpenAI-compatible
+ * credentials. The browser build points at it with VITE_API_BASE_URL and
+ * never sees a key. Run with `npm run server`.
+ */
+
+const PORT = Number(process.env.PORT) || 8787;
+
+// LLM_SETTINGS takes the same JSON shape as the in-app "AI Models" card.
+const parseLlmSettingsEnv = (): unknown => {
+  if (!process.env.LLM_SETTINGS) return {};
+  try {
+    return JSON.parse(process.env.LLM_SETTINGS);
+  } catch (error) {
+    console.error('Ignoring LLM_SETTINGS: not valid JSON.', error);
+    return {};
+  }
+};
+
+const llmSettings = normalizeLlmSettings(parseLlmSettingsEnv());
+applyLlmSettings({
+  ...llmSettings,
+  openAiCompatible: {
+    ...llmSettings.openAiCompatible,
+    apiKey: process.env.OPENAI_COMPATIBLE_API_KEY || llmSettings.openAiCompatible.apiKey
+  }
+});
+
+let accessSettings: ReturnType<typeof resolveAccessSettings>;
+try {
+  accessSettings = resolveAccessSettings(process.env);
+} catch (error) {
+  console.error((error as Error).message);
+  process.exit(1);
+}
+
+createApiServer({ routes: apiRoutes, bodyLimits: apiBodyLimits, ...accessSettings }).listen(PORT, () => {
+  console.log(`API server listening on http://localhost:${PORT}`);
+});
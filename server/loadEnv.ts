@@ -0,0 +1,5 @@
+import { existsSync } from 'node:fs';
+
+// Imported first by server/index.ts so the keys are in process.env before the
+// service modules read them at load time.
+if (existsSync('.env.local')) process.loadEnvFile('.env.local');
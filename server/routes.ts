@@ -0,0 +1,111 @@
+import { AnalysisResult, InterestMatchResult, Researcher } from '../types';
+import {
+  analyzeScholarPublications,
+  extractResearchersFromChunk,
+  extractProfessorEmailFromScholarHomepage,
+  fetchDocumentText,
+  generateCustomizedLetter,
+  LetterGenerationOptions,
+  LetterRevisionOptions,
+  rescoreScholarPublications,
+  reviseCustomizedLetterWithAnnotation
+} from '../services/geminiService';
+import {
+  fetchScholarPublicationsFromSource,
+  normalizeScholarFetchSettings,
+  ScholarAuthorData,
+  searchScholarAuthorCandidates
+} from '../services/serpApiService';
+import { normalizeInterestScoringOptions } from '../services/matchScoring';
+import { MAX_PDF_UPLOAD_BYTES } from '../services/documentText';
+import { badRequest, MAX_BODY_BYTES, RouteHandler } from './app';
+
+const requireString = (value: unknown, field: string): string => {
+  if (typeof value !== 'string' || !value.trim()) throw badRequest(`"${field}" is required`);
+  return value;
+};
+
+const optionalString = (value: unknown): string | undefined => (typeof value === 'string' ? value : undefined);
+
+const requireObject = <T>(value: unknown, field: string): T => {
+  if (!value || typeof value !== 'object') throw badRequest(`"${field}" is required`);
+  return value as T;
+};
+
+const requireScholarData = (value: unknown): ScholarAuthorData => {
+  const scholarData = requireObject<ScholarAuthorData>(value, 'scholarData');
+  if (!Array.isArray(scholarData.articles)) throw badRequest('"scholarData.articles" must be an array');
+  return scholarData;
+};
+
+export const apiRoutes: Record<string, RouteHandler> = {
+  'POST /api/extract-researchers': async body => ({
+    entries: await extractResearchersFromChunk(requireString(body.text, 'text'))
+  }),
+
+  'POST /api/document-text': async body => {
+    const url = optionalString(body.url);
+    return { text: await fetchDocumentText(url ? { url } : { pdf: requireString(body.pdf, 'pdf') }) };
+  },
+
+  'POST /api/analyze': async (body): Promise<AnalysisResult> =>
+    analyzeScholarPublications(
+      requireString(body.name, 'name'),
+      requireScholarData(body.scholarData),
+      optionalString(body.userInterests) || '',
+      normalizeInterestScoringOptions(body.scoring)
+    ),
+
+  'POST /api/rescore': async (body): Promise<InterestMatchResult> =>
+    rescoreScholarPublications(
+      requireString(body.name, 'name'),
+      requireScholarData(body.scholarData),
+      optionalString(body.userInterests) || '',
+      optionalString(body.researchSummary),
+      normalizeInterestScoringOptions(body.scoring)
+    ),
+
+  'POST /api/letter': async body => ({
+    letter: await generateCustomizedLetter(
+      requireString(body.template, 'template'),
+      requireObject<Researcher>(body.researcher, 'researcher'),
+      optionalString(body.userInterests) || '',
+      body.options as LetterGenerationOptions | undefined
+    )
+  }),
+
+  'POST /api/letter/revise': async body => ({
+    letter: await reviseCustomizedLetterWithAnnotation(
+      requireString(body.currentLetter, 'currentLetter'),
+      requireString(body.selectedText, 'selectedText'),
+      requireString(body.annotation, 'annotation'),
+      requireObject<Researcher>(body.researcher, 'researcher'),
+      optionalString(body.userInterests) || '',
+      body.options as LetterRevisionOptions | undefined
+    )
+  }),
+
+  'GET /api/scholar/author': async (_, query) =>
+    fetchScholarPublicationsFromSource(
+      requireString(query.get('id'), 'id'),
+      normalizeScholarFetchSettings({
+        maxArticles: query.get('maxArticles') ?? undefined,
+        includeMostCited: query.has('includeMostCited') ? query.get('includeMostCited') === 'true' : undefined
+      })
+    ),
+
+  'GET /api/scholar/search': async (_, query) =>
+    searchScholarAuthorCandidates(requireString(query.get('name'), 'name'), query.get('university') || undefined),
+
+  'POST /api/homepage/email': async body =>
+    extractProfessorEmailFromScholarHomepage(
+      optionalString(body.homepageUrl),
+      optionalString(body.researcherName),
+      optionalString(body.verifiedEmailHint)
+    )
+};
+
+export const apiBodyLimits: Record<string, number> = {
+  // PDFs arrive as base64, which is a third larger than the file.
+  'POST /api/document-text': Math.ceil(MAX_PDF_UPLOAD_BYTES / 3) * 4 + MAX_BODY_BYTES
+};
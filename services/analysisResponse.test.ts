@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import { validateAnalysisResponse, validateInterestMatchResponse } from './analysisResponse';
+
+describe('validateAnalysisResponse', () => {
+  it('passes a well-formed response through', () => {
+    expect(validateAnalysisResponse({
+      summary: ' Builds soft robots. ',
+      keywords: [{
+        keyword: 'Soft robotics',
+        reasoning: 'Many gripper papers',
+        supportingPapers: [{ title: 'Soft grippers', year: '2021', citations: 40 }]
+      }],
+      matched_user_interests: ['Robotics'],
+      matchReason: 'Covered 1/1 interests'
+    })).toEqual({
+      summary: 'Builds soft robots.',
+      keywords: [{
+        keyword: 'Soft robotics',
+        reasoning: 'Many gripper papers',
+        supportingPapers: [{ title: 'Soft grippers', year: '2021', citations: 40 }]
+      }],
+      matchedUserInterests: ['Robotics'],
+      matchReason: 'Covered 1/1 interests',
+      interestVerdicts: []
+    });
+  });
+
+  it('coerces near-misses', () => {
+    expect(validateAnalysisResponse({
+      keywords: [
+        {
+          keyword: 'Imaging',
+          supportingPapers: [
+            { title: 'MRI at 7T', year: 2019, citations: '1,204' },
+            { title: '' },
+            'not a paper',
+            { title: 'Preprint', citations: 'many' }
+          ]
+        },
+        { reasoning: 'no keyword' },
+        null
+      ],
+      matched_user_interests: 'Imaging, Robotics',
+      matchReason: null
+    })).toEqual({
+      summary: 'No summary available.',
+      keywords: [{
+        keyword: 'Imaging',
+        reasoning: '',
+        supportingPapers: [
+          { title: 'MRI at 7T', year: '2019', citations: 1204 },
+          { title: 'Preprint', year: undefined, citations: undefined }
+        ]
+      }],
+      matchedUserInterests: ['Imaging', 'Robotics'],
+      matchReason: undefined,
+      interestVerdicts: []
+    });
+  });
+
+  it('accepts an analysis without keywords or matches', () => {
+    expect(validateAnalysisResponse({ summary: 'Theory', keywords: [] })).toMatchObject({
+      keywords: [],
+      matchedUserInterests: []
+    });
+  });
+
+  it.each<[string, unknown, string]>([
+    ['a non-object', '["summary"]', 'expected a JSON object'],
+    ['an array', [], 'expected a JSON object'],
+    ['missing keywords', { summary: 'x' }, '"keywords" must be an array'],
+    ['keywords as an object', { keywords: { keyword: 'x' } }, '"keywords" must be an array'],
+    ['no usable keyword', { keywords: [{ keyword: ' ' }, {}] }, 'no entry in "keywords" has a keyword'],
+    ['a non-string summary', { summary: { text: 'x' }, keywords: [] }, '"summary" must be a string'],
+    ['papers as a string', { keywords: [{ keyword: 'A', supportingPapers: 'Paper' }] }, '"keywords[0].supportingPapers" must be an array'],
+    ['interests as a number', { keywords: [], matched_user_interests: 3 }, '"matched_user_interests" must be an array of strings'],
+    ['verdicts as an object', { keywords: [], interest_verdicts: {} }, '"interest_verdicts" must be an array'],
+    ['an unreadable verdict', { keywords: [], interest_verdicts: [{ interest: 'MRI', matched: 'maybe' }] }, '"interest_verdicts[0].matched" must be a boolean']
+  ])('rejects %s', (_, raw, message) => {
+    expect(() => validateAnalysisResponse(raw)).toThrow(`Malformed analysis response: ${message}`);
+  });
+});
+
+describe('validateInterestMatchResponse', () => {
+  it('reads verdicts and derives the matched list from them', () => {
+    expect(validateInterestMatchResponse({
+      interest_verdicts: [
+        { interest: 'MRI', matched: true, confidence: 'HIGH', justification: 'Many MRI papers', supporting_papers: ['MRI at 7T', { title: 'Fast MRI' }, ''] },
+        { interest: 'Robotics', matched: 'no', confidence: 'unsure', supporting_papers: [] },
+        { matched: true },
+        'junk'
+      ],
+      // Ignored once verdicts are present.
+      matched_user_interests: ['Robotics']
+    })).toEqual({
+      matchedUserInterests: ['MRI'],
+      matchReason: undefined,
+      interestVerdicts: [
+        {
+          interest: 'MRI',
+          matched: true,
+          confidence: 'high',
+          justification: 'Many MRI papers',
+          supportingPapers: [
+            { title: 'MRI at 7T', year: undefined, citations: undefined },
+            { title: 'Fast MRI', year: undefined, citations: undefined }
+          ]
+        },
+        { interest: 'Robotics', matched: false, confidence: 'medium', justification: '', supportingPapers: [] }
+      ]
+    });
+  });
+
+  it('falls back to the matched list without verdicts', () => {
+    expect(validateInterestMatchResponse({ matched_user_interests: ['MRI'], matchReason: 'Covered 1/2' })).toEqual({
+      matchedUserInterests: ['MRI'],
+      matchReason: 'Covered 1/2',
+      interestVerdicts: []
+    });
+  });
+});
@@ -0,0 +1,205 @@
+import type { InterestVerdict, KeywordEvidence, SupportingPaper, VerdictConfidence } from '../types';
+import type { JsonSchema } from './llmProvider';
+
+const VERDICT_CONFIDENCES: VerdictConfidence[] = ['high', 'medium', 'low'];
+
+/** One entry per user interest; shared by the analysis and re-score requests. */
+export const INTEREST_VERDICTS_SCHEMA: JsonSchema = {
+  type: 'array',
+  description: "A verdict for EVERY one of the user's interests, in the order given.",
+  items: {
+    type: 'object',
+    properties: {
+      interest: { type: 'string', description: "The user's interest, verbatim." },
+      matched: { type: 'boolean', description: 'Whether the publications clearly address it.' },
+      confidence: { type: 'string', enum: VERDICT_CONFIDENCES },
+      justification: { type: 'string', description: 'One line explaining the verdict.' },
+      supporting_papers: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Titles, exactly as in the publication list, of the papers behind the verdict.'
+      }
+    },
+    required: ['interest', 'matched', 'confidence', 'justification', 'supporting_papers']
+  }
+};
+
+/** Structured output requested from the model for a publication analysis. */
+export const ANALYSIS_RESPONSE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    summary: {
+      type: 'string',
+      description: "2-3 sentence summary of the researcher's overall research focus."
+    },
+    keywords: {
+      type: 'array',
+      description: 'Research keywords, each backed by papers from the publication list.',
+      items: {
+        type: 'object',
+        properties: {
+          keyword: { type: 'string' },
+          reasoning: { type: 'string' },
+          supportingPapers: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                title: { type: 'string', description: 'Title exactly as it appears in the publication list.' },
+                year: { type: 'string' },
+                citations: { type: 'integer' }
+              },
+              required: ['title']
+            }
+          }
+        },
+        required: ['keyword', 'reasoning', 'supportingPapers']
+      }
+    },
+    interest_verdicts: INTEREST_VERDICTS_SCHEMA,
+    matchReason: {
+      type: 'string',
+      nullable: true,
+      description: 'One sentence explaining the match, e.g. "Covered 4/5 interests: AI, Imaging...".'
+    }
+  },
+  required: ['summary', 'keywords', 'interest_verdicts']
+};
+
+export interface InterestMatchResponse {
+  /** Interests the model found addressed, from the verdicts when it gave any. */
+  matchedUserInterests: string[];
+  matchReason?: string;
+  /** Supporting papers are titles as the model cited them, not yet verified. */
+  interestVerdicts: InterestVerdict[];
+}
+
+export interface AnalysisResponse extends InterestMatchResponse {
+  summary: string;
+  keywords: KeywordEvidence[];
+}
+
+const malformed = (detail: string): Error => new Error(`Malformed analysis response: ${detail}`);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+const toOptionalString = (value: unknown, field: string): string | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value === 'string') return value.trim() || undefined;
+  if (typeof value === 'number') return String(value);
+  throw malformed(`"${field}" must be a string`);
+};
+
+const toOptionalCount = (value: unknown): number | undefined => {
+  const count = typeof value === 'string' ? Number(value.replace(/,/g, '')) : value;
+  return typeof count === 'number' && Number.isFinite(count) && count >= 0 ? Math.round(count) : undefined;
+};
+
+// Papers without a title carry no evidence, so they are dropped rather than rejected.
+const toSupportingPapers = (value: unknown, field: string): SupportingPaper[] => {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) throw malformed(`"${field}" must be an array`);
+  return value.flatMap((paper, index): SupportingPaper[] => {
+    if (!isRecord(paper)) return [];
+    const title = toOptionalString(paper.title, `${field}[${index}].title`);
+    if (!title) return [];
+    return [{
+      title,
+      year: toOptionalString(paper.year, `${field}[${index}].year`),
+      citations: toOptionalCount(paper.citations)
+    }];
+  });
+};
+
+const toKeywords = (value: unknown): KeywordEvidence[] => {
+  if (!Array.isArray(value)) throw malformed('"keywords" must be an array');
+  const keywords = value.flatMap((entry, index): KeywordEvidence[] => {
+    if (!isRecord(entry)) return [];
+    const keyword = toOptionalString(entry.keyword, `keywords[${index}].keyword`);
+    if (!keyword) return [];
+    return [{
+      keyword,
+      reasoning: toOptionalString(entry.reasoning, `keywords[${index}].reasoning`) || '',
+      supportingPapers: toSupportingPapers(entry.supportingPapers, `keywords[${index}].supportingPapers`)
+    }];
+  });
+  if (value.length > 0 && keywords.length === 0) {
+    throw malformed('no entry in "keywords" has a keyword');
+  }
+  return keywords;
+};
+
+const toInterestList = (value: unknown): string[] => {
+  if (value === undefined || value === null) return [];
+  if (typeof value === 'string') return value.split(',').map(item => item.trim()).filter(Boolean);
+  if (!Array.isArray(value)) throw malformed('"matched_user_interests" must be an array of strings');
+  return value.filter((item): item is string => typeof item === 'string' && Boolean(item.trim()));
+};
+
+const toMatched = (value: unknown, field: string): boolean => {
+  if (typeof value === 'boolean') return value;
+  const text = typeof value === 'string' ? value.trim().toLowerCase() : '';
+  if (text === 'true' || text === 'yes') return true;
+  if (text === 'false' || text === 'no') return false;
+  throw malformed(`"${field}" must be a boolean`);
+};
+
+const toConfidence = (value: unknown): VerdictConfidence => {
+  const text = typeof value === 'string' ? value.trim().toLowerCase() : '';
+  return VERDICT_CONFIDENCES.find(confidence => confidence === text) || 'medium';
+};
+
+const toInterestVerdicts = (value: unknown): InterestVerdict[] => {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) throw malformed('"interest_verdicts" must be an array');
+  return value.flatMap((entry, index): InterestVerdict[] => {
+    if (!isRecord(entry)) return [];
+    const field = `interest_verdicts[${index}]`;
+    const interest = toOptionalString(entry.interest, `${field}.interest`);
+    if (!interest) return [];
+    // Cited as bare titles; objects with a title are accepted too.
+    const papers = Array.isArray(entry.supporting_papers)
+      ? entry.supporting_papers.map(paper => (typeof paper === 'string' ? { title: paper } : paper))
+      : entry.supporting_papers;
+    return [{
+      interest,
+      matched: toMatched(entry.matched, `${field}.matched`),
+      confidence: toConfidence(entry.confidence),
+      justification: toOptionalString(entry.justification, `${field}.justification`) || '',
+      supportingPapers: toSupportingPapers(papers, `${field}.supporting_papers`)
+    }];
+  });
+};
+
+/**
+ * Reads the interest-matching fields shared by analysis and re-score
+ * responses. Servers that ignore the schema may still send only the older
+ * `matched_user_interests` list, which is used when there are no verdicts.
+ */
+export const validateInterestMatchResponse = (raw: unknown): InterestMatchResponse => {
+  if (!isRecord(raw)) throw malformed('expected a JSON object');
+  const interestVerdicts = toInterestVerdicts(raw.interest_verdicts);
+  return {
+    matchedUserInterests: interestVerdicts.length > 0
+      ? interestVerdicts.filter(verdict => verdict.matched).map(verdict => verdict.interest)
+      : toInterestList(raw.matched_user_interests),
+    matchReason: toOptionalString(raw.matchReason, 'matchReason'),
+    interestVerdicts
+  };
+};
+
+/**
+ * Checks a parsed analysis response against ANALYSIS_RESPONSE_SCHEMA.
+ * Near-misses are coerced (numeric years, a comma-separated interest string,
+ * untitled papers dropped); anything that can't be read throws an error
+ * naming the offending field.
+ */
+export const validateAnalysisResponse = (raw: unknown): AnalysisResponse => {
+  if (!isRecord(raw)) throw malformed('expected a JSON object');
+  return {
+    summary: toOptionalString(raw.summary, 'summary') || 'No summary available.',
+    keywords: toKeywords(raw.keywords),
+    ...validateInterestMatchResponse(raw)
+  };
+};
@@ -0,0 +1,37 @@
+import { isServerRuntime, readEnv } from './runtimeEnv';
+
+/**
+ * Base URL of the backend in `server/`. When set, the browser sends every
+ * Scholar, homepage and model call there instead of calling the services
+ * directly, so no API key needs to be in the bundle.
+ */
+export const API_BASE_URL = isServerRuntime ? '' : readEnv('VITE_API_BASE_URL').replace(/\/+$/, '');
+
+export const isBackendEnabled = Boolean(API_BASE_URL);
+
+// Must match the server's API_TOKEN when it sets one. It ships in the bundle, so it only keeps
+// other sites from calling the server; it is not a secret.
+const API_TOKEN = isServerRuntime ? '' : readEnv('VITE_API_TOKEN');
+
+const requestBackend = async <T>(path: string, init: RequestInit = {}): Promise<T> => {
+  const response = await fetch(`${API_BASE_URL}${path}`, {
+    ...init,
+    headers: { ...(init.headers as Record<string, string> | undefined), ...(API_TOKEN ? { Authorization: `Bearer ${API_TOKEN}` } : {}) }
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    // Keep the status in the message so callers' retry checks still see 429/5xx.
+    throw new Error(`Backend request failed: ${response.status} ${data?.error || response.statusText}`);
+  }
+  return data as T;
+};
+
+export const getFromBackend = <T>(path: string, params: Record<string, string>): Promise<T> =>
+  requestBackend<T>(`${path}?${new URLSearchParams(params).toString()}`);
+
+export const postToBackend = <T>(path: string, body: unknown): Promise<T> =>
+  requestBackend<T>(path, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { AnalysisStatus, EmailStatus, Researcher } from '../types';
+import { mergeResearcherLists, parseProjectBundle, PROJECT_BUNDLE_FORMAT, PROJECT_BUNDLE_VERSION } from './bundleService';
+import { RESEARCHER_SCHEMA_VERSION } from './storageService';
+
+const researcher = (fields: Partial<Researcher> & Pick<Researcher, 'id' | 'name'>): Researcher => ({
+  status: AnalysisStatus.PENDING,
+  ...fields
+});
+
+const bundleText = (overrides: Record<string, unknown> = {}, researchers: unknown[] = [researcher({ id: 'r1', name: 'Jane Doe' })]) =>
+  JSON.stringify({
+    format: PROJECT_BUNDLE_FORMAT,
+    version: PROJECT_BUNDLE_VERSION,
+    exportedAt: '2026-01-01T00:00:00.000Z',
+    researcherSchemaVersion: RESEARCHER_SCHEMA_VERSION,
+    campaigns: [{ campaign: { id: 'c1', name: 'Fall', createdAt: 1, updatedAt: 2 }, researchers }],
+    ...overrides
+  });
+
+describe('parseProjectBundle', () => {
+  it('reads campaigns and researchers, filling missing campaign fields', () => {
+    const bundle = parseProjectBundle(bundleText());
+    expect(bundle.campaigns).toHaveLength(1);
+    expect(bundle.campaigns[0].campaign).toMatchObject({ id: 'c1', name: 'Fall', userInterests: '', createdAt: 1, updatedAt: 2 });
+    expect(bundle.campaigns[0].researchers).toEqual([researcher({ id: 'r1', name: 'Jane Doe' })]);
+  });
+
+  it('resets analyses that were running when the bundle was exported', () => {
+    const bundle = parseProjectBundle(bundleText({}, [
+      researcher({ id: 'r1', name: 'Jane Doe', status: AnalysisStatus.LOADING, scholarAuthorId: 'abc' }),
+      researcher({ id: 'r2', name: 'Bo Kumar', status: AnalysisStatus.LOADING })
+    ]));
+    expect(bundle.campaigns[0].researchers.map(r => r.status)).toEqual([AnalysisStatus.PENDING, AnalysisStatus.AWAITING_SCHOLAR_ID]);
+  });
+
+  it('upgrades researchers from bundles without a schema version', () => {
+    const bundle = parseProjectBundle(bundleText({ researcherSchemaVersion: undefined }, [
+      { id: 'r1', name: 'Jane Doe', status: AnalysisStatus.PENDING }
+    ]));
+    expect(bundle.researcherSchemaVersion).toBe(RESEARCHER_SCHEMA_VERSION);
+    expect(bundle.campaigns[0].researchers[0]).toMatchObject({ tags: [], matchedInterests: [], emailStatus: EmailStatus.NOT_SENT });
+  });
+
+  it.each<[string, string, string]>([
+    ['not JSON', '{', 'not valid JSON'],
+    ['another format', JSON.stringify({ format: 'other' }), 'not an Academic Outreach Explorer project export'],
+    ['a newer bundle version', bundleText({ version: PROJECT_BUNDLE_VERSION + 1 }), 'Unsupported project file version'],
+    ['a missing version', bundleText({ version: undefined }), 'Unsupported project file version'],
+    ['a newer researcher schema', bundleText({ researcherSchemaVersion: RESEARCHER_SCHEMA_VERSION + 1 }), 'newer version of the app'],
+    ['no campaigns list', bundleText({ campaigns: 'none' }), 'no campaigns list'],
+    ['an empty campaigns list', bundleText({ campaigns: [] }), 'does not contain any campaigns'],
+    ['a malformed campaign', bundleText({ campaigns: [{ campaign: {} }] }), 'Campaign #1 is malformed'],
+    ['a researcher without a name', bundleText({}, [{ id: 'r1', status: AnalysisStatus.PENDING }]), 'Researcher #1 in campaign "Fall" is missing an id or name'],
+    ['an unknown status', bundleText({}, [{ id: 'r1', name: 'Jane Doe', status: 'done' }]), 'has an invalid status "done"'],
+    ['tags that are not a list', bundleText({}, [{ id: 'r1', name: 'Jane Doe', status: AnalysisStatus.PENDING, tags: 'robotics' }]), '(Jane Doe) has an invalid "tags" field'],
+    ['matched interests that are not strings', bundleText({}, [{ id: 'r1', name: 'Jane Doe', status: AnalysisStatus.PENDING, matchedInterests: [1] }]), 'invalid "matchedInterests" field'],
+    ['publications that are not objects', bundleText({}, [{ id: 'r1', name: 'Jane Doe', status: AnalysisStatus.PENDING, publications: ['A paper'] }]), 'invalid "publications" field'],
+    ['a letter that is not text', bundleText({}, [{ id: 'r1', name: 'Jane Doe', status: AnalysisStatus.PENDING, customizedLetter: {} }]), 'invalid "customizedLetter" field']
+  ])('rejects %s', (_label, text, message) => {
+    expect(() => parseProjectBundle(text)).toThrow(message);
+  });
+});
+
+describe('mergeResearcherLists', () => {
+  const tag = { keyword: 'robotics', reasoning: 'Grippers', supportingPapers: [] };
+  const existing = [
+    researcher({ id: 'a', name: 'Jane Doe', department: '', tags: [] }),
+    researcher({ id: 'b', name: 'Bo Kumar', scholarAuthorId: 'bo123', contactEmail: 'bo@example.edu' })
+  ];
+
+  it('only fills empty fields of researchers already in the list', () => {
+    const merged = mergeResearcherLists(existing, [
+      researcher({ id: 'x', name: 'jane doe', department: 'Bioengineering', tags: [tag] }),
+      researcher({ id: 'y', name: 'B. Kumar', scholarAuthorId: 'bo123', contactEmail: 'other@example.edu', rank: 'full' })
+    ]);
+    expect(merged).toHaveLength(2);
+    expect(merged[0]).toMatchObject({ id: 'a', name: 'Jane Doe', department: 'Bioengineering', tags: [tag] });
+    expect(merged[1]).toMatchObject({ id: 'b', name: 'Bo Kumar', contactEmail: 'bo@example.edu', rank: 'full' });
+  });
+
+  it('appends new researchers with fresh ids and dedupes within the import', () => {
+    const merged = mergeResearcherLists(existing, [
+      researcher({ id: 'a', name: 'Alice Chen' }),
+      researcher({ id: 'z', name: 'Alice Chen', department: 'Chemistry' })
+    ]);
+    expect(merged.map(r => r.name)).toEqual(['Jane Doe', 'Bo Kumar', 'Alice Chen']);
+    expect(merged[2].id).not.toBe('a');
+    expect(merged[2].department).toBe('Chemistry');
+  });
+
+  it('leaves the existing list untouched', () => {
+    mergeResearcherLists(existing, [researcher({ id: 'x', name: 'Jane Doe', department: 'Bioengineering' })]);
+    expect(existing[0].department).toBe('');
+  });
+});
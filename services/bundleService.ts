@@ -0,0 +1,246 @@
+import { AnalysisStatus, Campaign, EmailStatus, LetterAiSettings, Researcher } from '../types';
+import { RESEARCHER_SCHEMA_VERSION, migrateResearcherPayload } from './storageService';
+import { normalizeLetterAiSettings } from './letterSettingsService';
+import { cloneResearchersForCampaign, createId, settleInterruptedStatus } from './campaignService';
+import { normalizeInterestPreferences } from './matchScoring';
+
+export const PROJECT_BUNDLE_FORMAT = 'academic-outreach-explorer/project';
+export const PROJECT_BUNDLE_VERSION = 1;
+
+export interface CampaignBundleEntry {
+  campaign: Campaign;
+  researchers: Researcher[];
+}
+
+export interface ProjectBundle {
+  format: typeof PROJECT_BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  researcherSchemaVersion: number;
+  campaigns: CampaignBundleEntry[];
+  letterAiSettings: LetterAiSettings;
+}
+
+export interface CampaignBundlePreview {
+  name: string;
+  researcherCount: number;
+  analyzedCount: number;
+  favoriteCount: number;
+  letterCount: number;
+  sentCount: number;
+  /** Name of the existing campaign this one would merge into, if any. */
+  mergesInto?: string;
+  duplicateCount: number;
+}
+
+export type BundleImportMode = 'merge' | 'replace';
+
+export const buildProjectBundle = (
+  campaigns: CampaignBundleEntry[],
+  letterAiSettings: LetterAiSettings
+): ProjectBundle => ({
+  format: PROJECT_BUNDLE_FORMAT,
+  version: PROJECT_BUNDLE_VERSION,
+  exportedAt: new Date().toISOString(),
+  researcherSchemaVersion: RESEARCHER_SCHEMA_VERSION,
+  campaigns,
+  letterAiSettings
+});
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const readString = (value: unknown): string => (typeof value === 'string' ? value : '');
+
+const VALID_STATUSES = new Set<string>(Object.values(AnalysisStatus));
+
+// Optional researcher fields the list and cards read without further checks.
+const STRING_FIELDS: Array<keyof Researcher> = [
+  'scholarAuthorId', 'homepageUrl', 'contactEmail', 'interests', 'profileUrl', 'avatarUrl', 'matchReason',
+  'customizedLetter', 'scoredInterests', 'analysisError', 'discoveredVia', 'academicTitle', 'department',
+  'rosterEmail', 'rosterHomepageUrl'
+];
+const STRING_LIST_FIELDS: Array<keyof Researcher> = ['matchedInterests', 'excludedInterests', 'notDuplicateOf'];
+const RECORD_LIST_FIELDS: Array<keyof Researcher> = ['tags', 'interestVerdicts', 'publications'];
+
+/** Name of the first optional field whose value has the wrong type, if any. */
+const findInvalidResearcherField = (item: Record<string, unknown>): string | undefined => {
+  const isValid = (key: string, check: (value: unknown) => boolean) => item[key] === undefined || check(item[key]);
+  return STRING_FIELDS.find(key => !isValid(key, value => typeof value === 'string'))
+    || STRING_LIST_FIELDS.find(key => !isValid(key, value => Array.isArray(value) && value.every(entry => typeof entry === 'string')))
+    || RECORD_LIST_FIELDS.find(key => !isValid(key, value => Array.isArray(value) && value.every(isRecord)));
+};
+
+/**
+ * Parses and validates an exported bundle file. Throws with a message that
+ * points at the first invalid part of the file.
+ */
+export const parseProjectBundle = (text: string): ProjectBundle => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('The selected file is not valid JSON.');
+  }
+
+  if (!isRecord(raw) || raw.format !== PROJECT_BUNDLE_FORMAT) {
+    throw new Error('The selected file is not an Academic Outreach Explorer project export.');
+  }
+  if (typeof raw.version !== 'number' || raw.version > PROJECT_BUNDLE_VERSION) {
+    throw new Error(`Unsupported project file version "${raw.version}". Please update the app and try again.`);
+  }
+  if (!Array.isArray(raw.campaigns)) {
+    throw new Error('The project file has no campaigns list.');
+  }
+
+  const researcherSchemaVersion = typeof raw.researcherSchemaVersion === 'number' ? raw.researcherSchemaVersion : 0;
+  if (researcherSchemaVersion > RESEARCHER_SCHEMA_VERSION) {
+    throw new Error('The project file was exported by a newer version of the app.');
+  }
+
+  const campaigns = raw.campaigns.map((entry: unknown, campaignIndex: number): CampaignBundleEntry => {
+    if (!isRecord(entry) || !isRecord(entry.campaign) || !Array.isArray(entry.researchers)) {
+      throw new Error(`Campaign #${campaignIndex + 1} is malformed.`);
+    }
+
+    const source = entry.campaign;
+    const name = readString(source.name).trim() || `Imported Campaign ${campaignIndex + 1}`;
+    const now = Date.now();
+    const campaign: Campaign = {
+      id: readString(source.id) || createId(),
+      name,
+      userInterests: readString(source.userInterests),
+      interestPreferences: normalizeInterestPreferences(source.interestPreferences),
+      letterTemplate: readString(source.letterTemplate),
+      emailTitle: readString(source.emailTitle),
+      university: readString(source.university),
+      isArchived: Boolean(source.isArchived),
+      createdAt: typeof source.createdAt === 'number' ? source.createdAt : now,
+      updatedAt: typeof source.updatedAt === 'number' ? source.updatedAt : now
+    };
+
+    const researchers = entry.researchers.map((item: unknown, researcherIndex: number) => {
+      const label = `Researcher #${researcherIndex + 1} in campaign "${name}"`;
+      if (!isRecord(item)) throw new Error(`${label} is malformed.`);
+      if (!readString(item.id) || !readString(item.name).trim()) {
+        throw new Error(`${label} is missing an id or name.`);
+      }
+      if (typeof item.status !== 'string' || !VALID_STATUSES.has(item.status)) {
+        throw new Error(`${label} (${item.name}) has an invalid status "${item.status}".`);
+      }
+      const invalidField = findInvalidResearcherField(item);
+      if (invalidField) {
+        throw new Error(`${label} (${item.name}) has an invalid "${invalidField}" field.`);
+      }
+      return settleInterruptedStatus(migrateResearcherPayload(item, researcherSchemaVersion));
+    });
+
+    return { campaign, researchers };
+  });
+
+  if (campaigns.length === 0) {
+    throw new Error('The project file does not contain any campaigns.');
+  }
+
+  return {
+    format: PROJECT_BUNDLE_FORMAT,
+    version: raw.version,
+    exportedAt: readString(raw.exportedAt),
+    researcherSchemaVersion: RESEARCHER_SCHEMA_VERSION,
+    campaigns,
+    letterAiSettings: normalizeLetterAiSettings(raw.letterAiSettings)
+  };
+};
+
+const getResearcherDedupeKeys = (researcher: Researcher): string[] => {
+  const keys = [`name:${researcher.name.trim().toLowerCase()}`];
+  if (researcher.scholarAuthorId) keys.push(`scholar:${researcher.scholarAuthorId.trim()}`);
+  return keys;
+};
+
+const isDuplicateOf = (existingKeys: Set<string>, researcher: Researcher): boolean =>
+  getResearcherDedupeKeys(researcher).some(key => existingKeys.has(key));
+
+/**
+ * Finds the existing campaign an imported one merges into: same ID first,
+ * then same name (case-insensitive).
+ */
+export const findMergeTarget = (existing: Campaign[], incoming: Campaign): Campaign | undefined =>
+  existing.find(c => c.id === incoming.id)
+  || existing.find(c => c.name.trim().toLowerCase() === incoming.name.trim().toLowerCase());
+
+/**
+ * Merges imported researchers into an existing list. Researchers already
+ * present (same name or Scholar ID) keep their current data and only gain
+ * fields they are missing; new ones are appended with fresh IDs.
+ */
+export const mergeResearcherLists = (existing: Researcher[], incoming: Researcher[]): Researcher[] => {
+  const merged = [...existing];
+  const keyToIndex = new Map<string, number>();
+  merged.forEach((researcher, index) => {
+    getResearcherDedupeKeys(researcher).forEach(key => keyToIndex.set(key, index));
+  });
+
+  incoming.forEach(researcher => {
+    const matchIndex = getResearcherDedupeKeys(researcher)
+      .map(key => keyToIndex.get(key))
+      .find((index): index is number => index !== undefined);
+
+    if (matchIndex === undefined) {
+      const [copy] = cloneResearchersForCampaign([researcher]);
+      merged.push(copy);
+      getResearcherDedupeKeys(copy).forEach(key => keyToIndex.set(key, merged.length - 1));
+      return;
+    }
+
+    const current = merged[matchIndex];
+    const filled: Researcher = { ...current };
+    const fillField = <K extends keyof Researcher>(key: K) => {
+      filled[key] = researcher[key];
+    };
+    (Object.keys(researcher) as Array<keyof Researcher>).forEach(key => {
+      const value = current[key];
+      const isEmpty = value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+      if (isEmpty && key !== 'id') fillField(key);
+    });
+    merged[matchIndex] = filled;
+  });
+
+  return merged;
+};
+
+/**
+ * Fills empty profile fields of an existing campaign from an imported one.
+ */
+export const mergeCampaignFields = (existing: Campaign, incoming: Campaign): Campaign => ({
+  ...existing,
+  userInterests: existing.userInterests || incoming.userInterests,
+  // Preferences belong to the interests, so they follow whichever list is kept.
+  interestPreferences: existing.userInterests ? existing.interestPreferences : incoming.interestPreferences,
+  letterTemplate: existing.letterTemplate || incoming.letterTemplate,
+  emailTitle: existing.emailTitle || incoming.emailTitle,
+  university: existing.university || incoming.university,
+  updatedAt: Date.now()
+});
+
+export const previewProjectBundle = (
+  bundle: ProjectBundle,
+  existingCampaigns: Campaign[],
+  existingResearchersByCampaign: Map<string, Researcher[]>
+): CampaignBundlePreview[] =>
+  bundle.campaigns.map(({ campaign, researchers }) => {
+    const target = findMergeTarget(existingCampaigns, campaign);
+    const existingKeys = new Set(
+      (target ? existingResearchersByCampaign.get(target.id) || [] : []).flatMap(getResearcherDedupeKeys)
+    );
+    return {
+      name: campaign.name,
+      researcherCount: researchers.length,
+      analyzedCount: researchers.filter(r => r.status === AnalysisStatus.COMPLETED).length,
+      favoriteCount: researchers.filter(r => r.isFavorite).length,
+      letterCount: researchers.filter(r => Boolean(r.customizedLetter)).length,
+      sentCount: researchers.filter(r => r.emailStatus === EmailStatus.SENT).length,
+      mergesInto: target?.name,
+      duplicateCount: researchers.filter(r => isDuplicateOf(existingKeys, r)).length
+    };
+  });
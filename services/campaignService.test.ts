@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { AnalysisStatus, Campaign } from '../types';
+import { cloneResearchersForCampaign, createCampaign, DEFAULT_CAMPAIGN_NAME, duplicateCampaign, sortCampaigns } from './campaignService';
+
+const campaign = (fields: Partial<Campaign> = {}): Campaign => ({
+  ...createCampaign('Fall applications'),
+  ...fields
+});
+
+describe('createCampaign', () => {
+  it('falls back to the default name and empty profile fields', () => {
+    expect(createCampaign('  ')).toMatchObject({
+      name: DEFAULT_CAMPAIGN_NAME,
+      userInterests: '',
+      letterTemplate: '',
+      emailTitle: '',
+      university: '',
+      isArchived: false
+    });
+    expect(createCampaign('Fall applications')).not.toHaveProperty('interestPreferences');
+  });
+});
+
+describe('duplicateCampaign', () => {
+  const source = campaign({
+    userInterests: 'soft robotics, genomics',
+    interestPreferences: { 'soft robotics': { weight: 2, requirement: 'must-have' }, genomics: { weight: 1, requirement: 'exclude' } },
+    letterTemplate: 'Dear {name},',
+    emailTitle: 'PhD inquiry',
+    university: 'Example University',
+    isArchived: true
+  });
+
+  it('copies the profile, interest weights and requirements under a new id', () => {
+    const copy = duplicateCampaign(source);
+    expect(copy).toMatchObject({
+      name: 'Fall applications (Copy)',
+      userInterests: source.userInterests,
+      interestPreferences: source.interestPreferences,
+      letterTemplate: source.letterTemplate,
+      emailTitle: source.emailTitle,
+      university: source.university,
+      isArchived: false
+    });
+    expect(copy.id).not.toBe(source.id);
+    expect(duplicateCampaign(source, 'Spring').name).toBe('Spring');
+  });
+
+  it('does not share interest preferences with the source', () => {
+    const copy = duplicateCampaign(source);
+    copy.interestPreferences!['soft robotics'].weight = 5;
+    expect(source.interestPreferences!['soft robotics'].weight).toBe(2);
+  });
+});
+
+describe('cloneResearchersForCampaign', () => {
+  it('gives copies fresh ids and resets interrupted analyses', () => {
+    const [copy] = cloneResearchersForCampaign([{ id: 'r1', name: 'Jane Doe', status: AnalysisStatus.LOADING, scholarAuthorId: 'jane12345678' }]);
+    expect(copy.id).not.toBe('r1');
+    expect(copy).toMatchObject({ name: 'Jane Doe', status: AnalysisStatus.PENDING });
+  });
+});
+
+describe('sortCampaigns', () => {
+  it('lists active campaigns by last update, then archived ones', () => {
+    const sorted = sortCampaigns([
+      campaign({ id: 'old', updatedAt: 1 }),
+      campaign({ id: 'archived', updatedAt: 3, isArchived: true }),
+      campaign({ id: 'new', updatedAt: 2 })
+    ]);
+    expect(sorted.map(entry => entry.id)).toEqual(['new', 'old', 'archived']);
+  });
+});
@@ -0,0 +1,55 @@
+import { AnalysisStatus, Campaign, InterestPreferences, Researcher } from '../types';
+
+export const DEFAULT_CAMPAIGN_NAME = 'My Campaign';
+
+export const createId = (): string => `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+// Copies each preference too, so editing a weight in one campaign leaves the other alone.
+const cloneInterestPreferences = (preferences: InterestPreferences): InterestPreferences =>
+  Object.fromEntries(Object.entries(preferences).map(([interest, preference]) => [interest, { ...preference }]));
+
+export const createCampaign = (
+  name: string,
+  fields?: Partial<Pick<Campaign, 'userInterests' | 'interestPreferences' | 'letterTemplate' | 'emailTitle' | 'university'>>
+): Campaign => {
+  const now = Date.now();
+  return {
+    id: createId(),
+    name: name.trim() || DEFAULT_CAMPAIGN_NAME,
+    userInterests: fields?.userInterests || '',
+    ...(fields?.interestPreferences && { interestPreferences: cloneInterestPreferences(fields.interestPreferences) }),
+    letterTemplate: fields?.letterTemplate || '',
+    emailTitle: fields?.emailTitle || '',
+    university: fields?.university || '',
+    isArchived: false,
+    createdAt: now,
+    updatedAt: now
+  };
+};
+
+export const duplicateCampaign = (source: Campaign, name?: string): Campaign =>
+  createCampaign(name || `${source.name} (Copy)`, source);
+
+/** Resets a researcher whose analysis was interrupted so it can be re-run. */
+export const settleInterruptedStatus = (researcher: Researcher): Researcher => {
+  if (researcher.status !== AnalysisStatus.LOADING) return researcher;
+  return {
+    ...researcher,
+    status: researcher.scholarAuthorId ? AnalysisStatus.PENDING : AnalysisStatus.AWAITING_SCHOLAR_ID
+  };
+};
+
+/**
+ * Copies researchers for use in another campaign. Copies get fresh IDs so the
+ * same professor can be tracked independently per campaign; in-flight
+ * analyses are reset so they can be re-run there.
+ */
+export const cloneResearchersForCampaign = (researchers: Researcher[]): Researcher[] =>
+  researchers.map(researcher => settleInterruptedStatus({ ...researcher, id: createId() }));
+
+/** Active campaigns first (most recently updated on top), archived last. */
+export const sortCampaigns = (campaigns: Campaign[]): Campaign[] =>
+  [...campaigns].sort((a, b) => {
+    if (Boolean(a.isArchived) !== Boolean(b.isArchived)) return a.isArchived ? 1 : -1;
+    return b.updatedAt - a.updatedAt;
+  });
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { getCitationSortValue, parseCitationMetrics } from './citationMetrics';
+
+const serpCitedBy = {
+  table: [
+    { citations: { all: 12345, since_2020: 6789 } },
+    { h_index: { all: 52, since_2020: 38 } },
+    { i10_index: { all: 140, since_2020: 97 } }
+  ],
+  graph: [
+    { year: 2023, citations: 1500 },
+    { year: 2021, citations: 1100 },
+    { year: 2022, citations: 1300 }
+  ]
+};
+
+describe('parseCitationMetrics', () => {
+  it('parses the table and sorts the yearly graph', () => {
+    expect(parseCitationMetrics(serpCitedBy)).toEqual({
+      citations: { all: 12345, recent: 6789 },
+      hIndex: { all: 52, recent: 38 },
+      i10Index: { all: 140, recent: 97 },
+      sinceYear: 2020,
+      yearly: [
+        { year: 2021, citations: 1100 },
+        { year: 2022, citations: 1300 },
+        { year: 2023, citations: 1500 }
+      ]
+    });
+  });
+
+  it('tolerates missing rows, a missing graph and malformed points', () => {
+    expect(parseCitationMetrics({
+      table: [{ citations: { all: '40' } }],
+      graph: [{ year: 2024 }, null, { year: 2023, citations: 4 }]
+    })).toEqual({
+      citations: { all: 40, recent: undefined },
+      hIndex: { all: 0 },
+      i10Index: { all: 0 },
+      sinceYear: undefined,
+      yearly: [{ year: 2023, citations: 4 }]
+    });
+  });
+
+  it.each<[string, unknown]>([
+    ['undefined', undefined],
+    ['no table', { graph: [] }],
+    ['table without a citations row', { table: [{ h_index: { all: 3 } }] }],
+    ['non-numeric totals', { table: [{ citations: { all: 'n/a' } }] }]
+  ])('returns undefined for %s', (_, input) => {
+    expect(parseCitationMetrics(input)).toBeUndefined();
+  });
+});
+
+describe('getCitationSortValue', () => {
+  const metrics = parseCitationMetrics(serpCitedBy)!;
+
+  it.each([
+    ['citations', 12345],
+    ['recentCitations', 6789],
+    ['hIndex', 52],
+    ['i10Index', 140]
+  ] as const)('%s', (key, expected) => {
+    expect(getCitationSortValue(metrics, key)).toBe(expected);
+  });
+
+  it('ranks researchers without metrics last', () => {
+    expect(getCitationSortValue(undefined, 'hIndex')).toBeLessThan(0);
+  });
+});
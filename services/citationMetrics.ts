@@ -0,0 +1,80 @@
+import { CitationMetricPair, CitationMetrics } from '../types';
+
+export type CitationSortKey = 'citations' | 'recentCitations' | 'hIndex' | 'i10Index';
+
+export const CITATION_SORT_OPTIONS: Array<{ key: CitationSortKey; label: string }> = [
+  { key: 'citations', label: 'Total citations' },
+  { key: 'recentCitations', label: 'Recent citations' },
+  { key: 'hIndex', label: 'h-index' },
+  { key: 'i10Index', label: 'i10-index' }
+];
+
+const toCount = (value: unknown): number | undefined => {
+  const numeric = typeof value === 'number' ? value : Number(value);
+  return Number.isFinite(numeric) && numeric >= 0 ? Math.round(numeric) : undefined;
+};
+
+/**
+ * Reads one metric row of SerpAPI's `cited_by.table`, e.g.
+ * `{ h_index: { all: 52, since_2020: 38 } }`.
+ */
+const readMetricRow = (
+  table: unknown[],
+  rowKey: string
+): { pair?: CitationMetricPair; sinceYear?: number } => {
+  const row = table.find((entry): entry is Record<string, unknown> =>
+    Boolean(entry) && typeof entry === 'object' && rowKey in (entry as object)
+  );
+  const values = row?.[rowKey];
+  if (!values || typeof values !== 'object') return {};
+
+  const all = toCount((values as Record<string, unknown>).all);
+  if (all === undefined) return {};
+
+  const sinceEntry = Object.entries(values).find(([key]) => /^since_\d{4}$/.test(key));
+  return {
+    pair: { all, recent: sinceEntry ? toCount(sinceEntry[1]) : undefined },
+    sinceYear: sinceEntry ? Number(sinceEntry[0].slice('since_'.length)) : undefined
+  };
+};
+
+/**
+ * Parses SerpAPI's author `cited_by` block into typed metrics. Returns
+ * undefined when the profile has no citation table (e.g. a new profile).
+ */
+export const parseCitationMetrics = (citedBy: unknown): CitationMetrics | undefined => {
+  if (!citedBy || typeof citedBy !== 'object') return undefined;
+  const { table, graph } = citedBy as { table?: unknown; graph?: unknown };
+  if (!Array.isArray(table)) return undefined;
+
+  const citations = readMetricRow(table, 'citations');
+  if (!citations.pair) return undefined;
+  const hIndex = readMetricRow(table, 'h_index');
+  const i10Index = readMetricRow(table, 'i10_index');
+
+  const yearly = (Array.isArray(graph) ? graph : [])
+    .map(point => ({ year: toCount(point?.year), citations: toCount(point?.citations) }))
+    .filter((point): point is { year: number; citations: number } =>
+      point.year !== undefined && point.citations !== undefined
+    )
+    .sort((a, b) => a.year - b.year);
+
+  return {
+    citations: citations.pair,
+    hIndex: hIndex.pair || { all: 0 },
+    i10Index: i10Index.pair || { all: 0 },
+    sinceYear: citations.sinceYear ?? hIndex.sinceYear,
+    yearly
+  };
+};
+
+/** Value used to rank researchers by a citation metric; missing metrics sort last. */
+export const getCitationSortValue = (metrics: CitationMetrics | undefined, key: CitationSortKey): number => {
+  if (!metrics) return -1;
+  switch (key) {
+    case 'citations': return metrics.citations.all;
+    case 'recentCitations': return metrics.citations.recent ?? -1;
+    case 'hIndex': return metrics.hIndex.all;
+    case 'i10Index': return metrics.i10Index.all;
+  }
+};
@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import { AnalysisStatus, EmailStatus, Researcher } from '../types';
+import { buildCoauthorGraph, getCoauthorNeighbours, normalizeAuthorName, parseAuthorList } from './coauthorNetwork';
+
+describe('parseAuthorList', () => {
+  it.each<[string | undefined, string[]]>([
+    ['J Smith, A Doe, B Lee', ['J Smith', 'A Doe', 'B Lee']],
+    ['J Smith, A Doe, ...', ['J Smith', 'A Doe']],
+    ['J Smith, A Doe…', ['J Smith', 'A Doe']],
+    ['J Smith and A Doe', ['J Smith', 'A Doe']],
+    ['J Smith; A Doe & B Lee', ['J Smith', 'A Doe', 'B Lee']],
+    ['', []],
+    [undefined, []]
+  ])('%j', (authors, expected) => {
+    expect(parseAuthorList(authors)).toEqual(expected);
+  });
+});
+
+describe('normalizeAuthorName', () => {
+  it.each<[string, string]>([
+    ['John Smith', 'smith j'],
+    ['JA Smith', 'smith j'],
+    ['John A. Smith', 'smith j'],
+    ['Smith, John', 'smith j'],
+    ['Prof. John Smith Jr.', 'smith j'],
+    ['José García-López', 'garcia-lopez j'],
+    ['Mary O\'Neil (MIT)', "o'neil m"],
+    ['Plato', 'plato'],
+    ['  ', '']
+  ])('%s -> %s', (name, expected) => {
+    expect(normalizeAuthorName(name)).toBe(expected);
+  });
+});
+
+describe('buildCoauthorGraph', () => {
+  const researcher = (
+    id: string,
+    name: string,
+    publications: Array<[string, string]> = [],
+    extra: Partial<Researcher> = {}
+  ): Researcher => ({
+    id,
+    name,
+    status: AnalysisStatus.COMPLETED,
+    publications: publications.map(([title, authors]) => ({ title, authors })),
+    ...extra
+  });
+
+  const researchers = [
+    researcher('a', 'Alice Chen', [
+      ['Imaging paper', 'A Chen, B Kumar, X External'],
+      ['Second paper', 'A Chen, X External'],
+      ['Third paper', 'A Chen, X External, Y Rare']
+    ]),
+    researcher('b', 'Bo Kumar', [
+      ['Imaging Paper', 'A Chen, B Kumar, X External'],
+      ['Shared broker paper', 'B Kumar, Z Broker']
+    ], { emailStatus: EmailStatus.SENT }),
+    researcher('c', 'Carol Diaz', [['Other paper', 'C Diaz, Z Broker']]),
+    researcher('d', 'Dan Evans', [['Alone', 'D Evans']]),
+    researcher('e', 'Eve Fox', [], { status: AnalysisStatus.PENDING })
+  ];
+
+  const graph = buildCoauthorGraph(researchers);
+
+  it('links researchers who appear on each other\'s papers, counting a shared paper once', () => {
+    const edge = graph.edges.find(e => e.source === 'a' && e.target === 'b');
+    expect(edge).toMatchObject({ sharedPapers: 1, titles: ['Imaging paper'] });
+  });
+
+  it('keeps frequent external collaborators and brokers between researchers', () => {
+    const externals = graph.nodes.filter(node => node.kind === 'external');
+    expect(externals.map(node => [node.label, node.paperCount])).toEqual([
+      ['X External', 3],
+      ['Z Broker', 2]
+    ]);
+    expect(graph.nodes.some(node => node.label === 'Y Rare')).toBe(false);
+  });
+
+  it('groups connected researchers into clusters, including through externals', () => {
+    expect(graph.clusters).toEqual([['a', 'b', 'c']]);
+    const clusterOf = (id: string) => graph.nodes.find(node => node.id === id)?.cluster;
+    expect(clusterOf('external:broker z')).toBe(0);
+    expect(clusterOf('d')).toBeUndefined();
+  });
+
+  it('omits unanalyzed researchers nobody lists and marks contacted ones', () => {
+    expect(graph.nodes.map(node => node.id)).not.toContain('e');
+    expect(graph.nodes.find(node => node.id === 'b')?.isContacted).toBe(true);
+  });
+
+  it('includes unanalyzed researchers another one lists as a co-author', () => {
+    const withPending = buildCoauthorGraph([
+      researcher('a', 'Alice Chen', [['Paper', 'A Chen, E Fox']]),
+      researcher('e', 'Eve Fox', [], { status: AnalysisStatus.PENDING })
+    ]);
+    expect(withPending.edges).toEqual([{ source: 'a', target: 'e', sharedPapers: 1, titles: ['Paper'] }]);
+    expect(withPending.clusters).toEqual([['a', 'e']]);
+  });
+
+  it('respects the external node options', () => {
+    const externalLabels = (options: { minExternalPapers?: number; maxExternalNodes?: number }) =>
+      buildCoauthorGraph(researchers.slice(0, 1), options).nodes.filter(node => node.kind === 'external').map(node => node.label);
+    expect(externalLabels({})).toEqual(['X External']);
+    expect(externalLabels({ minExternalPapers: 1 })).toEqual(['X External', 'B Kumar', 'Y Rare']);
+    expect(externalLabels({ minExternalPapers: 1, maxExternalNodes: 1 })).toEqual(['X External']);
+  });
+
+  it('lists neighbours by papers shared', () => {
+    expect(getCoauthorNeighbours(graph, 'a').map(({ node, edge }) => [node.label, edge.sharedPapers])).toEqual([
+      ['X External', 3],
+      ['Bo Kumar', 1]
+    ]);
+  });
+});
@@ -0,0 +1,228 @@
+import { EmailStatus, Researcher } from '../types';
+import { tokenizePersonName } from './personName';
+import { normalizeTitle } from './publicationList';
+
+export type CoauthorNodeKind = 'researcher' | 'external';
+
+export interface CoauthorNode {
+  id: string;
+  label: string;
+  kind: CoauthorNodeKind;
+  /** Researchers: publications fetched. External collaborators: papers shared with the list. */
+  paperCount: number;
+  /** Researchers already emailed, who could introduce us to their co-authors. */
+  isContacted?: boolean;
+  /** Index into `CoauthorGraph.clusters`; unset for nodes outside any cluster. */
+  cluster?: number;
+}
+
+export interface CoauthorEdge {
+  source: string;
+  target: string;
+  sharedPapers: number;
+  /** Up to EDGE_TITLE_LIMIT titles of the shared papers, newest first as fetched. */
+  titles: string[];
+}
+
+export interface CoauthorGraph {
+  nodes: CoauthorNode[];
+  edges: CoauthorEdge[];
+  /** Researcher ids of each group of two or more connected researchers, largest first. */
+  clusters: string[][];
+}
+
+export interface CoauthorGraphOptions {
+  /** External collaborators need this many shared papers unless they link two researchers. */
+  minExternalPapers?: number;
+  maxExternalNodes?: number;
+}
+
+const DEFAULT_MIN_EXTERNAL_PAPERS = 3;
+const DEFAULT_MAX_EXTERNAL_NODES = 30;
+const EDGE_TITLE_LIMIT = 5;
+
+/** Splits a Scholar author string, dropping the "..." it appends to long lists. */
+export const parseAuthorList = (authors: string | undefined): string[] =>
+  (authors || '')
+    .split(/,|;|\band\b|&/)
+    .map(name => name.replace(/\.{3}|…/g, '').trim())
+    .filter(name => /[a-z]/i.test(name));
+
+/**
+ * Reduces a name to "surname initial" so Scholar's abbreviated author lists
+ * ("JA Smith") meet full names from the roster ("John A. Smith", "Smith, John").
+ * Accents, titles and suffixes are ignored. Distinct people who share a
+ * surname and initial collide; the graph accepts that.
+ */
+export const normalizeAuthorName = (name: string): string => {
+  const tokens = tokenizePersonName(name);
+  if (tokens.length === 0) return '';
+  if (tokens.length === 1) return tokens[0];
+  return `${tokens[tokens.length - 1]} ${tokens[0][0]}`;
+};
+
+interface EdgeAccumulator {
+  source: string;
+  target: string;
+  titles: Map<string, string>;
+}
+
+interface ExternalAccumulator {
+  spellings: Map<string, number>;
+  papers: Set<string>;
+  byResearcher: Map<string, Map<string, string>>;
+}
+
+const addTitle = (titles: Map<string, string>, title: string) => {
+  const key = normalizeTitle(title);
+  if (key && !titles.has(key)) titles.set(key, title);
+};
+
+const mostCommon = (counts: Map<string, number>): string =>
+  [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] || '';
+
+/**
+ * Links researchers in the list who appear on each other's papers, plus the
+ * external collaborators they publish with most (or who connect two of them),
+ * and groups connected researchers into clusters. Works on the publication
+ * lists stored by analysis, so unanalyzed researchers only appear when an
+ * analyzed one lists them as a co-author.
+ */
+export const buildCoauthorGraph = (researchers: Researcher[], options: CoauthorGraphOptions = {}): CoauthorGraph => {
+  const minExternalPapers = options.minExternalPapers ?? DEFAULT_MIN_EXTERNAL_PAPERS;
+  const maxExternalNodes = options.maxExternalNodes ?? DEFAULT_MAX_EXTERNAL_NODES;
+
+  const researchersByKey = new Map<string, Researcher[]>();
+  researchers.forEach(researcher => {
+    const key = normalizeAuthorName(researcher.name);
+    if (!key) return;
+    researchersByKey.set(key, [...(researchersByKey.get(key) || []), researcher]);
+  });
+
+  const edges = new Map<string, EdgeAccumulator>();
+  const externals = new Map<string, ExternalAccumulator>();
+  const linkedIds = new Set<string>();
+
+  researchers.forEach(researcher => {
+    const ownKey = normalizeAuthorName(researcher.name);
+    (researcher.publications || []).forEach(publication => {
+      const seenOnPaper = new Set<string>([ownKey]);
+      parseAuthorList(publication.authors).forEach(author => {
+        const key = normalizeAuthorName(author);
+        if (!key || seenOnPaper.has(key)) return;
+        seenOnPaper.add(key);
+
+        const listed = researchersByKey.get(key);
+        if (listed) {
+          listed.filter(other => other.id !== researcher.id).forEach(other => {
+            const [source, target] = [researcher.id, other.id].sort();
+            const pairKey = `${source}|${target}`;
+            const edge = edges.get(pairKey) || { source, target, titles: new Map() };
+            addTitle(edge.titles, publication.title);
+            edges.set(pairKey, edge);
+            linkedIds.add(researcher.id).add(other.id);
+          });
+          return;
+        }
+
+        const external = externals.get(key) || { spellings: new Map(), papers: new Set(), byResearcher: new Map() };
+        external.spellings.set(author, (external.spellings.get(author) || 0) + 1);
+        external.papers.add(normalizeTitle(publication.title));
+        const titles = external.byResearcher.get(researcher.id) || new Map<string, string>();
+        addTitle(titles, publication.title);
+        external.byResearcher.set(researcher.id, titles);
+        externals.set(key, external);
+      });
+    });
+  });
+
+  const keptExternals = [...externals.entries()]
+    .filter(([, external]) => external.byResearcher.size >= 2 || external.papers.size >= minExternalPapers)
+    .sort((a, b) =>
+      b[1].byResearcher.size - a[1].byResearcher.size
+      || b[1].papers.size - a[1].papers.size
+      || a[0].localeCompare(b[0])
+    )
+    .slice(0, maxExternalNodes);
+
+  const toEdge = (source: string, target: string, titles: Map<string, string>): CoauthorEdge => ({
+    source,
+    target,
+    sharedPapers: titles.size,
+    titles: [...titles.values()].slice(0, EDGE_TITLE_LIMIT)
+  });
+
+  const graphEdges: CoauthorEdge[] = [...edges.values()].map(edge => toEdge(edge.source, edge.target, edge.titles));
+  const externalNodes: CoauthorNode[] = keptExternals.map(([key, external]) => {
+    const id = `external:${key}`;
+    external.byResearcher.forEach((titles, researcherId) => {
+      graphEdges.push(toEdge(researcherId, id, titles));
+      linkedIds.add(researcherId);
+    });
+    return { id, label: mostCommon(external.spellings), kind: 'external', paperCount: external.papers.size };
+  });
+
+  const researcherNodes: CoauthorNode[] = researchers
+    .filter(researcher => linkedIds.has(researcher.id) || (researcher.publications || []).length > 0)
+    .map(researcher => ({
+      id: researcher.id,
+      label: researcher.name,
+      kind: 'researcher',
+      paperCount: (researcher.publications || []).length,
+      ...(researcher.emailStatus === EmailStatus.SENT ? { isContacted: true } : {})
+    }));
+
+  const nodes = [...researcherNodes, ...externalNodes];
+  const clusters = findClusters(nodes, graphEdges);
+  const clusterById = new Map<string, number>();
+  clusters.forEach((members, index) => members.forEach(id => clusterById.set(id, index)));
+  // External collaborators take the cluster of the researchers they connect.
+  graphEdges.forEach(edge => {
+    const cluster = clusterById.get(edge.source);
+    if (cluster !== undefined && edge.target.startsWith('external:') && !clusterById.has(edge.target)) {
+      clusterById.set(edge.target, cluster);
+    }
+  });
+
+  return {
+    nodes: nodes.map(node => (clusterById.has(node.id) ? { ...node, cluster: clusterById.get(node.id) } : node)),
+    edges: graphEdges,
+    clusters
+  };
+};
+
+// Connected components over all edges, reported by their researcher members.
+const findClusters = (nodes: CoauthorNode[], edges: CoauthorEdge[]): string[][] => {
+  const parent = new Map(nodes.map(node => [node.id, node.id]));
+  const find = (id: string): string => {
+    let root = id;
+    while (parent.get(root) !== root) root = parent.get(root)!;
+    parent.set(id, root);
+    return root;
+  };
+  edges.forEach(edge => {
+    if (parent.has(edge.source) && parent.has(edge.target)) parent.set(find(edge.source), find(edge.target));
+  });
+
+  const groups = new Map<string, string[]>();
+  nodes
+    .filter(node => node.kind === 'researcher')
+    .forEach(node => {
+      const root = find(node.id);
+      groups.set(root, [...(groups.get(root) || []), node.id]);
+    });
+  return [...groups.values()].filter(group => group.length >= 2).sort((a, b) => b.length - a.length);
+};
+
+/** Neighbours of a node with the papers shared, most shared first. */
+export const getCoauthorNeighbours = (
+  graph: CoauthorGraph,
+  nodeId: string
+): Array<{ node: CoauthorNode; edge: CoauthorEdge }> => {
+  const nodesById = new Map(graph.nodes.map(node => [node.id, node]));
+  return graph.edges
+    .filter(edge => edge.source === nodeId || edge.target === nodeId)
+    .map(edge => ({ node: nodesById.get(edge.source === nodeId ? edge.target : edge.source)!, edge }))
+    .filter(entry => entry.node)
+    .sort((a, b) => b.edge.sharedPapers - a.edge.sharedPapers || a.node.label.localeCompare(b.node.label));
+};
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { CsvCell, detectDelimiter, escapeCsvField, parseDelimited, serializeCsv } from './csvService';
+
+describe('escapeCsvField', () => {
+  it.each<[CsvCell, string]>([
+    ['Jane Doe', 'Jane Doe'],
+    ['Doe, Jane', '"Doe, Jane"'],
+    ['Say "hi"', '"Say ""hi"""'],
+    ['two\nlines', '"two\nlines"'],
+    [' padded ', '" padded "'],
+    [42, '42'],
+    [-3, '-3'],
+    [true, 'true'],
+    [null, ''],
+    [undefined, '']
+  ])('%j -> %j', (value, expected) => {
+    expect(escapeCsvField(value)).toBe(expected);
+  });
+
+  it.each<[string, string]>([
+    ['=SUM(A1:A2)', "'=SUM(A1:A2)"],
+    ['+1 555', "'+1 555"],
+    ['-2+3', "'-2+3"],
+    ['@cmd', "'@cmd"],
+    ['\t=1', "'\t=1"],
+    ['\r=1', `"'\r=1"`]
+  ])('neutralizes the formula %j', (value, expected) => {
+    expect(escapeCsvField(value)).toBe(expected);
+  });
+
+  it('quotes on the given delimiter only', () => {
+    expect(escapeCsvField('a;b', ';')).toBe('"a;b"');
+    expect(escapeCsvField('a;b')).toBe('a;b');
+  });
+});
+
+describe('serializeCsv', () => {
+  it('writes a BOM and CRLF line endings', () => {
+    expect(serializeCsv([['Name', 'Rank'], ['José García', 'full']])).toBe('﻿Name,Rank\r\nJosé García,full\r\n');
+  });
+});
+
+describe('detectDelimiter', () => {
+  it.each<[string, string]>([
+    ['name,email\nJane,j@x.edu', ','],
+    ['name\temail\tdept', '\t'],
+    ['name;email', ';'],
+    ['"Doe, Jane"|email', '|'],
+    ['name', ',']
+  ])('%j -> %j', (text, expected) => {
+    expect(detectDelimiter(text)).toBe(expected);
+  });
+});
+
+describe('parseDelimited', () => {
+  it('reads quoted fields with delimiters, doubled quotes and line breaks', () => {
+    expect(parseDelimited('Name,Note\r\n"Doe, Jane","Said ""hi""\nthen left"\r\nBo Kumar,plain\r\n')).toEqual([
+      ['Name', 'Note'],
+      ['Doe, Jane', 'Said "hi"\nthen left'],
+      ['Bo Kumar', 'plain']
+    ]);
+  });
+
+  it('strips a BOM, trims cells and drops blank lines', () => {
+    expect(parseDelimited('﻿Name\tEmail\n\n Jane \t jane@x.edu \n\t\n')).toEqual([
+      ['Name', 'Email'],
+      ['Jane', 'jane@x.edu']
+    ]);
+  });
+
+  it('keeps a last row without a trailing newline and empty cells inside it', () => {
+    expect(parseDelimited('a,b,c\n1,,3')).toEqual([['a', 'b', 'c'], ['1', '', '3']]);
+  });
+
+  it('reads back what serializeCsv writes', () => {
+    const rows = [['Name', 'Note'], ['Doe, Jane', 'Line one\nline "two"']];
+    expect(parseDelimited(serializeCsv(rows))).toEqual(rows);
+  });
+});
@@ -0,0 +1,103 @@
+export type CsvCell = string | number | boolean | null | undefined;
+
+// Text starting with these is evaluated as a formula by spreadsheet apps.
+const FORMULA_PREFIX_PATTERN = /^[=+\-@\t\r]/;
+
+const toCellText = (value: CsvCell): string => {
+  if (value === null || value === undefined) return '';
+  return String(value);
+};
+
+/**
+ * Escapes one CSV field (RFC 4180): fields containing the delimiter, quotes
+ * or line breaks are quoted and embedded quotes are doubled.
+ */
+export const escapeCsvField = (value: CsvCell, delimiter = ','): string => {
+  let text = toCellText(value);
+  // Numbers are left alone so negative values stay numeric.
+  if (typeof value === 'string' && FORMULA_PREFIX_PATTERN.test(text)) text = `'${text}`;
+  const needsQuoting = text.includes(delimiter) || /["\r\n]/.test(text) || /^\s|\s$/.test(text);
+  return needsQuoting ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Serializes rows to CSV with CRLF line endings. A UTF-8 byte order mark is
+ * prepended so Excel detects the encoding of names with diacritics.
+ */
+export const serializeCsv = (rows: CsvCell[][], delimiter = ','): string => {
+  const body = rows
+    .map(row => row.map(cell => escapeCsvField(cell, delimiter)).join(delimiter))
+    .join('\r\n');
+  return `\uFEFF${body}\r\n`;
+};
+
+const CANDIDATE_DELIMITERS = [',', '\t', ';', '|'];
+
+/**
+ * Picks the delimiter that splits the first line into the most columns,
+ * ignoring delimiters inside quoted fields.
+ */
+export const detectDelimiter = (text: string): string => {
+  const firstLine = text.replace(/^\uFEFF/, '').split(/\r?\n/).find(line => line.trim()) || '';
+  const unquoted = firstLine.replace(/"[^"]*"/g, '');
+  let best = ',';
+  let bestCount = 0;
+  CANDIDATE_DELIMITERS.forEach(delimiter => {
+    const count = unquoted.split(delimiter).length - 1;
+    if (count > bestCount) {
+      best = delimiter;
+      bestCount = count;
+    }
+  });
+  return best;
+};
+
+/**
+ * Parses CSV/TSV text into rows of trimmed cells. Handles quoted fields with
+ * embedded delimiters, doubled quotes and line breaks; blank lines are
+ * dropped.
+ */
+export const parseDelimited = (text: string, delimiter = detectDelimiter(text)): string[][] => {
+  const source = text.replace(/^\uFEFF/, '');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const endField = () => {
+    row.push(field.trim());
+    field = '';
+  };
+  const endRow = () => {
+    endField();
+    if (row.some(cell => cell !== '')) rows.push(row);
+    row = [];
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field.trim() === '') {
+      field = '';
+      inQuotes = true;
+    } else if (char === delimiter) {
+      endField();
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) endRow();
+
+  return rows;
+};
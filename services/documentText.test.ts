@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { DocumentKind, getDocumentKind, htmlToText, splitTextIntoChunks } from './documentText';
+
+describe('getDocumentKind', () => {
+  it.each<[string, string, DocumentKind]>([
+    ['staff.pdf', '', 'pdf'],
+    ['download', 'application/pdf', 'pdf'],
+    ['people.HTML', '', 'html'],
+    ['people.htm', 'text/html', 'html'],
+    ['names.txt', 'text/plain', 'text']
+  ])('%s (%s) -> %s', (fileName, mimeType, expected) => {
+    expect(getDocumentKind(fileName, mimeType)).toBe(expected);
+  });
+});
+
+describe('htmlToText', () => {
+  it('keeps one line per block and drops scripts, styles and comments', () => {
+    expect(htmlToText(`
+      <html><head><title>People</title><style>p { color: red; }</style></head>
+      <body><!-- nav --><script>var x = "<p>hidden</p>";</script>
+      <h1>Faculty</h1><ul><li>Jane&nbsp;Doe, Professor</li><li>Jos&eacute; &amp; Co &#8211; Lecturer<br>Room 4</li></ul>
+      </body></html>
+    `)).toBe('Faculty\nJane Doe, Professor\nJosé & Co – Lecturer\nRoom 4');
+  });
+
+  it('joins table cells and keeps link targets', () => {
+    expect(htmlToText(
+      '<table><tr><td><a href="https://lab.example.edu/doe">Jane Doe</a></td><td>Associate Professor</td>'
+      + '<td><a href="mailto:jane@example.edu">Email</a></td></tr></table>'
+    )).toBe('Jane Doe (https://lab.example.edu/doe) | Associate Professor | Email (mailto:jane@example.edu)');
+  });
+});
+
+describe('splitTextIntoChunks', () => {
+  const lines = Array.from({ length: 10 }, (_, index) => `Professor ${index}`);
+
+  it('returns short text as one chunk without blank lines', () => {
+    expect(splitTextIntoChunks('Jane Doe\n\n  Bo Kumar  \r\n')).toEqual(['Jane Doe\nBo Kumar']);
+    expect(splitTextIntoChunks('  \n ')).toEqual([]);
+  });
+
+  it('splits on line boundaries with overlapping lines and covers every line', () => {
+    const chunks = splitTextIntoChunks(lines.join('\n'), 40, 12);
+    expect(chunks).toEqual([
+      'Professor 0\nProfessor 1\nProfessor 2',
+      'Professor 2\nProfessor 3\nProfessor 4',
+      'Professor 4\nProfessor 5\nProfessor 6',
+      'Professor 6\nProfessor 7\nProfessor 8',
+      'Professor 8\nProfessor 9'
+    ]);
+    chunks.forEach(chunk => expect(chunk.length).toBeLessThanOrEqual(40));
+    lines.forEach(line => expect(chunks.some(chunk => chunk.includes(line))).toBe(true));
+  });
+
+  it('cuts a line longer than a chunk at spaces', () => {
+    const chunks = splitTextIntoChunks('alpha beta gamma delta epsilon', 12, 0);
+    expect(chunks).toEqual(['alpha beta', 'gamma delta', 'epsilon']);
+  });
+});
@@ -0,0 +1,113 @@
+/** Characters sent to the model per extraction call. */
+export const EXTRACTION_CHUNK_CHARS = 30000;
+/** Trailing text repeated at the start of the next chunk so an entry cut at the boundary is seen whole once. */
+export const EXTRACTION_CHUNK_OVERLAP_CHARS = 600;
+
+/** Largest PDF the upload accepts; the API server sizes the document-text body limit from it. */
+export const MAX_PDF_UPLOAD_BYTES = 12 * 1024 * 1024;
+
+export type DocumentKind = 'pdf' | 'html' | 'text';
+
+export const getDocumentKind = (fileName: string, mimeType = ''): DocumentKind => {
+  if (mimeType === 'application/pdf' || /\.pdf$/i.test(fileName)) return 'pdf';
+  if (mimeType === 'text/html' || /\.x?html?$/i.test(fileName)) return 'html';
+  return 'text';
+};
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' '
+};
+
+// Accented letters such as &eacute; or &Uuml;, composed from the letter and a combining mark.
+const ACCENT_MARKS: Record<string, string> = {
+  acute: '\u0301', grave: '\u0300', circ: '\u0302', tilde: '\u0303', uml: '\u0308', ring: '\u030a', cedil: '\u0327'
+};
+
+const decodeHtmlEntities = (text: string): string =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(value) ? String.fromCodePoint(value) : entity;
+    }
+    const accented = /^([a-z])(acute|grave|circ|tilde|uml|ring|cedil)$/i.exec(code);
+    if (accented) return `${accented[1]}${ACCENT_MARKS[accented[2].toLowerCase()]}`.normalize('NFC');
+    return HTML_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+
+/**
+ * Readable text of a saved web page: scripts, styles and tags are dropped,
+ * block elements become line breaks, table cells are joined with "|", and
+ * `mailto:`/`http` links keep their target next to the link text so emails
+ * and homepages survive.
+ */
+export const htmlToText = (html: string): string =>
+  decodeHtmlEntities(
+    html
+      .replace(/<!--[\s\S]*?-->/g, ' ')
+      .replace(/<(script|style|noscript|svg|head)\b[\s\S]*?<\/\1>/gi, ' ')
+      .replace(/<a\b[^>]*href\s*=\s*["']((?:mailto:|https?:)[^"']+)["'][^>]*>([\s\S]*?)<\/a>/gi, '$2 ($1)')
+      .replace(/<\/t[dh]\s*>/gi, ' | ')
+      .replace(/<(br|\/p|\/div|\/li|\/tr|\/h[1-6]|\/section|\/article)\b[^>]*>/gi, '\n')
+      .replace(/<[^>]+>/g, ' ')
+  )
+    .split('\n')
+    .map(line => line.replace(/\s+/g, ' ').replace(/^[\s|]+|[\s|]+$/g, ''))
+    .filter(Boolean)
+    .join('\n');
+
+// A single line longer than a chunk is cut at the last space that fits.
+const splitLongLine = (line: string, maxChars: number): string[] => {
+  const parts: string[] = [];
+  let rest = line;
+  while (rest.length > maxChars) {
+    const cut = rest.lastIndexOf(' ', maxChars);
+    const end = cut > maxChars / 2 ? cut : maxChars;
+    parts.push(rest.slice(0, end));
+    rest = rest.slice(end).trimStart();
+  }
+  return rest ? [...parts, rest] : parts;
+};
+
+/**
+ * Splits text into chunks of at most `maxChars` on line boundaries. Each
+ * chunk after the first starts with the last lines of the previous one, up
+ * to `overlapChars`.
+ */
+export const splitTextIntoChunks = (
+  text: string,
+  maxChars = EXTRACTION_CHUNK_CHARS,
+  overlapChars = EXTRACTION_CHUNK_OVERLAP_CHARS
+): string[] => {
+  const lines = text
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(Boolean)
+    .flatMap(line => splitLongLine(line, maxChars));
+  const chunks: string[] = [];
+  let current: string[] = [];
+  let currentLength = 0;
+
+  lines.forEach(line => {
+    if (current.length > 0 && currentLength + line.length + 1 > maxChars) {
+      chunks.push(current.join('\n'));
+      const overlap: string[] = [];
+      let overlapLength = 0;
+      for (let index = current.length - 1; index >= 0; index -= 1) {
+        if (overlapLength + current[index].length + 1 > overlapChars) break;
+        overlap.unshift(current[index]);
+        overlapLength += current[index].length + 1;
+      }
+      // Drop overlap that would push the next line past the limit.
+      while (overlap.length > 0 && overlapLength + line.length + 1 > maxChars) {
+        overlapLength -= overlap.shift()!.length + 1;
+      }
+      current = overlap;
+      currentLength = overlapLength;
+    }
+    current.push(line);
+    currentLength += line.length + 1;
+  });
+
+  if (current.length > 0) chunks.push(current.join('\n'));
+  return chunks;
+};
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildHomepageUrlCandidates,
+  getDomainCandidates,
+  getEmailCandidatesFromText,
+  normalizeTextForEmailSearch,
+  pickBestEmailCandidate
+} from './emailParsing';
+
+describe('normalizeTextForEmailSearch', () => {
+  it.each([
+    ['name [at] uni (dot) edu', 'name@uni.edu'],
+    ['name (at) uni [dot] ac [dot] uk', 'name@uni.ac.uk'],
+    ['name {at} uni {dot} edu', 'name@uni.edu'],
+    ['name at uni dot edu', 'name@uni.edu'],
+    ['Name @ Uni . Edu', 'name@uni.edu'],
+    ['j.doe[ at ]imperial( dot )ac(dot)uk', 'j.doe@imperial.ac.uk']
+  ])('de-obfuscates %j', (input, expected) => {
+    expect(normalizeTextForEmailSearch(input)).toBe(expected);
+  });
+});
+
+describe('getEmailCandidatesFromText', () => {
+  it.each<[string, string, string[]]>([
+    ['plain address', 'Contact: Jane.Doe@Imperial.ac.uk.', ['jane.doe@imperial.ac.uk']],
+    ['obfuscated address', 'Email: jdoe [at] mit (dot) edu', ['jdoe@mit.edu']],
+    ['spelled-out address', 'write to jdoe at stanford dot edu today', ['jdoe@stanford.edu']],
+    ['deduplicates direct and obfuscated matches', 'a@b.com or a [at] b [dot] com', ['a@b.com']],
+    ['keeps several addresses in order', 'lab@uni.edu; pi@uni.edu', ['lab@uni.edu', 'pi@uni.edu']],
+    ['no address', 'No contact details on this page.', []]
+  ])('%s', (_, text, expected) => {
+    expect(getEmailCandidatesFromText(text)).toEqual(expected);
+  });
+});
+
+describe('getDomainCandidates', () => {
+  it('lists the host and its parent domains, most specific first', () => {
+    expect(getDomainCandidates('https://www.bioeng.imperial.ac.uk/people/jdoe')).toEqual([
+      'www.bioeng.imperial.ac.uk',
+      'imperial.ac.uk',
+      'ac.uk'
+    ]);
+  });
+
+  it('adds the domain from the Scholar verified-email hint', () => {
+    expect(getDomainCandidates(undefined, 'Verified email at mit.edu - Homepage')).toEqual(['mit.edu']);
+  });
+
+  it('ignores an invalid homepage URL', () => {
+    expect(getDomainCandidates('not a url', 'Verified email at cam.ac.uk')).toEqual(['cam.ac.uk']);
+  });
+});
+
+describe('pickBestEmailCandidate', () => {
+  it.each<[string, string[], string[], string | undefined]>([
+    ['prefers the first matching domain', ['x@gmail.com', 'jdoe@imperial.ac.uk'], ['imperial.ac.uk'], 'jdoe@imperial.ac.uk'],
+    ['respects domain order', ['a@ac.uk', 'b@imperial.ac.uk'], ['imperial.ac.uk', 'ac.uk'], 'b@imperial.ac.uk'],
+    ['does not match a domain suffix without @', ['a@notimperial.ac.uk'], ['imperial.ac.uk'], 'a@notimperial.ac.uk'],
+    ['falls back to the first email', ['first@x.com', 'second@y.com'], ['mit.edu'], 'first@x.com'],
+    ['returns undefined when empty', [], ['mit.edu'], undefined]
+  ])('%s', (_, emails, domains, expected) => {
+    expect(pickBestEmailCandidate(emails, domains)).toBe(expected);
+  });
+});
+
+describe('buildHomepageUrlCandidates', () => {
+  it.each<[string, string[]]>([
+    ['https://example.edu/~jdoe', ['https://example.edu/~jdoe']],
+    ['http://example.edu/', ['http://example.edu/', 'https://example.edu/']],
+    ['https://www.example.edu/lab', ['https://www.example.edu/lab', 'https://example.edu/lab']],
+    [
+      'http://www.example.edu/',
+      ['http://www.example.edu/', 'https://www.example.edu/', 'http://example.edu/', 'https://example.edu/']
+    ],
+    ['not a url', ['not a url']]
+  ])('%s', (input, expected) => {
+    expect(buildHomepageUrlCandidates(input)).toEqual(expected);
+  });
+});
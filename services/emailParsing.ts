@@ -0,0 +1,110 @@
+export const EMAIL_REGEX = /\b[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}\b/gi;
+export const STRICT_EMAIL_REGEX = /^[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}$/i;
+
+export const normalizeEmail = (value: string): string => {
+  return value
+    .trim()
+    .replace(/[),;:]+$/g, '')
+    .toLowerCase();
+};
+
+/**
+ * Undoes common address obfuscation ("name [at] uni (dot) edu",
+ * "name at uni dot edu") so the email regex can find it.
+ */
+export const normalizeTextForEmailSearch = (text: string): string => {
+  return text
+    .replace(/\[\s*at\s*\]|\(\s*at\s*\)|\{\s*at\s*\}/gi, '@')
+    .replace(/\[\s*dot\s*\]|\(\s*dot\s*\)|\{\s*dot\s*\}/gi, '.')
+    .replace(/\s+at\s+/gi, '@')
+    .replace(/\s+dot\s+/gi, '.')
+    .replace(/\s*@\s*/g, '@')
+    .replace(/\s*\.\s*/g, '.')
+    .toLowerCase();
+};
+
+/**
+ * Domains an address is expected to use, most specific first: the homepage
+ * host and its parent domains, plus the domain in Scholar's "Verified email
+ * at …" hint.
+ */
+export const getDomainCandidates = (homepageUrl?: string, verifiedEmailHint?: string): string[] => {
+  const domains: string[] = [];
+
+  if (homepageUrl) {
+    try {
+      const hostname = new URL(homepageUrl).hostname.toLowerCase();
+      const parts = hostname.split('.').filter(Boolean);
+      domains.push(hostname);
+      if (parts.length >= 3) domains.push(parts.slice(-3).join('.'));
+      if (parts.length >= 2) domains.push(parts.slice(-2).join('.'));
+    } catch {
+      // Ignore invalid homepage URL here.
+    }
+  }
+
+  if (verifiedEmailHint) {
+    const hintMatch = verifiedEmailHint.match(/\bat\s+([a-z0-9.-]+\.[a-z]{2,})\b/i);
+    if (hintMatch?.[1]) domains.push(hintMatch[1].toLowerCase());
+  }
+
+  return Array.from(new Set(domains.filter(Boolean)));
+};
+
+export const getEmailCandidatesFromText = (text: string): string[] => {
+  const directMatches = Array.from(text.matchAll(EMAIL_REGEX))
+    .map(match => normalizeEmail(match[0]))
+    .filter(email => STRICT_EMAIL_REGEX.test(email));
+
+  const normalizedObfuscated = normalizeTextForEmailSearch(text);
+
+  const obfuscatedMatches = Array.from(normalizedObfuscated.matchAll(EMAIL_REGEX))
+    .map(match => normalizeEmail(match[0]))
+    .filter(email => STRICT_EMAIL_REGEX.test(email));
+
+  return Array.from(new Set([...directMatches, ...obfuscatedMatches]));
+};
+
+/** The homepage URL plus https and no-www variants to try in order. */
+export const buildHomepageUrlCandidates = (homepageUrl: string): string[] => {
+  const candidates = new Set<string>();
+
+  try {
+    const parsed = new URL(homepageUrl);
+    candidates.add(parsed.toString());
+
+    if (parsed.protocol === 'http:') {
+      const httpsUrl = new URL(parsed.toString());
+      httpsUrl.protocol = 'https:';
+      candidates.add(httpsUrl.toString());
+    }
+
+    if (parsed.hostname.startsWith('www.')) {
+      const noWwwUrl = new URL(parsed.toString());
+      noWwwUrl.hostname = parsed.hostname.replace(/^www\./i, '');
+      candidates.add(noWwwUrl.toString());
+
+      if (noWwwUrl.protocol === 'http:') {
+        const noWwwHttps = new URL(noWwwUrl.toString());
+        noWwwHttps.protocol = 'https:';
+        candidates.add(noWwwHttps.toString());
+      }
+    }
+  } catch {
+    candidates.add(homepageUrl);
+  }
+
+  return Array.from(candidates);
+};
+
+/** Prefers an address on one of the expected domains, in domain order. */
+export const pickBestEmailCandidate = (emails: string[], domainCandidates: string[]): string | undefined => {
+  if (emails.length === 0) return undefined;
+
+  for (const domain of domainCandidates) {
+    const domainMatch = emails.find(email => email.endsWith(`@${domain}`));
+    if (domainMatch) return domainMatch;
+  }
+
+  return emails[0];
+};
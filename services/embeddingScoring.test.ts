@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest';
+import { MatchType, Researcher } from '../types';
+import {
+  computeEmbeddingAlignment,
+  cosineSimilarity,
+  EMBEDDING_BATCH_SIZE,
+  embedLocally,
+  EmbedTexts,
+  findSignalDisagreements,
+  LOCAL_EMBEDDING_MODEL
+} from './embeddingScoring';
+
+describe('cosineSimilarity', () => {
+  it.each<[string, number[], number[], number]>([
+    ['identical', [1, 2, 3], [1, 2, 3], 1],
+    ['orthogonal', [1, 0], [0, 1], 0],
+    ['opposite', [1, 0], [-1, 0], -1],
+    ['scaled', [1, 1], [3, 3], 1],
+    ['zero vector', [0, 0], [1, 0], 0],
+    ['length mismatch', [1, 0], [1, 0, 0], 0],
+    ['empty', [], [], 0]
+  ])('%s', (_label, a, b, expected) => {
+    expect(cosineSimilarity(a, b)).toBeCloseTo(expected);
+  });
+});
+
+describe('embedLocally', () => {
+  it('is deterministic and unit length', async () => {
+    const [first] = await embedLocally(['Medical Imaging']);
+    const [second] = await embedLocally(['medical imaging']);
+    expect(first).toEqual(second);
+    expect(cosineSimilarity(first, first)).toBeCloseTo(1);
+    expect(Math.hypot(...first)).toBeCloseTo(1);
+  });
+
+  it('places related wording closer than unrelated wording', async () => {
+    const [interest, related, unrelated] = await embedLocally([
+      'Medical imaging',
+      'Deep learning for medical image reconstruction',
+      'Soil microbiome of alpine meadows'
+    ]);
+    expect(cosineSimilarity(interest, related)).toBeGreaterThan(cosineSimilarity(interest, unrelated));
+  });
+
+  it('returns a zero vector for text without words', async () => {
+    const [vector] = await embedLocally(['—']);
+    expect(vector.every(value => value === 0)).toBe(true);
+  });
+});
+
+describe('computeEmbeddingAlignment', () => {
+  const titles = [
+    'Deep learning for medical image reconstruction',
+    'Soil microbiome of alpine meadows',
+    'Synthetic gene circuits in yeast'
+  ];
+
+  it('keeps the closest title per interest', async () => {
+    const alignment = await computeEmbeddingAlignment(
+      ['Medical imaging', 'Synthetic biology'],
+      titles,
+      embedLocally,
+      LOCAL_EMBEDDING_MODEL
+    );
+    expect(alignment?.model).toBe(LOCAL_EMBEDDING_MODEL);
+    expect(alignment?.interests.map(i => i.closestTitle)).toEqual([titles[0], titles[2]]);
+    const mean = alignment!.interests.reduce((sum, i) => sum + i.similarity, 0) / 2;
+    expect(alignment?.score).toBe(Math.round(mean * 100));
+  });
+
+  it.each<[string, string[], string[]]>([
+    ['no interests', [], titles],
+    ['no titles', ['Medical imaging'], []],
+    ['blank titles', ['Medical imaging'], ['  ', '']]
+  ])('returns undefined with %s', async (_label, interests, titleList) => {
+    expect(await computeEmbeddingAlignment(interests, titleList, embedLocally, LOCAL_EMBEDDING_MODEL)).toBeUndefined();
+  });
+
+  it('clamps negative similarities to 0', async () => {
+    const embed: EmbedTexts = async texts => texts.map(text => (text === 'A' ? [1, 0] : [-1, 0]));
+    const alignment = await computeEmbeddingAlignment(['A'], ['B'], embed, 'test');
+    expect(alignment).toMatchObject({ score: 0, interests: [{ interest: 'A', similarity: 0, closestTitle: 'B' }] });
+  });
+
+  it('embeds in batches and deduplicates titles', async () => {
+    const batchSizes: number[] = [];
+    const embed: EmbedTexts = async texts => {
+      batchSizes.push(texts.length);
+      return embedLocally(texts);
+    };
+    const manyTitles = Array.from({ length: EMBEDDING_BATCH_SIZE + 10 }, (_, i) => `Paper ${i}`);
+    await computeEmbeddingAlignment(['Imaging'], [...manyTitles, 'Paper 0'], embed, 'test');
+    expect(batchSizes).toEqual([EMBEDDING_BATCH_SIZE, 11]);
+  });
+
+  it('rejects a provider that returns the wrong number of vectors', async () => {
+    const embed: EmbedTexts = async () => [[1, 0]];
+    await expect(computeEmbeddingAlignment(['A'], ['B', 'C'], embed, 'test')).rejects.toThrow('Expected 3 embeddings');
+  });
+});
+
+describe('findSignalDisagreements', () => {
+  const researcher = (
+    id: string,
+    matchType: MatchType,
+    score: number,
+    model = 'm'
+  ): Pick<Researcher, 'id' | 'isMatch' | 'matchType' | 'embeddingAlignment'> => ({
+    id,
+    isMatch: matchType !== MatchType.NONE,
+    matchType,
+    embeddingAlignment: { score, model, interests: [] }
+  });
+
+  it('flags strong tiers with low similarity and weak tiers with high similarity', () => {
+    const disagreements = findSignalDisagreements([
+      researcher('a', MatchType.PERFECT, 20),
+      researcher('b', MatchType.NONE, 90),
+      researcher('c', MatchType.PARTIAL, 50),
+      researcher('d', MatchType.HIGH, 80),
+      researcher('e', MatchType.LOW, 30)
+    ]);
+    expect(Object.fromEntries(disagreements)).toEqual({ a: 'model-higher', b: 'embedding-higher' });
+  });
+
+  it('needs enough researchers scored with the same model', () => {
+    expect(findSignalDisagreements([
+      researcher('a', MatchType.PERFECT, 20, 'm1'),
+      researcher('b', MatchType.NONE, 90, 'm1'),
+      researcher('c', MatchType.PARTIAL, 50, 'm2'),
+      researcher('d', MatchType.HIGH, 80, 'm2')
+    ]).size).toBe(0);
+  });
+
+  it('ignores researchers without an alignment', () => {
+    expect(findSignalDisagreements([{ id: 'a', isMatch: true, matchType: MatchType.PERFECT }]).size).toBe(0);
+  });
+});
@@ -0,0 +1,148 @@
+import { EmbeddingAlignment, MatchType, Researcher } from '../types';
+
+/** Texts to vectors, one per text and in order. */
+export type EmbedTexts = (texts: string[]) => Promise<number[][]>;
+
+export const LOCAL_EMBEDDING_MODEL = 'local-hashed-ngrams';
+const LOCAL_EMBEDDING_DIMENSIONS = 256;
+
+// Providers cap the inputs per request (Gemini at 100).
+export const EMBEDDING_BATCH_SIZE = 100;
+
+const hashToken = (token: string): number => {
+  // FNV-1a, 32-bit
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < token.length; i++) {
+    hash ^= token.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const normalizeVector = (vector: number[]): number[] => {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm > 0 ? vector.map(value => value / norm) : vector;
+};
+
+/**
+ * Stand-in embedding model that runs without a provider: words and their
+ * character trigrams hashed into a fixed-size vector. It only captures
+ * lexical overlap ("imaging" ~ "image"), not meaning, but is deterministic,
+ * which the tests rely on.
+ */
+export const embedLocally: EmbedTexts = async texts =>
+  texts.map(text => {
+    const vector: number[] = new Array(LOCAL_EMBEDDING_DIMENSIONS).fill(0);
+    const words = text.toLowerCase().match(/[a-z0-9]+/g) || [];
+    for (const word of words) {
+      vector[hashToken(word) % LOCAL_EMBEDDING_DIMENSIONS] += 1;
+      const padded = `#${word}#`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        vector[hashToken(padded.slice(i, i + 3)) % LOCAL_EMBEDDING_DIMENSIONS] += 0.5;
+      }
+    }
+    return normalizeVector(vector);
+  });
+
+export const cosineSimilarity = (a: number[], b: number[]): number => {
+  if (a.length === 0 || a.length !== b.length) return 0;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+const embedInBatches = async (texts: string[], embed: EmbedTexts): Promise<number[][]> => {
+  const vectors: number[][] = [];
+  for (let start = 0; start < texts.length; start += EMBEDDING_BATCH_SIZE) {
+    const batch = texts.slice(start, start + EMBEDDING_BATCH_SIZE);
+    const embedded = await embed(batch);
+    if (embedded.length !== batch.length) {
+      throw new Error(`Expected ${batch.length} embeddings, received ${embedded.length}.`);
+    }
+    vectors.push(...embedded);
+  }
+  return vectors;
+};
+
+const roundSimilarity = (value: number): number => Math.round(value * 1000) / 1000;
+
+/**
+ * Embeds each interest and each publication title and keeps, per interest,
+ * the most similar title. The score is the mean of those maxima (negative
+ * similarities count as 0), scaled to 0-100. Returns undefined when there is
+ * nothing to compare.
+ */
+export const computeEmbeddingAlignment = async (
+  interests: string[],
+  titles: string[],
+  embed: EmbedTexts,
+  model: string
+): Promise<EmbeddingAlignment | undefined> => {
+  const uniqueTitles = [...new Set(titles.map(title => title.trim()).filter(Boolean))];
+  if (interests.length === 0 || uniqueTitles.length === 0) return undefined;
+
+  const vectors = await embedInBatches([...interests, ...uniqueTitles], embed);
+  const interestVectors = vectors.slice(0, interests.length);
+  const titleVectors = vectors.slice(interests.length);
+
+  const alignments = interests.map((interest, index) => {
+    let best = { similarity: -Infinity, titleIndex: -1 };
+    titleVectors.forEach((titleVector, titleIndex) => {
+      const similarity = cosineSimilarity(interestVectors[index], titleVector);
+      if (similarity > best.similarity) best = { similarity, titleIndex };
+    });
+    return {
+      interest,
+      similarity: roundSimilarity(Math.max(0, best.similarity)),
+      ...(best.titleIndex >= 0 ? { closestTitle: uniqueTitles[best.titleIndex] } : {})
+    };
+  });
+
+  const mean = alignments.reduce((sum, alignment) => sum + alignment.similarity, 0) / alignments.length;
+  return { score: Math.round(mean * 100), model, interests: alignments };
+};
+
+/** `model-higher`: the verdicts rank the researcher well above the embeddings, `embedding-higher` the reverse. */
+export type SignalDisagreement = 'model-higher' | 'embedding-higher';
+
+// Raw similarities depend on the embedding model, so researchers are compared
+// by their rank among others scored with the same model rather than by a fixed cut-off.
+const MIN_DISAGREEMENT_POOL = 4;
+const STRONG_TIERS = new Set<MatchType | undefined>([MatchType.PERFECT, MatchType.HIGH]);
+const WEAK_TIERS = new Set<MatchType | undefined>([MatchType.LOW, MatchType.NONE, undefined]);
+
+/**
+ * Flags researchers where the two signals disagree: a Perfect/High match
+ * whose similarity is in the bottom third of the pool, or a Low/None one in
+ * the top third.
+ */
+export const findSignalDisagreements = (
+  researchers: Array<Pick<Researcher, 'id' | 'isMatch' | 'matchType' | 'embeddingAlignment'>>
+): Map<string, SignalDisagreement> => {
+  const pools = new Map<string, Array<{ id: string; score: number; tier?: MatchType }>>();
+  for (const researcher of researchers) {
+    const alignment = researcher.embeddingAlignment;
+    if (!alignment) continue;
+    const pool = pools.get(alignment.model) || [];
+    pool.push({ id: researcher.id, score: alignment.score, tier: researcher.isMatch ? researcher.matchType : MatchType.NONE });
+    pools.set(alignment.model, pool);
+  }
+
+  const disagreements = new Map<string, SignalDisagreement>();
+  for (const pool of pools.values()) {
+    if (pool.length < MIN_DISAGREEMENT_POOL) continue;
+    for (const entry of pool) {
+      const below = pool.filter(other => other.score < entry.score).length;
+      const percentile = below / (pool.length - 1);
+      if (STRONG_TIERS.has(entry.tier) && percentile < 1 / 3) disagreements.set(entry.id, 'model-higher');
+      if (WEAK_TIERS.has(entry.tier) && percentile >= 2 / 3) disagreements.set(entry.id, 'embedding-higher');
+    }
+  }
+  return disagreements;
+};
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { KeywordEvidence } from '../types';
+import { ScholarPublication } from './serpApiService';
+import {
+  countVerifiedPapers,
+  findMatchingArticle,
+  titleSimilarity,
+  verifyPapers,
+  verifySupportingPapers
+} from './evidenceVerification';
+
+const articles: ScholarPublication[] = [
+  { title: 'Soft robotic grippers for delicate tissue manipulation in minimally invasive surgery', year: '2021', cited_by: { value: 87 } },
+  { title: 'Hydrogel scaffolds for cardiac tissue engineering', year: '2018', cited_by: { value: 412 } },
+  { title: 'Deep learning for MRI reconstruction', year: '2020' }
+];
+
+describe('titleSimilarity', () => {
+  it.each<[string, string, string, (score: number) => boolean]>([
+    ['identical after normalization', 'Deep Learning for MRI Reconstruction.', 'deep learning for mri reconstruction', s => s === 1],
+    ['one changed word', 'Hydrogel scaffold for cardiac tissue engineering', 'Hydrogel scaffolds for cardiac tissue engineering', s => s > 0.9],
+    ['unrelated titles', 'Graph neural networks for traffic forecasting', 'Hydrogel scaffolds for cardiac tissue engineering', s => s < 0.5],
+    ['empty title', '', 'Anything', s => s === 0]
+  ])('%s', (_, a, b, check) => {
+    expect(check(titleSimilarity(a, b))).toBe(true);
+  });
+});
+
+describe('findMatchingArticle', () => {
+  it.each<[string, string, string | undefined]>([
+    ['exact title', 'Deep learning for MRI reconstruction', articles[2].title],
+    ['small wording drift', 'Hydrogel scaffold for cardiac tissue-engineering', articles[1].title],
+    ['title shortened by the model', 'Soft robotic grippers for delicate tissue', articles[0].title],
+    ['too short a prefix', 'Soft robotic', undefined],
+    ['invented paper', 'Quantum sensing of neural activity in zebrafish', undefined]
+  ])('%s', (_, title, expected) => {
+    expect(findMatchingArticle(title, articles)?.title).toBe(expected);
+  });
+});
+
+describe('verifySupportingPapers', () => {
+  const [verified] = verifySupportingPapers([
+    {
+      keyword: 'Tissue engineering',
+      reasoning: 'Scaffold work',
+      supportingPapers: [
+        { title: 'Hydrogel scaffold for cardiac tissue engineering', year: '2015', citations: 9999 },
+        { title: 'A hallucinated paper on organoids', year: '2023', citations: 12 },
+        { title: '' }
+      ]
+    }
+  ], articles);
+
+  it('replaces matched papers with the source title, year and citations', () => {
+    expect(verified.supportingPapers[0]).toEqual({
+      title: 'Hydrogel scaffolds for cardiac tissue engineering',
+      year: '2018',
+      citations: 412,
+      verified: true
+    });
+  });
+
+  it('flags unmatched papers and drops untitled ones', () => {
+    expect(verified.supportingPapers).toHaveLength(2);
+    expect(verified.supportingPapers[1]).toMatchObject({ title: 'A hallucinated paper on organoids', verified: false });
+    expect(countVerifiedPapers(verified)).toBe(1);
+  });
+
+  it('tolerates an empty or missing paper list', () => {
+    const keyword: KeywordEvidence = { keyword: 'X', reasoning: '', supportingPapers: [] };
+    expect(verifySupportingPapers([keyword], articles)[0].supportingPapers).toEqual([]);
+    expect(verifyPapers(undefined, articles)).toEqual([]);
+  });
+});
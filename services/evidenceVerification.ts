@@ -0,0 +1,91 @@
+import type { KeywordEvidence, SupportingPaper } from '../types';
+import type { ScholarPublication } from './serpApiService';
+import { normalizeTitle } from './publicationList';
+
+/** Minimum bigram similarity for a cited title to count as the same paper. */
+export const TITLE_MATCH_THRESHOLD = 0.85;
+
+// A model-shortened title still counts when it keeps this many leading words.
+const MIN_PREFIX_WORDS = 5;
+
+const toBigrams = (text: string): Map<string, number> => {
+  const bigrams = new Map<string, number>();
+  const compact = text.replace(/ /g, '');
+  for (let i = 0; i < compact.length - 1; i++) {
+    const bigram = compact.slice(i, i + 2);
+    bigrams.set(bigram, (bigrams.get(bigram) || 0) + 1);
+  }
+  return bigrams;
+};
+
+/** Dice coefficient over character bigrams of the normalized titles, from 0 to 1. */
+export const titleSimilarity = (a: string, b: string): number => {
+  const left = normalizeTitle(a);
+  const right = normalizeTitle(b);
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+
+  const leftBigrams = toBigrams(left);
+  const rightBigrams = toBigrams(right);
+  let overlap = 0;
+  let total = 0;
+  leftBigrams.forEach((count, bigram) => {
+    overlap += Math.min(count, rightBigrams.get(bigram) || 0);
+    total += count;
+  });
+  rightBigrams.forEach(count => { total += count; });
+  return total > 0 ? (2 * overlap) / total : 0;
+};
+
+const isTruncationOf = (cited: string, source: string): boolean => {
+  const citedTitle = normalizeTitle(cited);
+  return citedTitle.split(' ').length >= MIN_PREFIX_WORDS && normalizeTitle(source).startsWith(citedTitle);
+};
+
+/** The fetched article a cited title refers to, or undefined when none is close enough. */
+export const findMatchingArticle = (
+  title: string,
+  articles: ScholarPublication[]
+): ScholarPublication | undefined => {
+  let best: ScholarPublication | undefined;
+  let bestScore = 0;
+  for (const article of articles) {
+    if (!article?.title) continue;
+    const score = isTruncationOf(title, article.title) ? 1 : titleSimilarity(title, article.title);
+    if (score > bestScore) {
+      best = article;
+      bestScore = score;
+    }
+  }
+  return bestScore >= TITLE_MATCH_THRESHOLD ? best : undefined;
+};
+
+/**
+ * Checks cited papers against the fetched articles. Matches take the source
+ * title, year and citation count; papers that match nothing stay in the list
+ * flagged `verified: false` so the UI can mark them.
+ */
+export const verifyPapers = (papers: SupportingPaper[] | undefined, articles: ScholarPublication[]): SupportingPaper[] =>
+  (Array.isArray(papers) ? papers : [])
+    .filter(paper => typeof paper?.title === 'string' && paper.title.trim())
+    .map((paper): SupportingPaper => {
+      const article = findMatchingArticle(paper.title, articles);
+      if (!article) return { ...paper, verified: false };
+      return {
+        title: article.title,
+        year: article.year || paper.year,
+        citations: article.cited_by?.value ?? 0,
+        verified: true
+      };
+    });
+
+/** Verifies the supporting papers of every keyword; see `verifyPapers`. */
+export const verifySupportingPapers = (
+  keywords: KeywordEvidence[],
+  articles: ScholarPublication[]
+): KeywordEvidence[] =>
+  keywords.map(keyword => ({ ...keyword, supportingPapers: verifyPapers(keyword.supportingPapers, articles) }));
+
+/** Number of a keyword's supporting papers that were found in the publication list. */
+export const countVerifiedPapers = (keyword: KeywordEvidence): number =>
+  (keyword.supportingPapers || []).filter(paper => paper.verified).length;
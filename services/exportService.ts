@@ -0,0 +1,80 @@
+import { AnalysisStatus, EmailStatus, MatchType, Researcher } from '../types';
+import { CsvCell, serializeCsv } from './csvService';
+import { buildXlsxWorkbook } from './xlsxService';
+import { ACADEMIC_RANK_OPTIONS } from './researcherExtraction';
+
+export type ResearcherExportFormat = 'csv' | 'xlsx';
+
+interface ExportColumn {
+  header: string;
+  value: (researcher: Researcher) => CsvCell;
+}
+
+const MATCH_TYPE_LABELS: Record<MatchType, string> = {
+  [MatchType.PERFECT]: 'Perfect',
+  [MatchType.HIGH]: 'High',
+  [MatchType.PARTIAL]: 'Partial',
+  [MatchType.LOW]: 'Low',
+  [MatchType.NONE]: 'None'
+};
+
+const STATUS_LABELS: Record<AnalysisStatus, string> = {
+  [AnalysisStatus.PENDING]: 'Ready to analyze',
+  [AnalysisStatus.AWAITING_SCHOLAR_ID]: 'Needs Scholar ID',
+  [AnalysisStatus.LOADING]: 'Analyzing',
+  [AnalysisStatus.COMPLETED]: 'Analyzed',
+  [AnalysisStatus.ERROR]: 'Failed'
+};
+
+const getMatchTypeLabel = (researcher: Researcher): string => {
+  if (researcher.matchType) return MATCH_TYPE_LABELS[researcher.matchType];
+  // Results saved before match tiers existed only carry the boolean flag.
+  if (researcher.status === AnalysisStatus.COMPLETED && researcher.isMatch !== undefined) {
+    return researcher.isMatch ? 'Match' : 'None';
+  }
+  return '';
+};
+
+const RESEARCHER_EXPORT_COLUMNS: ExportColumn[] = [
+  { header: 'Name', value: r => r.name },
+  { header: 'Status', value: r => STATUS_LABELS[r.status] },
+  { header: 'Title', value: r => r.academicTitle },
+  { header: 'Rank', value: r => ACADEMIC_RANK_OPTIONS.find(option => option.rank === r.rank)?.label },
+  { header: 'Department', value: r => r.department },
+  { header: 'Scholar ID', value: r => r.scholarAuthorId },
+  { header: 'Profile URL', value: r => r.profileUrl },
+  { header: 'Homepage', value: r => r.homepageUrl },
+  { header: 'Contact Email', value: r => r.contactEmail },
+  { header: 'Match Type', value: getMatchTypeLabel },
+  { header: 'Match Score', value: r => (r.matchScore !== undefined ? `${r.matchScore}%` : '') },
+  { header: 'Similarity Score', value: r => (r.embeddingAlignment ? String(r.embeddingAlignment.score) : '') },
+  { header: 'Matched Interests', value: r => (r.matchedInterests || []).join('; ') },
+  { header: 'Excluded Interests', value: r => (r.excludedInterests || []).join('; ') },
+  { header: 'Summary', value: r => r.interests },
+  { header: 'Keywords', value: r => (r.tags || []).map(tag => tag.keyword).join('; ') },
+  { header: 'Favorite', value: r => (r.isFavorite ? 'Yes' : 'No') },
+  { header: 'Email Status', value: r => (r.emailStatus === EmailStatus.SENT ? 'Sent' : 'Not sent') },
+  { header: 'Customized Letter', value: r => r.customizedLetter }
+];
+
+/** Header row followed by one row per researcher, in display order. */
+export const buildResearcherExportRows = (researchers: Researcher[]): CsvCell[][] => [
+  RESEARCHER_EXPORT_COLUMNS.map(column => column.header),
+  ...researchers.map(researcher => RESEARCHER_EXPORT_COLUMNS.map(column => column.value(researcher)))
+];
+
+export const buildResearcherExport = (
+  researchers: Researcher[],
+  format: ResearcherExportFormat,
+  sheetName: string
+): { content: BlobPart; mimeType: string; extension: string } => {
+  const rows = buildResearcherExportRows(researchers);
+  if (format === 'xlsx') {
+    return {
+      content: buildXlsxWorkbook(rows, sheetName),
+      mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      extension: 'xlsx'
+    };
+  }
+  return { content: serializeCsv(rows), mimeType: 'text/csv;charset=utf-8', extension: 'csv' };
+};
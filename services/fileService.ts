@@ -0,0 +1,35 @@
+/**
+ * Triggers a browser download for generated content.
+ */
+export const downloadFile = (filename: string, content: BlobPart, mimeType: string): void => {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoke on the next tick so the download has started in every browser.
+  window.setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const readFileAsText = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(typeof reader.result === 'string' ? reader.result : '');
+    reader.onerror = () => reject(reader.error || new Error(`Failed to read ${file.name}`));
+    reader.readAsText(file);
+  });
+
+/** File contents as base64, without the `data:` URL prefix. */
+export const readFileAsBase64 = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(typeof reader.result === 'string' ? reader.result.slice(reader.result.indexOf(',') + 1) : '');
+    reader.onerror = () => reject(reader.error || new Error(`Failed to read ${file.name}`));
+    reader.readAsDataURL(file);
+  });
+
+/** `YYYY-MM-DD` stamp for exported file names. */
+export const getFileDateStamp = (date = new Date()): string => date.toISOString().slice(0, 10);
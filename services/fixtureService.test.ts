@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import fs from 'node:fs';
+import path from 'node:path';
+import { buildFixtureKey, FixtureFile, hashFixtureInput } from './fixtureService';
+import { DEFAULT_SCHOLAR_FETCH_SETTINGS } from './serpApiService';
+
+const FIXTURES_DIR = path.resolve(__dirname, '../fixtures');
+
+type DemoFixture = FixtureFile<any> & { request: Record<string, string> };
+
+const readFixtures = (kind: string): DemoFixture[] =>
+  fs.readdirSync(path.join(FIXTURES_DIR, kind)).map(file => JSON.parse(fs.readFileSync(path.join(FIXTURES_DIR, kind, file), 'utf-8')));
+
+const hasFixture = (kind: string, key: string): boolean => fs.existsSync(path.join(FIXTURES_DIR, kind, `${key}.json`));
+
+describe('buildFixtureKey', () => {
+  it.each<[string, string]>([
+    ['abc123', 'abc123'],
+    ['Jane Doe', `jane-doe-${hashFixtureInput('Jane Doe')}`],
+    ['!!!', hashFixtureInput('!!!')]
+  ])('%j -> %j', (input, expected) => {
+    expect(buildFixtureKey(input)).toBe(expected);
+  });
+
+  it('hashes on request and keeps long keys short', () => {
+    expect(buildFixtureKey('abc123', { hashOnly: true })).toBe(hashFixtureInput('abc123'));
+    expect(buildFixtureKey('x'.repeat(500)).length).toBeLessThanOrEqual(75);
+  });
+});
+
+describe('committed demo fixtures', () => {
+  it.each(['scholar-search', 'scholar-author', 'homepage'])('%s files are named after their kind and key', (kind) => {
+    fs.readdirSync(path.join(FIXTURES_DIR, kind)).forEach(file => {
+      const fixture = JSON.parse(fs.readFileSync(path.join(FIXTURES_DIR, kind, file), 'utf-8'));
+      expect(fixture).toMatchObject({ kind, key: file.replace(/\.json$/, '') });
+    });
+  });
+
+  // The demo replays search -> profile -> homepage, so each step must find the next one's fixture.
+  it('cover every searched profile and its homepage at the default settings', () => {
+    const searches = readFixtures('scholar-search');
+    expect(searches.length).toBeGreaterThan(0);
+    searches.forEach(search => {
+      expect(search.key).toBe(buildFixtureKey(search.request.q));
+      search.response.profiles.authors.forEach((author: { author_id: string }) => {
+        const pageKey = buildFixtureKey(`${author.author_id}-recent-0-${DEFAULT_SCHOLAR_FETCH_SETTINGS.maxArticles}`);
+        expect(hasFixture('scholar-author', pageKey)).toBe(true);
+
+        const page = readFixtures('scholar-author').find(fixture => fixture.key === pageKey)!;
+        expect(hasFixture('homepage', buildFixtureKey(new URL(page.response.author.website).toString()))).toBe(true);
+      });
+    });
+  });
+});
@@ -0,0 +1,147 @@
+import { EmbeddingRequest, JsonGenerationRequest, LlmProvider } from './llmProvider';
+import { mockLlmProvider } from './mockLlmProvider';
+import { isServerRuntime, readEnv } from './runtimeEnv';
+
+/**
+ * Record/replay of external responses (SerpAPI, homepage reader, LLM calls)
+ * as JSON fixtures under `fixtures/`, served by the dev server plugin in
+ * `plugins/fixturePlugin.ts`.
+ *
+ * - `off`: every call goes to the live service.
+ * - `record`: live calls are made and their responses written to disk.
+ * - `replay`: responses come only from fixtures; no keys or network needed.
+ * - `demo`: like `replay`, but model calls go to the offline mock model, so the
+ *   committed demo fixtures are enough for a fresh clone to run an analysis.
+ */
+export type FixtureMode = 'off' | 'record' | 'replay' | 'demo';
+
+export type FixtureKind = 'scholar-author' | 'scholar-search' | 'homepage' | 'llm';
+
+export const FIXTURE_ENDPOINT = '/__fixtures';
+
+const parseFixtureMode = (value: unknown): FixtureMode =>
+  value === 'record' || value === 'replay' || value === 'demo' ? value : 'off';
+
+// Fixtures are served by the Vite dev server, so the API server always runs live.
+export const FIXTURE_MODE: FixtureMode = isServerRuntime ? 'off' : parseFixtureMode(readEnv('VITE_FIXTURE_MODE'));
+
+export interface FixtureFile<T = unknown> {
+  kind: FixtureKind;
+  key: string;
+  recordedAt: string;
+  /** What was asked, kept so a fixture can be traced back to its call. */
+  request: unknown;
+  response: T;
+}
+
+/** cyrb53: fast, stable, non-cryptographic string hash (53 bits as hex). */
+export const hashFixtureInput = (input: string): string => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < input.length; i++) {
+    const ch = input.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16).padStart(14, '0');
+};
+
+/**
+ * Builds a file-name-safe key: a readable slug of the input, plus a hash when
+ * the slug alone could collide or would be too long.
+ */
+export const buildFixtureKey = (input: string, { hashOnly = false } = {}): string => {
+  const slug = input.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60);
+  if (hashOnly || !slug) return hashFixtureInput(input);
+  return slug === input ? slug : `${slug}-${hashFixtureInput(input)}`;
+};
+
+const getFixtureUrl = (kind: FixtureKind, key: string) => `${FIXTURE_ENDPOINT}/${kind}/${encodeURIComponent(key)}`;
+
+const readFixture = async <T>(kind: FixtureKind, key: string, label: string): Promise<T> => {
+  const response = await fetch(getFixtureUrl(kind, key));
+  if (response.status === 404) {
+    throw new Error(`No ${kind} fixture recorded for ${label} (${key}). Run once with VITE_FIXTURE_MODE=record to capture it.`);
+  }
+  if (!response.ok) {
+    throw new Error(`Fixture server error: ${response.status} ${response.statusText}`);
+  }
+  const fixture = await response.json() as FixtureFile<T>;
+  return fixture.response;
+};
+
+const writeFixture = async <T>(kind: FixtureKind, key: string, request: unknown, value: T): Promise<void> => {
+  const fixture: FixtureFile<T> = { kind, key, recordedAt: new Date().toISOString(), request, response: value };
+  try {
+    const response = await fetch(getFixtureUrl(kind, key), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(fixture)
+    });
+    if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+  } catch (error) {
+    // Recording is best effort; never break the live call because of it.
+    console.warn(`Failed to record ${kind} fixture ${key}:`, error);
+  }
+};
+
+interface FixtureCall<T> {
+  kind: FixtureKind;
+  key: string;
+  /** Human-readable description used in "missing fixture" errors. */
+  label: string;
+  request: unknown;
+  load: () => Promise<T>;
+}
+
+/**
+ * Runs `load` according to the fixture mode: passthrough, passthrough plus
+ * recording, or replay from disk only. `undefined` responses are stored as
+ * `null` so "nothing found" outcomes replay faithfully too.
+ */
+export const withFixture = async <T>({ kind, key, label, request, load }: FixtureCall<T>): Promise<T> => {
+  if (FIXTURE_MODE === 'replay' || FIXTURE_MODE === 'demo') {
+    const value = await readFixture<T | null>(kind, key, label);
+    return (value === null ? undefined : value) as T;
+  }
+
+  const value = await load();
+  if (FIXTURE_MODE === 'record') {
+    await writeFixture(kind, key, request, value === undefined ? null : value);
+  }
+  return value;
+};
+
+/**
+ * Wraps a provider so its calls are recorded/replayed. Keys hash the
+ * provider, model, prompt, schema and sampling config, so changing any of
+ * them needs a fresh recording. In replay mode the wrapped provider counts as
+ * configured even without credentials; in demo mode the mock model answers.
+ */
+export const withLlmFixtures = (provider: LlmProvider): LlmProvider => {
+  if (FIXTURE_MODE === 'off') return provider;
+  if (FIXTURE_MODE === 'demo') return mockLlmProvider;
+
+  const call = <T>(method: 'text' | 'json' | 'embed', request: { model: string }, load: () => Promise<T>) => {
+    const fixtureRequest = { provider: provider.id, method, ...request };
+    return withFixture({
+      kind: 'llm',
+      key: buildFixtureKey(JSON.stringify(fixtureRequest), { hashOnly: true }),
+      label: `${provider.label} ${request.model} ${method} prompt`,
+      request: fixtureRequest,
+      load
+    });
+  };
+
+  return {
+    ...provider,
+    isConfigured: () => FIXTURE_MODE === 'replay' || provider.isConfigured(),
+    generateText: request => call('text', request, () => provider.generateText(request)),
+    generateJson: <T>(request: JsonGenerationRequest) => call<T>('json', request, () => provider.generateJson<T>(request)),
+    ...(provider.embed
+      ? { embed: (request: EmbeddingRequest) => call('embed', request, () => provider.embed!(request)) }
+      : {})
+  };
+};
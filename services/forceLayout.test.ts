@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { computeForceLayout } from './forceLayout';
+
+describe('computeForceLayout', () => {
+  const options = { width: 400, height: 300, padding: 20 };
+
+  it.each<[string, string[], Record<string, { x: number; y: number }>]>([
+    ['no nodes', [], {}],
+    ['one node', ['a'], { a: { x: 200, y: 150 } }]
+  ])('places %s', (_label, ids, expected) => {
+    expect(computeForceLayout(ids, [], options)).toEqual(expected);
+  });
+
+  it('is deterministic and stays inside the padded canvas', () => {
+    const ids = Array.from({ length: 12 }, (_, i) => `n${i}`);
+    const edges = ids.slice(1).map(id => ({ source: 'n0', target: id }));
+    const first = computeForceLayout(ids, edges, options);
+    expect(computeForceLayout(ids, edges, options)).toEqual(first);
+    Object.values(first).forEach(({ x, y }) => {
+      expect(x).toBeGreaterThanOrEqual(20);
+      expect(x).toBeLessThanOrEqual(380);
+      expect(y).toBeGreaterThanOrEqual(20);
+      expect(y).toBeLessThanOrEqual(280);
+    });
+  });
+
+  it('draws linked nodes closer than unlinked ones', () => {
+    const positions = computeForceLayout(
+      ['a', 'b', 'c', 'd'],
+      [{ source: 'a', target: 'b', weight: 4 }, { source: 'c', target: 'd', weight: 4 }],
+      options
+    );
+    const distance = (p: string, q: string) => Math.hypot(positions[p].x - positions[q].x, positions[p].y - positions[q].y);
+    expect(distance('a', 'b')).toBeLessThan(distance('a', 'c'));
+    expect(distance('c', 'd')).toBeLessThan(distance('b', 'd'));
+  });
+
+  it('ignores edges to unknown nodes and self-loops', () => {
+    expect(() => computeForceLayout(['a', 'b'], [{ source: 'a', target: 'x' }, { source: 'a', target: 'a' }], options)).not.toThrow();
+  });
+});
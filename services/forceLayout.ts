@@ -0,0 +1,107 @@
+export interface LayoutPoint {
+  x: number;
+  y: number;
+}
+
+export interface LayoutEdge {
+  source: string;
+  target: string;
+  /** Heavier edges pull their ends closer; defaults to 1. */
+  weight?: number;
+}
+
+export interface ForceLayoutOptions {
+  width: number;
+  height: number;
+  iterations?: number;
+  /** Margin kept free along the edges of the canvas. */
+  padding?: number;
+}
+
+const DEFAULT_ITERATIONS = 300;
+const DEFAULT_PADDING = 24;
+// Pull towards the centre, scaled by the ideal edge length.
+const GRAVITY = 0.005;
+
+/**
+ * Fruchterman-Reingold layout: nodes repel each other, edges pull their ends
+ * together, and the step size cools each iteration. Nodes start on a circle
+ * in input order, so the same graph always gets the same picture.
+ */
+export const computeForceLayout = (
+  nodeIds: string[],
+  edges: LayoutEdge[],
+  options: ForceLayoutOptions
+): Record<string, LayoutPoint> => {
+  const { width, height } = options;
+  const iterations = options.iterations ?? DEFAULT_ITERATIONS;
+  const padding = options.padding ?? DEFAULT_PADDING;
+  const count = nodeIds.length;
+  if (count === 0) return {};
+
+  const centerX = width / 2;
+  const centerY = height / 2;
+  if (count === 1) return { [nodeIds[0]]: { x: centerX, y: centerY } };
+
+  const radius = Math.min(width, height) / 2 - padding;
+  const positions = nodeIds.map((_, index) => ({
+    x: centerX + radius * Math.cos((2 * Math.PI * index) / count),
+    y: centerY + radius * Math.sin((2 * Math.PI * index) / count)
+  }));
+  const indexById = new Map(nodeIds.map((id, index) => [id, index]));
+  const links = edges
+    .map(edge => ({ a: indexById.get(edge.source), b: indexById.get(edge.target), weight: edge.weight ?? 1 }))
+    .filter((link): link is { a: number; b: number; weight: number } =>
+      link.a !== undefined && link.b !== undefined && link.a !== link.b
+    );
+
+  const idealDistance = Math.sqrt(((width - 2 * padding) * (height - 2 * padding)) / count);
+  let temperature = Math.min(width, height) / 10;
+  const cooling = temperature / (iterations + 1);
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    const shifts = positions.map(() => ({ x: 0, y: 0 }));
+
+    for (let i = 0; i < count; i++) {
+      for (let j = i + 1; j < count; j++) {
+        let dx = positions[i].x - positions[j].x;
+        let dy = positions[i].y - positions[j].y;
+        // Nudge coincident nodes apart in a fixed direction.
+        if (dx === 0 && dy === 0) dx = dy = 0.01 * (j - i);
+        const distance = Math.max(Math.hypot(dx, dy), 0.01);
+        const force = (idealDistance * idealDistance) / distance;
+        shifts[i].x += (dx / distance) * force;
+        shifts[i].y += (dy / distance) * force;
+        shifts[j].x -= (dx / distance) * force;
+        shifts[j].y -= (dy / distance) * force;
+      }
+    }
+
+    links.forEach(({ a, b, weight }) => {
+      const dx = positions[a].x - positions[b].x;
+      const dy = positions[a].y - positions[b].y;
+      const distance = Math.max(Math.hypot(dx, dy), 0.01);
+      const force = ((distance * distance) / idealDistance) * Math.sqrt(weight);
+      shifts[a].x -= (dx / distance) * force;
+      shifts[a].y -= (dy / distance) * force;
+      shifts[b].x += (dx / distance) * force;
+      shifts[b].y += (dy / distance) * force;
+    });
+
+    positions.forEach((position, index) => {
+      // Weak gravity keeps disconnected groups from drifting to the corners.
+      const shift = {
+        x: shifts[index].x + (centerX - position.x) * GRAVITY * idealDistance,
+        y: shifts[index].y + (centerY - position.y) * GRAVITY * idealDistance
+      };
+      const length = Math.max(Math.hypot(shift.x, shift.y), 0.01);
+      const step = Math.min(length, temperature);
+      position.x = Math.min(width - padding, Math.max(padding, position.x + (shift.x / length) * step));
+      position.y = Math.min(height - padding, Math.max(padding, position.y + (shift.y / length) * step));
+    });
+
+    temperature -= cooling;
+  }
+
+  return Object.fromEntries(nodeIds.map((id, index) => [id, positions[index]]));
+};
@@ -0,0 +1,79 @@
+import { GoogleGenAI, Schema, Type } from '@google/genai';
+import { GenerationConfig, JsonGenerationRequest, JsonSchema, LlmProvider, parseJsonResponse } from './llmProvider';
+import { readEnv } from './runtimeEnv';
+
+// The server reads GEMINI_API_KEY; the VITE_ name is the browser-only setup.
+const apiKey = readEnv('GEMINI_API_KEY', 'VITE_GEMINI_API_KEY');
+
+// Created on first use: the Node SDK throws when constructed without a key,
+// which would stop the API server from starting for non-Gemini setups.
+let client: GoogleGenAI | undefined;
+const getClient = (): GoogleGenAI => (client ??= new GoogleGenAI({ apiKey }));
+
+const SCHEMA_TYPES: Record<JsonSchema['type'], Type> = {
+  object: Type.OBJECT,
+  array: Type.ARRAY,
+  string: Type.STRING,
+  number: Type.NUMBER,
+  integer: Type.INTEGER,
+  boolean: Type.BOOLEAN
+};
+
+const toGeminiSchema = (schema: JsonSchema): Schema => ({
+  type: SCHEMA_TYPES[schema.type],
+  ...(schema.description ? { description: schema.description } : {}),
+  ...(schema.enum ? { enum: schema.enum } : {}),
+  ...(schema.nullable ? { nullable: true } : {}),
+  ...(schema.required ? { required: schema.required } : {}),
+  ...(schema.items ? { items: toGeminiSchema(schema.items) } : {}),
+  ...(schema.properties
+    ? {
+        properties: Object.fromEntries(
+          Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])
+        )
+      }
+    : {})
+});
+
+const toGeminiConfig = (config?: GenerationConfig): Record<string, number> => {
+  const result: Record<string, number> = {};
+  if (typeof config?.temperature === 'number') result.temperature = config.temperature;
+  if (typeof config?.topP === 'number') result.topP = config.topP;
+  if (typeof config?.topK === 'number') result.topK = config.topK;
+  if (typeof config?.maxOutputTokens === 'number') result.maxOutputTokens = config.maxOutputTokens;
+  return result;
+};
+
+export const geminiProvider: LlmProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  isConfigured: () => Boolean(apiKey),
+
+  generateText: async ({ model, prompt, config }) => {
+    const modelConfig = toGeminiConfig(config);
+    const response = await getClient().models.generateContent({
+      model,
+      contents: prompt,
+      ...(Object.keys(modelConfig).length > 0 ? { config: modelConfig } : {})
+    });
+    return response.text || '';
+  },
+
+  generateJson: async <T>({ model, prompt, config, schema }: JsonGenerationRequest): Promise<T> => {
+    const response = await getClient().models.generateContent({
+      model,
+      contents: prompt,
+      config: {
+        ...toGeminiConfig(config),
+        responseMimeType: 'application/json',
+        ...(schema ? { responseSchema: toGeminiSchema(schema) } : {})
+      }
+    });
+    return parseJsonResponse<T>(response.text || '{}');
+  },
+
+  embed: async ({ model, texts }) => {
+    const response = await getClient().models.embedContent({ model, contents: texts });
+    return (response.embeddings || []).map(embedding => embedding.values || []);
+  }
+};
@@ -1,19 +1,61 @@
-import { GoogleGenAI, Type, Schema } from "@google/genai";
-import { AnalysisResult, MatchType, Researcher } from '../types';
-import { ScholarAuthorData } from './serpApiService';
-
-const apiKey = import.meta.env.VITE_GEMINI_API_KEY || '';
-
-// Initialize client
-const ai = new GoogleGenAI({ apiKey });
-
-export const DEFAULT_LETTER_MODEL = 'gemini-3-pro-preview';
+import { AnalysisResult, EmbeddingAlignment, InterestMatchResult, InterestScoringOptions, InterestVerdict, Researcher } from '../types';
+import { ScholarAuthorData, ScholarPublication } from './serpApiService';
+import { PROMPT_PUBLICATION_LIMIT, selectPromptPublications } from './publicationList';
+import { verifyPapers, verifySupportingPapers } from './evidenceVerification';
+import {
+  ANALYSIS_RESPONSE_SCHEMA,
+  INTEREST_VERDICTS_SCHEMA,
+  InterestMatchResponse,
+  validateAnalysisResponse,
+  validateInterestMatchResponse
+} from './analysisResponse';
+import { GenerationConfig, JsonSchema } from './llmProvider';
+import { requireTaskModel, resolveTaskModel } from './llmService';
+import { buildFixtureKey, withFixture } from './fixtureService';
+import { isBackendEnabled, postToBackend } from './apiClient';
+import { isServerRuntime } from './runtimeEnv';
+import { ResponseCacheOptions, withResponseCache } from './responseCacheService';
+import {
+  STRICT_EMAIL_REGEX,
+  buildHomepageUrlCandidates,
+  getDomainCandidates,
+  getEmailCandidatesFromText,
+  normalizeEmail,
+  normalizeTextForEmailSearch,
+  pickBestEmailCandidate
+} from './emailParsing';
+import { renderPromptTemplate } from './promptTemplate';
+import {
+  EXTRACTION_RESPONSE_SCHEMA,
+  ExtractedResearcher,
+  mergeExtractedResearchers,
+  validateExtractionResponse
+} from './researcherExtraction';
+import { splitTextIntoChunks } from './documentText';
+import {
+  alignInterestVerdicts,
+  getInterestPreference,
+  normalizeMatchedInterests,
+  parseUserInterests,
+  scoreInterestVerdicts
+} from './matchScoring';
+import { computeEmbeddingAlignment, embedLocally, LOCAL_EMBEDDING_MODEL } from './embeddingScoring';
 
 export interface HomepageEmailExtractionResult {
   email?: string;
   resolvedHomepageUrl?: string;
 }
 
+/** A department page to fetch, or a PDF given as base64. */
+export type DocumentSource = { url: string } | { pdf: string };
+
+export interface ResearcherExtractionResult {
+  entries: ExtractedResearcher[];
+  chunkCount: number;
+  /** 1-based numbers of the chunks whose extraction failed. */
+  failedChunks: number[];
+}
+
 export const DEFAULT_LETTER_GENERATION_PROMPT_TEMPLATE = `You are an expert academic mentor helping a student customize an outreach email to a professor.
 
 **Task:** Refine the provided "Letter Template" to specifically address Professor "{{professor_name}}".
@@ -75,6 +117,7 @@ Instructions:
 - Return ONLY the full revised letter body text with no markdown and no commentary.`;
 
 export interface LetterModelOptions {
+  /** Overrides the model configured for the letter task. */
   model?: string;
   temperature?: number;
   topP?: number;
@@ -90,126 +133,19 @@ export interface LetterRevisionOptions extends LetterModelOptions {
   promptTemplate?: string;
 }
 
-const renderPromptTemplate = (
-  template: string,
-  variables: Record<string, string>
-) => {
-  return template.replace(/\{\{([a-zA-Z0-9_]+)\}\}/g, (_, key: string) => variables[key] ?? '');
-};
-
-const getLetterModelConfig = (options?: LetterModelOptions) => {
-  const config: Record<string, number> = {};
-  if (typeof options?.temperature === 'number') config.temperature = options.temperature;
-  if (typeof options?.topP === 'number') config.topP = options.topP;
-  if (typeof options?.topK === 'number') config.topK = options.topK;
-  if (typeof options?.maxOutputTokens === 'number') config.maxOutputTokens = options.maxOutputTokens;
-  return config;
-};
-
-const getLetterModelName = (options?: LetterModelOptions) => {
-  const overrideModel = options?.model?.trim();
-  return overrideModel || DEFAULT_LETTER_MODEL;
-};
-
-// Helper to sanitize JSON string if the model returns markdown code blocks
-const cleanJsonString = (str: string) => {
-  return str.replace(/```json/g, '').replace(/```/g, '').trim();
-};
-
-const EMAIL_REGEX = /\b[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}\b/gi;
-const STRICT_EMAIL_REGEX = /^[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}$/i;
-
-const normalizeEmail = (value: string): string => {
-  return value
-    .trim()
-    .replace(/[),;:]+$/g, '')
-    .toLowerCase();
-};
-
-const normalizeTextForEmailSearch = (text: string): string => {
-  return text
-    .replace(/\[\s*at\s*\]|\(\s*at\s*\)|\{\s*at\s*\}/gi, '@')
-    .replace(/\[\s*dot\s*\]|\(\s*dot\s*\)|\{\s*dot\s*\}/gi, '.')
-    .replace(/\s+at\s+/gi, '@')
-    .replace(/\s+dot\s+/gi, '.')
-    .replace(/\s*@\s*/g, '@')
-    .replace(/\s*\.\s*/g, '.')
-    .toLowerCase();
-};
-
-const getDomainCandidates = (homepageUrl?: string, verifiedEmailHint?: string): string[] => {
-  const domains: string[] = [];
-
-  if (homepageUrl) {
-    try {
-      const hostname = new URL(homepageUrl).hostname.toLowerCase();
-      const parts = hostname.split('.').filter(Boolean);
-      domains.push(hostname);
-      if (parts.length >= 3) domains.push(parts.slice(-3).join('.'));
-      if (parts.length >= 2) domains.push(parts.slice(-2).join('.'));
-    } catch {
-      // Ignore invalid homepage URL here.
-    }
-  }
-
-  if (verifiedEmailHint) {
-    const hintMatch = verifiedEmailHint.match(/\bat\s+([a-z0-9.-]+\.[a-z]{2,})\b/i);
-    if (hintMatch?.[1]) domains.push(hintMatch[1].toLowerCase());
-  }
-
-  return Array.from(new Set(domains.filter(Boolean)));
-};
-
-const getEmailCandidatesFromText = (text: string): string[] => {
-  const directMatches = Array.from(text.matchAll(EMAIL_REGEX))
-    .map(match => normalizeEmail(match[0]))
-    .filter(email => STRICT_EMAIL_REGEX.test(email));
-
-  const normalizedObfuscated = normalizeTextForEmailSearch(text);
-
-  const obfuscatedMatches = Array.from(normalizedObfuscated.matchAll(EMAIL_REGEX))
-    .map(match => normalizeEmail(match[0]))
-    .filter(email => STRICT_EMAIL_REGEX.test(email));
-
-  return Array.from(new Set([...directMatches, ...obfuscatedMatches]));
-};
-
-const buildHomepageUrlCandidates = (homepageUrl: string): string[] => {
-  const candidates = new Set<string>();
-
-  try {
-    const parsed = new URL(homepageUrl);
-    candidates.add(parsed.toString());
-
-    if (parsed.protocol === 'http:') {
-      const httpsUrl = new URL(parsed.toString());
-      httpsUrl.protocol = 'https:';
-      candidates.add(httpsUrl.toString());
-    }
-
-    if (parsed.hostname.startsWith('www.')) {
-      const noWwwUrl = new URL(parsed.toString());
-      noWwwUrl.hostname = parsed.hostname.replace(/^www\./i, '');
-      candidates.add(noWwwUrl.toString());
+const getLetterGenerationConfig = (options?: LetterModelOptions): GenerationConfig => ({
+  temperature: options?.temperature,
+  topP: options?.topP,
+  topK: options?.topK,
+  maxOutputTokens: options?.maxOutputTokens
+});
 
-      if (noWwwUrl.protocol === 'http:') {
-        const noWwwHttps = new URL(noWwwUrl.toString());
-        noWwwHttps.protocol = 'https:';
-        candidates.add(noWwwHttps.toString());
-      }
-    }
-  } catch {
-    candidates.add(homepageUrl);
-  }
-
-  return Array.from(candidates);
-};
+// The browser needs the dev proxy for CORS; the API server can call r.jina.ai directly.
+const READER_BASE_URL = isServerRuntime ? 'https://r.jina.ai/' : '/api/jina/';
 
-const fetchHomepageTextFromReader = async (homepageUrl: string): Promise<string | undefined> => {
-  const readerProxyUrl = `/api/jina/${encodeURI(homepageUrl)}`;
-  const response = await fetch(readerProxyUrl);
+const readReaderResponse = async (response: Response): Promise<string | undefined> => {
   if (!response.ok) {
-    throw new Error(`Homepage reader failed: ${response.status} ${response.statusText}`);
+    throw new Error(`Page reader failed: ${response.status} ${response.statusText}`);
   }
 
   const text = await response.text();
@@ -227,37 +163,58 @@ const fetchHomepageTextFromReader = async (homepageUrl: string): Promise<string
   return text;
 };
 
-const pickBestEmailCandidate = (emails: string[], domainCandidates: string[]): string | undefined => {
-  if (emails.length === 0) return undefined;
+const fetchHomepageTextLive = async (homepageUrl: string): Promise<string | undefined> =>
+  readReaderResponse(await fetch(`${READER_BASE_URL}${encodeURI(homepageUrl)}`));
 
-  for (const domain of domainCandidates) {
-    const domainMatch = emails.find(email => email.endsWith(`@${domain}`));
-    if (domainMatch) return domainMatch;
-  }
+// r.jina.ai converts a PDF posted as base64 the same way it reads a URL.
+const fetchPdfTextLive = async (pdfBase64: string): Promise<string | undefined> =>
+  readReaderResponse(await fetch(READER_BASE_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ pdf: pdfBase64 })
+  }));
 
-  return emails[0];
+const fetchHomepageTextFromReader = async (
+  homepageUrl: string,
+  cacheOptions: ResponseCacheOptions = {}
+): Promise<string | undefined> => {
+  const { value } = await withResponseCache({
+    kind: 'homepage',
+    key: homepageUrl,
+    forceRefresh: cacheOptions.forceRefresh,
+    load: () => withFixture({
+      kind: 'homepage',
+      key: buildFixtureKey(homepageUrl),
+      label: `homepage ${homepageUrl}`,
+      request: { url: homepageUrl },
+      load: () => fetchHomepageTextLive(homepageUrl)
+    })
+  });
+  return value;
 };
 
-const extractEmailWithGeminiFlash = async (
+const extractEmailWithLlm = async (
   pageText: string,
   homepageUrl: string,
   researcherName?: string
 ): Promise<string | undefined> => {
-  if (!apiKey) return undefined;
+  const { provider, model } = resolveTaskModel('emailExtraction');
+  if (!provider.isConfigured()) return undefined;
 
-  const responseSchema: Schema = {
-    type: Type.OBJECT,
+  const schema: JsonSchema = {
+    type: 'object',
     properties: {
       email: {
-        type: Type.STRING,
+        type: 'string',
         description: 'Single best contact email; empty string if no email is present.'
       }
     }
   };
 
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-flash-preview',
-    contents: `Extract one best professor contact email from this webpage content.
+  const parsed = await provider.generateJson<{ email?: unknown }>({
+    model,
+    schema,
+    prompt: `Extract one best professor contact email from this webpage content.
 
 Rules:
 - Return only one real email address.
@@ -269,15 +226,9 @@ Homepage URL: ${homepageUrl}
 
 Page text:
 ${pageText.slice(0, 40000)}`,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema,
-      temperature: 0
-    }
+    config: { temperature: 0 }
   });
 
-  const jsonStr = cleanJsonString(response.text || "{}");
-  const parsed = JSON.parse(jsonStr);
   const rawEmail = typeof parsed?.email === 'string' ? normalizeEmail(parsed.email) : '';
   return STRICT_EMAIL_REGEX.test(rawEmail) ? rawEmail : undefined;
 };
@@ -285,9 +236,13 @@ ${pageText.slice(0, 40000)}`,
 export const extractProfessorEmailFromScholarHomepage = async (
   homepageUrl?: string,
   researcherName?: string,
-  verifiedEmailHint?: string
+  verifiedEmailHint?: string,
+  cacheOptions?: ResponseCacheOptions
 ): Promise<HomepageEmailExtractionResult> => {
   if (!homepageUrl || !homepageUrl.trim()) return {};
+  if (isBackendEnabled) {
+    return postToBackend<HomepageEmailExtractionResult>('/api/homepage/email', { homepageUrl, researcherName, verifiedEmailHint });
+  }
 
   let normalizedHomepageUrl = homepageUrl.trim();
   try {
@@ -302,7 +257,7 @@ export const extractProfessorEmailFromScholarHomepage = async (
 
   for (const candidateUrl of homepageCandidates) {
     try {
-      const candidateText = await fetchHomepageTextFromReader(candidateUrl);
+      const candidateText = await fetchHomepageTextFromReader(candidateUrl, cacheOptions);
       if (!candidateText) continue;
       pageText = candidateText;
       resolvedHomepageUrl = candidateUrl;
@@ -328,60 +283,74 @@ export const extractProfessorEmailFromScholarHomepage = async (
   }
 
   try {
-    const geminiEmail = await extractEmailWithGeminiFlash(pageText, homepageForValidation, researcherName);
-    if (!geminiEmail) return { resolvedHomepageUrl: homepageForValidation };
-    if (!normalizedPageText.includes(geminiEmail.toLowerCase())) {
-      console.warn(`Discarded unverified Gemini email candidate for ${homepageForValidation}: ${geminiEmail}`);
+    const modelEmail = await extractEmailWithLlm(pageText, homepageForValidation, researcherName);
+    if (!modelEmail) return { resolvedHomepageUrl: homepageForValidation };
+    if (!normalizedPageText.includes(modelEmail.toLowerCase())) {
+      console.warn(`Discarded unverified model email candidate for ${homepageForValidation}: ${modelEmail}`);
       return { resolvedHomepageUrl: homepageForValidation };
     }
     return {
-      email: pickBestEmailCandidate([geminiEmail], domainCandidates) || geminiEmail,
+      email: pickBestEmailCandidate([modelEmail], domainCandidates) || modelEmail,
       resolvedHomepageUrl: homepageForValidation
     };
   } catch (error) {
-    console.warn(`Gemini fallback email extraction failed for ${homepageForValidation}:`, error);
+    console.warn(`Model fallback email extraction failed for ${homepageForValidation}:`, error);
     return { resolvedHomepageUrl: homepageForValidation };
   }
 };
 
-export const extractNamesFromText = async (text: string): Promise<string[]> => {
-  if (!apiKey) throw new Error("API Key is missing from environment variables.");
+/**
+ * Text of a department page or an uploaded staff-list PDF, read through the
+ * same r.jina.ai reader as professor homepages.
+ */
+export const fetchDocumentText = async (source: DocumentSource): Promise<string> => {
+  if (isBackendEnabled) {
+    const { text } = await postToBackend<{ text: string }>('/api/document-text', source);
+    return text;
+  }
+
+  const text = 'url' in source
+    ? await fetchHomepageTextFromReader(source.url)
+    : await fetchPdfTextLive(source.pdf);
+  if (!text?.trim()) {
+    throw new Error('url' in source ? `No readable text found at ${source.url}.` : 'No readable text found in the PDF.');
+  }
+  return text;
+};
+
+/**
+ * Finds academic staff in pasted text (a faculty page, a roster) together
+ * with their title, rank, department, email and homepage when the text
+ * gives them. This is one model call; `extractResearchersFromText` splits
+ * longer text first.
+ */
+export const extractResearchersFromChunk = async (text: string): Promise<ExtractedResearcher[]> => {
+  if (isBackendEnabled) {
+    const { entries } = await postToBackend<{ entries: ExtractedResearcher[] }>('/api/extract-researchers', { text });
+    return entries;
+  }
 
-  const responseSchema: Schema = {
-    type: Type.OBJECT,
-    properties: {
-      names: {
-        type: Type.ARRAY,
-        items: { type: Type.STRING },
-        description: "List of academic staff names extracted from the text."
-      }
-    }
-  };
+  const { provider, model } = requireTaskModel('extraction');
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: `Extract all names of academic staff, professors, lecturers, and researchers from the following text. 
+    const raw = await provider.generateJson<unknown>({
+      model,
+      schema: EXTRACTION_RESPONSE_SCHEMA,
+      prompt: `Extract all academic staff, professors, lecturers, and researchers from the following text. 
       
       CRITICAL RULES:
-      1. RETURN ONLY THE NAMES.
-      2. EXCLUDE all professional titles (e.g., Dr., Prof., Professor, PhD, MD, Assistant Professor, etc.).
-      3. Use Proper Case (e.g., "John Doe", not "JOHN DOE" or "john doe").
-      4. Ignore administrative or technical support staff.
-      
-      Return strictly a JSON list of strings.
+      1. "name" is the name ONLY, without professional titles (e.g., Dr., Prof., Professor, PhD, MD, Assistant Professor, etc.).
+      2. Use Proper Case for names (e.g., "John Doe", not "JOHN DOE" or "john doe").
+      3. Put the academic title exactly as written in "title", and classify it in "rank" (full, associate, assistant, emeritus, research, lecturer or other).
+      4. Fill "department", "email" and "homepage" ONLY when the text states them for that person. Never guess or construct them.
+      5. Ignore administrative or technical support staff.
+      6. The text may be one part of a longer list and may start or end mid-entry; extract every complete name you see.
       
       Text to process:
-      ${text.substring(0, 30000)}`, // Truncate if too huge to avoid error, though 3-flash context is huge.
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: responseSchema,
-      }
+      ${text}`
     });
 
-    const jsonStr = cleanJsonString(response.text || "{}");
-    const parsed = JSON.parse(jsonStr);
-    return parsed.names || [];
+    return validateExtractionResponse(raw);
 
   } catch (error) {
     console.error("Extraction error:", error);
@@ -389,35 +358,133 @@ export const extractNamesFromText = async (text: string): Promise<string[]> => {
   }
 };
 
+/**
+ * Extracts researchers from text of any length, one chunk at a time. A failed
+ * chunk is skipped and reported so the rest of a long roster still comes
+ * through; if every chunk fails the error is thrown.
+ */
+export const extractResearchersFromText = async (
+  text: string,
+  onProgress?: (completedChunks: number, chunkCount: number) => void
+): Promise<ResearcherExtractionResult> => {
+  const chunks = splitTextIntoChunks(text);
+  const entries: ExtractedResearcher[] = [];
+  const failedChunks: number[] = [];
+  let lastError: unknown;
+
+  onProgress?.(0, chunks.length);
+  for (let index = 0; index < chunks.length; index += 1) {
+    try {
+      entries.push(...await extractResearchersFromChunk(chunks[index]));
+    } catch (error) {
+      console.warn(`Extraction of part ${index + 1} of ${chunks.length} failed:`, error);
+      failedChunks.push(index + 1);
+      lastError = error;
+    }
+    onProgress?.(index + 1, chunks.length);
+  }
+
+  if (chunks.length > 0 && failedChunks.length === chunks.length) throw lastError;
+  return { entries: mergeExtractedResearchers(entries), chunkCount: chunks.length, failedChunks };
+};
+
+const formatPublicationLine = (article: ScholarPublication, idx: number): string =>
+  `${idx + 1}. "${article.title}" (${article.year || 'N/A'}) - Cited by: ${article.cited_by?.value || 0}`;
+
+// Landmark papers first, then the newest of the rest, numbered continuously.
+const formatPublicationsForPrompt = (scholarData: ScholarAuthorData): string => {
+  const { mostCited, recent } = selectPromptPublications(scholarData.articles);
+  const sections: string[] = [];
+  if (mostCited.length > 0) {
+    sections.push(`Most cited:\n${mostCited.map(formatPublicationLine).join('\n')}`);
+  }
+  if (recent.length > 0) {
+    sections.push(`Most recent:\n${recent.map((article, idx) => formatPublicationLine(article, mostCited.length + idx)).join('\n')}`);
+  }
+  return sections.join('\n\n');
+};
+
+// The tier and score are computed here from the verdicts, not taken from the model.
+const buildInterestMatch = (
+  response: InterestMatchResponse,
+  userInterests: string,
+  scoring: InterestScoringOptions | undefined,
+  articles: ScholarPublication[]
+): InterestMatchResult => {
+  const parsedUserInterests = parseUserInterests(userInterests);
+  const reportedInterests = normalizeMatchedInterests(response.matchedUserInterests, parsedUserInterests);
+  const interestVerdicts = alignInterestVerdicts(response.interestVerdicts, parsedUserInterests).map(
+    (verdict): InterestVerdict => ({ ...verdict, supportingPapers: verifyPapers(verdict.supportingPapers, articles) })
+  );
+
+  return {
+    ...scoreInterestVerdicts(reportedInterests, interestVerdicts, parsedUserInterests, scoring),
+    matchReason: response.matchReason
+  };
+};
+
+/**
+ * Embedding similarity between the wanted interests and the publication
+ * titles, a second signal next to the model's verdicts. Uses the local
+ * stand-in model when the embedding provider has no embeddings API or no
+ * credentials; a failed request leaves the signal out rather than failing
+ * the analysis.
+ */
+const computeInterestAlignment = async (
+  userInterests: string,
+  scoring: InterestScoringOptions | undefined,
+  articles: ScholarPublication[]
+): Promise<EmbeddingAlignment | undefined> => {
+  const interests = parseUserInterests(userInterests).filter(
+    interest => getInterestPreference(scoring?.preferences, interest).requirement !== 'exclude'
+  );
+  const { provider, model } = resolveTaskModel('embedding');
+  const useProvider = Boolean(provider.embed) && provider.isConfigured();
 
+  try {
+    return await computeEmbeddingAlignment(
+      interests,
+      articles.map(article => article.title),
+      useProvider ? texts => provider.embed!({ model, texts }) : embedLocally,
+      useProvider ? model : LOCAL_EMBEDDING_MODEL
+    );
+  } catch (error) {
+    console.warn('Embedding alignment failed:', error);
+    return undefined;
+  }
+};
 
 /**
  * Analyzes a researcher's publications from Google Scholar
  * @param name - Researcher name
  * @param scholarData - Publication data from SerpAPI
  * @param userInterests - User's research interests for matching
+ * @param scoring - Interest weights, must-have/exclude flags and the recency half-life
  */
 export const analyzeScholarPublications = async (
   name: string,
   scholarData: ScholarAuthorData,
-  userInterests: string
+  userInterests: string,
+  scoring?: InterestScoringOptions
 ): Promise<AnalysisResult> => {
-  if (!apiKey) throw new Error("API Key is missing.");
+  if (isBackendEnabled) {
+    return postToBackend<AnalysisResult>('/api/analyze', { name, scholarData, userInterests, scoring });
+  }
+
+  const { provider, model } = requireTaskModel('analysis');
 
   const hasUserInterests = userInterests && userInterests.trim().length > 0;
 
-  // Format publications for Gemini analysis
-  const publicationsList = scholarData.articles.slice(0, 200).map((article, idx) => {
-    return `${idx + 1}. "${article.title}" (${article.year || 'N/A'}) - Cited by: ${article.cited_by?.value || 0}`;
-  }).join('\n');
+  const publicationsList = formatPublicationsForPrompt(scholarData);
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-preview',
-      contents: `You are a STRICT research analyst evaluating a researcher's profile against specific user interests.
+    const raw = await provider.generateJson<unknown>({
+      model,
+      schema: ANALYSIS_RESPONSE_SCHEMA,
+      prompt: `You are a STRICT research analyst evaluating a researcher's profile against specific user interests.
       
 **Researcher Profile:** "${name}"
-**Publications (Recent 50):**
+**Publications (${Math.min(scholarData.articles.length, PROMPT_PUBLICATION_LIMIT)} of ${scholarData.articles.length} fetched):**
 ${publicationsList}
 
 ${hasUserInterests ? `**User's Research Interests:** ${userInterests}` : ''}
@@ -429,13 +496,9 @@ ${hasUserInterests ? `
    - Go through the User's Research Interests one by one.
    - For EACH interest, check if the researcher has published work addressing it.
    - Be flexible with wording (e.g. "MRI" matches "Medical Imaging").
-   - **CRITICAL:** Return a list of EXACTLY which user interests were matched.
-   - **Step 3: Assign Match Type:**
-     - **PERFECT MATCH:** Matches 100% of user interests.
-     - **HIGH MATCH:** Matches >= 80% but below 100%.
-     - **PARTIAL MATCH:** Matches 3 or more interests (but < 80%).
-     - **LOW MATCH:** Matches EXACTLY TWO (2) interests.
-     - **NONE:** Matches 0 or 1 interest.
+   - **CRITICAL:** Return a verdict for EVERY interest: matched or not, a confidence (high/medium/low),
+     a one-line justification and the titles of the papers behind it (empty when unmatched).
+   - The match tier is computed from these verdicts, so do not inflate them.
 
 3. Provide evidence:
    - Identify 3-5 specific matching keywords.
@@ -455,76 +518,105 @@ Return the result in the following JSON format:
       "supportingPapers": [{"title": "...", "year": "...", "citations": 0}]
     }
   ],
-  "matched_user_interests": ${hasUserInterests ? '["Interest 1", "Interest 2"]' : '[]'},
+  "interest_verdicts": ${hasUserInterests ? `[
+    {
+      "interest": "Interest 1",
+      "matched": true,
+      "confidence": "high",
+      "justification": "Several recent papers on...",
+      "supporting_papers": ["..."]
+    }
+  ]` : '[]'},
   "matchReason": "${hasUserInterests ? 'Explain the match (e.g. "Covered 4/5 interests: AI, Imaging...")' : 'null'}"
 }
 
-IMPORTANT: ${hasUserInterests ? 'Only include interests in "matched_user_interests" if there is clear evidence.' : 'Return the most prominent research themes.'}`,
-      config: {
-        responseMimeType: "application/json",
-      }
+IMPORTANT: ${hasUserInterests ? 'Only mark an interest "matched" if there is clear evidence.' : 'Return the most prominent research themes.'}`
     });
 
-    const jsonStr = response.text || "{}";
-    const parsed = JSON.parse(jsonStr);
-
-    const parsedUserInterests = userInterests
-      .split(/[,;]+/)
-      .map(s => s.trim())
-      .filter(s => s.length > 0);
-    const userInterestMap = new Map(parsedUserInterests.map(i => [i.toLowerCase(), i]));
-    const rawMatchedInterests = Array.isArray(parsed.matched_user_interests) ? parsed.matched_user_interests : [];
-    const matchedInterests = Array.from(
-      new Set(
-        rawMatchedInterests
-          .filter((item: unknown): item is string => typeof item === 'string')
-          .map(item => item.trim().toLowerCase())
-          .filter(item => item.length > 0 && userInterestMap.has(item))
-      )
-    ).map(item => userInterestMap.get(item) || item);
-
-    // --- Deterministic Match Logic ---
-    let matchType: MatchType = MatchType.NONE;
-    let isMatch = false;
-
-    if (hasUserInterests) {
-      const totalConcepts = parsedUserInterests.length;
-      const matchCount = matchedInterests.length;
-
-      // 3. Apply Threshold Rules
-      // High Match: >= 80% of total
-      const highThreshold = Math.ceil(totalConcepts * 0.8);
-      
-      if (totalConcepts > 0 && matchCount === totalConcepts) {
-        matchType = MatchType.PERFECT;
-        isMatch = true;
-      } else if (matchCount >= 2) {
-        if (matchCount >= highThreshold && totalConcepts >= 2) {
-          matchType = MatchType.HIGH;
-        } else if (matchCount >= 3) {
-          matchType = MatchType.PARTIAL; // 3+ but not high enough
-        } else {
-          matchType = MatchType.LOW; // Exact 2 matches
-        }
-        isMatch = true;
-      } else {
-        matchType = MatchType.NONE; // 0 or 1 match
-        isMatch = false;
-      }
-    }
+    const parsed = validateAnalysisResponse(raw);
 
     return {
-      summary: parsed.summary || "No summary available.",
-      keywords: parsed.keywords || [],
-      isMatch: isMatch,
-      matchType: matchType,
-      matchReason: parsed.matchReason || undefined,
-      matchedInterests
+      summary: parsed.summary,
+      // The model's citations are only trusted once found in the fetched list.
+      keywords: verifySupportingPapers(parsed.keywords, scholarData.articles),
+      ...buildInterestMatch(parsed, userInterests, scoring, scholarData.articles),
+      embeddingAlignment: await computeInterestAlignment(userInterests, scoring, scholarData.articles)
     };
 
   } catch (error: any) {
     console.error(`Scholar analysis error for ${name}:`, error);
-    throw new Error(`Gemini analysis failed: ${error?.message || 'Unknown error'}`);
+    throw new Error(`Publication analysis failed: ${error?.message || 'Unknown error'}`);
+  }
+};
+
+/**
+ * Re-runs only the interest-matching step of an analysis against the current
+ * interests, keeping the existing summary and keywords. Used to re-score
+ * researchers on cached publications after the interests change.
+ */
+export const rescoreScholarPublications = async (
+  name: string,
+  scholarData: ScholarAuthorData,
+  userInterests: string,
+  researchSummary?: string,
+  scoring?: InterestScoringOptions
+): Promise<InterestMatchResult> => {
+  if (parseUserInterests(userInterests).length === 0) {
+    // Set explicitly so a similarity computed for the old interests is cleared too.
+    return {
+      ...buildInterestMatch({ matchedUserInterests: [], interestVerdicts: [] }, userInterests, scoring, []),
+      embeddingAlignment: undefined
+    };
+  }
+  if (isBackendEnabled) {
+    return postToBackend<InterestMatchResult>('/api/rescore', {
+      name,
+      scholarData,
+      userInterests,
+      researchSummary,
+      scoring
+    });
+  }
+
+  const { provider, model } = requireTaskModel('analysis');
+
+  const schema: JsonSchema = {
+    type: 'object',
+    properties: {
+      interest_verdicts: INTEREST_VERDICTS_SCHEMA,
+      matchReason: {
+        type: 'string',
+        description: 'One sentence explaining the match, e.g. "Covered 4/5 interests: AI, Imaging..."'
+      }
+    },
+    required: ['interest_verdicts']
+  };
+
+  try {
+    const raw = await provider.generateJson<unknown>({
+      model,
+      schema,
+      prompt: `You are a STRICT research analyst checking which of a user's research interests a researcher's publications cover.
+
+**Researcher Profile:** "${name}"
+${researchSummary ? `**Research Summary:** ${researchSummary}\n` : ''}**Publications:**
+${formatPublicationsForPrompt(scholarData)}
+
+**User's Research Interests:** ${userInterests}
+
+Go through the user's interests one by one. For EACH interest, check if the researcher has published work addressing it.
+Be flexible with wording (e.g. "MRI" matches "Medical Imaging"), but only mark an interest matched if there is clear evidence.
+Return one verdict per interest, with the interest exactly as the user wrote it, a confidence, a one-line justification
+and the titles of the papers behind the verdict (empty when unmatched).`
+    });
+
+    return {
+      ...buildInterestMatch(validateInterestMatchResponse(raw), userInterests, scoring, scholarData.articles),
+      embeddingAlignment: await computeInterestAlignment(userInterests, scoring, scholarData.articles)
+    };
+  } catch (error: any) {
+    console.error(`Re-scoring error for ${name}:`, error);
+    throw new Error(`Re-scoring failed: ${error?.message || 'Unknown error'}`);
   }
 };
 
@@ -537,7 +629,12 @@ export const generateCustomizedLetter = async (
   userInterests: string,
   options?: LetterGenerationOptions
 ): Promise<string> => {
-  if (!apiKey) throw new Error("API Key is missing.");
+  if (isBackendEnabled) {
+    const { letter } = await postToBackend<{ letter: string }>('/api/letter', { template, researcher, userInterests, options });
+    return letter;
+  }
+
+  const { provider, model } = requireTaskModel('letter', options?.model);
 
   // Extract relevant research themes from the researcher's analysis
   const themeList = (researcher.tags || []).map(t => t.keyword).filter(Boolean);
@@ -565,16 +662,10 @@ export const generateCustomizedLetter = async (
     researcher_summary: researcher.interests || 'N/A',
     intersection_keywords: intersectionKeywords || 'None'
   });
-  const modelConfig = getLetterModelConfig(options);
 
   try {
-    const response = await ai.models.generateContent({
-      model: getLetterModelName(options),
-      contents: prompt,
-      ...(Object.keys(modelConfig).length > 0 ? { config: modelConfig } : {})
-    });
-
-    return response.text || "Failed to generate letter.";
+    const text = await provider.generateText({ model, prompt, config: getLetterGenerationConfig(options) });
+    return text || "Failed to generate letter.";
 
   } catch (error) {
     console.error("Letter generation error:", error);
@@ -594,7 +685,14 @@ export const reviseCustomizedLetterWithAnnotation = async (
   userInterests: string,
   options?: LetterRevisionOptions
 ): Promise<string> => {
-  if (!apiKey) throw new Error("API Key is missing.");
+  if (isBackendEnabled) {
+    const { letter } = await postToBackend<{ letter: string }>('/api/letter/revise', {
+      currentLetter, selectedText, annotation, researcher, userInterests, options
+    });
+    return letter;
+  }
+
+  const { provider, model } = requireTaskModel('letter', options?.model);
 
   const themeList = (researcher.tags || []).map(t => t.keyword).filter(Boolean);
   const researcherThemes = themeList.join(', ') || 'their research field';
@@ -614,16 +712,10 @@ export const reviseCustomizedLetterWithAnnotation = async (
     selected_text: selectedText,
     annotation
   });
-  const modelConfig = getLetterModelConfig(options);
 
   try {
-    const response = await ai.models.generateContent({
-      model: getLetterModelName(options),
-      contents: prompt,
-      ...(Object.keys(modelConfig).length > 0 ? { config: modelConfig } : {})
-    });
-
-    return response.text || currentLetter;
+    const text = await provider.generateText({ model, prompt, config: getLetterGenerationConfig(options) });
+    return text || currentLetter;
   } catch (error) {
     console.error("Letter revision error:", error);
     throw new Error("Failed to revise customized letter.");
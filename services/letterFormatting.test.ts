@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { buildRevisionPreview, buildRichTextHtml, stripFormattingMarkers } from './letterFormatting';
+
+const bodyOf = (html: string) => html.replace(/^<div[^>]*>/, '').replace(/<\/div>$/, '');
+const bold = (text: string) => `<strong style="font-weight: 700;">${text}</strong>`;
+
+describe('buildRichTextHtml', () => {
+  it.each<[string, string, string]>([
+    ['plain text', 'Dear Professor', 'Dear Professor'],
+    ['[[B]] markers', 'I study [[B]]MRI[[/B]].', `I study ${bold('MRI')}.`],
+    ['**** markers', '****Key**** point', `${bold('Key')} point`],
+    ['** markers', 'a **b** c', `a ${bold('b')} c`],
+    ['mixed markers', '[[B]]x[[/B]] and **y**', `${bold('x')} and ${bold('y')}`],
+    // The alternation tries ****…**** before **…**, so a 4-star run is one marker.
+    ['four stars beat two', '****a** b****', bold('a** b')],
+    // [[B]] is matched first, so ** inside it is literal text.
+    ['** nested in [[B]]', '[[B]]a **b** c[[/B]]', bold('a **b** c')],
+    // Overlapping spans: the earliest opening marker wins and the rest stays literal.
+    ['overlapping markers', '**a [[B]]b** c[[/B]]', `${bold('a [[B]]b')} c[[/B]]`],
+    ['unclosed marker stays literal', '**open only', '**open only'],
+    ['multi-line bold', '**line one\nline two**', bold('line one<br>line two')],
+    ['escapes HTML', '<b>"Tom" & Jerry\'s</b>', '&lt;b&gt;&quot;Tom&quot; &amp; Jerry&#39;s&lt;/b&gt;'],
+    ['escapes HTML inside bold', '**<i>**', bold('&lt;i&gt;')],
+    ['normalizes CRLF', 'a\r\nb', 'a<br>b']
+  ])('%s', (_, input, expected) => {
+    expect(bodyOf(buildRichTextHtml(input))).toBe(expected);
+  });
+
+  it('wraps the body in a styled container', () => {
+    expect(buildRichTextHtml('x')).toMatch(/^<div style="font-family: Helvetica, Arial, sans-serif;[^"]*">x<\/div>$/);
+  });
+});
+
+describe('stripFormattingMarkers', () => {
+  it.each<[string, string]>([
+    ['[[B]]a[[/B]] ****b**** **c**', 'a b c'],
+    ['**unclosed', '**unclosed'],
+    ['no markers', 'no markers']
+  ])('%j -> %j', (input, expected) => {
+    expect(stripFormattingMarkers(input)).toBe(expected);
+  });
+});
+
+describe('buildRevisionPreview', () => {
+  const letter = 'Dear Prof. X,\nI like your work on MRI.\nBest,\nY';
+
+  it('uses the selection when the rest of the letter is unchanged', () => {
+    const revised = letter.replace('I like your work on MRI.', 'Your MRI work inspired me.');
+    expect(buildRevisionPreview(letter, revised, 'I like your work on MRI.', 'r1')).toEqual({
+      researcherId: 'r1',
+      revisedLetter: revised,
+      start: 14,
+      end: 38,
+      beforeText: 'I like your work on MRI.',
+      afterText: 'Your MRI work inspired me.'
+    });
+  });
+
+  it('falls back to the common prefix/suffix when text outside the selection changed', () => {
+    const revised = 'Dear Professor X,\nI like your work on MRI.\nBest,\nY';
+    const preview = buildRevisionPreview(letter, revised, 'I like your work on MRI.', 'r1');
+    expect(preview.beforeText).toBe('.');
+    expect(preview.afterText).toBe('essor');
+    expect(letter.slice(0, preview.start) + preview.afterText + letter.slice(preview.end)).toBe(revised);
+  });
+
+  it('falls back when the selection is not in the letter', () => {
+    const revised = `${letter}\nP.S. Thanks`;
+    const preview = buildRevisionPreview(letter, revised, 'missing text', 'r1');
+    expect(preview).toMatchObject({ start: letter.length, end: letter.length, beforeText: '', afterText: '\nP.S. Thanks' });
+  });
+
+  it('reports an empty span for an identical revision', () => {
+    const preview = buildRevisionPreview(letter, letter, '', 'r1');
+    expect(preview.beforeText).toBe('');
+    expect(preview.afterText).toBe('');
+  });
+});
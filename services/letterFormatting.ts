@@ -0,0 +1,103 @@
+export interface RevisionPreview {
+  researcherId: string;
+  revisedLetter: string;
+  start: number;
+  end: number;
+  beforeText: string;
+  afterText: string;
+}
+
+export const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+/** Removes bold markers ([[B]]…[[/B]], ****…****, **…**), keeping their text. */
+export const stripFormattingMarkers = (value: string): string =>
+  value
+    .replace(/\[\[B\]\]([\s\S]*?)\[\[\/B\]\]/g, '$1')
+    .replace(/\*\*\*\*([\s\S]*?)\*\*\*\*/g, '$1')
+    .replace(/\*\*([\s\S]*?)\*\*/g, '$1');
+
+/**
+ * Renders a letter as email-safe HTML: text is escaped, bold markers become
+ * <strong> and line breaks become <br>.
+ */
+export const buildRichTextHtml = (value: string): string => {
+  const normalized = value.replace(/\r\n/g, '\n');
+  const markerPattern = /\[\[B\]\]([\s\S]*?)\[\[\/B\]\]|\*\*\*\*([\s\S]*?)\*\*\*\*|\*\*([\s\S]*?)\*\*/g;
+  let html = '';
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = markerPattern.exec(normalized)) !== null) {
+    html += escapeHtml(normalized.slice(lastIndex, match.index));
+    const boldContent = match[1] ?? match[2] ?? match[3] ?? '';
+    html += `<strong style="font-weight: 700;">${escapeHtml(boldContent)}</strong>`;
+    lastIndex = markerPattern.lastIndex;
+  }
+
+  html += escapeHtml(normalized.slice(lastIndex));
+  const bodyHtml = html.replace(/\n/g, '<br>');
+  return `<div style="font-family: Helvetica, Arial, sans-serif; font-size: 14px; line-height: 1.6; color: #000000;">${bodyHtml}</div>`;
+};
+
+/**
+ * Locates the span of the current letter that a revision replaced. Prefers
+ * the user's selection when the rest of the letter is unchanged; otherwise
+ * falls back to the longest common prefix/suffix.
+ */
+export const buildRevisionPreview = (
+  currentLetter: string,
+  revisedLetter: string,
+  selectedText: string,
+  researcherId: string
+): RevisionPreview => {
+  const selectedStart = selectedText ? currentLetter.indexOf(selectedText) : -1;
+
+  if (selectedStart >= 0) {
+    const prefix = currentLetter.slice(0, selectedStart);
+    const suffix = currentLetter.slice(selectedStart + selectedText.length);
+
+    if (revisedLetter.startsWith(prefix) && revisedLetter.endsWith(suffix)) {
+      return {
+        researcherId,
+        revisedLetter,
+        start: selectedStart,
+        end: selectedStart + selectedText.length,
+        beforeText: selectedText,
+        afterText: revisedLetter.slice(prefix.length, revisedLetter.length - suffix.length)
+      };
+    }
+  }
+
+  let prefixLen = 0;
+  const maxPrefix = Math.min(currentLetter.length, revisedLetter.length);
+  while (prefixLen < maxPrefix && currentLetter[prefixLen] === revisedLetter[prefixLen]) {
+    prefixLen += 1;
+  }
+
+  let suffixLen = 0;
+  const maxSuffix = Math.min(
+    currentLetter.length - prefixLen,
+    revisedLetter.length - prefixLen
+  );
+  while (
+    suffixLen < maxSuffix &&
+    currentLetter[currentLetter.length - 1 - suffixLen] === revisedLetter[revisedLetter.length - 1 - suffixLen]
+  ) {
+    suffixLen += 1;
+  }
+
+  return {
+    researcherId,
+    revisedLetter,
+    start: prefixLen,
+    end: currentLetter.length - suffixLen,
+    beforeText: currentLetter.slice(prefixLen, currentLetter.length - suffixLen),
+    afterText: revisedLetter.slice(prefixLen, revisedLetter.length - suffixLen)
+  };
+};
@@ -0,0 +1,73 @@
+import { LetterAiSettings } from '../types';
+import {
+  DEFAULT_LETTER_GENERATION_PROMPT_TEMPLATE,
+  DEFAULT_LETTER_REVISION_PROMPT_TEMPLATE
+} from './geminiService';
+
+const LETTER_AI_SETTINGS_STORAGE_KEY = 'customizeLetterAiSettings';
+
+// Saved settings used to always carry this model; it was the built-in default,
+// not a deliberate override of the letter task model.
+const LEGACY_DEFAULT_LETTER_MODEL = 'gemini-3-pro-preview';
+
+export const DEFAULT_LETTER_AI_SETTINGS: LetterAiSettings = {
+  // Empty means "use the model configured for the letter task".
+  model: '',
+  temperature: '',
+  topP: '',
+  topK: '',
+  maxOutputTokens: '',
+  generationPromptTemplate: DEFAULT_LETTER_GENERATION_PROMPT_TEMPLATE,
+  revisionPromptTemplate: DEFAULT_LETTER_REVISION_PROMPT_TEMPLATE
+};
+
+export const coerceClampedNumber = (
+  value: unknown,
+  min: number,
+  max: number,
+  integer = false
+): number | '' => {
+  if (value === '' || value === null || value === undefined) return '';
+  const numericValue = typeof value === 'number' ? value : Number(value);
+  if (!Number.isFinite(numericValue)) return '';
+  const clamped = Math.min(max, Math.max(min, numericValue));
+  return integer ? Math.round(clamped) : clamped;
+};
+
+/**
+ * Coerces an untrusted settings object (localStorage, imported bundle) into
+ * valid settings, falling back to defaults field by field.
+ */
+export const normalizeLetterAiSettings = (raw: unknown): LetterAiSettings => {
+  const parsed = (raw && typeof raw === 'object' ? raw : {}) as Partial<LetterAiSettings>;
+  return {
+    model: typeof parsed.model === 'string' && parsed.model.trim() !== LEGACY_DEFAULT_LETTER_MODEL ? parsed.model : '',
+    temperature: coerceClampedNumber(parsed.temperature, 0, 2),
+    topP: coerceClampedNumber(parsed.topP, 0, 1),
+    topK: coerceClampedNumber(parsed.topK, 1, 200, true),
+    maxOutputTokens: coerceClampedNumber(parsed.maxOutputTokens, 1, 8192, true),
+    generationPromptTemplate: typeof parsed.generationPromptTemplate === 'string' && parsed.generationPromptTemplate.trim()
+      ? parsed.generationPromptTemplate
+      : DEFAULT_LETTER_GENERATION_PROMPT_TEMPLATE,
+    revisionPromptTemplate: typeof parsed.revisionPromptTemplate === 'string' && parsed.revisionPromptTemplate.trim()
+      ? parsed.revisionPromptTemplate
+      : DEFAULT_LETTER_REVISION_PROMPT_TEMPLATE
+  };
+};
+
+export const loadLetterAiSettings = (): LetterAiSettings => {
+  if (typeof window === 'undefined') return DEFAULT_LETTER_AI_SETTINGS;
+  try {
+    const raw = window.localStorage.getItem(LETTER_AI_SETTINGS_STORAGE_KEY);
+    if (!raw) return DEFAULT_LETTER_AI_SETTINGS;
+    return normalizeLetterAiSettings(JSON.parse(raw));
+  } catch (error) {
+    console.error('Failed to load letter AI settings:', error);
+    return DEFAULT_LETTER_AI_SETTINGS;
+  }
+};
+
+export const saveLetterAiSettings = (settings: LetterAiSettings): void => {
+  if (typeof window === 'undefined') return;
+  window.localStorage.setItem(LETTER_AI_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
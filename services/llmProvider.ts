@@ -0,0 +1,55 @@
+import { LlmProviderId } from '../types';
+
+/**
+ * Provider-neutral subset of JSON Schema used to describe structured output.
+ * Adapters translate it into whatever their API expects.
+ */
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  required?: string[];
+  enum?: string[];
+  nullable?: boolean;
+}
+
+export interface GenerationConfig {
+  temperature?: number;
+  topP?: number;
+  topK?: number;
+  maxOutputTokens?: number;
+}
+
+export interface TextGenerationRequest {
+  model: string;
+  prompt: string;
+  config?: GenerationConfig;
+}
+
+export interface JsonGenerationRequest extends TextGenerationRequest {
+  /** When omitted the model is only asked for JSON, without a fixed shape. */
+  schema?: JsonSchema;
+}
+
+export interface EmbeddingRequest {
+  model: string;
+  texts: string[];
+}
+
+export interface LlmProvider {
+  /** `mock` is the offline demo model; it is never stored in settings. */
+  id: LlmProviderId | 'mock';
+  label: string;
+  isConfigured: () => boolean;
+  generateText: (request: TextGenerationRequest) => Promise<string>;
+  generateJson: <T = unknown>(request: JsonGenerationRequest) => Promise<T>;
+  /** One vector per text, in order. Absent on providers without an embeddings API. */
+  embed?: (request: EmbeddingRequest) => Promise<number[][]>;
+}
+
+// Models sometimes wrap JSON in markdown code fences even in JSON mode.
+export const parseJsonResponse = <T>(text: string): T => {
+  const cleaned = text.replace(/```json/g, '').replace(/```/g, '').trim();
+  return JSON.parse(cleaned || '{}') as T;
+};
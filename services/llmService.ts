@@ -0,0 +1,48 @@
+import { LlmProviderId, LlmSettings, LlmTask } from '../types';
+import { LlmProvider } from './llmProvider';
+import { geminiProvider } from './geminiProvider';
+import { createOpenAiCompatibleProvider } from './openAiCompatibleProvider';
+import { loadLlmSettings, normalizeLlmSettings } from './llmSettingsService';
+import { withLlmFixtures } from './fixtureService';
+
+let activeSettings: LlmSettings = loadLlmSettings();
+
+/** Replaces the settings used by subsequent model calls. */
+export const applyLlmSettings = (settings: LlmSettings): void => {
+  // Normalize so a model field cleared mid-edit falls back to its default.
+  activeSettings = normalizeLlmSettings(settings);
+};
+
+export const getLlmProvider = (providerId: LlmProviderId, settings: LlmSettings = activeSettings): LlmProvider =>
+  withLlmFixtures(
+    providerId === 'openai-compatible'
+      ? createOpenAiCompatibleProvider(settings.openAiCompatible)
+      : geminiProvider
+  );
+
+export interface ResolvedTaskModel {
+  provider: LlmProvider;
+  model: string;
+}
+
+/**
+ * Resolves the provider and model configured for a task. `modelOverride`
+ * lets callers with their own model setting (letter drafting) take
+ * precedence over the task default.
+ */
+export const resolveTaskModel = (task: LlmTask, modelOverride?: string): ResolvedTaskModel => {
+  const taskSettings = activeSettings.tasks[task];
+  return {
+    provider: getLlmProvider(taskSettings.provider),
+    model: modelOverride?.trim() || taskSettings.model
+  };
+};
+
+/** Like `resolveTaskModel`, but throws when the provider has no credentials/endpoint. */
+export const requireTaskModel = (task: LlmTask, modelOverride?: string): ResolvedTaskModel => {
+  const resolved = resolveTaskModel(task, modelOverride);
+  if (!resolved.provider.isConfigured()) {
+    throw new Error(`${resolved.provider.label} is not configured. Add its API key or endpoint before running this step.`);
+  }
+  return resolved;
+};
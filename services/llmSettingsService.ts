@@ -0,0 +1,75 @@
+import { LlmProviderId, LlmSettings, LlmTask, LlmTaskSettings } from '../types';
+import { readEnv } from './runtimeEnv';
+
+const LLM_SETTINGS_STORAGE_KEY = 'llmProviderSettings';
+
+export const LLM_PROVIDER_IDS: LlmProviderId[] = ['gemini', 'openai-compatible'];
+
+export const LLM_TASKS: Array<{ task: LlmTask; label: string; description: string }> = [
+  { task: 'extraction', label: 'Name Extraction', description: 'Finds professor names in pasted text.' },
+  { task: 'analysis', label: 'Publication Analysis', description: 'Summarizes publications and scores interest matches.' },
+  { task: 'letter', label: 'Letter Drafting', description: 'Customizes and revises outreach letters.' },
+  { task: 'emailExtraction', label: 'Email Lookup', description: 'Fallback when no email is found on a homepage by pattern.' },
+  { task: 'embedding', label: 'Embeddings', description: 'Embeds interests and titles for the similarity score. Needs an embedding model.' }
+];
+
+export const DEFAULT_LLM_SETTINGS: LlmSettings = {
+  tasks: {
+    extraction: { provider: 'gemini', model: 'gemini-3-flash-preview' },
+    analysis: { provider: 'gemini', model: 'gemini-3-pro-preview' },
+    letter: { provider: 'gemini', model: 'gemini-3-pro-preview' },
+    emailExtraction: { provider: 'gemini', model: 'gemini-3-flash-preview' },
+    embedding: { provider: 'gemini', model: 'gemini-embedding-001' }
+  },
+  openAiCompatible: {
+    baseUrl: readEnv('OPENAI_COMPATIBLE_BASE_URL', 'VITE_OPENAI_COMPATIBLE_BASE_URL'),
+    apiKey: ''
+  }
+};
+
+const normalizeTaskSettings = (raw: unknown, fallback: LlmTaskSettings): LlmTaskSettings => {
+  const parsed = (raw && typeof raw === 'object' ? raw : {}) as Partial<LlmTaskSettings>;
+  return {
+    provider: LLM_PROVIDER_IDS.includes(parsed.provider as LlmProviderId) ? parsed.provider as LlmProviderId : fallback.provider,
+    model: typeof parsed.model === 'string' && parsed.model.trim() ? parsed.model.trim() : fallback.model
+  };
+};
+
+/**
+ * Coerces stored settings into a complete object so tasks added in later
+ * versions pick up their defaults.
+ */
+export const normalizeLlmSettings = (raw: unknown): LlmSettings => {
+  const parsed = (raw && typeof raw === 'object' ? raw : {}) as Partial<LlmSettings>;
+  const tasks = (parsed.tasks && typeof parsed.tasks === 'object' ? parsed.tasks : {}) as Partial<LlmSettings['tasks']>;
+  const openAiCompatible = (parsed.openAiCompatible || {}) as Partial<LlmSettings['openAiCompatible']>;
+
+  return {
+    tasks: Object.fromEntries(
+      LLM_TASKS.map(({ task }) => [task, normalizeTaskSettings(tasks[task], DEFAULT_LLM_SETTINGS.tasks[task])])
+    ) as LlmSettings['tasks'],
+    openAiCompatible: {
+      baseUrl: typeof openAiCompatible.baseUrl === 'string'
+        ? openAiCompatible.baseUrl.trim()
+        : DEFAULT_LLM_SETTINGS.openAiCompatible.baseUrl,
+      apiKey: typeof openAiCompatible.apiKey === 'string' ? openAiCompatible.apiKey.trim() : ''
+    }
+  };
+};
+
+export const loadLlmSettings = (): LlmSettings => {
+  if (typeof window === 'undefined') return DEFAULT_LLM_SETTINGS;
+  try {
+    const raw = window.localStorage.getItem(LLM_SETTINGS_STORAGE_KEY);
+    if (!raw) return DEFAULT_LLM_SETTINGS;
+    return normalizeLlmSettings(JSON.parse(raw));
+  } catch (error) {
+    console.error('Failed to load LLM provider settings:', error);
+    return DEFAULT_LLM_SETTINGS;
+  }
+};
+
+export const saveLlmSettings = (settings: LlmSettings): void => {
+  if (typeof window === 'undefined') return;
+  window.localStorage.setItem(LLM_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
@@ -0,0 +1,221 @@
+import { describe, expect, it } from 'vitest';
+import { AnalysisStatus, InterestPreferences, MatchType, Researcher } from '../types';
+import {
+  alignInterestVerdicts,
+  applyInterestScoring,
+  computeMatchType,
+  getInterestSignature,
+  isResearcherScoreStale,
+  normalizeInterestPreferences,
+  normalizeMatchedInterests,
+  parseUserInterests,
+  scoreInterestMatch
+} from './matchScoring';
+
+describe('computeMatchType', () => {
+  it.each<[number, number, MatchType]>([
+    // [matched, total, expected]
+    [0, 0, MatchType.NONE],
+    [0, 1, MatchType.NONE],
+    [1, 1, MatchType.PERFECT],
+    [1, 2, MatchType.NONE],
+    [2, 2, MatchType.PERFECT],
+    [2, 3, MatchType.LOW],
+    [3, 3, MatchType.PERFECT],
+    [3, 4, MatchType.PARTIAL], // 75% is below the 80% HIGH threshold
+    [4, 4, MatchType.PERFECT],
+    [4, 5, MatchType.HIGH],
+    [3, 5, MatchType.PARTIAL],
+    [2, 5, MatchType.LOW],
+    [1, 5, MatchType.NONE],
+    [8, 10, MatchType.HIGH],
+    [7, 10, MatchType.PARTIAL],
+    [9, 10, MatchType.HIGH],
+    [10, 10, MatchType.PERFECT]
+  ])('%i of %i interests -> %s', (matched, total, expected) => {
+    expect(computeMatchType(matched, total).matchType).toBe(expected);
+  });
+
+  it('only flags LOW and above as a match', () => {
+    expect(computeMatchType(1, 4).isMatch).toBe(false);
+    expect(computeMatchType(2, 4).isMatch).toBe(true);
+  });
+});
+
+describe('parseUserInterests', () => {
+  it('splits on commas and semicolons and drops blanks', () => {
+    expect(parseUserInterests(' MRI, Synthetic Biology;;  Deep Learning ,')).toEqual([
+      'MRI',
+      'Synthetic Biology',
+      'Deep Learning'
+    ]);
+  });
+});
+
+describe('normalizeMatchedInterests', () => {
+  const interests = ['MRI', 'Synthetic Biology', 'Deep Learning'];
+
+  it.each<[string, unknown, string[]]>([
+    ['maps to the user spelling', ['mri', ' synthetic biology '], ['MRI', 'Synthetic Biology']],
+    ['drops interests the user never listed', ['MRI', 'Robotics'], ['MRI']],
+    ['deduplicates case variants', ['MRI', 'mri', 'Mri'], ['MRI']],
+    ['ignores non-string entries', ['MRI', 42, null, { name: 'Deep Learning' }], ['MRI']],
+    ['treats a non-array as no matches', 'MRI', []]
+  ])('%s', (_, raw, expected) => {
+    expect(normalizeMatchedInterests(raw, interests)).toEqual(expected);
+  });
+});
+
+describe('getInterestSignature', () => {
+  it('ignores order, case, spacing and duplicates', () => {
+    expect(getInterestSignature('MRI, Deep Learning')).toBe(getInterestSignature(' deep learning;mri ,MRI'));
+  });
+
+  it('changes when an interest is added', () => {
+    expect(getInterestSignature('MRI')).not.toBe(getInterestSignature('MRI, Robotics'));
+  });
+});
+
+describe('isResearcherScoreStale', () => {
+  const completed = (scoredInterests?: string): Researcher => ({
+    id: 'r1',
+    name: 'Jane Doe',
+    status: AnalysisStatus.COMPLETED,
+    scoredInterests
+  });
+
+  it.each<[string, Researcher, string, boolean]>([
+    ['same interests', completed('MRI, AI'), 'MRI, AI', false],
+    ['reordered interests', completed('MRI, AI'), 'ai; mri', false],
+    ['changed interests', completed('MRI, AI'), 'MRI, Robotics', true],
+    ['interests cleared', completed('MRI'), '', true],
+    ['scored with no interests', completed(''), '', false],
+    ['no snapshot (older save)', completed(undefined), 'MRI', true],
+    ['not analyzed yet', { id: 'r2', name: 'X', status: AnalysisStatus.PENDING }, 'MRI', false]
+  ])('%s', (_, researcher, userInterests, expected) => {
+    expect(isResearcherScoreStale(researcher, userInterests)).toBe(expected);
+  });
+});
+
+describe('scoreInterestMatch', () => {
+  const interests = ['MRI', 'Robotics', 'Genomics', 'Optics', 'Oncology'];
+
+  it('tiers unweighted interests exactly like computeMatchType', () => {
+    for (let matched = 0; matched <= interests.length; matched++) {
+      const result = scoreInterestMatch(interests.slice(0, matched), interests);
+      expect(result.matchType).toBe(computeMatchType(matched, interests.length).matchType);
+      expect(result.matchScore).toBe(matched * 20);
+    }
+  });
+
+  it.each<[string, string[], InterestPreferences, MatchType, number]>([
+    // [case, reported, preferences, tier, score]
+    // 2 of 5 unweighted is LOW, 3 of 5 is PARTIAL
+    ['heavy interests lift the tier', ['MRI', 'Robotics'], { mri: { weight: 3 }, robotics: { weight: 3 } }, MatchType.PARTIAL, 67],
+    ['light interests lower it', ['Genomics', 'Optics', 'Oncology'], { mri: { weight: 3 }, robotics: { weight: 3 } }, MatchType.NONE, 33],
+    ['80% of the weight is HIGH', ['MRI', 'Robotics', 'Genomics'], { mri: { weight: 3 }, robotics: { weight: 3 }, genomics: { weight: 2 } }, MatchType.HIGH, 80],
+    ['missing must-have caps at LOW', ['Robotics', 'Genomics', 'Optics', 'Oncology'], { mri: { weight: 1, requirement: 'must-have' } }, MatchType.LOW, 80],
+    ['a met must-have does not cap', ['MRI', 'Robotics', 'Genomics', 'Optics'], { mri: { weight: 1, requirement: 'must-have' } }, MatchType.HIGH, 80],
+    ['missing must-have leaves NONE as NONE', ['Robotics'], { mri: { weight: 1, requirement: 'must-have' } }, MatchType.NONE, 20],
+    ['matched exclusion is never a match', ['MRI', 'Robotics', 'Genomics', 'Optics', 'Oncology'], { oncology: { weight: 1, requirement: 'exclude' } }, MatchType.NONE, 100],
+    ['unmatched exclusion leaves the rest', ['MRI', 'Robotics', 'Genomics', 'Optics'], { oncology: { weight: 1, requirement: 'exclude' } }, MatchType.PERFECT, 100]
+  ])('%s', (_, reported, preferences, tier, score) => {
+    const result = scoreInterestMatch(reported, interests, preferences);
+    expect(result.matchType).toBe(tier);
+    expect(result.isMatch).toBe(tier !== MatchType.NONE);
+    expect(result.matchScore).toBe(score);
+  });
+
+  it('keeps matched exclusions out of the matched list', () => {
+    expect(scoreInterestMatch(['MRI', 'Oncology'], interests, { oncology: { weight: 1, requirement: 'exclude' } })).toMatchObject({
+      matchedInterests: ['MRI'],
+      excludedInterests: ['Oncology']
+    });
+  });
+
+  it('discounts matches by the recency weight of their evidence', () => {
+    const verdicts = ['MRI', 'Robotics'].map(interest => ({
+      interest,
+      matched: true,
+      confidence: 'high' as const,
+      justification: '',
+      supportingPapers: [],
+      recencyWeight: interest === 'MRI' ? 0.5 : undefined
+    }));
+    // 1 x 0.5 + 1 (undated, full weight) of 2
+    expect(scoreInterestMatch(['MRI', 'Robotics'], ['MRI', 'Robotics'], undefined, verdicts)).toMatchObject({
+      matchType: MatchType.NONE,
+      matchScore: 75
+    });
+  });
+
+  it('is NONE when every interest is excluded', () => {
+    expect(scoreInterestMatch([], ['MRI'], { mri: { weight: 1, requirement: 'exclude' } })).toMatchObject({
+      matchType: MatchType.NONE,
+      matchScore: 0
+    });
+  });
+});
+
+describe('normalizeInterestPreferences', () => {
+  it.each<[string, unknown, InterestPreferences]>([
+    ['lower-cases keys and keeps valid flags', { ' MRI ': { weight: 2, requirement: 'must-have' } }, { mri: { weight: 2, requirement: 'must-have' } }],
+    ['clamps weights and drops unknown flags', { mri: { weight: 99, requirement: 'maybe' }, ai: { weight: -1 } }, { mri: { weight: 3 }, ai: { weight: 1 } }],
+    ['drops non-object entries', { mri: 2, '': { weight: 1 } }, {}],
+    ['treats a non-object as empty', ['mri'], {}]
+  ])('%s', (_, raw, expected) => {
+    expect(normalizeInterestPreferences(raw)).toEqual(expected);
+  });
+});
+
+describe('applyInterestScoring', () => {
+  const analyzed: Researcher = {
+    id: 'r1',
+    name: 'Jane Doe',
+    status: AnalysisStatus.COMPLETED,
+    scoredInterests: 'MRI, Robotics, Oncology',
+    matchedInterests: ['MRI', 'Oncology'],
+    matchType: MatchType.LOW,
+    isMatch: true
+  };
+
+  it('re-tiers without losing what the model reported', () => {
+    const excluded = applyInterestScoring(analyzed, 'MRI, Robotics, Oncology', {
+      preferences: { oncology: { weight: 1, requirement: 'exclude' } }
+    });
+    expect(excluded).toMatchObject({ matchType: MatchType.NONE, matchedInterests: ['MRI'], excludedInterests: ['Oncology'] });
+
+    const restored = applyInterestScoring(excluded, 'MRI, Robotics, Oncology', {});
+    expect(restored).toMatchObject({ matchType: MatchType.LOW, matchedInterests: ['MRI', 'Oncology'], excludedInterests: [] });
+  });
+
+  it('leaves stale results for a re-score', () => {
+    expect(applyInterestScoring(analyzed, 'MRI', {})).toBe(analyzed);
+  });
+});
+
+describe('alignInterestVerdicts', () => {
+  const verdict = (interest: string, matched: boolean) => ({
+    interest,
+    matched,
+    confidence: 'high' as const,
+    justification: `${interest} verdict`,
+    supportingPapers: []
+  });
+
+  it('orders verdicts like the user, in their spelling, and fills gaps', () => {
+    expect(alignInterestVerdicts(
+      [verdict('robotics', true), verdict('Oncology', true), verdict('mri', false), verdict('MRI', true)],
+      ['MRI', 'Robotics', 'Genomics']
+    )).toEqual([
+      // The first verdict for an interest wins.
+      { ...verdict('MRI', false), justification: 'mri verdict' },
+      { ...verdict('Robotics', true), justification: 'robotics verdict' },
+      { interest: 'Genomics', matched: false, confidence: 'low', justification: 'Not assessed by the model.', supportingPapers: [] }
+    ]);
+  });
+
+  it('returns nothing when the model gave no verdicts', () => {
+    expect(alignInterestVerdicts([], ['MRI'])).toEqual([]);
+  });
+});
@@ -0,0 +1,229 @@
+import {
+  AnalysisStatus,
+  InterestMatchResult,
+  InterestPreference,
+  InterestPreferences,
+  InterestScoringOptions,
+  InterestVerdict,
+  MatchType,
+  Researcher
+} from '../types';
+import { annotateVerdictRecency, normalizeRecencySettings } from './recencyScoring';
+
+/** Splits the comma/semicolon separated interests field into trimmed entries. */
+export const parseUserInterests = (userInterests: string): string[] =>
+  userInterests
+    .split(/[,;]+/)
+    .map(s => s.trim())
+    .filter(s => s.length > 0);
+
+/**
+ * Keeps only the model-reported interests that are actually among the user's
+ * interests (case-insensitive), deduplicated and in the user's spelling.
+ */
+export const normalizeMatchedInterests = (rawMatchedInterests: unknown, userInterests: string[]): string[] => {
+  const userInterestMap = new Map(userInterests.map(i => [i.toLowerCase(), i]));
+  const candidates = Array.isArray(rawMatchedInterests) ? rawMatchedInterests : [];
+  return Array.from(
+    new Set(
+      candidates
+        .filter((item: unknown): item is string => typeof item === 'string')
+        .map(item => item.trim().toLowerCase())
+        .filter(item => item.length > 0 && userInterestMap.has(item))
+    )
+  ).map(item => userInterestMap.get(item) || item);
+};
+
+/**
+ * Deterministic match tier from how many of the user's interests matched:
+ * - PERFECT: all of them
+ * - HIGH: at least 80% (and at least 2)
+ * - PARTIAL: 3 or more, below 80%
+ * - LOW: exactly 2
+ * - NONE: 0 or 1
+ *
+ * `matchCount` may be fractional when interests are weighted.
+ */
+export const computeMatchType = (
+  matchCount: number,
+  totalInterests: number
+): { matchType: MatchType; isMatch: boolean } => {
+  if (totalInterests > 0 && matchCount >= totalInterests) {
+    return { matchType: MatchType.PERFECT, isMatch: true };
+  }
+  if (matchCount >= 2) {
+    if (matchCount >= totalInterests * 0.8 && totalInterests >= 2) return { matchType: MatchType.HIGH, isMatch: true };
+    if (matchCount >= 3) return { matchType: MatchType.PARTIAL, isMatch: true };
+    return { matchType: MatchType.LOW, isMatch: true };
+  }
+  return { matchType: MatchType.NONE, isMatch: false };
+};
+
+/**
+ * One verdict per user interest, in the user's order and spelling. Verdicts
+ * for interests the user never listed are dropped; interests the model
+ * skipped come back unmatched with low confidence. No verdicts at all (an
+ * older or schema-less response) gives an empty list.
+ */
+export const alignInterestVerdicts = (verdicts: InterestVerdict[], userInterests: string[]): InterestVerdict[] => {
+  if (verdicts.length === 0) return [];
+  const byInterest = new Map<string, InterestVerdict>();
+  verdicts.forEach(verdict => {
+    const key = verdict.interest.trim().toLowerCase();
+    if (!byInterest.has(key)) byInterest.set(key, verdict);
+  });
+  return userInterests.map(interest => {
+    const verdict = byInterest.get(interest.toLowerCase());
+    return verdict
+      ? { ...verdict, interest }
+      : { interest, matched: false, confidence: 'low', justification: 'Not assessed by the model.', supportingPapers: [] };
+  });
+};
+
+export const INTEREST_WEIGHT_OPTIONS = [1, 2, 3];
+
+const DEFAULT_INTEREST_PREFERENCE: InterestPreference = { weight: 1 };
+
+const normalizeInterestPreference = (raw: unknown): InterestPreference | undefined => {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const source = raw as Record<string, unknown>;
+  const weight = Number(source.weight);
+  const requirement = source.requirement === 'must-have' || source.requirement === 'exclude' ? source.requirement : undefined;
+  return {
+    weight: Number.isFinite(weight) && weight > 0 ? Math.min(weight, Math.max(...INTEREST_WEIGHT_OPTIONS)) : 1,
+    ...(requirement ? { requirement } : {})
+  };
+};
+
+/** Keeps well-formed entries, keyed by lower-cased interest. */
+export const normalizeInterestPreferences = (raw: unknown): InterestPreferences => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return {};
+  const preferences: InterestPreferences = {};
+  Object.entries(raw as Record<string, unknown>).forEach(([interest, value]) => {
+    const key = interest.trim().toLowerCase();
+    const preference = normalizeInterestPreference(value);
+    if (key && preference) preferences[key] = preference;
+  });
+  return preferences;
+};
+
+export const getInterestPreference = (
+  preferences: InterestPreferences | undefined,
+  interest: string
+): InterestPreference => preferences?.[interest.trim().toLowerCase()] || DEFAULT_INTEREST_PREFERENCE;
+
+// Weighted counts are compared against whole-number thresholds.
+const roundCount = (value: number): number => Math.round(value * 1e6) / 1e6;
+
+/**
+ * Match tier and weighted score from the interests the publications address.
+ *
+ * Excluded interests are left out of the score; the wanted interests count
+ * by weight (times the recency weight of their evidence, when `verdicts`
+ * carry one), and their weighted share is fed through `computeMatchType` as
+ * an equivalent count, so unweighted interests tier exactly as before.
+ * A missing must-have caps the tier at LOW and any matched exclusion makes it NONE.
+ */
+export const scoreInterestMatch = (
+  reportedInterests: string[],
+  userInterests: string[],
+  preferences?: InterestPreferences,
+  verdicts: InterestVerdict[] = []
+): Pick<InterestMatchResult, 'isMatch' | 'matchType' | 'matchedInterests' | 'excludedInterests' | 'matchScore'> => {
+  const reported = new Set(reportedInterests.map(i => i.toLowerCase()));
+  const recencyWeights = new Map(verdicts.map(v => [v.interest.toLowerCase(), v.recencyWeight ?? 1]));
+  const isExcluded = (interest: string) => getInterestPreference(preferences, interest).requirement === 'exclude';
+  const wanted = userInterests.filter(interest => !isExcluded(interest));
+  const matchedInterests = reportedInterests.filter(interest => !isExcluded(interest));
+  const excludedInterests = reportedInterests.filter(isExcluded);
+
+  const totalWeight = wanted.reduce((sum, interest) => sum + getInterestPreference(preferences, interest).weight, 0);
+  const matchedWeight = wanted
+    .filter(interest => reported.has(interest.toLowerCase()))
+    .reduce((sum, interest) =>
+      sum + getInterestPreference(preferences, interest).weight * (recencyWeights.get(interest.toLowerCase()) ?? 1), 0);
+  const share = totalWeight > 0 ? matchedWeight / totalWeight : 0;
+
+  let { matchType, isMatch } = wanted.length > 0
+    ? computeMatchType(roundCount(share * wanted.length), wanted.length)
+    : { matchType: MatchType.NONE, isMatch: false };
+
+  const isMissingMustHave = wanted.some(interest =>
+    getInterestPreference(preferences, interest).requirement === 'must-have' && !reported.has(interest.toLowerCase())
+  );
+  if (excludedInterests.length > 0) {
+    matchType = MatchType.NONE;
+    isMatch = false;
+  } else if (isMissingMustHave && matchType !== MatchType.NONE) {
+    matchType = MatchType.LOW;
+  }
+
+  return {
+    isMatch,
+    matchType,
+    matchedInterests,
+    excludedInterests,
+    matchScore: Math.round(share * 100)
+  };
+};
+
+/** Case- and order-insensitive fingerprint of an interests field. */
+export const getInterestSignature = (userInterests: string): string =>
+  Array.from(new Set(parseUserInterests(userInterests).map(i => i.toLowerCase()))).sort().join('\n');
+
+/**
+ * True when a completed analysis was scored against a different interest set
+ * than `userInterests`. Results saved before snapshots were recorded count as
+ * stale, since what they were scored against is unknown.
+ */
+export const isResearcherScoreStale = (researcher: Researcher, userInterests: string): boolean => {
+  if (researcher.status !== AnalysisStatus.COMPLETED) return false;
+  if (researcher.scoredInterests === undefined) return true;
+  return getInterestSignature(researcher.scoredInterests) !== getInterestSignature(userInterests);
+};
+
+/** Reads scoring options sent to the API server. */
+export const normalizeInterestScoringOptions = (raw: unknown): InterestScoringOptions => {
+  const source = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  return {
+    preferences: normalizeInterestPreferences(source.preferences),
+    recencyHalfLifeYears: normalizeRecencySettings({ halfLifeYears: source.recencyHalfLifeYears }).halfLifeYears
+  };
+};
+
+/**
+ * Tiers the model's per-interest verdicts: recency is annotated from the
+ * verified evidence, then the weighted score and tier are computed.
+ */
+export const scoreInterestVerdicts = (
+  reportedInterests: string[],
+  verdicts: InterestVerdict[],
+  userInterests: string[],
+  options: InterestScoringOptions = {}
+): Pick<InterestMatchResult, 'isMatch' | 'matchType' | 'matchedInterests' | 'excludedInterests' | 'matchScore' | 'interestVerdicts'> => {
+  const interestVerdicts = annotateVerdictRecency(verdicts, options.recencyHalfLifeYears ?? 0);
+  return {
+    ...scoreInterestMatch(reportedInterests, userInterests, options.preferences, interestVerdicts),
+    interestVerdicts: interestVerdicts.length > 0 ? interestVerdicts : undefined
+  };
+};
+
+/**
+ * Re-tiers a completed, up-to-date analysis after the interest preferences
+ * or the recency half-life change. The model's verdict on each interest is
+ * unchanged, so this needs no model call; stale results are left for a re-score.
+ */
+export const applyInterestScoring = (
+  researcher: Researcher,
+  userInterests: string,
+  options: InterestScoringOptions
+): Researcher => {
+  if (researcher.status !== AnalysisStatus.COMPLETED || isResearcherScoreStale(researcher, userInterests)) {
+    return researcher;
+  }
+  const reported = [...(researcher.matchedInterests || []), ...(researcher.excludedInterests || [])];
+  return {
+    ...researcher,
+    ...scoreInterestVerdicts(reported, researcher.interestVerdicts || [], parseUserInterests(userInterests), options)
+  };
+};
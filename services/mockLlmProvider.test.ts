@@ -0,0 +1,69 @@
+import { describe, expect, it, vi } from 'vitest';
+import fs from 'node:fs';
+import path from 'node:path';
+import { AnalysisStatus } from '../types';
+import { analyzeScholarPublications, extractResearchersFromChunk, generateCustomizedLetter, rescoreScholarPublications } from './geminiService';
+import { ScholarAuthorData } from './serpApiService';
+import { mockLlmProvider } from './mockLlmProvider';
+
+// Route every task to the mock, as the `demo` fixture mode does.
+vi.mock('./llmService', async () => {
+  const { mockLlmProvider: provider } = await import('./mockLlmProvider');
+  const resolve = () => ({ provider, model: 'mock' });
+  return { resolveTaskModel: resolve, requireTaskModel: resolve };
+});
+
+// The committed demo profile, so a change to the prompts that breaks the demo shows up here.
+const readDemoProfile = (): ScholarAuthorData => {
+  const dir = path.resolve(__dirname, '../fixtures/scholar-author');
+  const file = fs.readdirSync(dir).find(name => name.startsWith('demookafor01-'))!;
+  const { response } = JSON.parse(fs.readFileSync(path.join(dir, file), 'utf-8'));
+  return { name: response.author.name, affiliations: response.author.affiliations, articles: response.articles };
+};
+
+describe('mockLlmProvider', () => {
+  it('analyzes a demo profile the same way every time', async () => {
+    const scholarData = readDemoProfile();
+    const result = await analyzeScholarPublications('Maya Okafor', scholarData, 'soft robotics, surgical robots, genomics');
+
+    expect(result.summary).toBe('Publishes mainly on robots, soft, surgical, across 6 listed papers.');
+    expect(result.keywords.map(keyword => keyword.keyword)).toEqual(['robots', 'soft', 'surgical']);
+    expect(result.keywords[0].supportingPapers.length).toBeGreaterThan(0);
+    expect(result.matchedInterests).toEqual(['soft robotics', 'surgical robots']);
+    expect(result.interestVerdicts?.find(verdict => verdict.interest === 'genomics')).toMatchObject({ matched: false });
+    expect(await analyzeScholarPublications('Maya Okafor', scholarData, 'soft robotics, surgical robots, genomics')).toEqual(result);
+  });
+
+  it('re-scores against new interests', async () => {
+    const result = await rescoreScholarPublications('Maya Okafor', readDemoProfile(), 'hydrogels; genomics');
+    expect(result.matchedInterests).toEqual(['hydrogels']);
+    expect(result.interestVerdicts?.[0].supportingPapers.map(paper => paper.title)).toEqual(['Hydrogel actuators for soft robotic implants']);
+  });
+
+  it('extracts one person per line with their title and email', async () => {
+    const entries = await extractResearchersFromChunk([
+      'Faculty',
+      'Dr. Maya Okafor, Associate Professor of Bioengineering, mokafor@bioe.example.edu',
+      'Tomás Lindqvist - Professor of Radiology',
+      'Jordan Lee, Lab Manager'
+    ].join('\n'));
+    expect(entries).toEqual([
+      expect.objectContaining({ name: 'Maya Okafor', academicTitle: 'Associate Professor of Bioengineering', rank: 'associate', email: 'mokafor@bioe.example.edu' }),
+      expect.objectContaining({ name: 'Tomás Lindqvist', academicTitle: 'Professor of Radiology', rank: 'full' })
+    ]);
+  });
+
+  it('answers letters with the rendered prompt', async () => {
+    const letter = await generateCustomizedLetter('Dear Professor, I work on robots.', {
+      id: 'r1',
+      name: 'Maya Okafor',
+      status: AnalysisStatus.COMPLETED
+    }, 'soft robotics');
+    expect(letter).toMatch(/^\[Offline demo letter/);
+    expect(letter).toContain('Maya Okafor');
+  });
+
+  it('returns an empty object for requests it does not know', async () => {
+    expect(await mockLlmProvider.generateJson({ model: 'mock', prompt: 'Anything', schema: { type: 'object', properties: {} } })).toEqual({});
+  });
+});
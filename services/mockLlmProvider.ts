@@ -0,0 +1,135 @@
+import { JsonGenerationRequest, LlmProvider } from './llmProvider';
+import { parseUserInterests } from './matchScoring';
+import { getEmailCandidatesFromText } from './emailParsing';
+
+const STOP_WORDS = new Set([
+  'about', 'after', 'among', 'analysis', 'approach', 'based', 'between', 'from', 'into', 'method', 'methods', 'novel',
+  'over', 'study', 'their', 'through', 'toward', 'towards', 'under', 'using', 'with', 'within', 'without'
+]);
+
+const TITLE_WORDS = /prof|lecturer|scientist|fellow|instructor|chair|researcher/i;
+
+interface PromptPublication {
+  title: string;
+  year: string;
+  citations: number;
+}
+
+const readSection = (prompt: string, marker: string): string => {
+  const start = prompt.indexOf(marker);
+  return start === -1 ? '' : prompt.slice(start + marker.length);
+};
+
+// Lines written by formatPublicationLine: `1. "Title" (2024) - Cited by: 12`.
+const readPublications = (prompt: string): PromptPublication[] =>
+  [...prompt.matchAll(/^\s*\d+\. "(.*)" \((.*?)\) - Cited by: (\d+)\s*$/gm)].map(([, title, year, citations]) => ({
+    title,
+    year: year === 'N/A' ? '' : year,
+    citations: Number(citations)
+  }));
+
+const readInterests = (prompt: string): string[] =>
+  parseUserInterests(/\*\*User's Research Interests:\*\* (.*)/.exec(prompt)?.[1] || '');
+
+const toWords = (text: string): string[] =>
+  text.toLowerCase().split(/[^a-z0-9]+/).filter(word => word.length > 3 && !STOP_WORDS.has(word));
+
+// Shared five-letter stems let "robotic" match "robotics" and "imaging" match "images".
+const sharesStem = (a: string, b: string): boolean => a.slice(0, 5) === b.slice(0, 5);
+
+const findPapersFor = (phrase: string, publications: PromptPublication[]): PromptPublication[] => {
+  const phraseWords = toWords(phrase);
+  return publications.filter(publication => toWords(publication.title).some(word => phraseWords.some(target => sharesStem(word, target))));
+};
+
+const topKeywords = (publications: PromptPublication[], count: number): string[] => {
+  const frequency = new Map<string, number>();
+  publications.forEach(publication => {
+    new Set(toWords(publication.title)).forEach(word => frequency.set(word, (frequency.get(word) || 0) + 1));
+  });
+  const keywords: string[] = [];
+  [...frequency.entries()]
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .forEach(([word]) => {
+      if (keywords.length < count && !keywords.some(keyword => sharesStem(keyword, word))) keywords.push(word);
+    });
+  return keywords;
+};
+
+const buildVerdicts = (prompt: string, publications: PromptPublication[]) =>
+  readInterests(prompt).map(interest => {
+    const papers = findPapersFor(interest, publications).slice(0, 3);
+    return {
+      interest,
+      matched: papers.length > 0,
+      confidence: papers.length >= 3 ? 'high' : papers.length === 2 ? 'medium' : 'low',
+      justification: papers.length > 0
+        ? `${papers.length} listed ${papers.length === 1 ? 'title mentions' : 'titles mention'} it.`
+        : 'No listed title mentions it.',
+      supporting_papers: papers.map(paper => paper.title)
+    };
+  });
+
+const buildInterestMatch = (prompt: string, publications: PromptPublication[]) => {
+  const verdicts = buildVerdicts(prompt, publications);
+  const matched = verdicts.filter(verdict => verdict.matched).map(verdict => verdict.interest);
+  return {
+    interest_verdicts: verdicts,
+    matchReason: verdicts.length > 0 ? `Covered ${matched.length}/${verdicts.length} interests${matched.length ? `: ${matched.join(', ')}` : ''}.` : null
+  };
+};
+
+const buildAnalysis = (prompt: string) => {
+  const publications = readPublications(prompt);
+  const keywords = topKeywords(publications, 3);
+  return {
+    summary: keywords.length > 0
+      ? `Publishes mainly on ${keywords.join(', ')}, across ${publications.length} listed papers.`
+      : 'No publications were listed.',
+    keywords: keywords.map(keyword => {
+      const papers = findPapersFor(keyword, publications).slice(0, 3);
+      return {
+        keyword,
+        reasoning: `Appears in ${papers.length} of the listed titles.`,
+        supportingPapers: papers
+      };
+    }),
+    ...buildInterestMatch(prompt, publications)
+  };
+};
+
+// One person per line: "Dr. Jane Doe, Associate Professor of ..., jane@x.edu".
+const buildExtraction = (prompt: string) => {
+  const people = readSection(prompt, 'Text to process:').split('\n').flatMap(line => {
+    const match = /^\s*(?:(?:Dr|Prof|Professor)\.?\s+)?(\p{Lu}[\p{L}'’-]+(?:\s+\p{Lu}[\p{L}.'’-]*){1,3})\s*[,|–—-]\s*(.+)$/u.exec(line);
+    if (!match || !TITLE_WORDS.test(match[2])) return [];
+    const [title] = match[2].split(/\s*[,|–—]\s*/);
+    return [{ name: match[1], title, email: getEmailCandidatesFromText(line)[0] }];
+  });
+  return { people };
+};
+
+const generateJson = async <T>({ prompt, schema }: JsonGenerationRequest): Promise<T> => {
+  const fields = schema?.properties || {};
+  let response: unknown = {};
+  if (fields.people) response = buildExtraction(prompt);
+  else if (fields.email) response = { email: getEmailCandidatesFromText(readSection(prompt, 'Page text:'))[0] || '' };
+  else if (fields.summary) response = buildAnalysis(prompt);
+  else if (fields.interest_verdicts) response = buildInterestMatch(prompt, readPublications(prompt));
+  return response as T;
+};
+
+/**
+ * Offline stand-in for a model, used by the `demo` fixture mode. Answers are
+ * derived from the prompt with plain word matching, so the same input always
+ * gives the same result and the whole pipeline runs without keys. The
+ * request kind is read from the schema's fields.
+ */
+export const mockLlmProvider: LlmProvider = {
+  id: 'mock',
+  label: 'Offline demo model',
+  isConfigured: () => true,
+  // Letters echo the rendered prompt, which shows what a real model would have been asked.
+  generateText: async ({ prompt }) => `[Offline demo letter: connect a model provider for a real draft.]\n\n${prompt.trim()}`,
+  generateJson
+};
@@ -0,0 +1,100 @@
+import { LlmSettings } from '../types';
+import { GenerationConfig, JsonGenerationRequest, JsonSchema, LlmProvider, parseJsonResponse } from './llmProvider';
+
+type OpenAiCompatibleSettings = LlmSettings['openAiCompatible'];
+
+const toRequestOptions = (config?: GenerationConfig): Record<string, number> => {
+  const options: Record<string, number> = {};
+  if (typeof config?.temperature === 'number') options.temperature = config.temperature;
+  if (typeof config?.topP === 'number') options.top_p = config.topP;
+  // Not part of the OpenAI API, but vLLM, llama.cpp and Ollama accept it.
+  if (typeof config?.topK === 'number') options.top_k = config.topK;
+  if (typeof config?.maxOutputTokens === 'number') options.max_tokens = config.maxOutputTokens;
+  return options;
+};
+
+// JSON Schema has no `nullable`; express it as a type union instead.
+const toJsonSchema = (schema: JsonSchema): Record<string, unknown> => {
+  const { nullable, properties, items, ...rest } = schema;
+  return {
+    ...rest,
+    ...(nullable ? { type: [schema.type, 'null'] } : {}),
+    ...(items ? { items: toJsonSchema(items) } : {}),
+    ...(properties
+      ? {
+          properties: Object.fromEntries(
+            Object.entries(properties).map(([key, value]) => [key, toJsonSchema(value)])
+          )
+        }
+      : {})
+  };
+};
+
+/**
+ * Adapter for any server exposing the OpenAI `/chat/completions` API
+ * (vLLM, Ollama, llama.cpp server, LM Studio, OpenAI itself). Embeddings
+ * use `/embeddings` on the same server.
+ */
+export const createOpenAiCompatibleProvider = (settings: OpenAiCompatibleSettings): LlmProvider => {
+  const baseUrl = settings.baseUrl.trim().replace(/\/+$/, '');
+
+  const post = async (path: string, body: Record<string, unknown>): Promise<any> => {
+    if (!baseUrl) throw new Error('OpenAI-compatible base URL is not configured.');
+
+    const response = await fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(settings.apiKey.trim() ? { Authorization: `Bearer ${settings.apiKey.trim()}` } : {})
+      },
+      body: JSON.stringify(body)
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => '');
+      throw new Error(`OpenAI-compatible API Error: ${response.status} ${response.statusText} ${errorText}`.trim());
+    }
+
+    return response.json();
+  };
+
+  const requestCompletion = async (body: Record<string, unknown>): Promise<string> => {
+    const data = await post('/chat/completions', body);
+    const content = data?.choices?.[0]?.message?.content;
+    return typeof content === 'string' ? content : '';
+  };
+
+  return {
+    id: 'openai-compatible',
+    label: 'OpenAI-compatible',
+    isConfigured: () => Boolean(baseUrl),
+
+    generateText: ({ model, prompt, config }) =>
+      requestCompletion({
+        model,
+        messages: [{ role: 'user', content: prompt }],
+        ...toRequestOptions(config)
+      }),
+
+    generateJson: async <T>({ model, prompt, config, schema }: JsonGenerationRequest): Promise<T> => {
+      const text = await requestCompletion({
+        model,
+        messages: [{ role: 'user', content: prompt }],
+        response_format: schema
+          ? { type: 'json_schema', json_schema: { name: 'response', schema: toJsonSchema(schema) } }
+          : { type: 'json_object' },
+        ...toRequestOptions(config)
+      });
+      return parseJsonResponse<T>(text);
+    },
+
+    embed: async ({ model, texts }) => {
+      const data = await post('/embeddings', { model, input: texts });
+      const entries: Array<{ index?: number; embedding?: number[] }> = Array.isArray(data?.data) ? data.data : [];
+      // Entries carry their input index; some servers do not keep the order.
+      return [...entries]
+        .sort((a, b) => (a.index ?? 0) - (b.index ?? 0))
+        .map(entry => (Array.isArray(entry.embedding) ? entry.embedding : []));
+    }
+  };
+};
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { foldDiacritics, tokenizePersonName } from './personName';
+
+describe('tokenizePersonName', () => {
+  it.each<[string, string[]]>([
+    ['John A. Smith', ['john', 'a', 'smith']],
+    ['Smith, John', ['john', 'smith']],
+    ['Prof. Dr. José García Jr.', ['jose', 'garcia']],
+    ['Mary O’Neil (MIT)', ['mary', "o'neil"]],
+    ['Anna van der Berg-Smit', ['anna', 'van', 'der', 'berg-smit']],
+    ['Bjørn Olsen', ['bjorn', 'olsen']],
+    ['Łukasz Nowak', ['lukasz', 'nowak']],
+    ['王伟', ['王伟']],
+    ['김민준', ['김민준']],
+    ['Иван Петров', ['иван', 'петров']],
+    ['  ', []]
+  ])('%s', (name, expected) => {
+    expect(tokenizePersonName(name)).toEqual(expected);
+  });
+
+  it('folds accents and case', () => {
+    expect(foldDiacritics('ÉMILE Zoë')).toBe('emile zoe');
+    expect(foldDiacritics('Strauß Đorđević Ærø')).toBe('strauss dordevic aero');
+  });
+});
@@ -0,0 +1,34 @@
+// Titles and suffixes that say nothing about who a person is.
+const NAME_NOISE = new Set(['dr', 'prof', 'professor', 'mr', 'mrs', 'ms', 'jr', 'sr', 'ii', 'iii', 'iv', 'phd', 'md']);
+
+// Latin letters that do not decompose into a base letter and an accent.
+const TRANSLITERATIONS: Record<string, string> = { 'ø': 'o', 'ł': 'l', 'ß': 'ss', 'đ': 'd', 'æ': 'ae' };
+
+/**
+ * Lowercases and strips accents, so "José" and "Jose" or "Bjørn" and "Bjorn"
+ * compare equal. Other scripts are kept as they are.
+ */
+export const foldDiacritics = (text: string): string =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    // Recompose what the accent strip left alone, such as Hangul syllables.
+    .normalize('NFC')
+    .toLowerCase()
+    .replace(/[øłßđæ]/g, letter => TRANSLITERATIONS[letter]);
+
+/**
+ * Folded name words in "First ... Last" order. Accepts "Last, First", and
+ * drops accents, punctuation, parenthesised notes, titles and suffixes.
+ */
+export const tokenizePersonName = (name: string): string[] => {
+  const [last, first] = name.includes(',') ? name.split(',', 2) : [undefined, undefined];
+  const ordered = last !== undefined ? `${first} ${last}` : name;
+  return foldDiacritics(ordered)
+    .replace(/\([^)]*\)/g, ' ')
+    .replace(/’/g, "'")
+    .replace(/[^\p{L}\p{M}\s'-]/gu, ' ')
+    .split(/\s+/)
+    .map(token => token.replace(/^['-]+|['-]+$/g, ''))
+    .filter(token => token && !NAME_NOISE.has(token));
+};
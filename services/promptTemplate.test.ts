@@ -0,0 +1,16 @@
+import { describe, expect, it } from 'vitest';
+import { renderPromptTemplate } from './promptTemplate';
+
+describe('renderPromptTemplate', () => {
+  it.each<[string, string, Record<string, string>, string]>([
+    ['substitutes variables', 'Hello {{name}}!', { name: 'Prof. Doe' }, 'Hello Prof. Doe!'],
+    ['repeats substitutions', '{{a}}-{{a}}', { a: 'x' }, 'x-x'],
+    ['blanks unknown variables', 'Hi {{missing}}.', {}, 'Hi .'],
+    ['keeps empty values empty', '[{{v}}]', { v: '' }, '[]'],
+    ['ignores malformed placeholders', '{{ name }} {name} {{na-me}}', { name: 'x' }, '{{ name }} {name} {{na-me}}'],
+    // Values are inserted literally, including `$` patterns and other placeholders.
+    ['does not expand values', '{{a}}', { a: '$& {{b}}', b: 'nope' }, '$& {{b}}']
+  ])('%s', (_, template, variables, expected) => {
+    expect(renderPromptTemplate(template, variables)).toBe(expected);
+  });
+});
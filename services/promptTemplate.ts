@@ -0,0 +1,7 @@
+/** Replaces `{{name}}` placeholders; unknown names render as empty strings. */
+export const renderPromptTemplate = (
+  template: string,
+  variables: Record<string, string>
+) => {
+  return template.replace(/\{\{([a-zA-Z0-9_]+)\}\}/g, (_, key: string) => variables[key] ?? '');
+};
@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest';
+import { ScholarPublication } from './serpApiService';
+import {
+  filterAndSortPublications,
+  getPublicationKey,
+  getSupportedInterests,
+  indexSupportingPapers,
+  mergePublicationLists,
+  selectPromptPublications,
+  toResearcherPublications,
+  toScholarArticles
+} from './publicationList';
+
+const paper = (title: string, year?: string, citations?: number, citation_id?: string): ScholarPublication => ({
+  title,
+  year,
+  citation_id,
+  ...(citations !== undefined ? { cited_by: { value: citations } } : {})
+});
+
+describe('getPublicationKey', () => {
+  it.each<[string, ScholarPublication, ScholarPublication, boolean]>([
+    ['same citation id', paper('A', '2020', 1, 'x:1'), paper('A (preprint)', '2019', 0, 'x:1'), true],
+    ['different citation ids', paper('A', '2020', 1, 'x:1'), paper('A', '2020', 1, 'x:2'), false],
+    ['title differing in case and punctuation', paper('Deep-Learning for MRI.'), paper('deep learning for mri'), true],
+    ['different titles', paper('Deep learning for MRI'), paper('Deep learning for CT'), false]
+  ])('%s', (_, a, b, same) => {
+    expect(getPublicationKey(a) === getPublicationKey(b)).toBe(same);
+  });
+});
+
+describe('mergePublicationLists', () => {
+  it('keeps the first occurrence across pages and lists', () => {
+    const recent = [paper('New', '2024', 1, 'n'), paper('Classic', '2010', 900, 'c')];
+    const cited = [paper('Classic', '2010', 905, 'c'), paper('Landmark', '2005', 2000, 'l')];
+    expect(mergePublicationLists(recent, cited)).toEqual([recent[0], recent[1], cited[1]]);
+  });
+
+  it('drops entries without a title', () => {
+    expect(mergePublicationLists([paper(''), paper('Kept')])).toEqual([paper('Kept')]);
+  });
+});
+
+describe('selectPromptPublications', () => {
+  const articles = [
+    paper('Recent A', '2024', 3),
+    paper('Recent B', '2023', 0),
+    paper('Old landmark', '2001', 5000),
+    paper('Mid', '2015', 40),
+    paper('Undated', undefined, 0)
+  ];
+
+  it('lists the most-cited first, then the rest newest first', () => {
+    const { mostCited, recent } = selectPromptPublications(articles, 10, 2);
+    expect(mostCited.map(a => a.title)).toEqual(['Old landmark', 'Mid']);
+    expect(recent.map(a => a.title)).toEqual(['Recent A', 'Recent B', 'Undated']);
+  });
+
+  it('respects the overall limit', () => {
+    const { mostCited, recent } = selectPromptPublications(articles, 3, 2);
+    expect(mostCited.length + recent.length).toBe(3);
+    expect(recent.map(a => a.title)).toEqual(['Recent A']);
+  });
+
+  it('never treats uncited papers as landmarks', () => {
+    const { mostCited } = selectPromptPublications([paper('X', '2020', 0)], 10, 5);
+    expect(mostCited).toEqual([]);
+  });
+});
+
+describe('toResearcherPublications', () => {
+  it('keeps the browsable fields and strips the year from the venue', () => {
+    expect(toResearcherPublications([
+      { title: 'Deep learning', authors: 'Y LeCun, Y Bengio', year: '2015', citation: 'Nature 521 (7553), 436-444, 2015', cited_by: { value: 90000 }, citation_id: 'x:1' },
+      { title: 'Preprint', publication: 'arXiv preprint arXiv:2401.00001' },
+      { title: '' }
+    ])).toEqual([
+      { title: 'Deep learning', authors: 'Y LeCun, Y Bengio', year: '2015', venue: 'Nature 521 (7553), 436-444', citations: 90000, citationId: 'x:1' },
+      { title: 'Preprint', authors: undefined, year: undefined, venue: 'arXiv preprint arXiv:2401.00001', citations: undefined, citationId: undefined }
+    ]);
+  });
+});
+
+describe('toScholarArticles', () => {
+  it('restores the fields used for prompts and evidence checks', () => {
+    const articles = toScholarArticles([
+      { title: 'Deep learning', authors: 'Y LeCun', year: '2015', venue: 'Nature', citations: 90000, citationId: 'x:1' },
+      { title: 'Preprint' }
+    ]);
+    expect(articles).toEqual([
+      { title: 'Deep learning', authors: 'Y LeCun', year: '2015', publication: 'Nature', citation_id: 'x:1', cited_by: { value: 90000 } },
+      { title: 'Preprint', authors: undefined, year: undefined, publication: undefined, citation_id: undefined }
+    ]);
+    expect(toResearcherPublications(articles)[0]).toEqual({
+      title: 'Deep learning', authors: 'Y LeCun', year: '2015', venue: 'Nature', citations: 90000, citationId: 'x:1'
+    });
+  });
+});
+
+describe('filterAndSortPublications', () => {
+  const publications = toResearcherPublications([
+    paper('Soft robotic grippers', '2019', 120),
+    paper('Tissue engineering scaffolds', '2022', 15),
+    paper('Robotic tissue manipulation', '2022', 40),
+    paper('Untitled note')
+  ]);
+  const titles = (query: string, sortKey: 'year' | 'citations') =>
+    filterAndSortPublications(publications, query, sortKey).map(p => p.title);
+
+  it.each<[string, string, 'year' | 'citations', string[]]>([
+    ['newest first, citations breaking ties', '', 'year', ['Robotic tissue manipulation', 'Tissue engineering scaffolds', 'Soft robotic grippers', 'Untitled note']],
+    ['most cited first', '', 'citations', ['Soft robotic grippers', 'Robotic tissue manipulation', 'Tissue engineering scaffolds', 'Untitled note']],
+    ['every query word must appear', 'robotic TISSUE', 'year', ['Robotic tissue manipulation']],
+    ['punctuation in the query is ignored', 'soft-robotic', 'year', ['Soft robotic grippers']],
+    ['no match', 'genomics', 'year', []]
+  ])('%s', (_, query, sortKey, expected) => {
+    expect(titles(query, sortKey)).toEqual(expected);
+  });
+});
+
+describe('indexSupportingPapers', () => {
+  const index = indexSupportingPapers([
+    { keyword: 'Soft robotics', reasoning: '', supportingPapers: [{ title: 'Soft Robotic Grippers.' }, { title: 'Robotic tissue manipulation' }] },
+    { keyword: 'Tissue engineering', reasoning: '', supportingPapers: [{ title: 'robotic tissue manipulation' }] }
+  ]);
+
+  it.each<[string, string[]]>([
+    ['Soft robotic grippers', ['Soft robotics']],
+    ['Robotic tissue manipulation', ['Soft robotics', 'Tissue engineering']],
+    ['Tissue engineering scaffolds', []]
+  ])('%s', (title, expected) => {
+    expect(getSupportedInterests(index, { title })).toEqual(expected);
+  });
+});
@@ -0,0 +1,126 @@
+import type { KeywordEvidence, ResearcherPublication } from '../types';
+import type { ScholarPublication } from './serpApiService';
+
+export const normalizeTitle = (title: string): string => title.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+/**
+ * Identity of a publication across SerpAPI pages and sort orders: Scholar's
+ * citation ID when present, otherwise the normalized title.
+ */
+export const getPublicationKey = (article: ScholarPublication): string =>
+  article.citation_id ? `id:${article.citation_id}` : `title:${normalizeTitle(article.title || '')}`;
+
+/** Concatenates article lists, keeping the first occurrence of each publication. */
+export const mergePublicationLists = (...lists: ScholarPublication[][]): ScholarPublication[] => {
+  const seen = new Set<string>();
+  const merged: ScholarPublication[] = [];
+  lists.flat().forEach(article => {
+    if (!article?.title) return;
+    const key = getPublicationKey(article);
+    if (seen.has(key)) return;
+    seen.add(key);
+    merged.push(article);
+  });
+  return merged;
+};
+
+const getYear = (article: ScholarPublication): number => Number.parseInt(article.year || '', 10) || 0;
+const getCitations = (article: ScholarPublication): number => article.cited_by?.value || 0;
+
+/** Most papers listed in an analysis prompt, however many were fetched. */
+export const PROMPT_PUBLICATION_LIMIT = 200;
+
+export interface PromptPublicationSelection {
+  mostCited: ScholarPublication[];
+  recent: ScholarPublication[];
+}
+
+/**
+ * Picks what the analysis prompt shows: the `landmarkCount` most-cited papers,
+ * then the newest of the rest, `limit` papers in total with no repeats.
+ */
+export const selectPromptPublications = (
+  articles: ScholarPublication[],
+  limit = PROMPT_PUBLICATION_LIMIT,
+  landmarkCount = 25
+): PromptPublicationSelection => {
+  const mostCited = [...articles]
+    .filter(article => getCitations(article) > 0)
+    .sort((a, b) => getCitations(b) - getCitations(a))
+    .slice(0, Math.min(landmarkCount, limit));
+  const chosen = new Set(mostCited);
+  const recent = [...articles]
+    .filter(article => !chosen.has(article))
+    .sort((a, b) => getYear(b) - getYear(a))
+    .slice(0, limit - mostCited.length);
+  return { mostCited, recent };
+};
+
+// Scholar venue lines end with the year, which is shown separately.
+const toVenue = (article: ScholarPublication): string | undefined =>
+  (article.citation || article.publication || '').replace(/(^|,)\s*\d{4}\s*$/, '').trim() || undefined;
+
+/** Slims fetched articles down to the fields kept on the researcher. */
+export const toResearcherPublications = (articles: ScholarPublication[]): ResearcherPublication[] =>
+  articles
+    .filter(article => article?.title)
+    .map(article => ({
+      title: article.title,
+      authors: article.authors || undefined,
+      year: article.year || undefined,
+      venue: toVenue(article),
+      citations: article.cited_by?.value,
+      citationId: article.citation_id
+    }));
+
+/** Rebuilds article records from stored publications, e.g. to re-score without fetching Scholar again. */
+export const toScholarArticles = (publications: ResearcherPublication[]): ScholarPublication[] =>
+  publications.map(publication => ({
+    title: publication.title,
+    authors: publication.authors,
+    year: publication.year,
+    publication: publication.venue,
+    citation_id: publication.citationId,
+    ...(publication.citations !== undefined ? { cited_by: { value: publication.citations } } : {})
+  }));
+
+export type PublicationSortKey = 'year' | 'citations';
+
+/**
+ * Publications whose title contains every word of `query`, newest or
+ * most-cited first. Ties fall back to the other key, then the title.
+ */
+export const filterAndSortPublications = (
+  publications: ResearcherPublication[],
+  query: string,
+  sortKey: PublicationSortKey
+): ResearcherPublication[] => {
+  const words = normalizeTitle(query).split(' ').filter(Boolean);
+  const year = (publication: ResearcherPublication) => Number.parseInt(publication.year || '', 10) || 0;
+  const citations = (publication: ResearcherPublication) => publication.citations || 0;
+  const [primary, secondary] = sortKey === 'year' ? [year, citations] : [citations, year];
+
+  return publications
+    .filter(publication => {
+      const title = normalizeTitle(publication.title);
+      return words.every(word => title.includes(word));
+    })
+    .sort((a, b) => primary(b) - primary(a) || secondary(b) - secondary(a) || a.title.localeCompare(b.title));
+};
+
+/** Maps each normalized supporting-paper title to the interests it was cited as evidence for. */
+export const indexSupportingPapers = (tags: KeywordEvidence[] = []): Map<string, string[]> => {
+  const index = new Map<string, string[]>();
+  tags.forEach(tag => {
+    (tag.supportingPapers || []).forEach(paper => {
+      const key = normalizeTitle(paper?.title || '');
+      if (!key) return;
+      const keywords = index.get(key) || [];
+      if (!keywords.includes(tag.keyword)) index.set(key, [...keywords, tag.keyword]);
+    });
+  });
+  return index;
+};
+
+export const getSupportedInterests = (index: Map<string, string[]>, publication: ResearcherPublication): string[] =>
+  index.get(normalizeTitle(publication.title)) || [];
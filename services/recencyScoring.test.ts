@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { InterestVerdict } from '../types';
+import { annotateVerdictRecency, getEvidenceRecencyWeight, normalizeRecencySettings } from './recencyScoring';
+
+describe('getEvidenceRecencyWeight', () => {
+  it.each<[number, number, number]>([
+    // [year, half-life, expected weight] in 2026
+    [2026, 5, 1],
+    [2027, 5, 1],
+    [2021, 5, 0.5],
+    [2016, 5, 0.25],
+    [2016, 10, 0.5],
+    [1990, 0, 1]
+  ])('%i with a %i-year half-life -> %f', (year, halfLife, expected) => {
+    expect(getEvidenceRecencyWeight(year, halfLife, 2026)).toBeCloseTo(expected);
+  });
+});
+
+describe('annotateVerdictRecency', () => {
+  const verdict = (matched: boolean, papers: Array<{ year?: string; verified?: boolean }>): InterestVerdict => ({
+    interest: 'MRI',
+    matched,
+    confidence: 'high',
+    justification: '',
+    supportingPapers: papers.map((paper, index) => ({ title: `Paper ${index}`, ...paper }))
+  });
+
+  it('uses the newest verified paper', () => {
+    const [annotated] = annotateVerdictRecency(
+      [verdict(true, [{ year: '2012', verified: true }, { year: '2021', verified: true }, { year: '2025', verified: false }])],
+      5,
+      2026
+    );
+    expect(annotated).toMatchObject({ latestYear: 2021, isHistorical: false });
+    expect(annotated.recencyWeight).toBeCloseTo(0.5);
+  });
+
+  it.each<[string, InterestVerdict, boolean]>([
+    ['older than two half-lives', verdict(true, [{ year: '2009', verified: true }]), true],
+    ['exactly two half-lives', verdict(true, [{ year: '2016', verified: true }]), false],
+    ['old but unmatched', verdict(false, [{ year: '2009', verified: true }]), false]
+  ])('flags historical matches: %s', (_, input, expected) => {
+    expect(annotateVerdictRecency([input], 5, 2026)[0].isHistorical).toBe(expected);
+  });
+
+  it('leaves verdicts without dated, verified evidence at full weight', () => {
+    const stale = { ...verdict(true, [{ year: 'n/a', verified: true }, { verified: false }]), latestYear: 2001, recencyWeight: 0.1 };
+    const [annotated] = annotateVerdictRecency([stale], 5, 2026);
+    expect(annotated.latestYear).toBeUndefined();
+    expect(annotated.recencyWeight).toBeUndefined();
+    expect(annotated.isHistorical).toBeUndefined();
+  });
+
+  it('reports the year but never flags when recency is off', () => {
+    const [annotated] = annotateVerdictRecency([verdict(true, [{ year: '1995', verified: true }])], 0, 2026);
+    expect(annotated).toMatchObject({ latestYear: 1995, recencyWeight: 1, isHistorical: false });
+  });
+});
+
+describe('normalizeRecencySettings', () => {
+  it.each<[unknown, number]>([
+    [{ halfLifeYears: 10 }, 10],
+    [{ halfLifeYears: 0 }, 0],
+    [{ halfLifeYears: -2 }, 5],
+    [{ halfLifeYears: 'soon' }, 5],
+    [null, 5]
+  ])('%j -> %i', (raw, expected) => {
+    expect(normalizeRecencySettings(raw).halfLifeYears).toBe(expected);
+  });
+});
@@ -0,0 +1,81 @@
+import { InterestVerdict, RecencySettings } from '../types';
+
+/**
+ * Recency model for interest evidence: a paper's weight halves every
+ * `halfLifeYears`, so a match resting on old work counts for less than one
+ * the group is publishing on now.
+ */
+const RECENCY_SETTINGS_STORAGE_KEY = 'recencySettings';
+
+export const RECENCY_HALF_LIFE_OPTIONS: Array<{ halfLifeYears: number; label: string }> = [
+  { halfLifeYears: 0, label: 'Off' },
+  { halfLifeYears: 3, label: '3 years' },
+  { halfLifeYears: 5, label: '5 years' },
+  { halfLifeYears: 10, label: '10 years' }
+];
+
+export const DEFAULT_RECENCY_SETTINGS: RecencySettings = { halfLifeYears: 5 };
+
+// Evidence older than two half-lives (a quarter of the weight) is historical.
+const HISTORICAL_WEIGHT = 0.25;
+
+export const normalizeRecencySettings = (raw: unknown): RecencySettings => {
+  const parsed = (raw && typeof raw === 'object' ? raw : {}) as Partial<RecencySettings>;
+  const halfLifeYears = Number(parsed.halfLifeYears);
+  return {
+    halfLifeYears: Number.isFinite(halfLifeYears) && halfLifeYears >= 0
+      ? halfLifeYears
+      : DEFAULT_RECENCY_SETTINGS.halfLifeYears
+  };
+};
+
+export const loadRecencySettings = (): RecencySettings => {
+  if (typeof window === 'undefined') return DEFAULT_RECENCY_SETTINGS;
+  try {
+    const raw = window.localStorage.getItem(RECENCY_SETTINGS_STORAGE_KEY);
+    if (!raw) return DEFAULT_RECENCY_SETTINGS;
+    return normalizeRecencySettings(JSON.parse(raw));
+  } catch (error) {
+    console.error('Failed to load recency settings:', error);
+    return DEFAULT_RECENCY_SETTINGS;
+  }
+};
+
+export const saveRecencySettings = (settings: RecencySettings): void => {
+  if (typeof window === 'undefined') return;
+  window.localStorage.setItem(RECENCY_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
+
+/** Weight of evidence from `year`; papers from this year or later count fully. */
+export const getEvidenceRecencyWeight = (year: number, halfLifeYears: number, currentYear: number): number => {
+  if (!(halfLifeYears > 0)) return 1;
+  return Math.pow(0.5, Math.max(0, currentYear - year) / halfLifeYears);
+};
+
+/**
+ * Adds the newest evidence year, its recency weight and the historical flag
+ * to each verdict. Only verified papers carry a trustworthy year; a verdict
+ * with none is left at full weight rather than penalized for missing data.
+ */
+export const annotateVerdictRecency = (
+  verdicts: InterestVerdict[],
+  halfLifeYears: number,
+  currentYear = new Date().getFullYear()
+): InterestVerdict[] =>
+  verdicts.map(verdict => {
+    const years = verdict.supportingPapers
+      .filter(paper => paper.verified)
+      .map(paper => Number.parseInt(paper.year || '', 10))
+      .filter(year => Number.isFinite(year) && year > 0);
+    const { latestYear: _latest, recencyWeight: _weight, isHistorical: _historical, ...rest } = verdict;
+    if (years.length === 0) return rest;
+
+    const latestYear = Math.max(...years);
+    const recencyWeight = getEvidenceRecencyWeight(latestYear, halfLifeYears, currentYear);
+    return {
+      ...rest,
+      latestYear,
+      recencyWeight,
+      isHistorical: verdict.matched && recencyWeight < HISTORICAL_WEIGHT
+    };
+  });
@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'vitest';
+import { AnalysisStatus, EmailStatus, MatchType, Researcher } from '../types';
+import {
+  compareNames,
+  findDuplicateCandidates,
+  formatPersonName,
+  getNameKey,
+  mergeResearchers,
+  parsePersonName
+} from './researcherDedupe';
+
+describe('formatPersonName', () => {
+  it.each<[string, string]>([
+    ['jane doe', 'Jane Doe'],
+    ['JOHN MCDONALD', 'John McDonald'],
+    ['shaun o\'neil', 'Shaun O\'Neil'],
+    ['anna VAN DER BERG', 'Anna van der Berg'],
+    ['mary smith-jones', 'Mary Smith-Jones'],
+    ['Ron DeSantis', 'Ron DeSantis'],
+    ['thi le', 'Thi Le'],
+    ['  j.   smith ', 'J. Smith']
+  ])('%s -> %s', (input, expected) => {
+    expect(formatPersonName(input)).toBe(expected);
+  });
+});
+
+describe('parsePersonName', () => {
+  it.each<[string, ReturnType<typeof parsePersonName>]>([
+    ['Anna van der Berg', { given: ['anna'], surname: 'van der berg', surnameCore: 'berg' }],
+    ['van der Berg, Anna', { given: ['anna'], surname: 'van der berg', surnameCore: 'berg' }],
+    ['Dr. José A. García Jr.', { given: ['jose', 'a'], surname: 'garcia', surnameCore: 'garcia' }],
+    ['Smith', { given: [], surname: 'smith', surnameCore: 'smith' }],
+    ['', { given: [], surname: '', surnameCore: '' }]
+  ])('%s', (name, expected) => {
+    expect(parsePersonName(name)).toEqual(expected);
+  });
+});
+
+describe('compareNames', () => {
+  it.each<[string, string, 'same' | 'possible' | undefined]>([
+    ['José García', 'Jose Garcia', 'same'],
+    ['Shaun O’Neil', "shaun o'neil", 'same'],
+    ['Garcia, Jose', 'Jose Garcia', 'same'],
+    ['J. Smith', 'John Smith', 'possible'],
+    ['John A. Smith', 'J. Smith', 'possible'],
+    ['Anna Berg', 'Anna van der Berg', 'possible'],
+    ['John A. Smith', 'John B. Smith', undefined],
+    ['Jane Smith', 'John Smith', undefined],
+    ['Smith', 'John Smith', undefined],
+    ['John Smith', 'John Smyth', undefined]
+  ])('%s vs %s', (a, b, expected) => {
+    expect(compareNames(a, b)).toBe(expected);
+  });
+
+  it('keys names that only differ by accents and punctuation together', () => {
+    expect(getNameKey('Dr. José García')).toBe(getNameKey('jose garcia'));
+  });
+
+  it('falls back to the whole name when no word survives folding', () => {
+    expect(getNameKey(' Dr. ')).toBe('dr.');
+  });
+});
+
+const researcher = (id: string, name: string, fields: Partial<Researcher> = {}): Researcher => ({
+  id,
+  name,
+  status: AnalysisStatus.AWAITING_SCHOLAR_ID,
+  ...fields
+});
+
+describe('findDuplicateCandidates', () => {
+  it('pairs similar names, shared Scholar IDs and shared emails', () => {
+    const candidates = findDuplicateCandidates([
+      researcher('a', 'J. Smith'),
+      researcher('b', 'John Smith'),
+      researcher('c', 'Ana Lopez', { scholarAuthorId: 'X1' }),
+      researcher('d', 'A. M. Lopez-Diaz', { scholarAuthorId: 'X1' }),
+      researcher('e', 'Kim Park', { contactEmail: 'kim@example.edu' }),
+      researcher('f', 'K. H. Park', { contactEmail: 'KIM@example.edu' }),
+      researcher('g', 'Bo Kumar')
+    ]);
+    expect(candidates.map(({ first, second, reason }) => [first.id, second.id, reason])).toEqual([
+      ['a', 'b', 'Matching surname and initials'],
+      ['c', 'd', 'Same Scholar ID'],
+      ['e', 'f', 'Same email']
+    ]);
+  });
+
+  it('skips pairs with different Scholar IDs or marked as different people', () => {
+    expect(findDuplicateCandidates([
+      researcher('a', 'John Smith', { scholarAuthorId: 'X1' }),
+      researcher('b', 'John Smith', { scholarAuthorId: 'X2' }),
+      researcher('c', 'J. Smith', { notDuplicateOf: ['a', 'b'] })
+    ])).toEqual([]);
+  });
+});
+
+describe('findDuplicateCandidates ordering', () => {
+  it('reports a pair found through several shared keys once, in list order', () => {
+    const candidates = findDuplicateCandidates([
+      researcher('a', 'Bo Kumar'),
+      researcher('b', 'Jane Doe', { contactEmail: 'jd@example.edu' }),
+      researcher('c', 'J. Doe', { contactEmail: 'jd@example.edu' }),
+      researcher('d', 'B. Kumar')
+    ]);
+    expect(candidates.map(({ first, second, reason }) => [first.id, second.id, reason])).toEqual([
+      ['a', 'd', 'Matching surname and initials'],
+      ['b', 'c', 'Same email']
+    ]);
+  });
+});
+
+describe('mergeResearchers', () => {
+  const analyzed = researcher('b', 'J. Smith', {
+    status: AnalysisStatus.COMPLETED,
+    scholarAuthorId: 'X1',
+    isMatch: true,
+    matchType: MatchType.HIGH,
+    tags: [{ keyword: 'Imaging', reasoning: '', supportingPapers: [] }],
+    emailStatus: EmailStatus.SENT
+  });
+  const listed = researcher('a', 'John Smith', {
+    contactEmail: 'john@example.edu',
+    customizedLetter: 'Dear Professor Smith',
+    isFavorite: true,
+    notDuplicateOf: ['c', 'b'],
+    tags: [{ keyword: 'imaging', reasoning: '', supportingPapers: [] }, { keyword: 'Optics', reasoning: '', supportingPapers: [] }]
+  });
+
+  it('keeps the chosen name and takes the analysis from the entry with a Scholar ID', () => {
+    expect(mergeResearchers(listed, analyzed)).toMatchObject({
+      id: 'a',
+      name: 'John Smith',
+      status: AnalysisStatus.COMPLETED,
+      scholarAuthorId: 'X1',
+      matchType: MatchType.HIGH,
+      contactEmail: 'john@example.edu',
+      customizedLetter: 'Dear Professor Smith',
+      emailStatus: EmailStatus.SENT,
+      isFavorite: true,
+      notDuplicateOf: ['c'],
+      tags: [{ keyword: 'Imaging' }, { keyword: 'Optics' }]
+    });
+  });
+
+  it('fills gaps in the kept entry from the other one', () => {
+    const merged = mergeResearchers(analyzed, listed);
+    expect(merged).toMatchObject({ id: 'b', name: 'J. Smith', contactEmail: 'john@example.edu', scholarAuthorId: 'X1' });
+  });
+});
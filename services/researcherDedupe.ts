@@ -0,0 +1,203 @@
+import { EmailStatus, KeywordEvidence, Researcher } from '../types';
+import { tokenizePersonName } from './personName';
+
+// Lowercase surname prefixes such as "van der Berg" or "de la Cruz".
+const NAME_PARTICLES = new Set([
+  'al', 'bin', 'da', 'das', 'de', 'del', 'della', 'den', 'der', 'di', 'do', 'dos', 'du', 'ibn', 'la', 'le', 'ten', 'ter', 'van', 'von'
+]);
+const capitalize = (part: string): string => {
+  const lower = part.toLowerCase();
+  if (/^mc./.test(lower)) return `Mc${lower.charAt(2).toUpperCase()}${lower.slice(3)}`;
+  return lower.charAt(0).toUpperCase() + lower.slice(1);
+};
+
+const formatWord = (word: string, isInner: boolean): string => {
+  // Mixed case was typed on purpose ("DeSantis", "MacKenzie"); leave it alone.
+  if (word !== word.toLowerCase() && word !== word.toUpperCase()) return word;
+  if (isInner && NAME_PARTICLES.has(word.toLowerCase())) return word.toLowerCase();
+  return word.split(/(['’-])/).map(part => (/^['’-]$/.test(part) ? part : capitalize(part))).join('');
+};
+
+/**
+ * Proper-cases a name that arrived in all lower or upper case while keeping
+ * "McDonald", "O'Neil" and lowercase particles like "van der Berg" intact.
+ */
+export const formatPersonName = (name: string): string => {
+  const words = name.trim().split(/\s+/).filter(Boolean);
+  return words.map((word, index) => formatWord(word, index > 0 && index < words.length - 1)).join(' ');
+};
+
+export interface ParsedPersonName {
+  given: string[];
+  /** Surname with its particles, e.g. "van der berg". */
+  surname: string;
+  /** Last surname word without particles, e.g. "berg". */
+  surnameCore: string;
+}
+
+/** Folded name parts; accepts "First Last" and "Last, First". */
+export const parsePersonName = (name: string): ParsedPersonName => {
+  const tokens = tokenizePersonName(name);
+  if (tokens.length === 0) return { given: [], surname: '', surnameCore: '' };
+
+  let surnameStart = tokens.length - 1;
+  while (surnameStart > 1 && NAME_PARTICLES.has(tokens[surnameStart - 1])) surnameStart -= 1;
+  return {
+    given: tokens.slice(0, surnameStart),
+    surname: tokens.slice(surnameStart).join(' '),
+    surnameCore: tokens[tokens.length - 1]
+  };
+};
+
+const toNameKey = (parsed: ParsedPersonName): string => [...parsed.given, parsed.surname].join(' ');
+
+/**
+ * Key under which two spellings are certainly the same person. Names with no
+ * foldable words fall back to the whole name, so they never share an empty key.
+ */
+export const getNameKey = (name: string): string => toNameKey(parsePersonName(name)) || name.trim().toLowerCase();
+
+const isCompatibleGivenName = (a: string, b: string): boolean =>
+  a === b || (a.length === 1 && b.startsWith(a)) || (b.length === 1 && a.startsWith(b));
+
+type NameComparison = 'same' | 'possible' | undefined;
+
+const compareParsedNames = (left: ParsedPersonName, right: ParsedPersonName): NameComparison => {
+  if (!left.surnameCore || !right.surnameCore) return undefined;
+  if (toNameKey(left) === toNameKey(right)) return 'same';
+  if (left.surnameCore !== right.surnameCore) return undefined;
+  if (left.given.length === 0 || right.given.length === 0) return undefined;
+  if (!isCompatibleGivenName(left.given[0], right.given[0])) return undefined;
+  // Middle names only count when both spellings give one.
+  const sharedMiddle = Math.min(left.given.length, right.given.length);
+  for (let index = 1; index < sharedMiddle; index += 1) {
+    if (!isCompatibleGivenName(left.given[index], right.given[index])) return undefined;
+  }
+  return 'possible';
+};
+
+/**
+ * 'same' when the names only differ by accents, case or punctuation;
+ * 'possible' when initials or particles could make them the same person,
+ * e.g. "J. Smith" and "John Smith".
+ */
+export const compareNames = (a: string, b: string): NameComparison =>
+  compareParsedNames(parsePersonName(a), parsePersonName(b));
+
+export interface DuplicateCandidate {
+  first: Researcher;
+  second: Researcher;
+  reason: string;
+}
+
+interface IndexedResearcher {
+  researcher: Researcher;
+  parsedName: ParsedPersonName;
+  email?: string;
+}
+
+const getDuplicateReason = (a: IndexedResearcher, b: IndexedResearcher): string | undefined => {
+  const { scholarAuthorId } = a.researcher;
+  if (scholarAuthorId && scholarAuthorId === b.researcher.scholarAuthorId) return 'Same Scholar ID';
+  if (a.email && a.email === b.email) return 'Same email';
+  // Two different Scholar profiles are two different people.
+  if (scholarAuthorId && b.researcher.scholarAuthorId) return undefined;
+  const comparison = compareParsedNames(a.parsedName, b.parsedName);
+  if (comparison === 'same') return 'Same name apart from accents or punctuation';
+  if (comparison === 'possible') return 'Matching surname and initials';
+  return undefined;
+};
+
+/**
+ * Pairs of researchers that may be the same person, skipping pairs marked as
+ * distinct. Only researchers sharing a surname, Scholar ID or email are
+ * compared, so the scan stays fast on long lists.
+ */
+export const findDuplicateCandidates = (researchers: Researcher[]): DuplicateCandidate[] => {
+  const indexed: IndexedResearcher[] = researchers.map(researcher => ({
+    researcher,
+    parsedName: parsePersonName(researcher.name),
+    email: researcher.contactEmail?.toLowerCase() || undefined
+  }));
+
+  const buckets = new Map<string, number[]>();
+  const addToBucket = (key: string, index: number) => {
+    const members = buckets.get(key);
+    if (members) members.push(index);
+    else buckets.set(key, [index]);
+  };
+  indexed.forEach(({ researcher, parsedName, email }, index) => {
+    if (parsedName.surnameCore) addToBucket(`name:${parsedName.surnameCore}`, index);
+    if (researcher.scholarAuthorId) addToBucket(`scholar:${researcher.scholarAuthorId}`, index);
+    if (email) addToBucket(`email:${email}`, index);
+  });
+
+  const pairs = new Set<string>();
+  buckets.forEach(members => {
+    members.forEach((first, position) => {
+      members.slice(position + 1).forEach(second => pairs.add(`${first}|${second}`));
+    });
+  });
+
+  const candidates: DuplicateCandidate[] = [];
+  [...pairs]
+    .map(pair => pair.split('|').map(Number))
+    .sort((a, b) => a[0] - b[0] || a[1] - b[1])
+    .forEach(([firstIndex, secondIndex]) => {
+      const first = indexed[firstIndex];
+      const second = indexed[secondIndex];
+      if (first.researcher.notDuplicateOf?.includes(second.researcher.id)) return;
+      if (second.researcher.notDuplicateOf?.includes(first.researcher.id)) return;
+      const reason = getDuplicateReason(first, second);
+      if (reason) candidates.push({ first: first.researcher, second: second.researcher, reason });
+    });
+  return candidates;
+};
+
+// Fields that come from one analysis and must not be mixed across two.
+const ANALYSIS_FIELDS: Array<keyof Researcher> = [
+  'status', 'scholarAuthorId', 'interests', 'profileUrl', 'avatarUrl', 'isMatch', 'matchType', 'matchReason',
+  'matchedInterests', 'excludedInterests', 'matchScore', 'interestVerdicts', 'embeddingAlignment',
+  'publicationsFetchedAt', 'scoredInterests', 'citationMetrics', 'publications', 'analysisError'
+];
+
+const mergeTags = (a: KeywordEvidence[] = [], b: KeywordEvidence[] = []): KeywordEvidence[] => {
+  const seen = new Set(a.map(tag => tag.keyword.toLowerCase()));
+  return [...a, ...b.filter(tag => !seen.has(tag.keyword.toLowerCase()))];
+};
+
+const uniqueIds = (ids: string[], excluded: string[]): string[] | undefined => {
+  const kept = [...new Set(ids)].filter(id => !excluded.includes(id));
+  return kept.length > 0 ? kept : undefined;
+};
+
+/**
+ * Folds `secondary` into `primary`, keeping the primary's id and name. The
+ * analysis comes from whichever has a Scholar ID (the primary when both do);
+ * other fields fall back to the secondary's when the primary lacks them.
+ */
+export const mergeResearchers = (primary: Researcher, secondary: Researcher): Researcher => {
+  const analysisSource = !primary.scholarAuthorId && secondary.scholarAuthorId ? secondary : primary;
+  const merged: Researcher = { ...secondary, ...primary };
+  (Object.keys(secondary) as Array<keyof Researcher>).forEach(field => {
+    if (merged[field] === undefined || merged[field] === '') {
+      (merged as unknown as Record<string, unknown>)[field] = secondary[field];
+    }
+  });
+  ANALYSIS_FIELDS.forEach(field => {
+    (merged as unknown as Record<string, unknown>)[field] = analysisSource[field];
+  });
+
+  return {
+    ...merged,
+    id: primary.id,
+    name: primary.name,
+    tags: mergeTags(analysisSource.tags, analysisSource === primary ? secondary.tags : primary.tags),
+    customizedLetter: primary.customizedLetter || secondary.customizedLetter,
+    emailStatus: primary.emailStatus === EmailStatus.SENT || secondary.emailStatus === EmailStatus.SENT
+      ? EmailStatus.SENT
+      : primary.emailStatus || secondary.emailStatus,
+    isFavorite: primary.isFavorite || secondary.isFavorite || undefined,
+    notDuplicateOf: uniqueIds([...(primary.notDuplicateOf || []), ...(secondary.notDuplicateOf || [])], [primary.id, secondary.id])
+  };
+};
@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import { AcademicRank, AnalysisStatus, Researcher } from '../types';
+import {
+  buildResearchersFromExtraction,
+  inferAcademicRank,
+  mergeExtractedResearchers,
+  validateExtractionResponse
+} from './researcherExtraction';
+
+describe('inferAcademicRank', () => {
+  it.each<[string | undefined, AcademicRank | undefined]>([
+    ['Professor of Bioengineering', 'full'],
+    ['Associate Professor', 'associate'],
+    ['Assistant Research Professor', 'assistant'],
+    ['Professor Emeritus', 'emeritus'],
+    ['Research Scientist', 'research'],
+    ['Senior Lecturer', 'lecturer'],
+    ['Department Chair', 'full'],
+    ['Lab Manager', 'other'],
+    ['', undefined],
+    [undefined, undefined]
+  ])('%s -> %s', (title, expected) => {
+    expect(inferAcademicRank(title)).toBe(expected);
+  });
+});
+
+describe('validateExtractionResponse', () => {
+  it('reads people with their details', () => {
+    expect(validateExtractionResponse({
+      people: [{
+        name: ' Jane  Doe ',
+        title: 'Associate Professor of Bioengineering',
+        rank: 'associate',
+        department: 'Bioengineering',
+        email: 'mailto:Jane.Doe@Example.edu',
+        homepage: 'example.edu/~jdoe'
+      }]
+    })).toEqual([{
+      name: 'Jane Doe',
+      academicTitle: 'Associate Professor of Bioengineering',
+      rank: 'associate',
+      department: 'Bioengineering',
+      email: 'jane.doe@example.edu',
+      homepageUrl: 'https://example.edu/~jdoe'
+    }]);
+  });
+
+  it.each<[string, Record<string, unknown>, Record<string, unknown>]>([
+    ['infers a missing rank from the title', { title: 'Assistant Professor' }, { rank: 'assistant' }],
+    ['ignores an unknown rank', { rank: 'dean' }, { rank: undefined }],
+    ['drops an invalid email', { email: 'jane at example' }, { email: undefined }],
+    ['drops a homepage without a domain', { homepage: 'not a url' }, { homepageUrl: undefined }]
+  ])('%s', (_label, fields, expected) => {
+    expect(validateExtractionResponse({ people: [{ name: 'Jane Doe', ...fields }] })[0]).toMatchObject(expected);
+  });
+
+  it('drops entries without a name and accepts bare strings', () => {
+    expect(validateExtractionResponse({ people: [{ title: 'Professor' }, 'Bo Kumar', 7] })).toEqual([{ name: 'Bo Kumar' }]);
+  });
+
+  it('falls back to a bare names list', () => {
+    expect(validateExtractionResponse({ names: ['Jane Doe', ''] })).toEqual([{ name: 'Jane Doe' }]);
+  });
+
+  it.each([null, 'text', []])('rejects %j', (raw) => {
+    expect(() => validateExtractionResponse(raw)).toThrow('Malformed extraction response');
+  });
+});
+
+describe('buildResearchersFromExtraction', () => {
+  const existing: Researcher[] = [{ id: 'a', name: 'Alice Chen', status: AnalysisStatus.COMPLETED }];
+
+  it('proper-cases names, skips known ones and keeps roster contact details', () => {
+    const added = buildResearchersFromExtraction([
+      { name: 'JANE DOE', rank: 'full', department: 'Bioengineering', email: 'jane@example.edu' },
+      { name: 'alice chen' },
+      { name: 'Jane Doe' }
+    ], existing);
+
+    expect(added).toHaveLength(1);
+    expect(added[0]).toMatchObject({
+      name: 'Jane Doe',
+      status: AnalysisStatus.AWAITING_SCHOLAR_ID,
+      rank: 'full',
+      department: 'Bioengineering',
+      contactEmail: 'jane@example.edu',
+      rosterEmail: 'jane@example.edu'
+    });
+  });
+
+  it('keeps non-Latin names apart', () => {
+    const added = buildResearchersFromExtraction([{ name: '王伟' }, { name: '李娜' }, { name: 'Иван Петров' }, { name: 'иван петров' }], []);
+    expect(added.map(researcher => researcher.name)).toEqual(['王伟', '李娜', 'Иван Петров']);
+  });
+});
+
+describe('mergeExtractedResearchers', () => {
+  it('combines people found in overlapping chunks, keeping the first value of each field', () => {
+    expect(mergeExtractedResearchers([
+      { name: 'José García', department: 'Bioengineering' },
+      { name: 'Bo Kumar' },
+      { name: 'Jose Garcia', department: 'Chemistry', email: 'jgarcia@example.edu' }
+    ])).toEqual([
+      {
+        name: 'José García',
+        academicTitle: undefined,
+        rank: undefined,
+        department: 'Bioengineering',
+        email: 'jgarcia@example.edu',
+        homepageUrl: undefined
+      },
+      { name: 'Bo Kumar' }
+    ]);
+  });
+
+  it('keeps non-Latin names and merges their repeats', () => {
+    expect(mergeExtractedResearchers([
+      { name: '王伟' },
+      { name: '李娜', email: 'li@example.edu' },
+      { name: '王伟', department: 'Physics' }
+    ]).map(entry => entry.name)).toEqual(['王伟', '李娜']);
+  });
+});
@@ -0,0 +1,183 @@
+import { AcademicRank, AnalysisStatus, Researcher } from '../types';
+import type { JsonSchema } from './llmProvider';
+import { createId } from './campaignService';
+import { normalizeEmail, STRICT_EMAIL_REGEX } from './emailParsing';
+import { formatPersonName, getNameKey } from './researcherDedupe';
+
+/** Ranks in seniority order, for the filter and labels. */
+export const ACADEMIC_RANK_OPTIONS: Array<{ rank: AcademicRank; label: string }> = [
+  { rank: 'full', label: 'Professor' },
+  { rank: 'associate', label: 'Associate Professor' },
+  { rank: 'assistant', label: 'Assistant Professor' },
+  { rank: 'emeritus', label: 'Emeritus' },
+  { rank: 'research', label: 'Research Staff' },
+  { rank: 'lecturer', label: 'Lecturer' },
+  { rank: 'other', label: 'Other' }
+];
+
+const ACADEMIC_RANKS = ACADEMIC_RANK_OPTIONS.map(option => option.rank);
+
+export const EXTRACTION_RESPONSE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    people: {
+      type: 'array',
+      description: 'Academic staff found in the text, in the order they appear.',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string', description: 'Full name without titles, in Proper Case.' },
+          title: { type: 'string', nullable: true, description: 'Academic title as written, e.g. "Associate Professor of Bioengineering".' },
+          rank: { type: 'string', enum: ACADEMIC_RANKS, nullable: true },
+          department: { type: 'string', nullable: true },
+          email: { type: 'string', nullable: true, description: 'Only if it appears in the text.' },
+          homepage: { type: 'string', nullable: true, description: 'Only if a URL for this person appears in the text.' }
+        },
+        required: ['name']
+      }
+    }
+  },
+  required: ['people']
+};
+
+export interface ExtractedResearcher {
+  name: string;
+  academicTitle?: string;
+  rank?: AcademicRank;
+  department?: string;
+  email?: string;
+  homepageUrl?: string;
+}
+
+// Checked in order: "Assistant Research Professor" is an assistant professor.
+const RANK_PATTERNS: Array<[AcademicRank, RegExp]> = [
+  ['emeritus', /emerit/i],
+  ['assistant', /assistant\s+(research\s+)?prof/i],
+  ['associate', /associate\s+(research\s+)?prof/i],
+  ['research', /research\s+(prof|scientist|fellow|associate|engineer)|postdoc|scientist/i],
+  ['lecturer', /lecturer|instructor|teaching/i],
+  ['full', /prof|chair/i]
+];
+
+/** Maps a free-text academic title to a rank; undefined when there is no title. */
+export const inferAcademicRank = (title: string | undefined): AcademicRank | undefined => {
+  if (!title?.trim()) return undefined;
+  return RANK_PATTERNS.find(([, pattern]) => pattern.test(title))?.[0] || 'other';
+};
+
+const toText = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() ? value.trim().replace(/\s+/g, ' ') : undefined;
+
+const toEmail = (value: unknown): string | undefined => {
+  const text = toText(value);
+  const email = text ? normalizeEmail(text.replace(/^mailto:/i, '')) : '';
+  return STRICT_EMAIL_REGEX.test(email) ? email : undefined;
+};
+
+const toHomepageUrl = (value: unknown): string | undefined => {
+  const text = toText(value);
+  if (!text) return undefined;
+  const candidate = /^https?:\/\//i.test(text) ? text : `https://${text}`;
+  try {
+    const url = new URL(candidate);
+    return url.hostname.includes('.') ? url.toString() : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+const toRank = (value: unknown, title: string | undefined): AcademicRank | undefined => {
+  const text = typeof value === 'string' ? value.trim().toLowerCase() : '';
+  return ACADEMIC_RANKS.find(rank => rank === text) || inferAcademicRank(title);
+};
+
+/**
+ * Reads the extraction response. Entries without a name are dropped, invalid
+ * emails and URLs are discarded, and a missing rank is inferred from the
+ * title. Servers that ignore the schema may still send the older bare
+ * `names` list, which becomes entries with a name only.
+ */
+export const validateExtractionResponse = (raw: unknown): ExtractedResearcher[] => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error('Malformed extraction response: expected a JSON object');
+  }
+  const record = raw as Record<string, unknown>;
+  if (!Array.isArray(record.people)) {
+    return Array.isArray(record.names)
+      ? record.names.map(toText).filter((name): name is string => Boolean(name)).map(name => ({ name }))
+      : [];
+  }
+
+  return record.people.flatMap((entry): ExtractedResearcher[] => {
+    if (typeof entry === 'string') return toText(entry) ? [{ name: toText(entry)! }] : [];
+    if (!entry || typeof entry !== 'object') return [];
+    const person = entry as Record<string, unknown>;
+    const name = toText(person.name);
+    if (!name) return [];
+    const academicTitle = toText(person.title);
+    return [{
+      name,
+      academicTitle,
+      rank: toRank(person.rank, academicTitle),
+      department: toText(person.department),
+      email: toEmail(person.email),
+      homepageUrl: toHomepageUrl(person.homepage)
+    }];
+  });
+};
+
+/**
+ * Combines the entries of several extraction calls, such as the chunks of a
+ * long roster. A person seen twice keeps the first non-empty value of each
+ * field.
+ */
+export const mergeExtractedResearchers = (entries: ExtractedResearcher[]): ExtractedResearcher[] => {
+  const byKey = new Map<string, ExtractedResearcher>();
+  entries.forEach(entry => {
+    const key = getNameKey(entry.name);
+    const known = byKey.get(key);
+    byKey.set(key, known
+      ? {
+        name: known.name,
+        academicTitle: known.academicTitle || entry.academicTitle,
+        rank: known.rank || entry.rank,
+        department: known.department || entry.department,
+        email: known.email || entry.email,
+        homepageUrl: known.homepageUrl || entry.homepageUrl
+      }
+      : entry);
+  });
+  return [...byKey.values()];
+};
+
+/**
+ * New list entries for extracted people whose names are not in the list yet.
+ * Names differing only by accents, case or punctuation count as the same;
+ * looser matches are left for the duplicate review.
+ */
+export const buildResearchersFromExtraction = (
+  entries: ExtractedResearcher[],
+  existing: Researcher[]
+): Researcher[] => {
+  const knownKeys = new Set(existing.map(researcher => getNameKey(researcher.name)));
+  return entries.flatMap((entry): Researcher[] => {
+    const name = formatPersonName(entry.name);
+    const key = getNameKey(name);
+    if (knownKeys.has(key)) return [];
+    knownKeys.add(key);
+    return [{
+      id: createId(),
+      name,
+      status: AnalysisStatus.AWAITING_SCHOLAR_ID,
+      interests: '',
+      tags: [],
+      academicTitle: entry.academicTitle,
+      rank: entry.rank,
+      department: entry.department,
+      contactEmail: entry.email,
+      homepageUrl: entry.homepageUrl,
+      rosterEmail: entry.email,
+      rosterHomepageUrl: entry.homepageUrl
+    }];
+  });
+};
@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { AnalysisStatus, MatchType, Researcher } from '../types';
+import {
+  buildResearchersFromSuggestions,
+  findMentionedInterests,
+  formatSuggestionProvenance,
+  ResearcherSuggestion,
+  suggestCoauthors
+} from './researcherSuggestions';
+
+describe('findMentionedInterests', () => {
+  it.each<[string, string[], string[]]>([
+    ['all words in one title', ['Medical Imaging'], ['Deep learning for medical images']],
+    ['stems differ only in suffix', ['Synthetic Biology'], ['Biological circuits in synthetic cells']],
+    ['words split across titles', [], ['Medical records', 'Imaging of rocks']],
+    ['no overlap', [], ['Soil microbiome']]
+  ])('%s', (_label, expected, titles) => {
+    expect(findMentionedInterests(['Medical Imaging', 'Synthetic Biology'], titles)).toEqual(expected);
+  });
+});
+
+describe('suggestCoauthors', () => {
+  const researcher = (
+    id: string,
+    name: string,
+    matchType: MatchType | undefined,
+    publications: Array<[string, string]>
+  ): Researcher => ({
+    id,
+    name,
+    status: AnalysisStatus.COMPLETED,
+    isMatch: matchType !== undefined && matchType !== MatchType.NONE,
+    matchType,
+    publications: publications.map(([title, authors]) => ({ title, authors }))
+  });
+
+  const researchers = [
+    researcher('a', 'Alice Chen', MatchType.PERFECT, [
+      ['Medical imaging with deep learning', 'A Chen, Maria Lopez'],
+      ['Imaging agents', 'A Chen, M Lopez'],
+      ['Soil survey', 'A Chen, K Park, Bo Kumar'],
+      ['Ocean data', 'A Chen, K Park'],
+      ['Ocean data', 'A Chen, K Park'],
+      ['Rare collaboration', 'A Chen, R Once']
+    ]),
+    researcher('b', 'Bo Kumar', MatchType.HIGH, [
+      ['Medical imaging with deep learning', 'B Kumar, M Lopez'],
+      ['Another imaging study', 'B Kumar, M Lopez']
+    ]),
+    researcher('c', 'Carol Diaz', MatchType.PARTIAL, [
+      ['Partial paper one', 'C Diaz, P Partial'],
+      ['Partial paper two', 'C Diaz, P Partial']
+    ])
+  ];
+
+  const suggestions = suggestCoauthors(researchers, 'Medical Imaging, Deep Learning');
+
+  it('suggests frequent co-authors of strong matches only, skipping people already listed', () => {
+    expect(suggestions.map(s => s.name)).toEqual(['Maria Lopez', 'K Park']);
+  });
+
+  it('counts distinct papers per source and boosts by interest overlap', () => {
+    expect(suggestions[0]).toMatchObject({
+      key: 'lopez m',
+      paperCount: 3,
+      matchedInterests: ['Medical Imaging', 'Deep Learning'],
+      score: 6,
+      sources: [
+        { researcherId: 'a', researcherName: 'Alice Chen', sharedPapers: 2 },
+        { researcherId: 'b', researcherName: 'Bo Kumar', sharedPapers: 2 }
+      ]
+    });
+    expect(suggestions[1]).toMatchObject({ key: 'park k', paperCount: 2, matchedInterests: [], score: 2 });
+  });
+
+  it('applies the minimum shared papers and limit options', () => {
+    expect(suggestCoauthors(researchers, '', { minSharedPapers: 1 }).map(s => s.name)).toEqual([
+      'Maria Lopez',
+      'K Park',
+      'R Once'
+    ]);
+    expect(suggestCoauthors(researchers, '', { limit: 1 })).toHaveLength(1);
+  });
+
+  it('returns nothing without strong matches', () => {
+    expect(suggestCoauthors(researchers.slice(2), 'Medical Imaging')).toEqual([]);
+  });
+});
+
+describe('formatSuggestionProvenance', () => {
+  const suggestion = (sources: Array<[string, number]>): ResearcherSuggestion => ({
+    key: 'lopez m',
+    name: 'Maria Lopez',
+    paperCount: 4,
+    matchedInterests: [],
+    score: 4,
+    sources: sources.map(([researcherName, sharedPapers], index) => ({ researcherId: String(index), researcherName, sharedPapers }))
+  });
+
+  it.each<[Array<[string, number]>, string]>([
+    [[['Alice Chen', 4]], 'co-author of Alice Chen on 4 papers'],
+    [[['Alice Chen', 4], ['Bo Kumar', 1]], 'co-author of Alice Chen on 4 papers and Bo Kumar on 1 paper'],
+    [[['A', 2], ['B', 2], ['C', 1]], 'co-author of A on 2 papers, B on 2 papers and C on 1 paper']
+  ])('%j', (sources, expected) => {
+    expect(formatSuggestionProvenance(suggestion(sources))).toBe(expected);
+  });
+
+  it('carries the provenance onto researchers awaiting a Scholar ID', () => {
+    const [added] = buildResearchersFromSuggestions([suggestion([['Alice Chen', 4]])]);
+    expect(added).toMatchObject({
+      name: 'Maria Lopez',
+      status: AnalysisStatus.AWAITING_SCHOLAR_ID,
+      discoveredVia: 'co-author of Alice Chen on 4 papers'
+    });
+  });
+});
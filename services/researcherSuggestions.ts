@@ -0,0 +1,142 @@
+import { AnalysisStatus, MatchType, Researcher, ResearcherPublication } from '../types';
+import { createId } from './campaignService';
+import { normalizeAuthorName, parseAuthorList } from './coauthorNetwork';
+import { parseUserInterests } from './matchScoring';
+import { normalizeTitle } from './publicationList';
+
+export interface SuggestionSource {
+  researcherId: string;
+  researcherName: string;
+  sharedPapers: number;
+}
+
+export interface ResearcherSuggestion {
+  /** Normalized name, see `normalizeAuthorName`. */
+  key: string;
+  name: string;
+  /** Distinct papers shared with the strong matches. */
+  paperCount: number;
+  /** Strong matches they published with, most shared papers first. */
+  sources: SuggestionSource[];
+  /** User interests the shared paper titles mention. */
+  matchedInterests: string[];
+  score: number;
+}
+
+export interface SuggestionOptions {
+  minSharedPapers?: number;
+  limit?: number;
+}
+
+const DEFAULT_MIN_SHARED_PAPERS = 2;
+const DEFAULT_SUGGESTION_LIMIT = 20;
+const STRONG_MATCH_TYPES = new Set<MatchType | undefined>([MatchType.PERFECT, MatchType.HIGH]);
+const STOPWORDS = new Set(['and', 'the', 'for', 'with', 'from', 'into', 'based', 'using', 'via']);
+// Words are compared on their first letters so "imaging" meets "images" and "imager".
+const STEM_LENGTH = 4;
+
+const toStems = (text: string): string[] =>
+  normalizeTitle(text)
+    .split(' ')
+    .filter(word => word.length >= 3 && !STOPWORDS.has(word))
+    .map(word => word.slice(0, STEM_LENGTH));
+
+/** An interest counts as mentioned when one title contains all of its words. */
+export const findMentionedInterests = (interests: string[], titles: string[]): string[] => {
+  const titleStems = titles.map(title => new Set(toStems(title)));
+  return interests.filter(interest => {
+    const stems = toStems(interest);
+    return stems.length > 0 && titleStems.some(title => stems.every(stem => title.has(stem)));
+  });
+};
+
+// Prefer a spelled-out first name over Scholar's initials.
+const pickDisplayName = (spellings: Map<string, number>): string =>
+  [...spellings.entries()].sort((a, b) => b[0].length - a[0].length || b[1] - a[1])[0]?.[0] || '';
+
+interface CandidateAccumulator {
+  spellings: Map<string, number>;
+  titles: Map<string, string>;
+  bySource: Map<string, Set<string>>;
+}
+
+/**
+ * Mines the author lists of Perfect and High matches for frequent
+ * collaborators not yet in the list. Candidates are ranked by papers shared
+ * with the matches, boosted by the share of user interests those papers
+ * mention.
+ */
+export const suggestCoauthors = (
+  researchers: Researcher[],
+  userInterests: string,
+  options: SuggestionOptions = {}
+): ResearcherSuggestion[] => {
+  const minSharedPapers = options.minSharedPapers ?? DEFAULT_MIN_SHARED_PAPERS;
+  const limit = options.limit ?? DEFAULT_SUGGESTION_LIMIT;
+  const interests = parseUserInterests(userInterests);
+  const knownKeys = new Set(researchers.map(researcher => normalizeAuthorName(researcher.name)).filter(Boolean));
+  const strongMatches = researchers.filter(researcher =>
+    researcher.status === AnalysisStatus.COMPLETED && researcher.isMatch && STRONG_MATCH_TYPES.has(researcher.matchType)
+  );
+
+  const candidates = new Map<string, CandidateAccumulator>();
+  strongMatches.forEach(researcher => {
+    (researcher.publications || []).forEach((publication: ResearcherPublication) => {
+      const titleKey = normalizeTitle(publication.title);
+      if (!titleKey) return;
+      parseAuthorList(publication.authors).forEach(author => {
+        const key = normalizeAuthorName(author);
+        if (!key || knownKeys.has(key)) return;
+        const candidate = candidates.get(key) || { spellings: new Map(), titles: new Map(), bySource: new Map() };
+        candidate.spellings.set(author, (candidate.spellings.get(author) || 0) + 1);
+        if (!candidate.titles.has(titleKey)) candidate.titles.set(titleKey, publication.title);
+        candidate.bySource.set(researcher.id, (candidate.bySource.get(researcher.id) || new Set()).add(titleKey));
+        candidates.set(key, candidate);
+      });
+    });
+  });
+
+  const namesById = new Map(strongMatches.map(researcher => [researcher.id, researcher.name]));
+  return [...candidates.entries()]
+    .filter(([, candidate]) => candidate.titles.size >= minSharedPapers)
+    .map(([key, candidate]): ResearcherSuggestion => {
+      const matchedInterests = findMentionedInterests(interests, [...candidate.titles.values()]);
+      const overlap = interests.length > 0 ? matchedInterests.length / interests.length : 0;
+      return {
+        key,
+        name: pickDisplayName(candidate.spellings),
+        paperCount: candidate.titles.size,
+        sources: [...candidate.bySource.entries()]
+          .map(([researcherId, titles]) => ({
+            researcherId,
+            researcherName: namesById.get(researcherId) || '',
+            sharedPapers: titles.size
+          }))
+          .sort((a, b) => b.sharedPapers - a.sharedPapers || a.researcherName.localeCompare(b.researcherName)),
+        matchedInterests,
+        score: Math.round(candidate.titles.size * (1 + overlap) * 10) / 10
+      };
+    })
+    .sort((a, b) => b.score - a.score || b.paperCount - a.paperCount || a.name.localeCompare(b.name))
+    .slice(0, limit);
+};
+
+const pluralizePapers = (count: number) => `${count} paper${count === 1 ? '' : 's'}`;
+
+/** E.g. "co-author of Alice Chen on 4 papers and Bo Kumar on 1 paper". */
+export const formatSuggestionProvenance = (suggestion: ResearcherSuggestion): string => {
+  const parts = suggestion.sources.map(source => `${source.researcherName} on ${pluralizePapers(source.sharedPapers)}`);
+  const joined = parts.length > 1 ? `${parts.slice(0, -1).join(', ')} and ${parts[parts.length - 1]}` : parts[0] || '';
+  return `co-author of ${joined}`;
+};
+
+/** New list entries for accepted suggestions, waiting for a Scholar ID. */
+export const buildResearchersFromSuggestions = (suggestions: ResearcherSuggestion[]): Researcher[] =>
+  suggestions.map(suggestion => ({
+    id: createId(),
+    name: suggestion.name,
+    status: AnalysisStatus.AWAITING_SCHOLAR_ID,
+    interests: '',
+    tags: [],
+    discoveredVia: formatSuggestionProvenance(suggestion)
+  }));
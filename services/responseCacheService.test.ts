@@ -0,0 +1,106 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  applyResponseCacheSettings,
+  isCacheEntryFresh,
+  normalizeResponseCacheSettings,
+  withResponseCache
+} from './responseCacheService';
+import { CachedResponseRecord } from './storageService';
+
+const store = new Map<string, CachedResponseRecord>();
+
+vi.mock('./storageService', () => ({
+  readCachedResponse: async (key: string) => store.get(key),
+  writeCachedResponse: async (record: CachedResponseRecord) => {
+    store.set(record.key, record);
+  },
+  clearCachedResponses: async () => store.clear()
+}));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('isCacheEntryFresh', () => {
+  const now = 100 * DAY_MS;
+
+  it.each<[string, number, number, boolean]>([
+    ['just fetched', now, 7, true],
+    ['inside the TTL', now - 6 * DAY_MS, 7, true],
+    ['exactly at the TTL', now - 7 * DAY_MS, 7, false],
+    ['past the TTL', now - 8 * DAY_MS, 7, false],
+    ['cache disabled', now, 0, false],
+    // A clock moved backwards should not keep an entry alive forever.
+    ['fetched in the future', now + DAY_MS, 7, false]
+  ])('%s', (_, fetchedAt, ttlDays, expected) => {
+    expect(isCacheEntryFresh(fetchedAt, ttlDays, now)).toBe(expected);
+  });
+});
+
+describe('normalizeResponseCacheSettings', () => {
+  it.each<[unknown, number]>([
+    [{ ttlDays: 30 }, 30],
+    [{ ttlDays: '1' }, 1],
+    [{ ttlDays: 0 }, 0],
+    [{ ttlDays: -1 }, 7],
+    [{ ttlDays: 'soon' }, 7],
+    [null, 7]
+  ])('%j -> %i days', (raw, expected) => {
+    expect(normalizeResponseCacheSettings(raw).ttlDays).toBe(expected);
+  });
+});
+
+describe('withResponseCache', () => {
+  beforeEach(() => {
+    store.clear();
+    applyResponseCacheSettings({ ttlDays: 7 });
+  });
+
+  it('serves a second call from the cache', async () => {
+    const load = vi.fn().mockResolvedValue({ articles: 3 });
+    const first = await withResponseCache({ kind: 'scholar-author', key: 'abc', load });
+    const second = await withResponseCache({ kind: 'scholar-author', key: 'abc', load });
+
+    expect(load).toHaveBeenCalledTimes(1);
+    expect(first.fromCache).toBe(false);
+    expect(second).toEqual({ value: { articles: 3 }, fetchedAt: first.fetchedAt, fromCache: true });
+  });
+
+  it('keys entries by kind as well as key', async () => {
+    const load = vi.fn().mockResolvedValue('x');
+    await withResponseCache({ kind: 'scholar-author', key: 'abc', load });
+    await withResponseCache({ kind: 'homepage', key: 'abc', load });
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  it('reloads and overwrites the entry on forceRefresh', async () => {
+    await withResponseCache({ kind: 'homepage', key: 'u', load: async () => 'old' });
+    const refreshed = await withResponseCache({ kind: 'homepage', key: 'u', forceRefresh: true, load: async () => 'new' });
+    const cached = await withResponseCache({ kind: 'homepage', key: 'u', load: async () => 'unused' });
+
+    expect(refreshed).toMatchObject({ value: 'new', fromCache: false });
+    expect(cached).toMatchObject({ value: 'new', fromCache: true });
+  });
+
+  it('ignores expired entries', async () => {
+    store.set('homepage:u', { key: 'homepage:u', fetchedAt: Date.now() - 8 * DAY_MS, value: 'stale' });
+    const result = await withResponseCache({ kind: 'homepage', key: 'u', load: async () => 'fresh' });
+    expect(result).toMatchObject({ value: 'fresh', fromCache: false });
+  });
+
+  it('neither reads nor writes when the TTL is 0', async () => {
+    applyResponseCacheSettings({ ttlDays: 0 });
+    store.set('homepage:u', { key: 'homepage:u', fetchedAt: Date.now(), value: 'cached' });
+    const result = await withResponseCache({ kind: 'homepage', key: 'v', load: async () => 'live' });
+
+    expect(result.value).toBe('live');
+    expect(store.has('homepage:v')).toBe(false);
+  });
+
+  it('does not cache failed loads', async () => {
+    await expect(withResponseCache({
+      kind: 'scholar-search',
+      key: 'q',
+      load: async () => { throw new Error('429 Too Many Requests'); }
+    })).rejects.toThrow('429');
+    expect(store.size).toBe(0);
+  });
+});
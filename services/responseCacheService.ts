@@ -0,0 +1,108 @@
+import { ResponseCacheSettings } from '../types';
+import { clearCachedResponses, readCachedResponse, writeCachedResponse } from './storageService';
+
+/**
+ * Persistent cache for SerpAPI and homepage reader responses, so re-running
+ * an analysis (e.g. after editing interests) does not spend another SerpAPI
+ * credit. Entries live in the IndexedDB `responseCache` store; outside the
+ * browser every call goes to the source.
+ */
+export type ResponseCacheKind = 'scholar-author' | 'scholar-search' | 'homepage';
+
+const RESPONSE_CACHE_SETTINGS_STORAGE_KEY = 'responseCacheSettings';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const RESPONSE_CACHE_TTL_OPTIONS: Array<{ ttlDays: number; label: string }> = [
+  { ttlDays: 0, label: 'Off' },
+  { ttlDays: 1, label: '1 day' },
+  { ttlDays: 7, label: '1 week' },
+  { ttlDays: 30, label: '30 days' },
+  { ttlDays: 90, label: '90 days' }
+];
+
+export const DEFAULT_RESPONSE_CACHE_SETTINGS: ResponseCacheSettings = { ttlDays: 7 };
+
+export const normalizeResponseCacheSettings = (raw: unknown): ResponseCacheSettings => {
+  const parsed = (raw && typeof raw === 'object' ? raw : {}) as Partial<ResponseCacheSettings>;
+  const ttlDays = Number(parsed.ttlDays);
+  return {
+    ttlDays: Number.isFinite(ttlDays) && ttlDays >= 0 ? ttlDays : DEFAULT_RESPONSE_CACHE_SETTINGS.ttlDays
+  };
+};
+
+export const loadResponseCacheSettings = (): ResponseCacheSettings => {
+  if (typeof window === 'undefined') return DEFAULT_RESPONSE_CACHE_SETTINGS;
+  try {
+    const raw = window.localStorage.getItem(RESPONSE_CACHE_SETTINGS_STORAGE_KEY);
+    if (!raw) return DEFAULT_RESPONSE_CACHE_SETTINGS;
+    return normalizeResponseCacheSettings(JSON.parse(raw));
+  } catch (error) {
+    console.error('Failed to load response cache settings:', error);
+    return DEFAULT_RESPONSE_CACHE_SETTINGS;
+  }
+};
+
+export const saveResponseCacheSettings = (settings: ResponseCacheSettings): void => {
+  if (typeof window === 'undefined') return;
+  window.localStorage.setItem(RESPONSE_CACHE_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
+
+let activeSettings: ResponseCacheSettings = loadResponseCacheSettings();
+
+export const applyResponseCacheSettings = (settings: ResponseCacheSettings): void => {
+  activeSettings = normalizeResponseCacheSettings(settings);
+};
+
+export const isCacheEntryFresh = (fetchedAt: number, ttlDays: number, now = Date.now()): boolean =>
+  ttlDays > 0 && now - fetchedAt >= 0 && now - fetchedAt < ttlDays * DAY_MS;
+
+export interface ResponseCacheOptions {
+  /** Skip any cached entry and overwrite it with a fresh response. */
+  forceRefresh?: boolean;
+}
+
+export interface CachedResult<T> {
+  value: T;
+  fetchedAt: number;
+  fromCache: boolean;
+}
+
+interface CacheCall<T> extends ResponseCacheOptions {
+  kind: ResponseCacheKind;
+  key: string;
+  load: () => Promise<T>;
+}
+
+/**
+ * Returns a fresh cached response for `kind`/`key`, or calls `load` and
+ * caches its result. Failed loads are not cached, and cache read/write
+ * errors fall back to the source rather than failing the call.
+ */
+export const withResponseCache = async <T>({ kind, key, load, forceRefresh }: CacheCall<T>): Promise<CachedResult<T>> => {
+  const cacheKey = `${kind}:${key}`;
+  const { ttlDays } = activeSettings;
+
+  if (ttlDays > 0 && !forceRefresh) {
+    try {
+      const cached = await readCachedResponse(cacheKey);
+      if (cached && isCacheEntryFresh(cached.fetchedAt, ttlDays)) {
+        return { value: cached.value as T, fetchedAt: cached.fetchedAt, fromCache: true };
+      }
+    } catch (error) {
+      console.warn(`[Cache] Failed to read ${cacheKey}:`, error);
+    }
+  }
+
+  const value = await load();
+  const fetchedAt = Date.now();
+  if (ttlDays > 0) {
+    try {
+      await writeCachedResponse({ key: cacheKey, fetchedAt, value });
+    } catch (error) {
+      console.warn(`[Cache] Failed to write ${cacheKey}:`, error);
+    }
+  }
+  return { value, fetchedAt, fromCache: false };
+};
+
+export const clearResponseCache = (): Promise<void> => clearCachedResponses();
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { AnalysisStatus, Researcher } from '../types';
+import {
+  buildResearchersFromRoster,
+  EMPTY_ROSTER_MAPPING,
+  guessColumnMapping,
+  looksLikeHeaderRow,
+  parseScholarAuthorId,
+  previewRosterRows,
+  RosterColumnMapping
+} from './rosterImportService';
+
+describe('guessColumnMapping', () => {
+  it.each<[string, string[], Partial<RosterColumnMapping>]>([
+    ['mixed-case headers', ['FULL NAME', 'E-Mail', 'Homepage'], { name: 0, contactEmail: 1, homepageUrl: 2, scholarAuthorId: null }],
+    ['padded headers', ['  Professor Name ', ' email '], { name: 0, contactEmail: 1 }],
+    ['a Scholar URL before a homepage', ['Name', 'Google Scholar URL', 'Website'], { scholarAuthorId: 1, homepageUrl: 2 }],
+    ['no name header', ['Email', 'Department', 'Website'], { name: 1, contactEmail: 0, homepageUrl: 2 }],
+    ['only known non-name headers', ['Email', 'Scholar ID'], { name: null, contactEmail: 0, scholarAuthorId: 1 }],
+    ['no headers', [], EMPTY_ROSTER_MAPPING]
+  ])('%s', (_label, headers, expected) => {
+    expect(guessColumnMapping(headers)).toMatchObject(expected);
+  });
+});
+
+describe('looksLikeHeaderRow', () => {
+  it.each<[string[], boolean]>([
+    [['Name', 'Email'], true],
+    [['Jane Doe', 'jane@example.edu'], false],
+    [['Name', 'https://example.edu'], false],
+    [['Jane Doe', 'Bioengineering'], false]
+  ])('%j -> %s', (row, expected) => {
+    expect(looksLikeHeaderRow(row)).toBe(expected);
+  });
+});
+
+describe('parseScholarAuthorId', () => {
+  it.each<[string, string]>([
+    ['abcDEF123456', 'abcDEF123456'],
+    ['https://scholar.google.com/citations?hl=en&user=abcDEF123456', 'abcDEF123456'],
+    ['not an id', ''],
+    ['  ', '']
+  ])('%j -> %j', (value, expected) => {
+    expect(parseScholarAuthorId(value)).toBe(expected);
+  });
+});
+
+describe('previewRosterRows', () => {
+  const mapping: RosterColumnMapping = { name: 0, contactEmail: 1, homepageUrl: 2, scholarAuthorId: 3 };
+  const existing: Researcher[] = [{ id: 'a', name: 'Alice Chen', status: AnalysisStatus.COMPLETED, scholarAuthorId: 'alice1234567' }];
+
+  it('normalizes names, emails, homepages and Scholar IDs', () => {
+    expect(previewRosterRows([['Doe,  Jane', 'MAILTO:Jane@Example.edu', 'example.edu/~jdoe', 'citations?user=jane12345678']], mapping, [])).toEqual([{
+      status: 'new',
+      name: 'Jane Doe',
+      contactEmail: 'jane@example.edu',
+      homepageUrl: 'https://example.edu/~jdoe',
+      scholarAuthorId: 'jane12345678'
+    }]);
+  });
+
+  it('flags blank and nameless rows', () => {
+    const previews = previewRosterRows([['', '', '', ''], ['  ', 'bo@example.edu'], []], mapping, []);
+    expect(previews.map(preview => preview.status)).toEqual(['missing-name', 'missing-name', 'missing-name']);
+    expect(previews[1].contactEmail).toBe('bo@example.edu');
+  });
+
+  it('flags duplicates of existing researchers and of earlier rows', () => {
+    const previews = previewRosterRows([
+      ['ALICE CHEN'],
+      ['Bo Kumar', '', '', 'alice1234567'],
+      ['José García'],
+      ['Jose Garcia']
+    ], mapping, existing);
+    expect(previews.map(preview => preview.status)).toEqual(['duplicate', 'duplicate', 'new', 'duplicate']);
+  });
+
+  it('tells distinct non-Latin names apart', () => {
+    const previews = previewRosterRows([['王伟'], ['李娜'], ['Иван Петров'], ['ИВАН ПЕТРОВ']], mapping, existing);
+    expect(previews.map(preview => preview.status)).toEqual(['new', 'new', 'new', 'duplicate']);
+  });
+
+  it('ignores unmapped fields and invalid values', () => {
+    const [preview] = previewRosterRows([['Jane Doe', 'not an email', '', 'bad id']], { ...EMPTY_ROSTER_MAPPING, name: 0, contactEmail: 1 }, []);
+    expect(preview).toEqual({ status: 'new', name: 'Jane Doe', contactEmail: '', homepageUrl: '', scholarAuthorId: '' });
+  });
+});
+
+describe('buildResearchersFromRoster', () => {
+  it('creates researchers for new rows only', () => {
+    const researchers = buildResearchersFromRoster([
+      { status: 'new', name: 'Jane Doe', contactEmail: 'jane@example.edu', homepageUrl: '', scholarAuthorId: 'jane12345678' },
+      { status: 'new', name: 'Bo Kumar', contactEmail: '', homepageUrl: 'https://example.edu/bo', scholarAuthorId: '' },
+      { status: 'duplicate', name: 'Alice Chen', contactEmail: '', homepageUrl: '', scholarAuthorId: '' },
+      { status: 'missing-name', name: '', contactEmail: '', homepageUrl: '', scholarAuthorId: '' }
+    ]);
+    expect(researchers).toHaveLength(2);
+    expect(researchers[0]).toMatchObject({
+      name: 'Jane Doe',
+      status: AnalysisStatus.PENDING,
+      profileUrl: 'https://scholar.google.com/citations?user=jane12345678',
+      contactEmail: 'jane@example.edu',
+      rosterEmail: 'jane@example.edu'
+    });
+    expect(researchers[1]).toMatchObject({
+      name: 'Bo Kumar',
+      status: AnalysisStatus.AWAITING_SCHOLAR_ID,
+      homepageUrl: 'https://example.edu/bo',
+      rosterHomepageUrl: 'https://example.edu/bo'
+    });
+  });
+});
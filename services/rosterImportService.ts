@@ -0,0 +1,161 @@
+import { AnalysisStatus, Researcher } from '../types';
+import { createId } from './campaignService';
+import { getNameKey } from './researcherDedupe';
+
+export type RosterField = 'name' | 'contactEmail' | 'homepageUrl' | 'scholarAuthorId';
+
+/** Column index per researcher field; null when the field is not imported. */
+export type RosterColumnMapping = Record<RosterField, number | null>;
+
+export const ROSTER_FIELDS: Array<{ field: RosterField; label: string; required?: boolean }> = [
+  { field: 'name', label: 'Name', required: true },
+  { field: 'contactEmail', label: 'Email' },
+  { field: 'homepageUrl', label: 'Homepage' },
+  { field: 'scholarAuthorId', label: 'Scholar ID' }
+];
+
+const HEADER_PATTERNS: Record<RosterField, RegExp> = {
+  name: /^(full[\s_-]*)?name$|^(professor|researcher|faculty|staff|person|pi)([\s_-]*name)?$/i,
+  contactEmail: /e-?mail/i,
+  homepageUrl: /home\s*page|website|web\s*site|url|link|profile/i,
+  scholarAuthorId: /scholar|author[\s_-]*id|gs[\s_-]*id/i
+};
+
+export const EMPTY_ROSTER_MAPPING: RosterColumnMapping = {
+  name: null,
+  contactEmail: null,
+  homepageUrl: null,
+  scholarAuthorId: null
+};
+
+/**
+ * Guesses which column holds each field from the header row. Scholar ID is
+ * matched before homepage so "Google Scholar URL" is not taken as a homepage.
+ */
+export const guessColumnMapping = (headers: string[]): RosterColumnMapping => {
+  const mapping: RosterColumnMapping = { ...EMPTY_ROSTER_MAPPING };
+  const used = new Set<number>();
+  const order: RosterField[] = ['scholarAuthorId', 'contactEmail', 'name', 'homepageUrl'];
+
+  order.forEach(field => {
+    const index = headers.findIndex((header, i) => !used.has(i) && HEADER_PATTERNS[field].test(header.trim()));
+    if (index !== -1) {
+      mapping[field] = index;
+      used.add(index);
+    }
+  });
+
+  // No recognizable name header: use the first unmapped column so the
+  // preview is never empty.
+  if (mapping.name === null && headers.length > 0) {
+    const firstUnused = headers.findIndex((_, i) => !used.has(i));
+    mapping.name = firstUnused === -1 ? null : firstUnused;
+  }
+  return mapping;
+};
+
+/** True when the first row looks like column titles rather than data. */
+export const looksLikeHeaderRow = (row: string[]): boolean =>
+  row.some(cell => Object.values(HEADER_PATTERNS).some(pattern => pattern.test(cell.trim())))
+  && !row.some(cell => /@|https?:\/\//i.test(cell));
+
+const SCHOLAR_ID_PATTERN = /^[\w-]{12}$/;
+
+/**
+ * Accepts either a bare Scholar author ID or a Scholar profile URL and
+ * returns the ID, or an empty string when the value is neither.
+ */
+export const parseScholarAuthorId = (value: string): string => {
+  const trimmed = value.trim();
+  if (!trimmed) return '';
+  const fromUrl = trimmed.match(/[?&]user=([\w-]+)/);
+  if (fromUrl) return fromUrl[1];
+  return SCHOLAR_ID_PATTERN.test(trimmed) ? trimmed : '';
+};
+
+const normalizeHomepageUrl = (value: string): string => {
+  const trimmed = value.trim();
+  if (!trimmed) return '';
+  return /^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`;
+};
+
+const normalizeEmail = (value: string): string => {
+  const trimmed = value.trim().replace(/^mailto:/i, '').toLowerCase();
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(trimmed) ? trimmed : '';
+};
+
+export type RosterRowStatus = 'new' | 'duplicate' | 'missing-name';
+
+export interface RosterRowPreview {
+  status: RosterRowStatus;
+  name: string;
+  contactEmail: string;
+  homepageUrl: string;
+  scholarAuthorId: string;
+}
+
+const readCell = (row: string[], index: number | null): string =>
+  index === null ? '' : (row[index] || '').trim();
+
+/** Rosters often list people as "Last, First"; turn that into "First Last". */
+const normalizeRosterName = (value: string): string => {
+  const collapsed = value.replace(/\s+/g, ' ').trim();
+  const parts = collapsed.split(',').map(part => part.trim());
+  return parts.length === 2 && parts[0] && parts[1] ? `${parts[1]} ${parts[0]}` : collapsed;
+};
+
+/**
+ * Maps data rows to researcher fields and flags rows without a name or whose
+ * name (or Scholar ID) already exists in the campaign or earlier in the file.
+ */
+export const previewRosterRows = (
+  rows: string[][],
+  mapping: RosterColumnMapping,
+  existing: Researcher[]
+): RosterRowPreview[] => {
+  const seenNames = new Set(existing.map(r => getNameKey(r.name)));
+  const seenScholarIds = new Set(existing.map(r => r.scholarAuthorId).filter((id): id is string => Boolean(id)));
+
+  return rows.map(row => {
+    const name = normalizeRosterName(readCell(row, mapping.name));
+    const scholarAuthorId = parseScholarAuthorId(readCell(row, mapping.scholarAuthorId));
+    const preview: RosterRowPreview = {
+      status: 'new',
+      name,
+      contactEmail: normalizeEmail(readCell(row, mapping.contactEmail)),
+      homepageUrl: normalizeHomepageUrl(readCell(row, mapping.homepageUrl)),
+      scholarAuthorId
+    };
+
+    if (!name) return { ...preview, status: 'missing-name' };
+    if (seenNames.has(getNameKey(name)) || (scholarAuthorId && seenScholarIds.has(scholarAuthorId))) {
+      return { ...preview, status: 'duplicate' };
+    }
+    seenNames.add(getNameKey(name));
+    if (scholarAuthorId) seenScholarIds.add(scholarAuthorId);
+    return preview;
+  });
+};
+
+/**
+ * Creates researchers for the new rows. Rows with a Scholar ID are ready to
+ * analyze; the rest wait for an ID like names extracted from free text.
+ */
+export const buildResearchersFromRoster = (previews: RosterRowPreview[]): Researcher[] =>
+  previews
+    .filter(preview => preview.status === 'new')
+    .map(preview => ({
+      id: createId(),
+      name: preview.name,
+      status: preview.scholarAuthorId ? AnalysisStatus.PENDING : AnalysisStatus.AWAITING_SCHOLAR_ID,
+      scholarAuthorId: preview.scholarAuthorId || undefined,
+      profileUrl: preview.scholarAuthorId
+        ? `https://scholar.google.com/citations?user=${preview.scholarAuthorId}`
+        : undefined,
+      homepageUrl: preview.homepageUrl || undefined,
+      contactEmail: preview.contactEmail || undefined,
+      rosterHomepageUrl: preview.homepageUrl || undefined,
+      rosterEmail: preview.contactEmail || undefined,
+      interests: '',
+      tags: []
+    }));
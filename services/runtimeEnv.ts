@@ -0,0 +1,18 @@
+/**
+ * Environment access that works both in the Vite-built browser app and in
+ * the Node backend (`server/`). Vite replaces `import.meta.env` at build
+ * time; under Node it is undefined and `process.env` is used instead.
+ */
+const viteEnv: Record<string, unknown> | undefined =
+  typeof import.meta.env === 'object' ? import.meta.env : undefined;
+
+export const isServerRuntime = typeof window === 'undefined';
+
+/** Returns the first non-empty variable among `names`, or an empty string. */
+export const readEnv = (...names: string[]): string => {
+  for (const name of names) {
+    const value = viteEnv?.[name] ?? (typeof process !== 'undefined' ? process.env?.[name] : undefined);
+    if (typeof value === 'string' && value.trim()) return value.trim();
+  }
+  return '';
+};
@@ -1,10 +1,21 @@
-const SERP_API_KEY = import.meta.env.VITE_SERP_API_KEY || '';
+import { buildFixtureKey, withFixture } from './fixtureService';
+import { getFromBackend, isBackendEnabled } from './apiClient';
+import { isServerRuntime, readEnv } from './runtimeEnv';
+import { ResponseCacheOptions, withResponseCache } from './responseCacheService';
+import { mergePublicationLists } from './publicationList';
+import { ScholarFetchSettings } from '../types';
+
+// Only the API server holds the key; in the browser the Vite proxy attaches it.
+const SERP_API_KEY = isServerRuntime ? readEnv('SERP_API_KEY', 'VITE_SERP_API_KEY') : '';
 
 export interface ScholarPublication {
   title: string;
+  citation_id?: string;
   authors?: string;
   year?: string;
   citation?: string;
+  /** Venue line as SerpAPI returns it, e.g. "Nature 521 (7553), 436-444, 2015". */
+  publication?: string;
   cited_by?: {
     value: number;
   };
@@ -16,10 +27,14 @@ export interface ScholarAuthorData {
   website?: string;
   verifiedEmailHint?: string;
   articles: ScholarPublication[];
+  /** Raw SerpAPI block: `table` rows keyed citations/h_index/i10_index with `all` and `since_<year>`, plus a yearly `graph`. */
   cited_by?: {
-    table: Array<{ citations: { all: number } }>;
+    table?: Array<Record<string, Record<string, number>>>;
+    graph?: Array<{ year: number; citations: number }>;
   };
   thumbnail?: string;
+  /** When this data was fetched from SerpAPI (ms epoch); older than now when served from the cache. */
+  fetchedAt?: number;
 }
 
 export interface ScholarAuthorCandidate {
@@ -32,49 +47,174 @@ export interface ScholarAuthorCandidate {
 }
 
 /**
- * Fetches publications for a given Google Scholar author ID using SerpAPI
- * @param authorId - The Scholar author ID (e.g., "LSsXyncAAAAJ")
- * @returns Author data including up to 200 publications
+ * Calls SerpAPI and returns the raw JSON payload. The browser goes through
+ * the Vite dev proxy (avoids CORS; the proxy adds the API key); the API
+ * server calls SerpAPI directly with its own key.
  */
-export async function fetchScholarPublications(authorId: string): Promise<ScholarAuthorData> {
-  if (!SERP_API_KEY) {
-    throw new Error('SERP_API_KEY is not configured in .env.local');
+const fetchSerpApiJson = async (params: URLSearchParams): Promise<any> => {
+  if (isServerRuntime && !SERP_API_KEY) {
+    throw new Error('SERP_API_KEY is not configured for the API server');
   }
 
-  // Use Vite dev proxy to avoid CORS issues
-  const params = new URLSearchParams({
-    engine: 'google_scholar_author',
-    author_id: authorId,
-    num: '50',
-    sort: 'pubdate'
-    // API key will be added by the proxy
-  });
+  const url = isServerRuntime
+    ? `https://serpapi.com/search.json?${params.toString()}&api_key=${encodeURIComponent(SERP_API_KEY)}`
+    : `/api/serpapi?${params.toString()}`;
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`SerpAPI request failed: ${response.status} ${response.statusText}`);
+  }
 
-  const url = `/api/serpapi?${params.toString()}`;
+  const data = await response.json();
+  if (data.error) {
+    throw new Error(`SerpAPI error: ${data.error}`);
+  }
+  return data;
+};
+
+const SCHOLAR_FETCH_SETTINGS_STORAGE_KEY = 'scholarFetchSettings';
+// SerpAPI returns at most 100 articles per google_scholar_author page.
+const SERP_ARTICLES_PAGE_SIZE = 100;
+export const MAX_SCHOLAR_ARTICLE_CAP = 1000;
+
+export const DEFAULT_SCHOLAR_FETCH_SETTINGS: ScholarFetchSettings = {
+  maxArticles: 100,
+  includeMostCited: false
+};
+
+export const normalizeScholarFetchSettings = (raw: unknown): ScholarFetchSettings => {
+  const parsed = (raw && typeof raw === 'object' ? raw : {}) as Partial<ScholarFetchSettings>;
+  const maxArticles = Math.round(Number(parsed.maxArticles));
+  return {
+    maxArticles: Number.isFinite(maxArticles) && maxArticles > 0
+      ? Math.min(maxArticles, MAX_SCHOLAR_ARTICLE_CAP)
+      : DEFAULT_SCHOLAR_FETCH_SETTINGS.maxArticles,
+    includeMostCited: typeof parsed.includeMostCited === 'boolean'
+      ? parsed.includeMostCited
+      : DEFAULT_SCHOLAR_FETCH_SETTINGS.includeMostCited
+  };
+};
 
+export const loadScholarFetchSettings = (): ScholarFetchSettings => {
+  if (typeof window === 'undefined') return DEFAULT_SCHOLAR_FETCH_SETTINGS;
   try {
-    const response = await fetch(url);
-    
-    if (!response.ok) {
-      throw new Error(`SerpAPI request failed: ${response.status} ${response.statusText}`);
-    }
+    const raw = window.localStorage.getItem(SCHOLAR_FETCH_SETTINGS_STORAGE_KEY);
+    if (!raw) return DEFAULT_SCHOLAR_FETCH_SETTINGS;
+    return normalizeScholarFetchSettings(JSON.parse(raw));
+  } catch (error) {
+    console.error('Failed to load Scholar fetch settings:', error);
+    return DEFAULT_SCHOLAR_FETCH_SETTINGS;
+  }
+};
+
+export const saveScholarFetchSettings = (settings: ScholarFetchSettings): void => {
+  if (typeof window === 'undefined') return;
+  window.localStorage.setItem(SCHOLAR_FETCH_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
+
+let activeFetchSettings: ScholarFetchSettings = loadScholarFetchSettings();
+
+export const applyScholarFetchSettings = (settings: ScholarFetchSettings): void => {
+  activeFetchSettings = normalizeScholarFetchSettings(settings);
+};
+
+/** `recent` sorts by publication date; `cited` is Scholar's default citation order. */
+export type ScholarArticleSort = 'recent' | 'cited';
+
+/**
+ * Fetches one sort order of an author's articles page by page (SerpAPI
+ * `start` offset) until `maxArticles` are collected or the profile runs out.
+ * Also returns the first page's payload, which carries the author block.
+ */
+export async function fetchScholarArticlePages(
+  authorId: string,
+  sort: ScholarArticleSort,
+  maxArticles: number
+): Promise<{ firstPage: any; articles: ScholarPublication[] }> {
+  let firstPage: any;
+  let articles: ScholarPublication[] = [];
+
+  for (let start = 0; start < maxArticles; start += SERP_ARTICLES_PAGE_SIZE) {
+    const num = Math.min(SERP_ARTICLES_PAGE_SIZE, maxArticles - start);
+    const params = new URLSearchParams({
+      engine: 'google_scholar_author',
+      author_id: authorId,
+      num: String(num),
+      start: String(start),
+      ...(sort === 'recent' ? { sort: 'pubdate' } : {})
+      // API key will be added by the proxy
+    });
+
+    const page = await withFixture({
+      kind: 'scholar-author',
+      key: buildFixtureKey(`${authorId}-${sort}-${start}-${num}`),
+      label: `Scholar author ${authorId} (${sort}, from ${start})`,
+      request: Object.fromEntries(params),
+      load: () => fetchSerpApiJson(params)
+    });
+    firstPage ??= page;
 
-    const data = await response.json();
+    const pageArticles: ScholarPublication[] = Array.isArray(page?.articles) ? page.articles : [];
+    articles = mergePublicationLists(articles, pageArticles);
+    if (pageArticles.length < num || !page?.serpapi_pagination?.next) break;
+  }
+
+  return { firstPage, articles: articles.slice(0, maxArticles) };
+}
+
+/**
+ * Fetches publications for a given Google Scholar author ID using SerpAPI,
+ * reusing a cached response while it is within the cache TTL.
+ *
+ * Collects up to the configured article cap of the most recent papers and,
+ * unless disabled, the same number of most-cited papers, merged without
+ * duplicates (recent first).
+ * @param authorId - The Scholar author ID (e.g., "LSsXyncAAAAJ")
+ * @param options - `forceRefresh` bypasses the cache
+ */
+export async function fetchScholarPublications(
+  authorId: string,
+  options: ResponseCacheOptions = {}
+): Promise<ScholarAuthorData> {
+  const settings = activeFetchSettings;
+  const { value, fetchedAt } = await withResponseCache({
+    kind: 'scholar-author',
+    // Different caps or sorts are different responses.
+    key: `${authorId}:${settings.maxArticles}:${settings.includeMostCited ? 'recent+cited' : 'recent'}`,
+    forceRefresh: options.forceRefresh,
+    load: () => fetchScholarPublicationsFromSource(authorId, settings)
+  });
+  return { ...value, fetchedAt };
+}
+
+export async function fetchScholarPublicationsFromSource(
+  authorId: string,
+  settings: ScholarFetchSettings
+): Promise<ScholarAuthorData> {
+  if (isBackendEnabled) {
+    return getFromBackend<ScholarAuthorData>('/api/scholar/author', {
+      id: authorId,
+      maxArticles: String(settings.maxArticles),
+      includeMostCited: String(settings.includeMostCited)
+    });
+  }
 
-    if (data.error) {
-      throw new Error(`SerpAPI error: ${data.error}`);
-    }
+  try {
+    const recent = await fetchScholarArticlePages(authorId, 'recent', settings.maxArticles);
+    const mostCited = settings.includeMostCited
+      ? await fetchScholarArticlePages(authorId, 'cited', settings.maxArticles)
+      : { articles: [] };
+    const data = recent.firstPage;
 
-    const thumbnail = data.author?.thumbnail;
+    const thumbnail = data?.author?.thumbnail;
     const isDefaultAvatar = thumbnail?.includes('avatar_scholar_128.png');
 
     return {
-      name: data.author?.name || 'Unknown',
-      affiliations: data.author?.affiliations || '',
-      website: data.author?.website || '',
-      verifiedEmailHint: data.author?.email || '',
-      articles: data.articles || [],
-      cited_by: data.cited_by,
+      name: data?.author?.name || 'Unknown',
+      affiliations: data?.author?.affiliations || '',
+      website: data?.author?.website || '',
+      verifiedEmailHint: data?.author?.email || '',
+      articles: mergePublicationLists(recent.articles, mostCited.articles),
+      cited_by: data?.cited_by,
       thumbnail: isDefaultAvatar ? undefined : thumbnail
     };
 
@@ -88,32 +228,46 @@ export async function fetchScholarPublications(authorId: string): Promise<Schola
  * Searches Google Scholar and extracts up to 3 candidate author profiles.
  * Uses the general google_scholar endpoint and reads `profiles.authors`.
  */
-export async function searchScholarAuthorCandidates(name: string, university?: string): Promise<ScholarAuthorCandidate[]> {
-  if (!SERP_API_KEY) {
-    throw new Error('SERP_API_KEY is not configured in .env.local');
-  }
-
+export async function searchScholarAuthorCandidates(
+  name: string,
+  university?: string,
+  options: ResponseCacheOptions = {}
+): Promise<ScholarAuthorCandidate[]> {
   const query = [name, university].map(s => (s || '').trim()).filter(Boolean).join(' ');
   if (!query) return [];
 
+  const { value } = await withResponseCache({
+    kind: 'scholar-search',
+    key: query.toLowerCase(),
+    forceRefresh: options.forceRefresh,
+    load: () => searchScholarAuthorCandidatesFromSource(name, university, query)
+  });
+  return value;
+}
+
+async function searchScholarAuthorCandidatesFromSource(
+  name: string,
+  university: string | undefined,
+  query: string
+): Promise<ScholarAuthorCandidate[]> {
+  if (isBackendEnabled) {
+    return getFromBackend<ScholarAuthorCandidate[]>('/api/scholar/search', { name, university: university || '' });
+  }
+
   const params = new URLSearchParams({
     engine: 'google_scholar',
     q: query,
     hl: 'en'
   });
 
-  const url = `/api/serpapi?${params.toString()}`;
-
   try {
-    const response = await fetch(url);
-    if (!response.ok) {
-      throw new Error(`SerpAPI request failed: ${response.status} ${response.statusText}`);
-    }
-
-    const data = await response.json();
-    if (data.error) {
-      throw new Error(`SerpAPI error: ${data.error}`);
-    }
+    const data = await withFixture({
+      kind: 'scholar-search',
+      key: buildFixtureKey(query),
+      label: `Scholar search "${query}"`,
+      request: Object.fromEntries(params),
+      load: () => fetchSerpApiJson(params)
+    });
 
     const authors = Array.isArray(data?.profiles?.authors) ? data.profiles.authors : [];
     return authors
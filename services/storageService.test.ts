@@ -0,0 +1,124 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { AnalysisStatus, EmailStatus, MatchType } from '../types';
+
+// Every test starts from an empty browser: a fresh database and localStorage,
+// and a fresh module so its cached connection is not reused.
+const localStore = new Map<string, string>();
+let storage: typeof import('./storageService');
+
+beforeEach(async () => {
+  localStore.clear();
+  vi.stubGlobal('indexedDB', new IDBFactory());
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => localStore.get(key) ?? null,
+    setItem: (key: string, value: string) => localStore.set(key, value),
+    removeItem: (key: string) => localStore.delete(key)
+  });
+  vi.resetModules();
+  storage = await import('./storageService');
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// The layout a v1 build wrote: researchers without a campaign, schema v0 payloads.
+const seedVersionOneDatabase = async (records: unknown[]): Promise<void> => {
+  const request = indexedDB.open('academic-outreach-explorer', 1);
+  request.onupgradeneeded = () => {
+    request.result.createObjectStore('researchers', { keyPath: 'id' });
+    request.result.createObjectStore('meta', { keyPath: 'key' });
+  };
+  const db = await requestToPromise(request);
+  const tx = db.transaction('researchers', 'readwrite');
+  records.forEach(record => tx.objectStore('researchers').put(record));
+  await new Promise(resolve => { tx.oncomplete = resolve; });
+  db.close();
+};
+
+const readStoredRecord = async (id: string): Promise<any> => {
+  const db = await requestToPromise(indexedDB.open('academic-outreach-explorer'));
+  const record = await requestToPromise(db.transaction('researchers').objectStore('researchers').get(id));
+  db.close();
+  return record;
+};
+
+describe('migrateResearcherPayload', () => {
+  it('fills fields that schema v0 payloads predate', () => {
+    expect(storage.migrateResearcherPayload({ id: 'r1', name: 'Jane Doe', status: AnalysisStatus.COMPLETED, isMatch: false }, 0)).toEqual({
+      id: 'r1',
+      name: 'Jane Doe',
+      status: AnalysisStatus.COMPLETED,
+      isMatch: false,
+      tags: [],
+      matchedInterests: [],
+      emailStatus: EmailStatus.NOT_SENT,
+      matchType: MatchType.NONE
+    });
+  });
+
+  it('leaves current payloads untouched', () => {
+    const payload = { id: 'r1', name: 'Jane Doe', status: AnalysisStatus.PENDING };
+    expect(storage.migrateResearcherPayload(payload, storage.RESEARCHER_SCHEMA_VERSION)).toEqual(payload);
+  });
+
+  it.each<[string, unknown, number, string]>([
+    ['a newer schema', { id: 'r1' }, 99, 'unknown schema v99'],
+    ['a payload that is not an object', 'Jane Doe', 0, 'not an object']
+  ])('rejects %s', (_label, payload, version, message) => {
+    expect(() => storage.migrateResearcherPayload(payload, version)).toThrow(message);
+  });
+});
+
+describe('database upgrades', () => {
+  it('moves v1 researchers and profile fields into a campaign and upgrades their payloads', async () => {
+    localStore.set('userInterests', 'soft robotics');
+    localStore.set('university', 'Example University');
+    await seedVersionOneDatabase([
+      { id: 'r1', schemaVersion: 0, position: 1, data: { id: 'r1', name: 'Bo Kumar', status: AnalysisStatus.PENDING } },
+      { id: 'r0', schemaVersion: 0, position: 0, data: { id: 'r0', name: 'Jane Doe', status: AnalysisStatus.PENDING, tags: [{ keyword: 'x' }] } }
+    ]);
+
+    const [campaign] = await storage.loadCampaigns();
+    expect(campaign).toMatchObject({ userInterests: 'soft robotics', university: 'Example University' });
+    expect(localStore.has('userInterests')).toBe(false);
+
+    const researchers = await storage.loadResearchers(campaign.id);
+    expect(researchers.map(r => r.name)).toEqual(['Jane Doe', 'Bo Kumar']);
+    expect(researchers[0]).toMatchObject({ tags: [{ keyword: 'x' }], emailStatus: EmailStatus.NOT_SENT });
+    expect(await readStoredRecord('r1')).toMatchObject({
+      campaignId: campaign.id,
+      schemaVersion: storage.RESEARCHER_SCHEMA_VERSION,
+      data: { matchedInterests: [] }
+    });
+  });
+
+  it('imports researchers older builds kept in localStorage, skipping entries that are not objects', async () => {
+    localStore.set('researchers', JSON.stringify([{ id: 'r1', name: 'Jane Doe', status: AnalysisStatus.PENDING }, 'junk']));
+
+    const [campaign] = await storage.loadCampaigns();
+    expect(await storage.loadResearchers(campaign.id)).toEqual([expect.objectContaining({ id: 'r1', tags: [] })]);
+    expect(localStore.has('researchers')).toBe(false);
+  });
+
+  it('keeps records from a newer schema as they are instead of migrating them', async () => {
+    const [campaign] = await storage.loadCampaigns();
+    await storage.persistResearcherChanges(campaign.id, [], [{ id: 'r1', name: 'Jane Doe', status: AnalysisStatus.PENDING }]);
+
+    const db = await requestToPromise(indexedDB.open('academic-outreach-explorer'));
+    const future = { id: 'r1', campaignId: campaign.id, schemaVersion: 99, position: 0, data: { id: 'r1', name: 'Jane Doe', futureField: 1 } };
+    const tx = db.transaction('researchers', 'readwrite');
+    tx.objectStore('researchers').put(future);
+    await new Promise(resolve => { tx.oncomplete = resolve; });
+    db.close();
+
+    expect(await storage.loadResearchers(campaign.id)).toEqual([future.data]);
+    expect(await readStoredRecord('r1')).toEqual(future);
+  });
+});
@@ -0,0 +1,416 @@
+import { AnalysisStatus, Campaign, EmailStatus, MatchType, Researcher } from '../types';
+import { createCampaign, DEFAULT_CAMPAIGN_NAME } from './campaignService';
+
+const DB_NAME = 'academic-outreach-explorer';
+// v1: researchers + meta stores. v2: campaigns store, researchers indexed by campaign.
+// v3: response cache store.
+const DB_VERSION = 3;
+const RESEARCHERS_STORE = 'researchers';
+const CAMPAIGNS_STORE = 'campaigns';
+const META_STORE = 'meta';
+const RESPONSE_CACHE_STORE = 'responseCache';
+const CAMPAIGN_INDEX = 'campaignId';
+
+const LEGACY_RESEARCHERS_KEY = 'researchers';
+const LEGACY_PROFILE_KEYS = ['userInterests', 'letterTemplate', 'emailTitle', 'university'] as const;
+const LEGACY_IMPORT_META_KEY = 'legacyLocalStorageImported';
+const LEGACY_CAMPAIGN_META_KEY = 'legacyCampaignId';
+
+/**
+ * Version of the persisted `Researcher` payload shape.
+ * Bump this and add an entry to `RESEARCHER_MIGRATIONS` whenever a change to
+ * `Researcher` in types.ts needs older saves to be rewritten on load.
+ */
+export const RESEARCHER_SCHEMA_VERSION = 1;
+
+interface StoredResearcherRecord {
+  id: string;
+  campaignId: string;
+  schemaVersion: number;
+  position: number;
+  data: Researcher;
+}
+
+interface MetaRecord {
+  key: string;
+  value: unknown;
+}
+
+export interface CachedResponseRecord {
+  key: string;
+  fetchedAt: number;
+  value: unknown;
+}
+
+type ResearcherPayload = Record<string, unknown>;
+type ResearcherMigration = (data: ResearcherPayload) => ResearcherPayload;
+
+const isResearcherPayload = (value: unknown): value is ResearcherPayload =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Keyed by the schema version the payload is upgraded FROM.
+const RESEARCHER_MIGRATIONS: Record<number, ResearcherMigration> = {
+  // v0: payloads saved to localStorage before IndexedDB, some of which predate
+  // `matchType`, `matchedInterests` and `emailStatus`.
+  0: (data) => {
+    const migrated = { ...data };
+    if (!Array.isArray(migrated.tags)) migrated.tags = [];
+    if (!Array.isArray(migrated.matchedInterests)) migrated.matchedInterests = [];
+    if (!migrated.emailStatus) migrated.emailStatus = EmailStatus.NOT_SENT;
+    if (!migrated.matchType && migrated.status === AnalysisStatus.COMPLETED && !migrated.isMatch) {
+      // Matches without a type stay untyped; ResultsGrid ranks them as legacy matches.
+      migrated.matchType = MatchType.NONE;
+    }
+    return migrated;
+  }
+};
+
+/**
+ * Upgrades a saved researcher from `fromVersion` to the current schema.
+ * Throws for payloads that are not objects or come from a newer schema,
+ * which this build cannot know how to read.
+ */
+export const migrateResearcherPayload = (data: unknown, fromVersion: number): Researcher => {
+  if (!isResearcherPayload(data)) {
+    throw new Error('Researcher payload is not an object');
+  }
+  if (fromVersion > RESEARCHER_SCHEMA_VERSION) {
+    throw new Error(`Researcher payload has unknown schema v${fromVersion}`);
+  }
+  let migrated = data;
+  for (let version = fromVersion; version < RESEARCHER_SCHEMA_VERSION; version++) {
+    const migration = RESEARCHER_MIGRATIONS[version];
+    if (!migration) {
+      throw new Error(`Missing researcher migration from schema v${version}`);
+    }
+    migrated = migration(migrated);
+  }
+  return migrated as unknown as Researcher;
+};
+
+const isStorageAvailable = (): boolean => typeof indexedDB !== 'undefined';
+
+const requestToPromise = <T,>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error || new Error('IndexedDB transaction aborted'));
+  });
+
+/**
+ * Builds the campaign that owns everything saved before campaigns existed,
+ * seeded from the profile fields older builds kept in localStorage.
+ */
+const createLegacyCampaign = (): Campaign => {
+  const fields: Partial<Record<typeof LEGACY_PROFILE_KEYS[number], string>> = {};
+  LEGACY_PROFILE_KEYS.forEach(key => {
+    const value = localStorage.getItem(key);
+    if (value) fields[key] = value;
+  });
+  return createCampaign(DEFAULT_CAMPAIGN_NAME, fields);
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      const tx = request.transaction!;
+      const oldVersion = event.oldVersion;
+
+      if (oldVersion < 1) {
+        db.createObjectStore(RESEARCHERS_STORE, { keyPath: 'id' });
+        db.createObjectStore(META_STORE, { keyPath: 'key' });
+      }
+
+      if (oldVersion < 2) {
+        const legacyCampaign = createLegacyCampaign();
+        db.createObjectStore(CAMPAIGNS_STORE, { keyPath: 'id' }).put(legacyCampaign);
+        tx.objectStore(META_STORE).put({ key: LEGACY_CAMPAIGN_META_KEY, value: legacyCampaign.id } as MetaRecord);
+
+        const researcherStore = tx.objectStore(RESEARCHERS_STORE);
+        researcherStore.createIndex(CAMPAIGN_INDEX, 'campaignId');
+        researcherStore.openCursor().onsuccess = (cursorEvent) => {
+          const cursor = (cursorEvent.target as IDBRequest<IDBCursorWithValue | null>).result;
+          if (!cursor) return;
+          cursor.update({ ...cursor.value, campaignId: legacyCampaign.id });
+          cursor.continue();
+        };
+
+        LEGACY_PROFILE_KEYS.forEach(key => localStorage.removeItem(key));
+      }
+
+      if (oldVersion < 3) {
+        db.createObjectStore(RESPONSE_CACHE_STORE, { keyPath: 'key' });
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+};
+
+const toRecord = (researcher: Researcher, campaignId: string, position: number): StoredResearcherRecord => ({
+  id: researcher.id,
+  campaignId,
+  schemaVersion: RESEARCHER_SCHEMA_VERSION,
+  position,
+  data: researcher
+});
+
+const getMeta = async (db: IDBDatabase, key: string): Promise<unknown> => {
+  const tx = db.transaction(META_STORE, 'readonly');
+  const record = await requestToPromise<MetaRecord | undefined>(tx.objectStore(META_STORE).get(key));
+  return record?.value;
+};
+
+/**
+ * One-time import of the single `researchers` localStorage key written by
+ * older builds. The key is removed afterwards to free the localStorage quota.
+ */
+const importLegacyLocalStorage = async (db: IDBDatabase): Promise<void> => {
+  if (await getMeta(db, LEGACY_IMPORT_META_KEY)) return;
+
+  const legacyCampaignId = await getMeta(db, LEGACY_CAMPAIGN_META_KEY);
+  let legacyResearchers: unknown[] = [];
+  const raw = localStorage.getItem(LEGACY_RESEARCHERS_KEY);
+  if (raw) {
+    try {
+      const parsed = JSON.parse(raw);
+      if (Array.isArray(parsed)) legacyResearchers = parsed;
+    } catch (error) {
+      console.error('[Storage] Failed to parse legacy researchers from localStorage:', error);
+    }
+  }
+
+  const tx = db.transaction([RESEARCHERS_STORE, META_STORE], 'readwrite');
+  const store = tx.objectStore(RESEARCHERS_STORE);
+  if (typeof legacyCampaignId === 'string') {
+    legacyResearchers.filter(isResearcherPayload).forEach((item, index) => {
+      store.put(toRecord(migrateResearcherPayload(item, 0), legacyCampaignId, index));
+    });
+  }
+  tx.objectStore(META_STORE).put({ key: LEGACY_IMPORT_META_KEY, value: Date.now() } as MetaRecord);
+  await transactionDone(tx);
+
+  if (raw) {
+    console.log(`[Storage] Imported ${legacyResearchers.length} researchers from localStorage`);
+    localStorage.removeItem(LEGACY_RESEARCHERS_KEY);
+  }
+};
+
+const getReadyDatabase = async (): Promise<IDBDatabase> => {
+  const db = await openDatabase();
+  await importLegacyLocalStorage(db);
+  return db;
+};
+
+/**
+ * Loads all campaigns. There is always at least one: a default campaign is
+ * created if the store is empty.
+ */
+export const loadCampaigns = async (): Promise<Campaign[]> => {
+  if (!isStorageAvailable()) return [createCampaign(DEFAULT_CAMPAIGN_NAME)];
+
+  const db = await getReadyDatabase();
+  const tx = db.transaction(CAMPAIGNS_STORE, 'readonly');
+  const campaigns = await requestToPromise<Campaign[]>(tx.objectStore(CAMPAIGNS_STORE).getAll());
+  if (campaigns.length > 0) return campaigns;
+
+  const campaign = createCampaign(DEFAULT_CAMPAIGN_NAME);
+  await persistCampaignChanges([], [campaign]);
+  return [campaign];
+};
+
+/**
+ * Writes campaigns that changed between two snapshots of the list and deletes
+ * removed campaigns together with their researchers.
+ */
+export const persistCampaignChanges = async (
+  previous: Campaign[],
+  next: Campaign[]
+): Promise<void> => {
+  if (!isStorageAvailable()) return;
+
+  const previousById = new Map(previous.map(campaign => [campaign.id, campaign]));
+  const nextIds = new Set(next.map(c => c.id));
+  const toPut = next.filter(campaign => previousById.get(campaign.id) !== campaign);
+  const toDelete = previous.filter(c => !nextIds.has(c.id)).map(c => c.id);
+
+  if (toPut.length === 0 && toDelete.length === 0) return;
+
+  const db = await getReadyDatabase();
+  const tx = db.transaction([CAMPAIGNS_STORE, RESEARCHERS_STORE], 'readwrite');
+  const campaignStore = tx.objectStore(CAMPAIGNS_STORE);
+  const researcherIndex = tx.objectStore(RESEARCHERS_STORE).index(CAMPAIGN_INDEX);
+  toPut.forEach(campaign => campaignStore.put(campaign));
+  toDelete.forEach(id => {
+    campaignStore.delete(id);
+    researcherIndex.openCursor(IDBKeyRange.only(id)).onsuccess = (event) => {
+      const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+      if (!cursor) return;
+      cursor.delete();
+      cursor.continue();
+    };
+  });
+  await transactionDone(tx);
+};
+
+/**
+ * Loads the researchers of one campaign in their saved order, upgrading any
+ * records written with an older schema version.
+ */
+export const loadResearchers = async (campaignId: string): Promise<Researcher[]> => {
+  if (!isStorageAvailable()) return [];
+
+  const db = await getReadyDatabase();
+  const readTx = db.transaction(RESEARCHERS_STORE, 'readonly');
+  const records = await requestToPromise<StoredResearcherRecord[]>(
+    readTx.objectStore(RESEARCHERS_STORE).index(CAMPAIGN_INDEX).getAll(IDBKeyRange.only(campaignId))
+  );
+  records.sort((a, b) => a.position - b.position);
+
+  const upgraded: StoredResearcherRecord[] = [];
+  const researchers = records.map(record => {
+    const version = typeof record.schemaVersion === 'number' ? record.schemaVersion : 0;
+    if (version > RESEARCHER_SCHEMA_VERSION) {
+      console.warn(`[Storage] Researcher ${record.id} was saved with newer schema v${version}`);
+      return record.data;
+    }
+    if (version === RESEARCHER_SCHEMA_VERSION) return record.data;
+
+    const data = migrateResearcherPayload(record.data, version);
+    upgraded.push(toRecord(data, campaignId, record.position));
+    return data;
+  });
+
+  if (upgraded.length > 0) {
+    const writeTx = db.transaction(RESEARCHERS_STORE, 'readwrite');
+    const store = writeTx.objectStore(RESEARCHERS_STORE);
+    upgraded.forEach(record => store.put(record));
+    await transactionDone(writeTx);
+    console.log(`[Storage] Migrated ${upgraded.length} researcher records to schema v${RESEARCHER_SCHEMA_VERSION}`);
+  }
+
+  return researchers;
+};
+
+/**
+ * Writes only the researchers of a campaign that changed between two
+ * snapshots of its list (by reference or position) and deletes the ones that
+ * were removed.
+ */
+export const persistResearcherChanges = async (
+  campaignId: string,
+  previous: Researcher[],
+  next: Researcher[]
+): Promise<void> => {
+  if (!isStorageAvailable()) return;
+
+  const previousById = new Map(previous.map((researcher, index) => [researcher.id, { researcher, index }]));
+  const nextIds = new Set(next.map(r => r.id));
+
+  const toPut = next
+    .map((researcher, index) => ({ researcher, index }))
+    .filter(({ researcher, index }) => {
+      const before = previousById.get(researcher.id);
+      return !before || before.researcher !== researcher || before.index !== index;
+    });
+  const toDelete = previous.filter(r => !nextIds.has(r.id)).map(r => r.id);
+
+  if (toPut.length === 0 && toDelete.length === 0) return;
+
+  const db = await getReadyDatabase();
+  const tx = db.transaction(RESEARCHERS_STORE, 'readwrite');
+  const store = tx.objectStore(RESEARCHERS_STORE);
+  toPut.forEach(({ researcher, index }) => store.put(toRecord(researcher, campaignId, index)));
+  toDelete.forEach(id => store.delete(id));
+  await transactionDone(tx);
+};
+
+/**
+ * Appends researchers to the end of another campaign's list. Existing records
+ * with the same ID are re-assigned, which is how researchers are moved.
+ */
+export const appendResearchersToCampaign = async (
+  campaignId: string,
+  researchers: Researcher[]
+): Promise<void> => {
+  if (!isStorageAvailable() || researchers.length === 0) return;
+
+  const db = await getReadyDatabase();
+  const tx = db.transaction(RESEARCHERS_STORE, 'readwrite');
+  const store = tx.objectStore(RESEARCHERS_STORE);
+  const existing = await requestToPromise<StoredResearcherRecord[]>(
+    store.index(CAMPAIGN_INDEX).getAll(IDBKeyRange.only(campaignId))
+  );
+  const startPosition = existing.reduce((max, record) => Math.max(max, record.position + 1), 0);
+  researchers.forEach((researcher, offset) => {
+    store.put(toRecord(researcher, campaignId, startPosition + offset));
+  });
+  await transactionDone(tx);
+};
+
+/**
+ * Replaces every campaign and researcher with the given set in a single
+ * transaction. Used when importing a project bundle in "replace" mode.
+ */
+export const replaceWorkspace = async (
+  entries: Array<{ campaign: Campaign; researchers: Researcher[] }>
+): Promise<void> => {
+  if (!isStorageAvailable()) return;
+
+  const db = await getReadyDatabase();
+  const tx = db.transaction([CAMPAIGNS_STORE, RESEARCHERS_STORE], 'readwrite');
+  const campaignStore = tx.objectStore(CAMPAIGNS_STORE);
+  const researcherStore = tx.objectStore(RESEARCHERS_STORE);
+  campaignStore.clear();
+  researcherStore.clear();
+  entries.forEach(({ campaign, researchers }) => {
+    campaignStore.put(campaign);
+    researchers.forEach((researcher, index) => researcherStore.put(toRecord(researcher, campaign.id, index)));
+  });
+  await transactionDone(tx);
+};
+
+export const readCachedResponse = async (key: string): Promise<CachedResponseRecord | undefined> => {
+  if (!isStorageAvailable()) return undefined;
+
+  const db = await getReadyDatabase();
+  const tx = db.transaction(RESPONSE_CACHE_STORE, 'readonly');
+  return requestToPromise<CachedResponseRecord | undefined>(tx.objectStore(RESPONSE_CACHE_STORE).get(key));
+};
+
+export const writeCachedResponse = async (record: CachedResponseRecord): Promise<void> => {
+  if (!isStorageAvailable()) return;
+
+  const db = await getReadyDatabase();
+  const tx = db.transaction(RESPONSE_CACHE_STORE, 'readwrite');
+  tx.objectStore(RESPONSE_CACHE_STORE).put(record);
+  await transactionDone(tx);
+};
+
+export const clearCachedResponses = async (): Promise<void> => {
+  if (!isStorageAvailable()) return;
+
+  const db = await getReadyDatabase();
+  const tx = db.transaction(RESPONSE_CACHE_STORE, 'readwrite');
+  tx.objectStore(RESPONSE_CACHE_STORE).clear();
+  await transactionDone(tx);
+};
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { buildXlsxWorkbook } from './xlsxService';
+
+// Reads the entries of a stored (uncompressed) ZIP by walking its local headers.
+const readStoredZip = (bytes: Uint8Array): Map<string, string> => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const decoder = new TextDecoder();
+  const files = new Map<string, string>();
+  let offset = 0;
+  while (view.getUint32(offset, true) === 0x04034b50) {
+    const size = view.getUint32(offset + 18, true);
+    const nameLength = view.getUint16(offset + 26, true);
+    const dataStart = offset + 30 + nameLength;
+    files.set(
+      decoder.decode(bytes.subarray(offset + 30, dataStart)),
+      decoder.decode(bytes.subarray(dataStart, dataStart + size))
+    );
+    offset = dataStart + size;
+  }
+  return files;
+};
+
+describe('buildXlsxWorkbook', () => {
+  it('packs the workbook parts into a ZIP with an end record', () => {
+    const bytes = buildXlsxWorkbook([['Name']]);
+    expect([...readStoredZip(bytes).keys()]).toEqual([
+      '[Content_Types].xml',
+      '_rels/.rels',
+      'xl/workbook.xml',
+      'xl/_rels/workbook.xml.rels',
+      'xl/styles.xml',
+      'xl/worksheets/sheet1.xml'
+    ]);
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    expect(view.getUint32(bytes.length - 22, true)).toBe(0x06054b50);
+    expect(view.getUint16(bytes.length - 12, true)).toBe(6);
+  });
+
+  it('writes a bold header, numbers as values and text as inline strings', () => {
+    const sheet = readStoredZip(buildXlsxWorkbook([
+      ['Name', 'Score'],
+      ['José <García> & co', 87],
+      [null, '=1+1']
+    ])).get('xl/worksheets/sheet1.xml');
+
+    expect(sheet).toContain('<c r="A1" s="1" t="inlineStr"><is><t xml:space="preserve">Name</t></is></c>');
+    expect(sheet).toContain('<t xml:space="preserve">José &lt;García&gt; &amp; co</t>');
+    expect(sheet).toContain('<c r="B2"><v>87</v></c>');
+    // Inline strings are never evaluated, so formulas stay plain text.
+    expect(sheet).toContain('<row r="3"><c r="B3" t="inlineStr"><is><t xml:space="preserve">=1+1</t></is></c></row>');
+  });
+
+  it('names columns past Z and cleans the sheet name', () => {
+    const row = Array.from({ length: 28 }, (_, index) => index);
+    const files = readStoredZip(buildXlsxWorkbook([row], 'Fall [2026]: shortlist/final'));
+    expect(files.get('xl/worksheets/sheet1.xml')).toContain('<c r="AB1" s="1"><v>27</v></c>');
+    expect(files.get('xl/workbook.xml')).toContain('<sheet name="Fall  2026   shortlist final"');
+  });
+
+  it('drops control characters that XML does not allow', () => {
+    const sheet = readStoredZip(buildXlsxWorkbook([['a\u0001b\tc']])).get('xl/worksheets/sheet1.xml');
+    expect(sheet).toContain('>ab\tc</t>');
+  });
+});
@@ -0,0 +1,204 @@
+import { CsvCell } from './csvService';
+
+/**
+ * Minimal single-sheet XLSX writer. Cells are written as inline strings or
+ * numbers inside an uncompressed ZIP container, which Excel, Numbers and
+ * LibreOffice all open without a shared-strings table.
+ */
+
+// Excel rejects cells longer than this.
+const MAX_CELL_LENGTH = 32767;
+
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = CRC32_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const escapeXml = (text: string): string =>
+  text
+    // Control characters are not allowed in XML 1.0 documents.
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const getColumnName = (index: number): string => {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+};
+
+const buildCellXml = (value: CsvCell, ref: string, isHeader: boolean): string => {
+  if (value === null || value === undefined || value === '') return '';
+  const style = isHeader ? ' s="1"' : '';
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return `<c r="${ref}"${style}><v>${value}</v></c>`;
+  }
+  const text = escapeXml(String(value).slice(0, MAX_CELL_LENGTH));
+  return `<c r="${ref}"${style} t="inlineStr"><is><t xml:space="preserve">${text}</t></is></c>`;
+};
+
+const buildSheetXml = (rows: CsvCell[][]): string => {
+  const rowXml = rows.map((row, rowIndex) => {
+    const cells = row
+      .map((value, columnIndex) => buildCellXml(value, `${getColumnName(columnIndex)}${rowIndex + 1}`, rowIndex === 0))
+      .join('');
+    return `<row r="${rowIndex + 1}">${cells}</row>`;
+  }).join('');
+
+  return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+    + '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+    + '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>'
+    + `<sheetData>${rowXml}</sheetData>`
+    + '</worksheet>';
+};
+
+const CONTENT_TYPES_XML = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+  + '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">'
+  + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+  + '<Default Extension="xml" ContentType="application/xml"/>'
+  + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+  + '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>'
+  + '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>'
+  + '</Types>';
+
+const ROOT_RELS_XML = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+  + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+  + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>'
+  + '</Relationships>';
+
+const WORKBOOK_RELS_XML = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+  + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+  + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>'
+  + '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>'
+  + '</Relationships>';
+
+// Style 1 is the bold header row.
+const STYLES_XML = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+  + '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+  + '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>'
+  + '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>'
+  + '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>'
+  + '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>'
+  + '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>'
+  + '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>'
+  + '</styleSheet>';
+
+const buildWorkbookXml = (sheetName: string): string =>
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+  + '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" '
+  + 'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">'
+  + `<sheets><sheet name="${escapeXml(sheetName)}" sheetId="1" r:id="rId1"/></sheets>`
+  + '</workbook>';
+
+/** Sheet names are limited to 31 characters and may not contain []:*?/\ */
+const sanitizeSheetName = (name: string): string =>
+  name.replace(/[[\]:*?/\\]/g, ' ').trim().slice(0, 31) || 'Sheet1';
+
+const toDosDateTime = (date: Date): { time: number; date: number } => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+});
+
+interface ZipEntry {
+  name: Uint8Array;
+  data: Uint8Array;
+  crc: number;
+  offset: number;
+}
+
+/** Builds a ZIP archive with every entry stored (no compression). */
+const buildStoredZip = (files: Array<{ path: string; content: string }>): Uint8Array => {
+  const encoder = new TextEncoder();
+  const stamp = toDosDateTime(new Date());
+  const entries: ZipEntry[] = [];
+  const chunks: Uint8Array[] = [];
+  let offset = 0;
+
+  files.forEach(file => {
+    const name = encoder.encode(file.path);
+    const data = encoder.encode(file.content);
+    const entry: ZipEntry = { name, data, crc: crc32(data), offset };
+
+    const header = new DataView(new ArrayBuffer(30));
+    header.setUint32(0, 0x04034b50, true);
+    header.setUint16(4, 20, true);
+    header.setUint16(6, 0x0800, true); // UTF-8 file names
+    header.setUint16(8, 0, true);
+    header.setUint16(10, stamp.time, true);
+    header.setUint16(12, stamp.date, true);
+    header.setUint32(14, entry.crc, true);
+    header.setUint32(18, data.length, true);
+    header.setUint32(22, data.length, true);
+    header.setUint16(26, name.length, true);
+    header.setUint16(28, 0, true);
+
+    chunks.push(new Uint8Array(header.buffer), name, data);
+    offset += 30 + name.length + data.length;
+    entries.push(entry);
+  });
+
+  const centralDirectoryOffset = offset;
+  entries.forEach(entry => {
+    const record = new DataView(new ArrayBuffer(46));
+    record.setUint32(0, 0x02014b50, true);
+    record.setUint16(4, 20, true);
+    record.setUint16(6, 20, true);
+    record.setUint16(8, 0x0800, true);
+    record.setUint16(10, 0, true);
+    record.setUint16(12, stamp.time, true);
+    record.setUint16(14, stamp.date, true);
+    record.setUint32(16, entry.crc, true);
+    record.setUint32(20, entry.data.length, true);
+    record.setUint32(24, entry.data.length, true);
+    record.setUint16(28, entry.name.length, true);
+    record.setUint32(42, entry.offset, true);
+
+    chunks.push(new Uint8Array(record.buffer), entry.name);
+    offset += 46 + entry.name.length;
+  });
+
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, offset - centralDirectoryOffset, true);
+  end.setUint32(16, centralDirectoryOffset, true);
+  chunks.push(new Uint8Array(end.buffer));
+
+  const output = new Uint8Array(offset + 22);
+  let position = 0;
+  chunks.forEach(chunk => {
+    output.set(chunk, position);
+    position += chunk.length;
+  });
+  return output;
+};
+
+/**
+ * Builds an .xlsx workbook with one sheet. The first row is rendered bold
+ * and frozen as the header.
+ */
+export const buildXlsxWorkbook = (rows: CsvCell[][], sheetName = 'Sheet1'): Uint8Array =>
+  buildStoredZip([
+    { path: '[Content_Types].xml', content: CONTENT_TYPES_XML },
+    { path: '_rels/.rels', content: ROOT_RELS_XML },
+    { path: 'xl/workbook.xml', content: buildWorkbookXml(sanitizeSheetName(sheetName)) },
+    { path: 'xl/_rels/workbook.xml.rels', content: WORKBOOK_RELS_XML },
+    { path: 'xl/styles.xml', content: STYLES_XML },
+    { path: 'xl/worksheets/sheet1.xml', content: buildSheetXml(rows) }
+  ]);
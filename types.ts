@@ -6,14 +6,52 @@ export enum AnalysisStatus {
   ERROR = 'ERROR'
 }
 
+export interface SupportingPaper {
+  title: string;
+  year?: string;
+  citations?: number;
+  /** Whether the title was found in the fetched publications; unset for analyses made before verification existed. */
+  verified?: boolean;
+}
+
 export interface KeywordEvidence {
   keyword: string;
   reasoning: string;
-  supportingPapers: Array<{
-    title: string;
-    year?: string;
-    citations?: number;
-  }>;
+  supportingPapers: SupportingPaper[];
+}
+
+export type VerdictConfidence = 'high' | 'medium' | 'low';
+
+/** The model's verdict on one user interest, with the papers it rests on. */
+export interface InterestVerdict {
+  interest: string;
+  matched: boolean;
+  confidence: VerdictConfidence;
+  justification: string;
+  supportingPapers: SupportingPaper[];
+  /** Newest year among the verified supporting papers. */
+  latestYear?: number;
+  /** How much the evidence counts under the recency half-life, from 0 to 1. */
+  recencyWeight?: number;
+  /** Matched, but only on papers older than two half-lives. */
+  isHistorical?: boolean;
+}
+
+/** Closest publication title to one interest in embedding space. */
+export interface InterestAlignment {
+  interest: string;
+  /** Cosine similarity of the interest and its closest title. */
+  similarity: number;
+  closestTitle?: string;
+}
+
+/** Embedding-based signal computed alongside the model's verdicts. */
+export interface EmbeddingAlignment {
+  /** Mean of the per-interest similarities, scaled to 0-100. */
+  score: number;
+  /** The embedding model used; scores from different models are not comparable. */
+  model: string;
+  interests: InterestAlignment[];
 }
 
 export enum MatchType {
@@ -24,11 +62,39 @@ export enum MatchType {
   HIGH = 'HIGH'        // >= 80% matches, but < 100%
 }
 
+export interface CitationMetricPair {
+  all: number;
+  /** Value for the rolling window that starts at `CitationMetrics.sinceYear`. */
+  recent?: number;
+}
+
+export interface CitationMetrics {
+  citations: CitationMetricPair;
+  hIndex: CitationMetricPair;
+  i10Index: CitationMetricPair;
+  sinceYear?: number;
+  /** Citations received per year, oldest first. */
+  yearly: Array<{ year: number; citations: number }>;
+}
+
+/** A Scholar article kept on the researcher so the publication list can be browsed after analysis. */
+export interface ResearcherPublication {
+  title: string;
+  authors?: string;
+  year?: string;
+  venue?: string;
+  citations?: number;
+  citationId?: string;
+}
+
 export enum EmailStatus {
   NOT_SENT = 'NOT_SENT',
   SENT = 'SENT'
 }
 
+/** Seniority bucket derived from the academic title. */
+export type AcademicRank = 'full' | 'associate' | 'assistant' | 'emeritus' | 'research' | 'lecturer' | 'other';
+
 export interface Researcher {
   id: string;
   name: string;
@@ -44,9 +110,101 @@ export interface Researcher {
   matchType?: MatchType;
   matchReason?: string;
   matchedInterests?: string[];
+  excludedInterests?: string[]; // Excluded interests the publications address
+  matchScore?: number; // Weighted share of the wanted interests that matched, 0-100
+  interestVerdicts?: InterestVerdict[]; // One per user interest, in the user's order
+  embeddingAlignment?: EmbeddingAlignment;
   isFavorite?: boolean;
   customizedLetter?: string;
   emailStatus?: EmailStatus;
+  publicationsFetchedAt?: number; // When the Scholar data behind the analysis was fetched (ms epoch)
+  scoredInterests?: string; // The interests field the match fields were computed against
+  citationMetrics?: CitationMetrics;
+  publications?: ResearcherPublication[];
+  analysisError?: string; // Why the last analysis failed, shown on the card while status is ERROR
+  discoveredVia?: string; // How a suggested professor was found, e.g. "co-author of X on 4 papers"
+  academicTitle?: string; // As written in the source, e.g. "Associate Professor of Bioengineering"
+  rank?: AcademicRank;
+  department?: string;
+  rosterEmail?: string; // Email given in the pasted text or imported roster; skips the homepage lookup
+  rosterHomepageUrl?: string; // Homepage given in the pasted text or imported roster
+  notDuplicateOf?: string[]; // Researcher ids the user marked as a different person in the duplicate review
+}
+
+export type InterestRequirement = 'must-have' | 'exclude';
+
+export interface InterestPreference {
+  /** Relative importance in the weighted match score; 1 is the default. */
+  weight: number;
+  /** A missing must-have caps the tier at LOW; any matched exclusion makes it NONE. */
+  requirement?: InterestRequirement;
+}
+
+/** Preferences keyed by lower-cased interest; interests without an entry count with weight 1. */
+export type InterestPreferences = Record<string, InterestPreference>;
+
+export interface RecencySettings {
+  /** Years after which a paper counts half as much as a current one; 0 weighs all years equally. */
+  halfLifeYears: number;
+}
+
+/** Everything besides the model's verdicts that decides a match tier. */
+export interface InterestScoringOptions {
+  preferences?: InterestPreferences;
+  recencyHalfLifeYears?: number;
+}
+
+export interface Campaign {
+  id: string;
+  name: string;
+  userInterests: string;
+  interestPreferences?: InterestPreferences;
+  letterTemplate: string;
+  emailTitle: string;
+  university: string;
+  isArchived?: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface LetterAiSettings {
+  model: string;
+  temperature: number | '';
+  topP: number | '';
+  topK: number | '';
+  maxOutputTokens: number | '';
+  generationPromptTemplate: string;
+  revisionPromptTemplate: string;
+}
+
+export interface ResponseCacheSettings {
+  /** How long cached Scholar and homepage responses are reused; 0 disables the cache. */
+  ttlDays: number;
+}
+
+export interface ScholarFetchSettings {
+  /** Articles to collect per sort order, fetched in pages of up to 100. */
+  maxArticles: number;
+  /** Also fetch the most-cited papers so landmark work is considered, not only recent output. */
+  includeMostCited: boolean;
+}
+
+export type LlmProviderId = 'gemini' | 'openai-compatible';
+
+/** Pipeline steps that call a language model; each can use its own provider and model. */
+export type LlmTask = 'extraction' | 'analysis' | 'letter' | 'emailExtraction' | 'embedding';
+
+export interface LlmTaskSettings {
+  provider: LlmProviderId;
+  model: string;
+}
+
+export interface LlmSettings {
+  tasks: Record<LlmTask, LlmTaskSettings>;
+  openAiCompatible: {
+    baseUrl: string;
+    apiKey: string;
+  };
 }
 
 export interface AnalysisResult {
@@ -56,4 +214,14 @@ export interface AnalysisResult {
   matchType?: MatchType;
   matchReason?: string;
   matchedInterests?: string[];
+  excludedInterests?: string[];
+  matchScore?: number;
+  interestVerdicts?: InterestVerdict[];
+  embeddingAlignment?: EmbeddingAlignment;
 }
+
+/** The interest-matching part of an analysis, which can be recomputed on its own. */
+export type InterestMatchResult = Pick<
+  AnalysisResult,
+  'isMatch' | 'matchType' | 'matchReason' | 'matchedInterests' | 'excludedInterests' | 'matchScore' | 'interestVerdicts' | 'embeddingAlignment'
+>;
@@ -3,6 +3,10 @@
 interface ImportMetaEnv {
   readonly VITE_GEMINI_API_KEY: string;
   readonly VITE_SERP_API_KEY: string;
+  readonly VITE_OPENAI_COMPATIBLE_BASE_URL?: string;
+  readonly VITE_API_BASE_URL?: string;
+  readonly VITE_API_TOKEN?: string;
+  readonly VITE_FIXTURE_MODE?: 'off' | 'record' | 'replay' | 'demo';
 }
 
 interface ImportMeta {
@@ -1,6 +1,7 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { fixturePlugin } from './plugins/fixturePlugin';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
@@ -15,9 +16,9 @@ export default defineConfig(({ mode }) => {
             rewrite: (path) => path.replace(/^\/api\/serpapi/, '/search.json'),
             configure: (proxy, options) => {
               proxy.on('proxyReq', (proxyReq, req, res) => {
-                // Add API key to proxied requests
+                // Add API key to proxied requests (dev only; it never reaches the bundle)
                 const url = new URL(req.url || '', `http://${req.headers.host}`);
-                url.searchParams.set('api_key', env.VITE_SERP_API_KEY || '');
+                url.searchParams.set('api_key', env.SERP_API_KEY || env.VITE_SERP_API_KEY || '');
                 proxyReq.path = url.pathname + url.search;
               });
             }
@@ -29,12 +30,12 @@ export default defineConfig(({ mode }) => {
           }
         }
       },
-      plugins: [react()],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.VITE_GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.VITE_GEMINI_API_KEY),
-        'process.env.SERP_API_KEY': JSON.stringify(env.VITE_SERP_API_KEY)
-      },
+      plugins: [
+        react(),
+        ...(['record', 'replay', 'demo'].includes(env.VITE_FIXTURE_MODE)
+          ? [fixturePlugin({ dir: path.resolve(__dirname, 'fixtures'), allowWrite: env.VITE_FIXTURE_MODE === 'record' })]
+          : [])
+      ],
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),